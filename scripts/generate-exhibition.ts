@@ -17,7 +17,7 @@ async function main(): Promise<void> {
     maxTurns: 20,
     rounds: 1,
     scenarioKey: "heist",
-    agentKeys: ["noop", "noop", "noop"],
+    agentKeys: ["heistPlanner", "heistPlanner", "noop"],
     includeEventLogs: true,
     modeProfile: "exhibition",
   };
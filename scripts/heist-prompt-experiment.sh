@@ -4,19 +4,24 @@ set -euo pipefail
 # Requires: jq (apt install jq / brew install jq)
 # Recommended: run 10-20 rounds minimum for stable deltas (LLM has sampling stochasticity)
 
-# Workflow:
-# 1. On main:    HASHMATCH_ALLOW_TOOLS=1 bash scripts/heist-prompt-experiment.sh run 9001 10
-#    Note the output path.
-# 2. Switch:     git switch prompt/heist-strategy-fm17-ab-harness
-# 3. On branch:  HASHMATCH_ALLOW_TOOLS=1 bash scripts/heist-prompt-experiment.sh run 9001 10
-#    Note the output path.
-# 4. Compare:    bash scripts/heist-prompt-experiment.sh compare /tmp/.../baseline /tmp/.../strategy
+# A/B test two prompt templates from prompts/heist/ on the same seeds:
+#   HASHMATCH_ALLOW_TOOLS=1 bash scripts/heist-prompt-experiment.sh ab heist-v1 heist-v2 9001 10
+#
+# Or run one arm at a time and compare the output directories later:
+#   bash scripts/heist-prompt-experiment.sh run 9001 10 heist-v1
+#   bash scripts/heist-prompt-experiment.sh run 9001 10 heist-v2
+#   bash scripts/heist-prompt-experiment.sh compare /tmp/.../heist-v1 /tmp/.../heist-v2
+#
+# Each arm's prompt hash is read back from its match manifests, so a compare
+# of two arms that saw the same prompt is flagged. Set LLM_AGENT to test
+# another model, e.g. LLM_AGENT=llm:mock:valid for an offline dry run.
 
-LLM_AGENT_KEY="llm:ollama:qwen2.5-coder:7b"
+LLM_AGENT_KEY="${LLM_AGENT:-llm:ollama:qwen2.5-coder:7b}"
 
 usage() {
-  echo "Usage: scripts/heist-prompt-experiment.sh run [seed] [rounds]"
-  echo "       scripts/heist-prompt-experiment.sh compare <baseline-dir> <strategy-dir>"
+  echo "Usage: scripts/heist-prompt-experiment.sh ab <prompt-a> <prompt-b> [seed] [rounds]"
+  echo "       scripts/heist-prompt-experiment.sh run [seed] [rounds] [prompt]"
+  echo "       scripts/heist-prompt-experiment.sh compare <dir-a> <dir-b>"
 }
 
 mean_from_list() {
@@ -96,6 +101,20 @@ extract_metric_lines() {
   done
 }
 
+prompt_of_dir() {
+  local dir="$1"
+  local manifest
+  manifest=$(find "$dir" -type f -path "*/matches/*/match_manifest.json" | sort | head -n 1)
+  if [[ -z "$manifest" ]]; then
+    echo "-|-"
+    return
+  fi
+  jq -r --arg llm "$LLM_AGENT_KEY" '
+    (.agents | map(select(.id | test($llm))) | .[0].metadata // {})
+    | "\(.promptTemplate // "-")|\(.promptSha256 // "-")"
+  ' "$manifest"
+}
+
 summarize_dir() {
   local dir="$1"
   local label="$2"
@@ -105,7 +124,11 @@ summarize_dir() {
   local metrics
   metrics=$(echo "$lines" | tail -n +1 | awk -F'|' 'NF==6 {print}')
 
+  local prompt_template prompt_sha
+  IFS='|' read -r prompt_template prompt_sha <<< "$(prompt_of_dir "$dir")"
+
   echo "[$label]"
+  echo "Prompt: $prompt_template ($prompt_sha)"
   echo "$lines" | awk -F"|" 'NF!=6 {print}' || true
 
   local total
@@ -149,26 +172,34 @@ summarize_dir() {
   echo "  Mean turns to first pickup: $mean_turns_to_first_pickup"
   echo "  Mean unique rooms: $mean_unique_rooms"
 
-  echo "SUMMARY|$label|$total|$extracted_matches|$extraction_rate|$mean_score|$total_invalid|$mean_turns_to_extract|$mean_turns_to_first_pickup|$mean_unique_rooms"
+  echo "SUMMARY|$label|$total|$extracted_matches|$extraction_rate|$mean_score|$total_invalid|$mean_turns_to_extract|$mean_turns_to_first_pickup|$mean_unique_rooms|$prompt_sha"
 }
 
 run_mode() {
   local seed="${1:-9001}"
   local rounds="${2:-10}"
-  local stamp
-  stamp=$(date +%Y%m%d-%H%M%S)
-  local out_dir="/tmp/hm-prompt-experiment-${stamp}-seed${seed}-r${rounds}"
+  local prompt="${3:-}"
+  local out_dir="${4:-}"
+  local agent_key="$LLM_AGENT_KEY"
+  if [[ -n "$prompt" ]]; then
+    agent_key="${LLM_AGENT_KEY}@prompt=${prompt}"
+  fi
+  if [[ -z "$out_dir" ]]; then
+    local stamp
+    stamp=$(date +%Y%m%d-%H%M%S)
+    out_dir="/tmp/hm-prompt-experiment-${stamp}-seed${seed}-r${rounds}/${prompt:-default}"
+  fi
 
   echo "Running tournament -> $out_dir"
   npm run tournament -- \
     --seed "$seed" \
     --rounds "$rounds" \
     --scenario heist \
-    --agents "${LLM_AGENT_KEY},noop" \
+    --agents "${agent_key},noop" \
     --maxTurns 20 \
     --outDir "$out_dir"
 
-  summarize_dir "$out_dir" "run"
+  summarize_dir "$out_dir" "${prompt:-default}"
   echo "Output directory: $out_dir"
 }
 
@@ -184,13 +215,19 @@ num_or_zero() {
 compare_mode() {
   local baseline_dir="$1"
   local strategy_dir="$2"
+  local baseline_label="${3:-A}"
+  local strategy_label="${4:-B}"
 
   local b_summary s_summary
-  b_summary=$(summarize_dir "$baseline_dir" "baseline" | tee /tmp/hm-baseline-summary.$$ | tail -n 1)
-  s_summary=$(summarize_dir "$strategy_dir" "strategy" | tee /tmp/hm-strategy-summary.$$ | tail -n 1)
+  b_summary=$(summarize_dir "$baseline_dir" "$baseline_label" | tee /dev/stderr | tail -n 1)
+  s_summary=$(summarize_dir "$strategy_dir" "$strategy_label" | tee /dev/stderr | tail -n 1)
 
-  IFS='|' read -r _ _ b_total b_extracted b_rate b_mean_score b_invalid b_tte b_ttfp b_unique <<< "$b_summary"
-  IFS='|' read -r _ _ s_total s_extracted s_rate s_mean_score s_invalid s_tte s_ttfp s_unique <<< "$s_summary"
+  IFS='|' read -r _ _ b_total b_extracted b_rate b_mean_score b_invalid b_tte b_ttfp b_unique b_prompt <<< "$b_summary"
+  IFS='|' read -r _ _ s_total s_extracted s_rate s_mean_score s_invalid s_tte s_ttfp s_unique s_prompt <<< "$s_summary"
+
+  if [[ "$b_prompt" != "-" && "$b_prompt" == "$s_prompt" ]]; then
+    echo "Warning: both arms used the same prompt ($b_prompt); deltas are sampling noise."
+  fi
 
   local d_rate d_score d_invalid d_tte d_ttfp d_unique
   d_rate=$(awk -v s="$(num_or_zero "$s_rate")" -v b="$(num_or_zero "$b_rate")" 'BEGIN{printf "%.3f", s-b}')
@@ -200,22 +237,42 @@ compare_mode() {
   d_ttfp=$(awk -v s="$(num_or_zero "$s_ttfp")" -v b="$(num_or_zero "$b_ttfp")" 'BEGIN{printf "%.3f", s-b}')
   d_unique=$(awk -v s="$(num_or_zero "$s_unique")" -v b="$(num_or_zero "$b_unique")" 'BEGIN{printf "%.3f", s-b}')
 
-  echo "Delta [strategy - baseline]:"
+  echo "Delta [$strategy_label - $baseline_label]:"
   echo "  Extraction rate delta: $d_rate"
   echo "  Mean score delta: $d_score"
   echo "  Total invalid actions delta: $d_invalid"
   echo "  Mean turns-to-extract delta: $d_tte"
   echo "  Mean turns-to-first-pickup delta: $d_ttfp"
   echo "  Mean unique rooms delta: $d_unique"
+}
+
+ab_mode() {
+  local prompt_a="$1"
+  local prompt_b="$2"
+  local seed="${3:-9001}"
+  local rounds="${4:-10}"
+  local stamp
+  stamp=$(date +%Y%m%d-%H%M%S)
+  local root="/tmp/hm-prompt-ab-${stamp}-seed${seed}-r${rounds}"
 
-  rm -f /tmp/hm-baseline-summary.$$ /tmp/hm-strategy-summary.$$
+  run_mode "$seed" "$rounds" "$prompt_a" "$root/$prompt_a"
+  run_mode "$seed" "$rounds" "$prompt_b" "$root/$prompt_b"
+  compare_mode "$root/$prompt_a" "$root/$prompt_b" "$prompt_a" "$prompt_b"
+  echo "Output directory: $root"
 }
 
 main() {
   local mode="${1:-}"
   case "$mode" in
+    ab)
+      if [[ $# -lt 3 ]]; then
+        usage
+        exit 1
+      fi
+      ab_mode "$2" "$3" "${4:-9001}" "${5:-10}"
+      ;;
     run)
-      run_mode "${2:-9001}" "${3:-10}"
+      run_mode "${2:-9001}" "${3:-10}" "${4:-}"
       ;;
     compare)
       if [[ $# -lt 3 ]]; then
@@ -50,5 +50,13 @@ export function createBaselineAgent(id: AgentId): Agent<NumberGuessObservation,
       const guess = Math.floor((low + high) / 2);
       return { guess };
     },
+    snapshot() {
+      return { low, high };
+    },
+    restore(snapshot) {
+      const saved = snapshot as { low: number; high: number };
+      low = saved.low;
+      high = saved.high;
+    },
   };
 }
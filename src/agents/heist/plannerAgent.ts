@@ -0,0 +1,183 @@
+import type { Agent, AgentConfig, AgentContext } from "../../contract/interfaces.js";
+import type { AgentId } from "../../contract/types.js";
+import type { HeistDoor, HeistItem } from "../../games/heist/types.js";
+import {
+  buildRoomGraph,
+  findShortestPathWithInventory,
+  type RoomGraph,
+} from "../../games/heist/validation.js";
+import type { HeistAction, HeistObservation } from "../../scenarios/heist/index.js";
+
+/** Tool types that open locked doors (see `TOOL_EFFECTS` in the scenario). */
+const DOOR_OPENERS = new Set(["lockpick", "drill"]);
+
+// Scripted deterministic agent — no LLM call. A heuristic opponent so Heist
+// tournaments can run without a model server.
+// Tagged purpose:"test" in the tournament registry; non-publishable.
+/**
+ * Greedy planner for Heist. Plans over the full map in `_private` with a
+ * breadth-first search that respects locked doors, and each turn takes the
+ * first of:
+ *
+ * 1. pick up an item in the room;
+ * 2. hack a terminal in the room that grants something it lacks;
+ * 3. head for the nearest reachable loot;
+ * 4. with loot in hand (or none left), head for extraction and extract;
+ * 5. head for the nearest keycard, tool or useful terminal;
+ * 6. open an adjacent locked door with a tool;
+ * 7. wait.
+ *
+ * It remembers items it found gone (and items its crew holds) so it does not
+ * chase them, and doors it has seen forced open so it plans through them. It
+ * ignores guards and noise.
+ */
+export function createHeistPlannerAgent(id: AgentId): Agent<HeistObservation, HeistAction> {
+  let missingItems = new Set<string>();
+  let openedDoors = new Set<string>();
+
+  return {
+    id,
+    init(_config: AgentConfig): void {
+      missingItems = new Set();
+      openedDoors = new Set();
+    },
+    act(observation: HeistObservation, _ctx: AgentContext): HeistAction {
+      const privateObs = observation?._private;
+      if (!privateObs?.map || !Array.isArray(privateObs.items)) {
+        return { type: "wait" };
+      }
+      const here = observation.currentRoomId;
+      const inventory = new Set((observation.inventory ?? []).map((entry) => entry.itemId));
+      const visibleItemIds = new Set((observation.visibleItems ?? []).map((item) => item.id));
+
+      // Items that started here but are gone were taken by someone else.
+      for (const item of privateObs.items) {
+        if ("roomId" in item && item.roomId === here && !visibleItemIds.has(item.id)) {
+          missingItems.add(item.id);
+        }
+      }
+      for (const member of observation._team?.crew ?? []) {
+        member.inventory.forEach((itemId) => missingItems.add(itemId));
+      }
+      // A door the map calls locked but that no longer is has been opened.
+      const mapDoors = new Map(privateObs.map.doors.map((door) => [door.id, door]));
+      for (const room of observation.adjacentRooms ?? []) {
+        if (mapDoors.get(room.doorId)?.locked && !room.locked) {
+          openedDoors.add(room.doorId);
+        }
+      }
+
+      // 1. Anything lying here is worth a turn: loot scores, keys open doors.
+      const [visibleItem] = observation.visibleItems ?? [];
+      if (visibleItem) {
+        return { type: "pickup", itemId: visibleItem.id };
+      }
+
+      // 2. Hack terminals here that still grant something.
+      const usefulTerminals = (privateObs.entities ?? []).filter(
+        (entity) =>
+          entity.type === "terminal" &&
+          (entity.successGrants ?? []).some((grant) => !inventory.has(grant)),
+      );
+      const terminalHere = usefulTerminals.find(
+        (entity) => entity.type === "terminal" && entity.roomId === here,
+      );
+      if (terminalHere) {
+        return { type: "use_terminal", terminalId: terminalHere.id };
+      }
+
+      const graph = buildRoomGraph(privateObs.map.rooms, privateObs.map.doors);
+      const doorsById = new Map<string, HeistDoor>(
+        privateObs.map.doors.map((door) => [
+          door.id,
+          openedDoors.has(door.id) ? { id: door.id, roomA: door.roomA, roomB: door.roomB } : door,
+        ]),
+      );
+      const route = (rooms: string[]) => nearestRoute(graph, doorsById, inventory, here, rooms);
+      const uncollected = (type: HeistItem["type"]) =>
+        privateObs.items.filter(
+          (item): item is Extract<HeistItem, { roomId: string }> =>
+            item.type === type &&
+            "roomId" in item &&
+            !inventory.has(item.id) &&
+            !missingItems.has(item.id),
+        );
+
+      // 3. Loot.
+      const lootLeft = uncollected("loot");
+      const toLoot = route(lootLeft.map((item) => item.roomId));
+      if (toLoot) {
+        return { type: "move", toRoomId: toLoot[1] };
+      }
+
+      // 4. Extraction, once carrying loot or when there is none left to find.
+      const holdsLoot = (observation.inventory ?? []).some((entry) => entry.type === "loot");
+      if (holdsLoot || lootLeft.length === 0) {
+        if (here === privateObs.extractionRoomId) {
+          return { type: "extract" };
+        }
+        const toExit = route([privateObs.extractionRoomId]);
+        if (toExit) {
+          return { type: "move", toRoomId: toExit[1] };
+        }
+      }
+
+      // 5. Keys, tools and terminals that might open the way.
+      const toUnlock = route([
+        ...uncollected("keycard").map((item) => item.roomId),
+        ...uncollected("tool").map((item) => item.roomId),
+        ...usefulTerminals.flatMap((entity) => ("roomId" in entity ? [entity.roomId] : [])),
+      ]);
+      if (toUnlock) {
+        return { type: "move", toRoomId: toUnlock[1] };
+      }
+
+      // 6. Open a locked door with a tool.
+      const opener = (observation.inventory ?? []).find((entry) =>
+        privateObs.items.some(
+          (item) =>
+            item.id === entry.itemId && item.type === "tool" && DOOR_OPENERS.has(item.toolType),
+        ),
+      );
+      const lockedDoor = (observation.adjacentRooms ?? []).find((room) => !room.passable);
+      if (opener && lockedDoor) {
+        return { type: "use_item", itemId: opener.itemId, targetId: lockedDoor.doorId };
+      }
+
+      return { type: "wait" };
+    },
+    snapshot() {
+      return { missingItems: [...missingItems], openedDoors: [...openedDoors] };
+    },
+    restore(snapshot) {
+      const saved = snapshot as { missingItems: string[]; openedDoors: string[] };
+      missingItems = new Set(saved.missingItems);
+      openedDoors = new Set(saved.openedDoors);
+    },
+  };
+}
+
+/**
+ * The shortest route (rooms, starting with `from`) to whichever of `targets`
+ * is closest and reachable with `inventory`. Ties go to the earlier target.
+ * Standing on a target does not count; null when none can be reached.
+ */
+function nearestRoute(
+  graph: RoomGraph,
+  doorsById: Map<string, HeistDoor>,
+  inventory: Set<string>,
+  from: string,
+  targets: string[],
+): string[] | null {
+  let best: string[] | null = null;
+  for (const target of targets) {
+    if (target === from) {
+      continue;
+    }
+    const result = findShortestPathWithInventory(graph, doorsById, inventory, from, target);
+    if (result && (!best || result.path.length < best.length)) {
+      best = result.path;
+    }
+  }
+  return best;
+}
@@ -1,11 +1,18 @@
 import { z } from "zod";
-import { createNumberGuessScenario } from "../../scenarios/numberGuess/index.js";
-import { createResourceRivalsScenario } from "../../scenarios/resourceRivals/index.js";
-import type { ScenarioAdapter } from "../ollama/createOllamaAgent.js";
+import {
+  createNumberGuessScenario,
+  type NumberGuessObservation,
+} from "../../scenarios/numberGuess/index.js";
+import {
+  createResourceRivalsScenario,
+  type ResourceRivalsObservation,
+} from "../../scenarios/resourceRivals/index.js";
+import type { ScenarioAdapter, ScenarioAdapterBase } from "../ollama/createOllamaAgent.js";
 import { heistAdapter } from "../ollama/heistAdapter.js";
 import { DEFAULT_UNWRAP_PATHS, decodeAgentAction } from "../../core/decodeAgentAction.js";
 import { attachActionForensics } from "../../core/agentActionMetadata.js";
 import { sha256Hex } from "../../core/hash.js";
+import { loadPromptTemplate, type PromptTemplate } from "./prompts.js";
 
 const KNOWN_SCENARIOS = ["heist", "numberGuess", "resourceRivals"] as const;
 type KnownScenarioKey = (typeof KNOWN_SCENARIOS)[number];
@@ -44,9 +51,14 @@ function parseJsonFromText(text: string): Record<string, unknown> | null {
   }
 }
 
-const stubAdapter = (scenarioKey: KnownScenarioKey): ScenarioAdapter => ({
-  systemPrompt: `You are playing a game called "${scenarioNames[scenarioKey]}". Respond with valid JSON actions. If unsure, respond with: {}`,
+/** Template each scenario's agents use unless their key names another (`@prompt=`). */
+export const DEFAULT_PROMPT_TEMPLATES: Record<KnownScenarioKey, string> = {
+  heist: "heist-v1",
+  numberGuess: "numberGuess-v1",
+  resourceRivals: "resourceRivals-v1",
+};
 
+const stubAdapter = (): ScenarioAdapterBase => ({
   formatObservation(observation: unknown): string {
     return JSON.stringify(observation, null, 2);
   },
@@ -80,7 +92,7 @@ const stubAdapter = (scenarioKey: KnownScenarioKey): ScenarioAdapter => ({
   fallbackAction: { type: "noop" },
 });
 
-const adapters: Map<KnownScenarioKey, ScenarioAdapter> = new Map();
+const adapters: Map<KnownScenarioKey, ScenarioAdapterBase> = new Map();
 
 // Full adapter — Heist (already implemented)
 adapters.set("heist", heistAdapter);
@@ -91,10 +103,8 @@ const resourceRivalsActionSchema = z.union([
   z.object({ bid: z.number().int().min(0) }),
   z.object({ type: z.literal("bid"), amount: z.number().int().min(0) }),
 ]);
-const resourceRivalsStub: ScenarioAdapter = {
-  ...stubAdapter("resourceRivals"),
-  systemPrompt:
-    "You are playing ResourceRivals, a bidding game. Each turn you must bid an amount from your remaining resources. Respond with ONLY a JSON object like: {\"type\": \"bid\", \"amount\": 10}. No explanation, no markdown.",
+const resourceRivalsStub: ScenarioAdapterBase = {
+  ...stubAdapter(),
   fallbackAction: resourceRivalsDefaults,
   actionSchema: resourceRivalsActionSchema,
   normalizeAction: (action: unknown) => {
@@ -109,6 +119,14 @@ const resourceRivalsStub: ScenarioAdapter = {
     }
     return { action: { bid: value }, warnings: [] };
   },
+  describeOutcome(observation: unknown): string | null {
+    const last = (observation as Partial<ResourceRivalsObservation>).lastResult;
+    if (!last) {
+      return null;
+    }
+    const verdict = last.winner === null ? "tied" : last.myBid > last.opponentBid ? "won" : "lost";
+    return `Bid ${last.myBid} against ${last.opponentBid} for an objective worth ${last.objectiveValue}: ${verdict}.`;
+  },
   parseResponse(text: string, _observation: unknown, context): Record<string, unknown> {
     const rawText = typeof text === "string" ? text : "";
     const result = decodeAgentAction(rawText, resourceRivalsActionSchema, resourceRivalsDefaults, {
@@ -163,10 +181,8 @@ const numberGuessActionSchema = z.union([
   z.object({ guess: z.number().int() }),
   z.object({ type: z.literal("guess"), value: z.number().int() }),
 ]);
-const numberGuessStub: ScenarioAdapter = {
-  ...stubAdapter("numberGuess"),
-  systemPrompt:
-    "You are playing NumberGuess. Each turn you must guess a number. Respond with ONLY a JSON object like: {\"type\": \"guess\", \"value\": 50}. No explanation, no markdown.",
+const numberGuessStub: ScenarioAdapterBase = {
+  ...stubAdapter(),
   fallbackAction: numberGuessDefaults,
   actionSchema: numberGuessActionSchema,
   normalizeAction: (action: unknown) => {
@@ -181,6 +197,18 @@ const numberGuessStub: ScenarioAdapter = {
     }
     return { action: { guess: value }, warnings: [] };
   },
+  describeOutcome(observation: unknown): string | null {
+    const { feedback, lastGuess } = observation as Partial<NumberGuessObservation>;
+    if (!feedback) {
+      return null;
+    }
+    if (feedback === "invalid") {
+      return "The guess was invalid.";
+    }
+    return feedback === "correct"
+      ? `Guess ${lastGuess} was correct.`
+      : `Guess ${lastGuess} was wrong; the number is ${feedback}.`;
+  },
   parseResponse(text: string, _observation: unknown, context): Record<string, unknown> {
     const rawText = typeof text === "string" ? text : "";
     const result = decodeAgentAction(rawText, numberGuessActionSchema, numberGuessDefaults, {
@@ -233,7 +261,25 @@ adapters.set("numberGuess", numberGuessStub);
 const stubWarnings = new Set<KnownScenarioKey>();
 const stubScenarios = new Set<KnownScenarioKey>(["resourceRivals", "numberGuess"]);
 
-export function getScenarioAdapter(scenario: string): ScenarioAdapter {
+/**
+ * Render a scenario's prompt template (`DEFAULT_PROMPT_TEMPLATES` unless
+ * `templateName` is given). Templates may use `{{scenarioName}}` and
+ * `{{fallbackAction}}`.
+ */
+export function resolveScenarioPrompt(scenario: string, templateName?: string): PromptTemplate {
+  const normalizedScenario = normalizeScenarioKey(scenario);
+  const adapter = adapters.get(normalizedScenario);
+  return loadPromptTemplate(
+    normalizedScenario,
+    templateName ?? DEFAULT_PROMPT_TEMPLATES[normalizedScenario],
+    {
+      scenarioName: scenarioNames[normalizedScenario],
+      fallbackAction: JSON.stringify(adapter?.fallbackAction ?? {}),
+    },
+  );
+}
+
+export function getScenarioAdapter(scenario: string, promptTemplate?: string): ScenarioAdapter {
   const normalizedScenario = normalizeScenarioKey(scenario);
   const adapter = adapters.get(normalizedScenario);
   if (!adapter) {
@@ -241,6 +287,7 @@ export function getScenarioAdapter(scenario: string): ScenarioAdapter {
       `No LLM adapter for scenario "${scenario}". Available: ${KNOWN_SCENARIOS.join(", ")}`,
     );
   }
+  const { text } = resolveScenarioPrompt(normalizedScenario, promptTemplate);
 
   if (stubScenarios.has(normalizedScenario) && !stubWarnings.has(normalizedScenario)) {
     stubWarnings.add(normalizedScenario);
@@ -250,5 +297,5 @@ export function getScenarioAdapter(scenario: string): ScenarioAdapter {
     );
   }
 
-  return adapter;
+  return { ...adapter, systemPrompt: text };
 }
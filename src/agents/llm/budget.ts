@@ -25,7 +25,7 @@ function resolveNumber(value: unknown): number | undefined {
   return normalized;
 }
 
-function readConfigNumber(source: JsonValue | undefined, key: string): number | undefined {
+export function readConfigNumber(source: JsonValue | undefined, key: string): number | undefined {
   if (!source || typeof source !== "object" || Array.isArray(source)) {
     return undefined;
   }
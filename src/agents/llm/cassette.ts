@@ -0,0 +1,135 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { JsonValue } from "../../contract/types.js";
+import { sha256Hex } from "../../core/hash.js";
+import { stableStringify } from "../../core/json.js";
+
+/** Cassette file written next to a match's artifacts in record mode. */
+export const LLM_CASSETTE_FILENAME = "llm_cassette.json";
+
+const LLM_CASSETTE_SCHEMA_VERSION = "1";
+
+/**
+ * `record` makes live calls and stores each response; `replay` serves stored
+ * responses and never touches the network.
+ */
+export type LlmCassetteMode = "record" | "replay";
+
+/** What one call returned, or the error it threw, as recorded. */
+export interface LlmCassetteEntry {
+  result?: JsonValue;
+  error?: string;
+  latencyMs: number;
+}
+
+export interface LlmCassetteFile {
+  schemaVersion: string;
+  /** Request hash → responses in call order (the same request can repeat). */
+  entries: Record<string, LlmCassetteEntry[]>;
+}
+
+/** The request fields that decide a response; everything else is transport. */
+export interface LlmCassetteRequest {
+  kind: "structured" | "text";
+  provider: string;
+  model: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  system: string;
+  prompt: string;
+}
+
+export interface LlmCassette {
+  readonly mode: LlmCassetteMode;
+  readonly path: string;
+  /**
+   * Replay: the next stored response for `request`. Throws
+   * `LlmCassetteMissError` when none is left.
+   */
+  take(request: LlmCassetteRequest): LlmCassetteEntry;
+  /** Record: store a response. It reaches the file on the next `flush`. */
+  put(request: LlmCassetteRequest, entry: LlmCassetteEntry): void;
+  /**
+   * Record: write every stored response to `path`. Call at each match
+   * checkpoint and once the match is over. Replay: does nothing.
+   */
+  flush(): void;
+}
+
+/** Replay found no recorded response for a request, so the match has diverged. */
+export class LlmCassetteMissError extends Error {
+  readonly requestHash: string;
+
+  constructor(path: string, requestHash: string) {
+    super(`No recorded LLM response in ${path} for request ${requestHash}.`);
+    this.name = "LlmCassetteMissError";
+    this.requestHash = requestHash;
+  }
+}
+
+export function hashLlmCassetteRequest(request: LlmCassetteRequest): string {
+  return sha256Hex(Buffer.from(stableStringify(request), "utf-8"));
+}
+
+function readCassetteFile(path: string): LlmCassetteFile {
+  const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<LlmCassetteFile>;
+  if (!parsed || typeof parsed.entries !== "object" || parsed.entries === null) {
+    throw new Error(`Invalid LLM cassette file: ${path}`);
+  }
+  return {
+    schemaVersion: parsed.schemaVersion ?? LLM_CASSETTE_SCHEMA_VERSION,
+    entries: parsed.entries,
+  };
+}
+
+function writeCassetteFile(path: string, file: LlmCassetteFile): void {
+  mkdirSync(dirname(path), { recursive: true });
+  // Plain JSON.stringify: replay must see results with their keys in recorded order.
+  writeFileSync(path, JSON.stringify(file, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Open a cassette file. Replay requires the file. Record empties it, unless
+ * `resume` is set: a resumed run keeps the calls flushed at its checkpoint.
+ */
+export function openLlmCassette(
+  path: string,
+  mode: LlmCassetteMode,
+  options: { resume?: boolean } = {},
+): LlmCassette {
+  if (mode === "replay" && !existsSync(path)) {
+    throw new Error(`LLM cassette not found: ${path}`);
+  }
+  const keepRecorded = mode === "replay" || (options.resume === true && existsSync(path));
+  const file: LlmCassetteFile = keepRecorded
+    ? readCassetteFile(path)
+    : { schemaVersion: LLM_CASSETTE_SCHEMA_VERSION, entries: {} };
+  if (mode === "record") {
+    writeCassetteFile(path, file);
+  }
+  const served = new Map<string, number>();
+
+  return {
+    mode,
+    path,
+    take(request) {
+      const hash = hashLlmCassetteRequest(request);
+      const index = served.get(hash) ?? 0;
+      const entry = file.entries[hash]?.[index];
+      if (!entry) {
+        throw new LlmCassetteMissError(path, hash);
+      }
+      served.set(hash, index + 1);
+      return entry;
+    },
+    put(request, entry) {
+      const hash = hashLlmCassetteRequest(request);
+      (file.entries[hash] ??= []).push(entry);
+    },
+    flush() {
+      if (mode === "record") {
+        writeCassetteFile(path, file);
+      }
+    },
+  };
+}
@@ -2,15 +2,29 @@ import { generateObject, generateText } from "ai";
 import { createOpenAI } from "@ai-sdk/openai";
 import type { LanguageModelUsage } from "ai";
 import type { ZodType } from "zod";
+import type { JsonValue } from "../../contract/types.js";
+import type { LlmCassette, LlmCassetteRequest } from "./cassette.js";
+import type { LlmApiFormat } from "./providers.js";
 import type { LlmProvider } from "./types.js";
 
+/** `anthropic-version` header sent to Anthropic-style endpoints. */
+export const ANTHROPIC_API_VERSION = "2023-06-01";
+
+const DEFAULT_ANTHROPIC_MAX_TOKENS = 1024;
+
 export interface LlmProviderClientConfig {
   provider: LlmProvider;
+  /** Defaults to `openai-chat`. */
+  api?: LlmApiFormat;
   model: string;
   temperature?: number;
   maxOutputTokens?: number;
   baseUrl?: string;
   apiKey?: string;
+  /** Record calls to, or replay them from, a cassette file. */
+  cassette?: LlmCassette;
+  /** Cancels the request in flight, e.g. the match's `ctx.signal`. */
+  abortSignal?: AbortSignal;
 }
 
 export interface LlmStructuredResult<T> {
@@ -18,6 +32,8 @@ export interface LlmStructuredResult<T> {
   usage: LanguageModelUsage | undefined;
   finishReason: string;
   responseBody: unknown;
+  /** Call duration as recorded; set with a cassette so replays report the same figure. */
+  latencyMs?: number;
 }
 
 export interface LlmTextResult {
@@ -25,6 +41,56 @@ export interface LlmTextResult {
   usage: LanguageModelUsage | undefined;
   finishReason: string;
   responseBody: unknown;
+  /** See `LlmStructuredResult.latencyMs`. */
+  latencyMs?: number;
+}
+
+/**
+ * Run `call` through the config's cassette, if any. Replay returns the stored
+ * result (or rethrows the stored error) without calling out; record stores
+ * what the live call produced. Both hand back the JSON form of the result so
+ * a recorded run and its replay log the same bytes.
+ */
+async function throughCassette<T extends { latencyMs?: number }>(
+  config: LlmProviderClientConfig,
+  request: Omit<LlmCassetteRequest, "provider" | "model" | "temperature" | "maxOutputTokens">,
+  call: () => Promise<T>,
+): Promise<T> {
+  const cassette = config.cassette;
+  if (!cassette) {
+    return call();
+  }
+  const key: LlmCassetteRequest = {
+    ...request,
+    provider: config.provider,
+    model: config.model,
+    ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+    ...(config.maxOutputTokens !== undefined ? { maxOutputTokens: config.maxOutputTokens } : {}),
+  };
+  if (cassette.mode === "replay") {
+    const entry = cassette.take(key);
+    if (entry.error !== undefined) {
+      throw new Error(entry.error);
+    }
+    return { ...(entry.result as T), latencyMs: entry.latencyMs };
+  }
+
+  const start = Date.now();
+  let result: T;
+  try {
+    result = await call();
+  } catch (err: unknown) {
+    // A cancelled match says nothing about the model; keep it off the record.
+    if (!config.abortSignal?.aborted) {
+      const error = err instanceof Error ? err.message : String(err);
+      cassette.put(key, { error, latencyMs: Date.now() - start });
+    }
+    throw err;
+  }
+  const latencyMs = Date.now() - start;
+  const stored = JSON.parse(JSON.stringify(result)) as JsonValue;
+  cassette.put(key, { result: stored, latencyMs });
+  return { ...(stored as T), latencyMs };
 }
 
 export function createProviderClient(config: LlmProviderClientConfig) {
@@ -36,7 +102,10 @@ export function createProviderClient(config: LlmProviderClientConfig) {
     apiKey,
     name: providerName,
   });
-  return provider(config.model);
+  // Every `openai-chat` provider speaks Chat Completions. The SDK's default
+  // model targets the Responses API (`/responses`), which Ollama, OpenRouter,
+  // llama.cpp and the mock server do not all serve.
+  return provider.chat(config.model);
 }
 
 export async function generateStructured<T>(
@@ -47,6 +116,24 @@ export async function generateStructured<T>(
     schema: ZodType<T>;
   },
 ): Promise<LlmStructuredResult<T>> {
+  return throughCassette(
+    config,
+    { kind: "structured", system: params.system, prompt: params.prompt },
+    () => callStructured(config, params),
+  );
+}
+
+async function callStructured<T>(
+  config: LlmProviderClientConfig,
+  params: {
+    system: string;
+    prompt: string;
+    schema: ZodType<T>;
+  },
+): Promise<LlmStructuredResult<T>> {
+  if (config.api === "anthropic-messages") {
+    throw new Error(`Provider "${config.provider}" does not support structured output.`);
+  }
   const model = createProviderClient(config);
   const result = await generateObject({
     model,
@@ -55,6 +142,7 @@ export async function generateStructured<T>(
     schema: params.schema,
     ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
     ...(config.maxOutputTokens !== undefined ? { maxOutputTokens: config.maxOutputTokens } : {}),
+    ...(config.abortSignal ? { abortSignal: config.abortSignal } : {}),
   });
   return {
     object: result.object,
@@ -71,6 +159,23 @@ export async function generatePlainText(
     prompt: string;
   },
 ): Promise<LlmTextResult> {
+  return throughCassette(
+    config,
+    { kind: "text", system: params.system, prompt: params.prompt },
+    () => callPlainText(config, params),
+  );
+}
+
+async function callPlainText(
+  config: LlmProviderClientConfig,
+  params: {
+    system: string;
+    prompt: string;
+  },
+): Promise<LlmTextResult> {
+  if (config.api === "anthropic-messages") {
+    return callAnthropicMessages(config, params);
+  }
   const model = createProviderClient(config);
   const result = await generateText({
     model,
@@ -78,6 +183,7 @@ export async function generatePlainText(
     prompt: params.prompt,
     ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
     ...(config.maxOutputTokens !== undefined ? { maxOutputTokens: config.maxOutputTokens } : {}),
+    ...(config.abortSignal ? { abortSignal: config.abortSignal } : {}),
   });
   return {
     text: result.text,
@@ -86,3 +192,63 @@ export async function generatePlainText(
     responseBody: result.response?.body,
   };
 }
+
+interface AnthropicMessagesResponse {
+  content?: Array<{ type?: string; text?: string }>;
+  stop_reason?: string;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/** One call to an Anthropic Messages endpoint (`POST <baseUrl>/messages`). */
+async function callAnthropicMessages(
+  config: LlmProviderClientConfig,
+  params: {
+    system: string;
+    prompt: string;
+  },
+): Promise<LlmTextResult> {
+  const response = await fetch(`${(config.baseUrl ?? "").replace(/\/$/, "")}/messages`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "anthropic-version": ANTHROPIC_API_VERSION,
+      ...(config.apiKey ? { "x-api-key": config.apiKey } : {}),
+    },
+    body: JSON.stringify({
+      model: config.model,
+      system: params.system,
+      messages: [{ role: "user", content: params.prompt }],
+      max_tokens: config.maxOutputTokens || DEFAULT_ANTHROPIC_MAX_TOKENS,
+      ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+    }),
+    ...(config.abortSignal ? { signal: config.abortSignal } : {}),
+  });
+  if (!response.ok) {
+    throw new Error(`${config.provider} messages endpoint returned ${response.status}`);
+  }
+  const body = (await response.json()) as AnthropicMessagesResponse;
+  const text = (body.content ?? [])
+    .filter((block) => block.type === "text")
+    .map((block) => block.text ?? "")
+    .join("");
+  const inputTokens = body.usage?.input_tokens;
+  const outputTokens = body.usage?.output_tokens;
+  return {
+    text,
+    usage: body.usage
+      ? {
+          inputTokens,
+          inputTokenDetails: {
+            noCacheTokens: undefined,
+            cacheReadTokens: undefined,
+            cacheWriteTokens: undefined,
+          },
+          outputTokens,
+          outputTokenDetails: { textTokens: outputTokens, reasoningTokens: undefined },
+          totalTokens: (inputTokens ?? 0) + (outputTokens ?? 0),
+        }
+      : undefined,
+    finishReason: body.stop_reason === "max_tokens" ? "length" : "stop",
+    responseBody: body,
+  };
+}
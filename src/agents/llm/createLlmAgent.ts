@@ -1,5 +1,5 @@
 import type { Agent, AgentConfig, AgentContext } from "../../contract/interfaces.js";
-import type { AgentId } from "../../contract/types.js";
+import type { AgentId, JsonValue } from "../../contract/types.js";
 import { sha256Hex } from "../../core/hash.js";
 import {
   attachActionForensics,
@@ -9,15 +9,33 @@ import {
 import type { ScenarioAdapter } from "../ollama/createOllamaAgent.js";
 import { generatePlainText, generateStructured } from "./client.js";
 import type { LlmBudgetConfig } from "./budget.js";
+import { type LlmCassette, LlmCassetteMissError } from "./cassette.js";
+import {
+  composeLlmPrompt,
+  DEFAULT_LLM_MEMORY,
+  estimateTokens,
+  LLM_REPLY_RESERVE_TOKENS,
+  type LlmMemoryConfig,
+  type LlmMemoryTurn,
+} from "./memory.js";
+import type { LlmApiFormat } from "./providers.js";
 import type { LlmProvider } from "./types.js";
 
 export interface LlmAgentRuntimeConfig {
   provider: LlmProvider;
+  /** Defaults to `openai-chat`. */
+  api?: LlmApiFormat;
+  /** False sends the plain-text request only. Defaults to true. */
+  structuredOutput?: boolean;
   model: string;
   temperature?: number;
   baseUrl?: string;
   apiKey?: string;
   budget: LlmBudgetConfig;
+  /** Defaults to `none` (stateless). */
+  memory?: LlmMemoryConfig;
+  /** Record or replay this agent's calls; see `openLlmCassette`. */
+  cassette?: LlmCassette;
 }
 
 function toUsageMetrics(usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number }):
@@ -67,125 +85,104 @@ export function createLlmAgent(
   config: LlmAgentRuntimeConfig,
   adapter: ScenarioAdapter,
 ): Agent<unknown, Record<string, unknown>> {
+  const memory = config.memory ?? DEFAULT_LLM_MEMORY;
   let callsUsedMatch = 0;
   let tokensUsedMatch = 0;
+  let history: LlmMemoryTurn[] = [];
+  // The observation the latest history entry answered; its successor tells how that went.
+  let lastObservation: JsonValue = null;
 
-  return {
-    id: name as AgentId,
-    init(_config: AgentConfig): void {
-      // Stateless.
-    },
-    async act(observation: unknown, _ctx: AgentContext): Promise<Record<string, unknown>> {
-      const remainingCalls = config.budget.maxCallsPerMatch - callsUsedMatch;
-      const remainingTokens = config.budget.maxTokensPerMatch - tokensUsedMatch;
-      const perTurnTokens = config.budget.maxTokensPerTurn;
-      const maxOutputTokens = Math.max(0, Math.min(perTurnTokens, remainingTokens));
-
-      if (remainingCalls <= 0 || remainingTokens <= 0 || config.budget.maxCallsPerTurn <= 0) {
-        const fallback = { ...adapter.fallbackAction };
-        return attachActionForensics(fallback, {
-          rawText: "",
-          rawSha256: sha256Hex(Buffer.from("", "utf-8")),
-          rawBytes: 0,
-          truncated: false,
-          method: "failed",
-          warnings: ["LLM budget exhausted; fallback action applied."],
-          errors: null,
-          fallbackReason: remainingCalls <= 0 ? "call-budget-exceeded" : "token-budget-exceeded",
-          candidateAction: null,
-          chosenAction: fallback,
-          provider: config.provider,
-          model: config.model,
-          latencyMs: 0,
-          usage: undefined,
-          adjudicationPath: "fallback",
-          budget: buildBudgetTelemetry(
-            config.budget,
-            null,
-            tokensUsedMatch,
-            0,
-            callsUsedMatch,
-            false,
-          ),
-        });
-      }
+  async function decide(
+    observation: unknown,
+    currentPrompt: string,
+    signal: AbortSignal | undefined,
+  ): Promise<Record<string, unknown>> {
+    const remainingCalls = config.budget.maxCallsPerMatch - callsUsedMatch;
+    const remainingTokens = config.budget.maxTokensPerMatch - tokensUsedMatch;
+    const perTurnTokens = config.budget.maxTokensPerTurn;
 
-      const requestConfig = {
+    if (remainingCalls <= 0 || remainingTokens <= 0 || config.budget.maxCallsPerTurn <= 0) {
+      const fallback = { ...adapter.fallbackAction };
+      return attachActionForensics(fallback, {
+        rawText: "",
+        rawSha256: sha256Hex(Buffer.from("", "utf-8")),
+        rawBytes: 0,
+        truncated: false,
+        method: "failed",
+        warnings: ["LLM budget exhausted; fallback action applied."],
+        errors: null,
+        fallbackReason: remainingCalls <= 0 ? "call-budget-exceeded" : "token-budget-exceeded",
+        candidateAction: null,
+        chosenAction: fallback,
         provider: config.provider,
         model: config.model,
-        temperature: config.temperature,
-        maxOutputTokens,
-        baseUrl: config.baseUrl,
-        apiKey: config.apiKey,
-      };
+        latencyMs: 0,
+        usage: undefined,
+        adjudicationPath: "fallback",
+        budget: buildBudgetTelemetry(
+          config.budget,
+          null,
+          tokensUsedMatch,
+          0,
+          callsUsedMatch,
+          false,
+        ),
+      });
+    }
 
-      const system = adapter.systemPrompt;
-      const prompt = adapter.formatObservation(observation);
-      const start = Date.now();
+    // Memory fills the turn's allowance only up to the reply reserve; the reply
+    // gets whatever the prompt leaves, so input plus output stays under the cap.
+    const system = adapter.systemPrompt;
+    const replyReserve = Math.min(perTurnTokens, LLM_REPLY_RESERVE_TOKENS);
+    const prompt = composeLlmPrompt(
+      memory,
+      history,
+      currentPrompt,
+      perTurnTokens - replyReserve - estimateTokens(system) - estimateTokens(currentPrompt),
+    );
+    const promptTokens = estimateTokens(system) + estimateTokens(prompt);
+    const maxOutputTokens = Math.max(
+      0,
+      Math.min(remainingTokens, Math.max(replyReserve, perTurnTokens - promptTokens)),
+    );
 
-      try {
-        if (adapter.actionSchema) {
-          const result = await generateStructured(requestConfig, {
-            system,
-            prompt,
-            schema: adapter.actionSchema,
-          });
-          const latencyMs = Date.now() - start;
-          const normalized = adapter.normalizeAction
-            ? adapter.normalizeAction(result.object, observation)
-            : { action: result.object as Record<string, unknown>, warnings: [] };
-          const chosenAction = (normalized.action ?? adapter.fallbackAction) as Record<
-            string,
-            unknown
-          >;
-          const fallbackReason = normalized.action ? null : "normalization-failed";
-          const warnings = normalized.warnings ?? [];
+    const requestConfig = {
+      provider: config.provider,
+      api: config.api,
+      model: config.model,
+      temperature: config.temperature,
+      maxOutputTokens,
+      baseUrl: config.baseUrl,
+      apiKey: config.apiKey,
+      cassette: config.cassette,
+      ...(signal ? { abortSignal: signal } : {}),
+    };
 
-          const rawPayload = result.responseBody ?? result.object;
-          const rawText = JSON.stringify(rawPayload);
-          const rawBytes = Buffer.byteLength(rawText, "utf-8");
-          const truncated = result.finishReason === "length";
-          const usage = toUsageMetrics(result.usage ?? {});
-          const tokensUsed = usage?.totalTokens ?? null;
-          callsUsedMatch += 1;
-          tokensUsedMatch += usage?.totalTokens ?? 0;
-          const budgetTelemetry = buildBudgetTelemetry(
-            config.budget,
-            tokensUsed,
-            tokensUsedMatch,
-            1,
-            callsUsedMatch,
-            truncated,
-          );
+    const start = Date.now();
 
-          return attachActionForensics({ ...chosenAction }, {
-            rawText,
-            rawSha256: sha256Hex(Buffer.from(rawText, "utf-8")),
-            rawBytes,
-            truncated,
-            method: "direct-json",
-            warnings,
-            errors: null,
-            fallbackReason,
-            candidateAction: normalized.action ?? result.object,
-            chosenAction,
-            provider: config.provider,
-            model: config.model,
-            latencyMs,
-            usage,
-            adjudicationPath: fallbackReason ? "fallback" : "structured",
-            budget: budgetTelemetry,
-          });
-        }
-      } catch {
-        // fallback to text generation
-      }
+    try {
+      if (adapter.actionSchema && config.structuredOutput !== false) {
+        const result = await generateStructured(requestConfig, {
+          system,
+          prompt,
+          schema: adapter.actionSchema,
+        });
+        const latencyMs = result.latencyMs ?? Date.now() - start;
+        const normalized = adapter.normalizeAction
+          ? adapter.normalizeAction(result.object, observation)
+          : { action: result.object as Record<string, unknown>, warnings: [] };
+        const chosenAction = (normalized.action ?? adapter.fallbackAction) as Record<
+          string,
+          unknown
+        >;
+        const fallbackReason = normalized.action ? null : "normalization-failed";
+        const warnings = normalized.warnings ?? [];
 
-      try {
-        const textResult = await generatePlainText(requestConfig, { system, prompt });
-        const latencyMs = Date.now() - start;
-        const truncated = textResult.finishReason === "length";
-        const usage = toUsageMetrics(textResult.usage ?? {});
+        const rawPayload = result.responseBody ?? result.object;
+        const rawText = JSON.stringify(rawPayload);
+        const rawBytes = Buffer.byteLength(rawText, "utf-8");
+        const truncated = result.finishReason === "length";
+        const usage = toUsageMetrics(result.usage ?? {});
         const tokensUsed = usage?.totalTokens ?? null;
         callsUsedMatch += 1;
         tokensUsedMatch += usage?.totalTokens ?? 0;
@@ -198,43 +195,133 @@ export function createLlmAgent(
           truncated,
         );
 
-        return adapter.parseResponse(textResult.text, observation, {
+        return attachActionForensics({ ...chosenAction }, {
+          rawText,
+          rawSha256: sha256Hex(Buffer.from(rawText, "utf-8")),
+          rawBytes,
+          truncated,
+          method: "direct-json",
+          warnings,
+          errors: null,
+          fallbackReason,
+          candidateAction: normalized.action ?? result.object,
+          chosenAction,
           provider: config.provider,
           model: config.model,
           latencyMs,
           usage,
-          truncated,
+          adjudicationPath: fallbackReason ? "fallback" : "structured",
           budget: budgetTelemetry,
-          responseBody: textResult.responseBody,
         });
-      } catch {
-        const fallback = { ...adapter.fallbackAction };
-        return attachActionForensics(fallback, {
-          rawText: "",
-          rawSha256: sha256Hex(Buffer.from("", "utf-8")),
-          rawBytes: 0,
-          truncated: false,
-          method: "failed",
-          warnings: ["LLM request failed; fallback action applied."],
-          errors: null,
-          fallbackReason: "llm-request-failed",
-          candidateAction: null,
-          chosenAction: fallback,
-          provider: config.provider,
-          model: config.model,
-          latencyMs: 0,
-          usage: undefined,
-          adjudicationPath: "fallback",
-          budget: buildBudgetTelemetry(
-            config.budget,
-            null,
-            tokensUsedMatch,
-            0,
-            callsUsedMatch,
-            false,
-          ),
+      }
+    } catch (err: unknown) {
+      // A replay miss means the match diverged from the recording; let it surface.
+      if (err instanceof LlmCassetteMissError) {
+        throw err;
+      }
+      // fallback to text generation
+    }
+
+    try {
+      const textResult = await generatePlainText(requestConfig, { system, prompt });
+      const latencyMs = textResult.latencyMs ?? Date.now() - start;
+      const truncated = textResult.finishReason === "length";
+      const usage = toUsageMetrics(textResult.usage ?? {});
+      const tokensUsed = usage?.totalTokens ?? null;
+      callsUsedMatch += 1;
+      tokensUsedMatch += usage?.totalTokens ?? 0;
+      const budgetTelemetry = buildBudgetTelemetry(
+        config.budget,
+        tokensUsed,
+        tokensUsedMatch,
+        1,
+        callsUsedMatch,
+        truncated,
+      );
+
+      return adapter.parseResponse(textResult.text, observation, {
+        provider: config.provider,
+        model: config.model,
+        latencyMs,
+        usage,
+        truncated,
+        budget: budgetTelemetry,
+        responseBody: textResult.responseBody,
+      });
+    } catch (err: unknown) {
+      if (err instanceof LlmCassetteMissError) {
+        throw err;
+      }
+      const fallback = { ...adapter.fallbackAction };
+      return attachActionForensics(fallback, {
+        rawText: "",
+        rawSha256: sha256Hex(Buffer.from("", "utf-8")),
+        rawBytes: 0,
+        truncated: false,
+        method: "failed",
+        warnings: ["LLM request failed; fallback action applied."],
+        errors: null,
+        fallbackReason: "llm-request-failed",
+        candidateAction: null,
+        chosenAction: fallback,
+        provider: config.provider,
+        model: config.model,
+        latencyMs: 0,
+        usage: undefined,
+        adjudicationPath: "fallback",
+        budget: buildBudgetTelemetry(
+          config.budget,
+          null,
+          tokensUsedMatch,
+          0,
+          callsUsedMatch,
+          false,
+        ),
+      });
+    }
+  }
+
+  return {
+    id: name as AgentId,
+    init(_config: AgentConfig): void {
+      // Memory covers one match.
+      history = [];
+      lastObservation = null;
+    },
+    snapshot() {
+      return { callsUsedMatch, tokensUsedMatch, history: [...history], lastObservation };
+    },
+    restore(snapshot) {
+      const saved = snapshot as {
+        callsUsedMatch: number;
+        tokensUsedMatch: number;
+        history?: LlmMemoryTurn[];
+        lastObservation?: JsonValue;
+      };
+      callsUsedMatch = saved.callsUsedMatch;
+      tokensUsedMatch = saved.tokensUsedMatch;
+      history = [...(saved.history ?? [])];
+      lastObservation = saved.lastObservation ?? null;
+    },
+    async act(observation: unknown, ctx: AgentContext): Promise<Record<string, unknown>> {
+      const currentPrompt = adapter.formatObservation(observation);
+      const previous = history.at(-1);
+      if (previous && adapter.describeOutcome) {
+        const feedback = adapter.describeOutcome(observation, lastObservation);
+        if (feedback) {
+          history[history.length - 1] = { ...previous, feedback };
+        }
+      }
+      const action = await decide(observation, currentPrompt, ctx.signal);
+      if (memory.strategy !== "none") {
+        history.push({
+          turn: ctx.turn,
+          observation: currentPrompt,
+          action: JSON.stringify(action),
         });
+        lastObservation = observation as JsonValue;
       }
+      return action;
     },
   };
 }
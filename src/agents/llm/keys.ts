@@ -1,12 +1,26 @@
 import type { AgentPurpose, LlmAgentDescriptor, LlmProvider } from "./types.js";
 
+const PROMPT_SUFFIX = "@prompt=";
+
+/**
+ * Parse `llm:<provider>:<model>[:<purpose>][@prompt=<template>]`, e.g.
+ * `llm:ollama:qwen2.5:3b@prompt=heist-v3`.
+ */
 export function parseLlmAgentKey(key: string): LlmAgentDescriptor {
   if (!key.startsWith("llm:")) {
     throw new Error(
       `Invalid LLM agent key "${key}". Use format llm:<provider>:<model>[:<purpose>] (example: llm:ollama:qwen2.5:3b or llm:ollama:qwen2.5:3b:test).`,
     );
   }
-  const rest = key.slice(4);
+  const suffixIndex = key.lastIndexOf(PROMPT_SUFFIX);
+  const promptTemplate =
+    suffixIndex === -1 ? undefined : key.slice(suffixIndex + PROMPT_SUFFIX.length);
+  if (promptTemplate !== undefined && !promptTemplate) {
+    throw new Error(
+      `Invalid LLM agent key "${key}". Name a prompt template after "@prompt=" (example: llm:ollama:qwen2.5:3b@prompt=heist-v1).`,
+    );
+  }
+  const rest = key.slice(4, suffixIndex === -1 ? undefined : suffixIndex);
   const tokens = rest.split(":");
   if (tokens.length < 2) {
     throw new Error(
@@ -29,5 +43,6 @@ export function parseLlmAgentKey(key: string): LlmAgentDescriptor {
     provider,
     model,
     purpose,
+    ...(promptTemplate ? { promptTemplate } : {}),
   };
 }
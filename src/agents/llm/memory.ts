@@ -0,0 +1,136 @@
+import type { JsonValue } from "../../contract/types.js";
+import { readConfigNumber } from "./budget.js";
+
+/**
+ * How an LLM agent remembers earlier turns of its match:
+ * - `none`: stateless; each prompt holds only the current observation.
+ * - `transcript`: every earlier observation, the action taken on it and how
+ *   that action turned out.
+ * - `window`: the same, for the last `windowTurns` turns only.
+ * - `actionLog`: one line per earlier turn naming the action and its outcome,
+ *   without the observations.
+ */
+export type LlmMemoryStrategy = "none" | "transcript" | "window" | "actionLog";
+
+export interface LlmMemoryConfig {
+  strategy: LlmMemoryStrategy;
+  /** Turns the `window` strategy keeps. */
+  windowTurns: number;
+}
+
+/**
+ * One earlier turn as the agent saw and answered it. A type alias rather than
+ * an interface so agent snapshots can hold it as JSON.
+ */
+export type LlmMemoryTurn = {
+  turn: number;
+  observation: string;
+  /** The submitted action as JSON (a fallback action included). */
+  action: string;
+  /**
+   * How the action turned out, as the following observation reports it.
+   * Absent for the latest turn and when the scenario adapter cannot tell.
+   */
+  feedback?: string;
+};
+
+const MEMORY_STRATEGIES: LlmMemoryStrategy[] = ["none", "transcript", "window", "actionLog"];
+
+export const DEFAULT_LLM_MEMORY: LlmMemoryConfig = {
+  strategy: "none",
+  windowTurns: 3,
+};
+
+function readConfigStrategy(
+  source: JsonValue | undefined,
+  key: string,
+): LlmMemoryStrategy | undefined {
+  if (!source || typeof source !== "object" || Array.isArray(source)) {
+    return undefined;
+  }
+  const value = (source as Record<string, unknown>)[key];
+  return MEMORY_STRATEGIES.find((strategy) => strategy === value);
+}
+
+/** Same precedence as the budget: mode profile, then division config, then defaults. */
+export function resolveLlmMemoryConfig(
+  modeProfile?: JsonValue,
+  divisionConfig?: JsonValue,
+): LlmMemoryConfig {
+  const strategy =
+    readConfigStrategy(modeProfile, "memoryStrategy") ??
+    readConfigStrategy(divisionConfig, "memoryStrategy") ??
+    DEFAULT_LLM_MEMORY.strategy;
+  const windowTurns =
+    readConfigNumber(modeProfile, "memoryWindowTurns") ??
+    readConfigNumber(divisionConfig, "memoryWindowTurns") ??
+    DEFAULT_LLM_MEMORY.windowTurns;
+
+  return { strategy, windowTurns };
+}
+
+/** The memory policy as recorded in agent provenance metadata. */
+export function describeLlmMemory(config: LlmMemoryConfig): Record<string, JsonValue> {
+  return config.strategy === "window"
+    ? { strategy: config.strategy, windowTurns: config.windowTurns }
+    : { strategy: config.strategy };
+}
+
+/**
+ * Tokens of `maxTokensPerTurn` held back for the model's reply: memory is trimmed
+ * so the prompt leaves at least this much room for output.
+ */
+export const LLM_REPLY_RESERVE_TOKENS = 256;
+
+/** Rough token count (about four characters per token) for trimming prompts. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function renderTurn(strategy: LlmMemoryStrategy, entry: LlmMemoryTurn): string {
+  if (strategy === "actionLog") {
+    const outcome = entry.feedback ? ` -> ${entry.feedback}` : "";
+    return `- Turn ${entry.turn}: ${entry.action}${outcome}`;
+  }
+  const outcome = entry.feedback ? `\nOutcome: ${entry.feedback}` : "";
+  return `Turn ${entry.turn} observation:\n${entry.observation}\nYour action: ${entry.action}${outcome}`;
+}
+
+/**
+ * Build the prompt for this turn: the remembered turns (oldest first) ahead of
+ * the current observation. Oldest turns are dropped until the memory fits in
+ * `maxTokens`; with no room left the prompt is the observation alone.
+ */
+export function composeLlmPrompt(
+  config: LlmMemoryConfig,
+  history: readonly LlmMemoryTurn[],
+  observation: string,
+  maxTokens: number,
+): string {
+  if (config.strategy === "none" || history.length === 0) {
+    return observation;
+  }
+  const kept = config.strategy === "window" ? history.slice(-config.windowTurns) : history;
+  const separator = config.strategy === "actionLog" ? "\n" : "\n\n";
+  const header =
+    config.strategy === "actionLog"
+      ? "Your actions so far and how they turned out:"
+      : "Earlier turns of this match (oldest first):";
+  const footer = "\n\nCurrent turn:\n";
+
+  const entries = kept.map((entry) => renderTurn(config.strategy, entry));
+  let available = maxTokens - estimateTokens(`${header}\n${footer}`);
+  const fitted: string[] = [];
+  for (let index = entries.length - 1; index >= 0; index--) {
+    const cost = estimateTokens(`${entries[index]}${separator}`);
+    if (cost > available) {
+      break;
+    }
+    available -= cost;
+    fitted.unshift(entries[index]);
+  }
+  if (fitted.length === 0) {
+    return observation;
+  }
+  return `${header}\n${fitted.join(separator)}${footer}${observation}`;
+}
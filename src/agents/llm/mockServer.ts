@@ -0,0 +1,311 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { sha256Hex } from "../../core/hash.js";
+import { createRng, randomInt } from "../../core/rng.js";
+import { estimateTokens } from "./memory.js";
+
+/** Port `llm:mock:<script>` agents expect when `MOCK_LLM_ENDPOINT` is unset. */
+export const DEFAULT_MOCK_LLM_PORT = 11435;
+
+/** Root URL of the mock server that `llm:mock:<script>` agents talk to. */
+export function resolveMockLlmEndpoint(): string {
+  return process.env.MOCK_LLM_ENDPOINT?.trim() || `http://127.0.0.1:${DEFAULT_MOCK_LLM_PORT}`;
+}
+
+/**
+ * Built-in scripts, chosen by the request's model name (`llm:mock:<script>`):
+ * - `valid`: seeded JSON that matches the request's response schema.
+ * - `fenced`: the same JSON inside a ```json fence.
+ * - `truncated`: the first half of that JSON, finish reason `length`.
+ * - `wrong-schema`: well-formed JSON with none of the expected fields.
+ * - `prose`: a sentence with no JSON at all.
+ * - `slow`: `valid` after `slowDelayMs`.
+ * - `error`: HTTP 500.
+ */
+export const MOCK_LLM_SCRIPTS = [
+  "valid",
+  "fenced",
+  "truncated",
+  "wrong-schema",
+  "prose",
+  "slow",
+  "error",
+] as const;
+
+export type MockLlmScript = (typeof MOCK_LLM_SCRIPTS)[number];
+
+/** One scripted completion. `status` other than 200 answers with an error body. */
+export interface MockLlmReply {
+  content?: string;
+  finishReason?: "stop" | "length";
+  status?: number;
+  delayMs?: number;
+}
+
+export interface MockLlmServerOptions {
+  host?: string;
+  /** 0 picks a free port. Defaults to `DEFAULT_MOCK_LLM_PORT`. */
+  port?: number;
+  /** Seeds `valid` replies, together with the request's model and messages. */
+  seed?: number;
+  /** Delay of the `slow` script. Defaults to 2000 ms. */
+  slowDelayMs?: number;
+  /** Extra scripts by name; each call takes the next reply, wrapping around. */
+  scripts?: Record<string, MockLlmReply[]>;
+}
+
+export interface MockLlmServer {
+  /** Root URL, the value for `MOCK_LLM_ENDPOINT`. */
+  readonly url: string;
+  /** OpenAI-compatible base URL (`<url>/v1`). */
+  readonly baseUrl: string;
+  close(): Promise<void>;
+}
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+};
+
+interface ChatCompletionRequest {
+  model?: string;
+  messages?: Array<{ role?: string; content?: unknown }>;
+  response_format?: { type?: string; json_schema?: { schema?: JsonSchema } };
+}
+
+const MAX_SCHEMA_DEPTH = 8;
+
+/** A value satisfying the common subset of JSON Schema that zod emits. */
+function sampleSchema(schema: JsonSchema | undefined, rng: () => number, depth = 0): unknown {
+  if (!schema || depth > MAX_SCHEMA_DEPTH) {
+    return null;
+  }
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[randomInt(rng, 0, schema.enum.length - 1)];
+  }
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants && variants.length > 0) {
+    return sampleSchema(variants[randomInt(rng, 0, variants.length - 1)], rng, depth + 1);
+  }
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          sampleSchema(value, rng, depth + 1),
+        ]),
+      );
+    case "array":
+      return Array.from({ length: Math.max(1, schema.minItems ?? 0) }, () =>
+        sampleSchema(schema.items, rng, depth + 1),
+      );
+    case "integer":
+    case "number": {
+      // zod bounds plain numbers by the safe-integer range; keep values small.
+      const min = Math.ceil(Math.min(Math.max(schema.minimum ?? 0, 0), schema.maximum ?? Infinity));
+      return randomInt(rng, min, Math.floor(Math.min(schema.maximum ?? Infinity, min + 100)));
+    }
+    case "boolean":
+      return rng() < 0.5;
+    case "string":
+      return "mock";
+    default:
+      return null;
+  }
+}
+
+function messageText(request: ChatCompletionRequest): string {
+  return (request.messages ?? [])
+    .map((message) =>
+      typeof message.content === "string" ? message.content : JSON.stringify(message.content),
+    )
+    .join("\n");
+}
+
+function seededJson(
+  request: ChatCompletionRequest,
+  schema: JsonSchema | undefined,
+  seed: number,
+): string {
+  const digest = sha256Hex(
+    Buffer.from(`${seed}\n${request.model ?? ""}\n${messageText(request)}`, "utf-8"),
+  );
+  const rng = createRng(parseInt(digest.slice(0, 8), 16));
+  return JSON.stringify(schema ? sampleSchema(schema, rng) : {});
+}
+
+function builtInReply(
+  script: MockLlmScript,
+  request: ChatCompletionRequest,
+  schema: JsonSchema | undefined,
+  options: MockLlmServerOptions,
+): MockLlmReply {
+  const json = seededJson(request, schema, options.seed ?? 0);
+  switch (script) {
+    case "valid":
+      return { content: json };
+    case "fenced":
+      return { content: `Here is my action:\n\`\`\`json\n${json}\n\`\`\`` };
+    case "truncated":
+      return { content: json.slice(0, Math.ceil(json.length / 2)), finishReason: "length" };
+    case "wrong-schema":
+      return { content: JSON.stringify({ unexpected: true }) };
+    case "prose":
+      return { content: "I will think carefully and make the best move this turn." };
+    case "slow":
+      return { content: json, delayMs: options.slowDelayMs ?? 2000 };
+    case "error":
+      return { status: 500 };
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  const type = status >= 500 ? "server_error" : "invalid_request_error";
+  sendJson(res, status, { error: { message, type } });
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Start a local OpenAI-compatible server (`GET /v1/models`,
+ * `POST /v1/chat/completions`) whose replies follow the script named by the
+ * request's model, so LLM agents, preflight and decoding can be exercised
+ * against realistic traffic without Ollama or OpenRouter.
+ */
+export async function startMockLlmServer(
+  options: MockLlmServerOptions = {},
+): Promise<MockLlmServer> {
+  const custom = options.scripts ?? {};
+  const calls = new Map<string, number>();
+  // Plain-text retries of a structured call carry no schema; reuse the one
+  // sent with the same messages so they get the same JSON back.
+  const schemas = new Map<string, JsonSchema>();
+  let completions = 0;
+  const models = [...MOCK_LLM_SCRIPTS, ...Object.keys(custom)];
+
+  function responseSchema(request: ChatCompletionRequest): JsonSchema | undefined {
+    const key = `${request.model ?? ""}\n${messageText(request)}`;
+    const schema = request.response_format?.json_schema?.schema;
+    if (schema) {
+      schemas.set(key, schema);
+    }
+    return schema ?? schemas.get(key);
+  }
+
+  function nextReply(script: string, request: ChatCompletionRequest): MockLlmReply | undefined {
+    if (custom[script]) {
+      const replies = custom[script];
+      const index = calls.get(script) ?? 0;
+      calls.set(script, index + 1);
+      return replies.length > 0 ? replies[index % replies.length] : undefined;
+    }
+    const builtIn = MOCK_LLM_SCRIPTS.find((name) => name === script);
+    return builtIn ? builtInReply(builtIn, request, responseSchema(request), options) : undefined;
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url ?? "/").split("?")[0].replace(/\/$/, "");
+    if (req.method === "GET" && path === "/v1/models") {
+      sendJson(res, 200, {
+        object: "list",
+        data: models.map((id) => ({ id, object: "model", created: 0, owned_by: "mock" })),
+      });
+      return;
+    }
+    if (req.method !== "POST" || path !== "/v1/chat/completions") {
+      sendError(res, 404, `Unknown route ${req.method} ${path}`);
+      return;
+    }
+
+    let request: ChatCompletionRequest;
+    try {
+      request = JSON.parse(await readBody(req)) as ChatCompletionRequest;
+    } catch {
+      sendError(res, 400, "Request body is not valid JSON.");
+      return;
+    }
+    const script = request.model ?? "";
+    const reply = nextReply(script, request);
+    if (!reply) {
+      sendError(res, 404, `Unknown mock script "${script}". Available: ${models.join(", ")}`);
+      return;
+    }
+    if (reply.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, reply.delayMs));
+    }
+    const status = reply.status ?? 200;
+    if (status !== 200) {
+      sendError(res, status, `Mock script "${script}" answered with ${status}.`);
+      return;
+    }
+
+    completions += 1;
+    const content = reply.content ?? "";
+    const promptTokens = estimateTokens(messageText(request));
+    const completionTokens = estimateTokens(content);
+    sendJson(res, 200, {
+      id: `chatcmpl-mock-${completions}`,
+      object: "chat.completion",
+      created: 0,
+      model: script,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content },
+          finish_reason: reply.finishReason ?? "stop",
+        },
+      ],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    });
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err: unknown) => {
+      sendError(res, 500, err instanceof Error ? err.message : String(err));
+    });
+  });
+  const host = options.host ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? DEFAULT_MOCK_LLM_PORT, host, () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+  const url = `http://${host}:${port}`;
+
+  return {
+    url,
+    baseUrl: `${url}/v1`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
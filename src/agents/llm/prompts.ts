@@ -0,0 +1,117 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { JsonValue } from "../../contract/types.js";
+import { sha256Hex } from "../../core/hash.js";
+
+/** Env var pointing at a prompt templates directory other than the package's `prompts/`. */
+export const PROMPT_TEMPLATES_DIR_ENV = "HASHMATCH_PROMPTS_DIR";
+
+const TEMPLATE_EXTENSION = ".txt";
+const TEMPLATE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+/** A system prompt rendered from `prompts/<scenario>/<name>.txt`. */
+export interface PromptTemplate {
+  scenarioKey: string;
+  /** File name without extension, e.g. `heist-v1`. */
+  name: string;
+  path: string;
+  /** The prompt sent to the model, with every `{{variable}}` filled in. */
+  text: string;
+  /** SHA-256 of `text`; two matches are comparable only if these agree. */
+  sha256: string;
+}
+
+/**
+ * The package root: the nearest directory above this module holding a
+ * `package.json`, so `src/`, `dist/` and `dist-scripts/` builds all find the
+ * same `prompts/` whatever the working directory.
+ */
+function findPackageRoot(): string {
+  const moduleDir = dirname(fileURLToPath(import.meta.url));
+  for (let dir = moduleDir; ; dir = dirname(dir)) {
+    if (existsSync(join(dir, "package.json"))) {
+      return dir;
+    }
+    if (dirname(dir) === dir) {
+      return resolve(moduleDir, "..", "..", "..");
+    }
+  }
+}
+
+/** `HASHMATCH_PROMPTS_DIR` (relative to the working directory) or the package's `prompts/`. */
+export function resolvePromptTemplatesDir(): string {
+  const configured = process.env[PROMPT_TEMPLATES_DIR_ENV]?.trim();
+  return configured ? resolve(process.cwd(), configured) : join(findPackageRoot(), "prompts");
+}
+
+/** Template names available for a scenario, sorted. */
+export function listPromptTemplates(scenarioKey: string): string[] {
+  const dir = join(resolvePromptTemplatesDir(), scenarioKey);
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((file) => file.endsWith(TEMPLATE_EXTENSION))
+    .map((file) => file.slice(0, -TEMPLATE_EXTENSION.length))
+    .sort();
+}
+
+/**
+ * Replace each `{{name}}` with its variable. Throws listing every variable
+ * the template uses but `variables` lacks.
+ */
+export function renderPromptTemplate(source: string, variables: Record<string, string>): string {
+  const missing = new Set<string>();
+  const text = source.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (!Object.hasOwn(variables, name)) {
+      missing.add(name);
+      return placeholder;
+    }
+    return variables[name];
+  });
+  if (missing.size > 0) {
+    throw new Error(
+      `Unknown prompt variable(s): ${[...missing].join(", ")}. Available: ${Object.keys(variables).join(", ")}`,
+    );
+  }
+  return text;
+}
+
+/** Read and render one template. The file's final newline is not part of the prompt. */
+export function loadPromptTemplate(
+  scenarioKey: string,
+  name: string,
+  variables: Record<string, string>,
+): PromptTemplate {
+  if (!TEMPLATE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid prompt template name "${name}". Use letters, digits, ".", "_", "-".`);
+  }
+  const path = join(resolvePromptTemplatesDir(), scenarioKey, `${name}${TEMPLATE_EXTENSION}`);
+  if (!existsSync(path)) {
+    const available = listPromptTemplates(scenarioKey);
+    throw new Error(
+      `Unknown prompt template "${name}" for scenario "${scenarioKey}". Available: ${available.length > 0 ? available.join(", ") : "(none)"}`,
+    );
+  }
+  const source = readFileSync(path, "utf-8").replace(/\r?\n$/, "");
+  let text: string;
+  try {
+    text = renderPromptTemplate(source, variables);
+  } catch (err: unknown) {
+    throw new Error(`Prompt template ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return {
+    scenarioKey,
+    name,
+    path,
+    text,
+    sha256: sha256Hex(Buffer.from(text, "utf-8")),
+  };
+}
+
+/** Agent provenance metadata for a rendered template. */
+export function describePromptTemplate(template: PromptTemplate): Record<string, JsonValue> {
+  return { promptTemplate: template.name, promptSha256: template.sha256 };
+}
@@ -0,0 +1,408 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { JsonValue } from "../../contract/types.js";
+import { buildOllamaHeistMetadata } from "../ollama/index.js";
+import { ANTHROPIC_API_VERSION } from "./client.js";
+import { resolveMockLlmEndpoint } from "./mockServer.js";
+
+/**
+ * Wire format a provider speaks: OpenAI Chat Completions (Ollama, OpenRouter,
+ * llama.cpp, vLLM, ...) or the Anthropic Messages API.
+ */
+export type LlmApiFormat = "openai-chat" | "anthropic-messages";
+
+/** Everything the harness needs to know about one LLM provider. */
+export interface LlmProviderDefinition {
+  id: string;
+  api: LlmApiFormat;
+  /** API base URL handed to the client; OpenAI-style bases end in `/v1`. */
+  baseUrl(): string;
+  /** Key sent with each request, or undefined to send none. */
+  apiKey(): string | undefined;
+  /**
+   * Whether the endpoint honours JSON-schema response formats. Without it
+   * agents skip the structured call and decode the plain-text reply.
+   */
+  structuredOutput: boolean;
+  temperature?(): number | undefined;
+  /** Model for a seat, e.g. after env overrides. Defaults to the key's model. */
+  resolveModel?(model: string, slotIndex?: number): string;
+  /** Throws with a readable message when the endpoint or model is unavailable. */
+  preflight(model: string): Promise<void>;
+  /** Agent provenance metadata for `model`. */
+  provenance(model: string): Record<string, JsonValue>;
+}
+
+/** One user-defined provider in an LLM providers file. */
+export interface LlmProviderConfigEntry {
+  id: string;
+  /** Defaults to `openai-chat`. */
+  api?: LlmApiFormat;
+  baseUrl: string;
+  /** Env var that overrides `baseUrl` when set. */
+  baseUrlEnv?: string;
+  /** Env var holding the API key. */
+  apiKeyEnv?: string;
+  /** Defaults to true for `openai-chat`, false for `anthropic-messages`. */
+  structuredOutput?: boolean;
+  /** Fail preflight when the model is missing from the `/models` listing. Defaults to true. */
+  checkModel?: boolean;
+  temperature?: number;
+  /** Recorded in provenance. Defaults to true. */
+  nondeterministic?: boolean;
+}
+
+export interface LlmProvidersFile {
+  schemaVersion: string;
+  providers: LlmProviderConfigEntry[];
+}
+
+/** Env var naming an LLM providers file to load on first provider lookup. */
+export const LLM_PROVIDERS_FILE_ENV = "HASHMATCH_LLM_PROVIDERS";
+
+const DEFAULT_OLLAMA_ENDPOINT = "http://localhost:11434";
+const DEFAULT_OPENROUTER_ENDPOINT = "https://openrouter.ai/api/v1";
+const DEFAULT_LLAMACPP_ENDPOINT = "http://127.0.0.1:8080";
+const DEFAULT_ANTHROPIC_ENDPOINT = "https://api.anthropic.com/v1";
+const DEFAULT_OLLAMA_MODEL = "qwen2.5:3b";
+const DEFAULT_TEMPERATURE = 0.3;
+
+const API_FORMATS: LlmApiFormat[] = ["openai-chat", "anthropic-messages"];
+
+function trimSlash(url: string): string {
+  return url.replace(/\/$/, "");
+}
+
+function readEnv(name: string | undefined): string | undefined {
+  const value = name ? process.env[name]?.trim() : undefined;
+  return value ? value : undefined;
+}
+
+function withTimeout(input: string, init: RequestInit = {}, timeoutMs = 5000): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  return fetch(input, { ...init, signal: controller.signal }).finally(() =>
+    clearTimeout(timeoutId),
+  );
+}
+
+async function fetchListing(url: string, init: RequestInit, label: string): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await withTimeout(url, init);
+  } catch {
+    throw new Error(`${label} endpoint unreachable (${url})`);
+  }
+  if (!response.ok) {
+    throw new Error(`${label} endpoint returned ${response.status}`);
+  }
+  return response.json();
+}
+
+/** Throw unless `model` is listed; an empty listing is taken as "anything goes". */
+function requireListed(
+  models: string[] | undefined,
+  model: string,
+  noun: string,
+  path: string,
+): void {
+  if (models && models.length > 0 && !models.includes(model)) {
+    throw new Error(`${noun} "${model}" not found in ${path} listing.`);
+  }
+}
+
+function listedIds(data: unknown): string[] | undefined {
+  const entries = (data as { data?: Array<{ id?: unknown }> } | undefined)?.data;
+  return entries?.map((entry) => entry.id).filter((id): id is string => typeof id === "string");
+}
+
+/** Temperature from `OLLAMA_TEMPERATURE`, which all built-in chat providers share. */
+function resolveTemperature(): number {
+  const raw = process.env.OLLAMA_TEMPERATURE;
+  if (!raw || raw.trim().length === 0) {
+    return DEFAULT_TEMPERATURE;
+  }
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : DEFAULT_TEMPERATURE;
+}
+
+/**
+ * Ollama model for a seat: `OLLAMA_MODEL_<slot>`, then the key's model, then
+ * `OLLAMA_MODEL` (when allowed), then the default.
+ */
+export function resolveOllamaModel(
+  keyModel: string | undefined,
+  slotIndex?: number,
+  allowGlobalOverride = true,
+): string {
+  if (slotIndex !== undefined) {
+    const override = readEnv(`OLLAMA_MODEL_${slotIndex}`);
+    if (override) {
+      return override;
+    }
+  }
+  if (keyModel && keyModel.trim().length > 0) {
+    return keyModel.trim();
+  }
+  const globalModel = allowGlobalOverride ? readEnv("OLLAMA_MODEL") : undefined;
+  return globalModel ?? DEFAULT_OLLAMA_MODEL;
+}
+
+/** Provider for any OpenAI-compatible endpoint (llama.cpp, vLLM, LM Studio, ...). */
+function createOpenAiCompatibleProvider(entry: LlmProviderConfigEntry): LlmProviderDefinition {
+  const label = entry.id;
+  const baseUrl = (): string => trimSlash(readEnv(entry.baseUrlEnv) ?? entry.baseUrl);
+  // Keyless servers get an empty key; undefined would make the SDK send OPENAI_API_KEY.
+  const apiKey = (): string => readEnv(entry.apiKeyEnv) ?? "";
+  return {
+    id: entry.id,
+    api: "openai-chat",
+    baseUrl,
+    apiKey,
+    structuredOutput: entry.structuredOutput ?? true,
+    ...(entry.temperature !== undefined ? { temperature: () => entry.temperature } : {}),
+    async preflight(model) {
+      const key = apiKey();
+      const listing = await fetchListing(
+        `${baseUrl()}/models`,
+        key ? { headers: { Authorization: `Bearer ${key}` } } : {},
+        label,
+      );
+      if (entry.checkModel ?? true) {
+        requireListed(listedIds(listing), model, `${label} model`, "/models");
+      }
+    },
+    provenance: (model) => ({
+      llmProvider: entry.id,
+      model,
+      nondeterministic: entry.nondeterministic ?? true,
+    }),
+  };
+}
+
+/** Provider for the Anthropic Messages API (or a server that mimics it). */
+function createAnthropicStyleProvider(entry: LlmProviderConfigEntry): LlmProviderDefinition {
+  const label = entry.id;
+  const baseUrl = (): string => trimSlash(readEnv(entry.baseUrlEnv) ?? entry.baseUrl);
+  const apiKey = (): string | undefined => readEnv(entry.apiKeyEnv);
+  return {
+    id: entry.id,
+    api: "anthropic-messages",
+    baseUrl,
+    apiKey,
+    structuredOutput: entry.structuredOutput ?? false,
+    ...(entry.temperature !== undefined ? { temperature: () => entry.temperature } : {}),
+    async preflight(model) {
+      const key = apiKey();
+      if (entry.apiKeyEnv && !key) {
+        throw new Error(`Missing ${entry.apiKeyEnv} for ${label} provider.`);
+      }
+      const listing = await fetchListing(
+        `${baseUrl()}/models`,
+        {
+          headers: {
+            "anthropic-version": ANTHROPIC_API_VERSION,
+            ...(key ? { "x-api-key": key } : {}),
+          },
+        },
+        label,
+      );
+      if (entry.checkModel ?? true) {
+        requireListed(listedIds(listing), model, `${label} model`, "/models");
+      }
+    },
+    provenance: (model) => ({
+      llmProvider: entry.id,
+      model,
+      nondeterministic: entry.nondeterministic ?? true,
+    }),
+  };
+}
+
+const ollamaProvider: LlmProviderDefinition = {
+  id: "ollama",
+  api: "openai-chat",
+  baseUrl: () => `${trimSlash(readEnv("OLLAMA_ENDPOINT") ?? DEFAULT_OLLAMA_ENDPOINT)}/v1`,
+  apiKey: () => process.env.OLLAMA_API_KEY ?? "ollama",
+  structuredOutput: true,
+  temperature: resolveTemperature,
+  resolveModel: (model, slotIndex) => resolveOllamaModel(model, slotIndex),
+  async preflight(model) {
+    const endpoint = trimSlash(readEnv("OLLAMA_ENDPOINT") ?? DEFAULT_OLLAMA_ENDPOINT);
+    const listing = (await fetchListing(`${endpoint}/api/tags`, {}, "Ollama")) as {
+      models?: Array<{ name?: unknown }>;
+    };
+    const models = listing?.models
+      ?.map((entry) => entry.name)
+      .filter((name): name is string => typeof name === "string");
+    requireListed(models, model, "Ollama model", "/api/tags");
+  },
+  provenance: (model) => buildOllamaHeistMetadata(model),
+};
+
+const openRouterProvider: LlmProviderDefinition = {
+  id: "openrouter",
+  api: "openai-chat",
+  baseUrl: () => readEnv("OPENROUTER_BASE_URL") ?? DEFAULT_OPENROUTER_ENDPOINT,
+  apiKey: () => process.env.OPENROUTER_API_KEY,
+  structuredOutput: true,
+  temperature: resolveTemperature,
+  async preflight(model) {
+    const apiKey = readEnv("OPENROUTER_API_KEY");
+    if (!apiKey) {
+      throw new Error("Missing OPENROUTER_API_KEY for OpenRouter provider.");
+    }
+    const listing = await fetchListing(
+      `${trimSlash(openRouterProvider.baseUrl())}/models`,
+      { headers: { Authorization: `Bearer ${apiKey}` } },
+      "OpenRouter",
+    );
+    requireListed(listedIds(listing), model, "OpenRouter model", "/models");
+  },
+  provenance: (model) => ({ llmProvider: "openrouter", model, nondeterministic: true }),
+};
+
+const mockProvider: LlmProviderDefinition = {
+  id: "mock",
+  api: "openai-chat",
+  // The model names a script on the mock server; see startMockLlmServer.
+  baseUrl: () => `${trimSlash(resolveMockLlmEndpoint())}/v1`,
+  apiKey: () => "mock",
+  structuredOutput: true,
+  async preflight(model) {
+    const listing = await fetchListing(`${mockProvider.baseUrl()}/models`, {}, "Mock LLM");
+    requireListed(listedIds(listing), model, "Mock LLM script", "/v1/models");
+  },
+  provenance: (model) => ({ llmProvider: "mock", model, nondeterministic: false }),
+};
+
+const builtInProviders: LlmProviderDefinition[] = [
+  ollamaProvider,
+  openRouterProvider,
+  mockProvider,
+  createOpenAiCompatibleProvider({
+    id: "llamacpp",
+    baseUrl: `${DEFAULT_LLAMACPP_ENDPOINT}/v1`,
+    baseUrlEnv: "LLAMACPP_BASE_URL",
+    apiKeyEnv: "LLAMACPP_API_KEY",
+    // llama-server answers to any model name, so only reachability is checked.
+    checkModel: false,
+  }),
+  createAnthropicStyleProvider({
+    id: "anthropic",
+    api: "anthropic-messages",
+    baseUrl: DEFAULT_ANTHROPIC_ENDPOINT,
+    baseUrlEnv: "ANTHROPIC_BASE_URL",
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+  }),
+];
+
+const providers = new Map<string, LlmProviderDefinition>(
+  builtInProviders.map((provider) => [provider.id, provider]),
+);
+let envFileLoaded = false;
+
+/** Add a provider. Ids are unique; built-ins cannot be replaced. */
+export function registerLlmProvider(definition: LlmProviderDefinition): void {
+  if (providers.has(definition.id)) {
+    throw new Error(`LLM provider "${definition.id}" is already registered.`);
+  }
+  providers.set(definition.id, definition);
+}
+
+function loadProvidersFromEnv(): void {
+  if (envFileLoaded) {
+    return;
+  }
+  envFileLoaded = true;
+  const path = readEnv(LLM_PROVIDERS_FILE_ENV);
+  if (path) {
+    loadLlmProvidersFile(path);
+  }
+}
+
+export function getLlmProvider(id: string): LlmProviderDefinition | undefined {
+  loadProvidersFromEnv();
+  return providers.get(id);
+}
+
+export function listLlmProviderIds(): string[] {
+  loadProvidersFromEnv();
+  return [...providers.keys()];
+}
+
+function validateEntry(entry: unknown, index: number): string[] {
+  const errors: string[] = [];
+  const at = `providers[${index}]`;
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    return [`${at} must be an object.`];
+  }
+  const value = entry as Record<string, unknown>;
+  if (typeof value.id !== "string" || !/^[A-Za-z0-9_.-]+$/.test(value.id)) {
+    errors.push(`${at}.id must be a non-empty name without ":".`);
+  }
+  if (value.api !== undefined && !API_FORMATS.includes(value.api as LlmApiFormat)) {
+    errors.push(`${at}.api must be one of ${API_FORMATS.join(", ")}.`);
+  }
+  if (typeof value.baseUrl !== "string" || !/^https?:\/\//.test(value.baseUrl)) {
+    errors.push(`${at}.baseUrl must be an http(s) URL.`);
+  }
+  for (const key of ["baseUrlEnv", "apiKeyEnv"]) {
+    if (value[key] !== undefined && typeof value[key] !== "string") {
+      errors.push(`${at}.${key} must be a string.`);
+    }
+  }
+  for (const key of ["structuredOutput", "checkModel", "nondeterministic"]) {
+    if (value[key] !== undefined && typeof value[key] !== "boolean") {
+      errors.push(`${at}.${key} must be a boolean.`);
+    }
+  }
+  if (value.temperature !== undefined && typeof value.temperature !== "number") {
+    errors.push(`${at}.temperature must be a number.`);
+  }
+  return errors;
+}
+
+/** Provider definition for a config entry, by its `api`. */
+export function createLlmProviderFromConfig(entry: LlmProviderConfigEntry): LlmProviderDefinition {
+  return entry.api === "anthropic-messages"
+    ? createAnthropicStyleProvider(entry)
+    : createOpenAiCompatibleProvider(entry);
+}
+
+/**
+ * Read an LLM providers file and register every provider in it. Throws with
+ * every validation error listed, before registering any of them.
+ */
+export function loadLlmProvidersFile(path: string): string[] {
+  const absolutePath = resolve(path);
+  let parsed: Partial<LlmProvidersFile>;
+  try {
+    parsed = JSON.parse(readFileSync(absolutePath, "utf-8")) as Partial<LlmProvidersFile>;
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to read LLM providers file ${absolutePath}: ${message}`);
+  }
+  if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.providers)) {
+    throw new Error(`Invalid LLM providers file format: ${absolutePath}`);
+  }
+
+  const entries = parsed.providers;
+  const ids = entries.map((entry) => entry?.id);
+  const errors = entries.flatMap((entry, index) => {
+    const id = ids[index];
+    const taken = typeof id === "string" && (providers.has(id) || ids.indexOf(id) !== index);
+    return [
+      ...validateEntry(entry, index),
+      ...(taken ? [`providers[${index}].id "${id}" is already registered.`] : []),
+    ];
+  });
+  if (errors.length > 0) {
+    throw new Error(`Invalid LLM providers file ${absolutePath}:\n- ${errors.join("\n- ")}`);
+  }
+
+  for (const entry of entries) {
+    registerLlmProvider(createLlmProviderFromConfig(entry));
+  }
+  return entries.map((entry) => entry.id);
+}
@@ -1,4 +1,5 @@
-export type LlmProvider = "ollama" | "openrouter";
+/** Id of a registered LLM provider (`ollama`, `openrouter`, ...); see `providers.ts`. */
+export type LlmProvider = string;
 export type AgentPurpose = "competitive" | "test";
 
 export interface LlmAgentDescriptor {
@@ -6,4 +7,6 @@ export interface LlmAgentDescriptor {
   provider: LlmProvider;
   model: string;
   purpose: AgentPurpose;
+  /** Prompt template named by `@prompt=`; the scenario default otherwise. */
+  promptTemplate?: string;
 }
@@ -21,6 +21,12 @@ export interface ScenarioAdapter {
       responseBody?: unknown;
     },
   ): Record<string, unknown>;
+  /**
+   * How the agent's previous action turned out, read from the observation
+   * that followed it (`previous` is the one the action answered). Null when
+   * the observation does not say. Feeds LLM memory.
+   */
+  describeOutcome?(observation: unknown, previous: unknown): string | null;
   fallbackAction: Record<string, unknown>;
   actionSchema?: ZodType<unknown>;
   normalizeAction?: (
@@ -29,6 +35,9 @@ export interface ScenarioAdapter {
   ) => { action: Record<string, unknown> | null; warnings: string[] };
 }
 
+/** A built-in adapter before `getScenarioAdapter` renders its prompt template. */
+export type ScenarioAdapterBase = Omit<ScenarioAdapter, "systemPrompt">;
+
 export function createOllamaAgent(
   name: string,
   ollamaConfig: OllamaConfig,
@@ -3,40 +3,16 @@ import { z } from "zod";
 import { DEFAULT_UNWRAP_PATHS, decodeAgentAction } from "../../core/decodeAgentAction.js";
 import { attachActionForensics } from "../../core/agentActionMetadata.js";
 import { HeistActionSchema } from "../../games/heist/types.js";
-import type { ScenarioAdapter } from "./createOllamaAgent.js";
-
-const systemPrompt = `You are playing the Heist scenario. Each turn you must choose one action.
-
-VALID ACTIONS (respond with exactly one JSON object):
-- Move to an adjacent room: {"type":"move","toRoomId":"room-id"}
-- Pick up a visible item in the current room: {"type":"pickup","itemId":"item-id"}
-- Hack/use a terminal in the current room: {"type":"use_terminal","terminalId":"terminal-id"}
-- Extract in the extraction room: {"type":"extract"}
-- Wait/do nothing: {"type":"wait"}
-
-RULES:
-- NEVER attempt to extract unless you are already in the extraction room. Doing so is invalid, raises the alarm, and severely penalizes your score.
-- Only move to rooms listed as adjacent and passable.
-- Only pick up items that are visible in the current room.
-- Only use terminals that are visible in the current room.
-
-STRATEGY:
-- Pick up nearby items and hack terminals you find before moving to new rooms. You may need to go back to rooms you've already visited.
-- If your last action produced no change at all (no item gained, no intel, no door unlocked), choose a completely different action next turn.
-
-Example:
-Game state: Turn 1. You are in room-1. Adjacent rooms: room-2 (passable). Visible items: keycard-1.
-Response: {"type":"pickup","itemId":"keycard-1"}
-
-Example:
-Game state: Turn 3. You are in room-2. Adjacent rooms: room-1 (passable), room-3 (locked, requires keycard-1).
-Response: {"type":"move","toRoomId":"room-1"}
-
-Remember: output ONLY valid action JSON. Never extract unless in extraction room.
-Respond with ONLY a JSON object. No explanation, no markdown, no backticks.`;
+import type { ScenarioAdapterBase } from "./createOllamaAgent.js";
 
 const fallbackAction: HeistAction = { type: "wait" };
 
+/**
+ * Models reaching for tools sometimes answer in tool-call form
+ * (`{"name":"use_item","input":{...}}`), so `input` is unwrapped too.
+ */
+const HEIST_UNWRAP_PATHS = [...DEFAULT_UNWRAP_PATHS, ["response"], ["input"]];
+
 const moveActionSchema = z
   .object({
     type: z.literal("move"),
@@ -85,11 +61,22 @@ const useActionSchema = z
     item: z.string().min(1).optional(),
     itemId: z.string().min(1).optional(),
     target: z.string().min(1).optional(),
+    targetId: z.string().min(1).optional(),
     targetEntityId: z.string().min(1).optional(),
+    doorId: z.string().min(1).optional(),
   })
-  .refine((data) => Boolean(data.item || data.itemId || data.target || data.targetEntityId), {
-    message: "Use action requires at least an item or target.",
-  });
+  .refine(
+    (data) =>
+      Boolean(
+        data.item ||
+        data.itemId ||
+        data.target ||
+        data.targetId ||
+        data.targetEntityId ||
+        data.doorId,
+      ),
+    { message: "Use action requires at least an item or target." },
+  );
 
 const useItemActionSchema = z
   .object({
@@ -97,10 +84,32 @@ const useItemActionSchema = z
     item: z.string().min(1).optional(),
     itemId: z.string().min(1).optional(),
     target: z.string().min(1).optional(),
+    targetId: z.string().min(1).optional(),
     targetEntityId: z.string().min(1).optional(),
+    doorId: z.string().min(1).optional(),
   })
-  .refine((data) => Boolean(data.item || data.itemId || data.target || data.targetEntityId), {
-    message: "Use item action requires at least an item or target.",
+  .refine(
+    (data) =>
+      Boolean(
+        data.item ||
+        data.itemId ||
+        data.target ||
+        data.targetId ||
+        data.targetEntityId ||
+        data.doorId,
+      ),
+    { message: "Use item action requires at least an item or target." },
+  );
+
+const forceDoorActionSchema = z
+  .object({
+    type: z.literal("force_door"),
+    doorId: z.string().min(1).optional(),
+    target: z.string().min(1).optional(),
+    targetId: z.string().min(1).optional(),
+  })
+  .refine((data) => Boolean(data.doorId || data.target || data.targetId), {
+    message: "Force door action requires a door id.",
   });
 
 const looseHeistActionSchema = z.discriminatedUnion("type", [
@@ -110,6 +119,7 @@ const looseHeistActionSchema = z.discriminatedUnion("type", [
   interactActionSchema,
   useActionSchema,
   useItemActionSchema,
+  forceDoorActionSchema,
   z.object({ type: z.literal("extract") }),
   z.object({ type: z.literal("wait") }),
 ]);
@@ -151,6 +161,9 @@ function formatEntities(entities: HeistObservation["visibleEntities"] | undefine
       if (entity.type === "vault") {
         return `${entity.id} (vault, requires ${entity.requiredItems.join(", ")})`;
       }
+      if (entity.type === "guard" && "roomId" in entity) {
+        return `${entity.id} (guard in ${entity.roomId})`;
+      }
       return `${entity.id} (${entity.type})`;
     })
     .join(", ");
@@ -165,7 +178,9 @@ function formatAdjacentRooms(rooms: HeistObservation["adjacentRooms"] | undefine
       const lockInfo = room.locked ? "locked" : "unlocked";
       const passableInfo = room.passable ? "passable" : "blocked";
       const required = room.requiredItem ? `, requires ${room.requiredItem}` : "";
-      return `${room.roomId} via ${room.doorId} (${passableInfo}, ${lockInfo}${required})`;
+      const alarm = room.alarmed ? ", alarmed" : "";
+      const hazard = room.hazard ? `, hazard: ${room.hazard.type}` : "";
+      return `${room.roomId} via ${room.doorId} (${passableInfo}, ${lockInfo}${required}${alarm}${hazard})`;
     })
     .join("; ");
 }
@@ -174,7 +189,13 @@ function formatInventory(inventory: HeistObservation["inventory"] | undefined):
   if (!inventory || inventory.length === 0) {
     return "none";
   }
-  return inventory.map((item) => `${item.itemId} (${item.type})`).join(", ");
+  return inventory
+    .map((item) =>
+      item.usesLeft !== undefined
+        ? `${item.itemId} (${item.type}, uses left ${item.usesLeft})`
+        : `${item.itemId} (${item.type})`,
+    )
+    .join(", ");
 }
 
 export function formatObservation(observation: unknown): string {
@@ -211,9 +232,9 @@ export function formatObservation(observation: unknown): string {
           return `${room.roomId} (unlocked)`;
         }
         if (room.requiredItem) {
-          return `${room.roomId} (locked: requires ${room.requiredItem})`;
+          return `${room.roomId} (locked via ${room.doorId}: requires ${room.requiredItem})`;
         }
-        return `${room.roomId} (locked)`;
+        return `${room.roomId} (locked via ${room.doorId})`;
       })
       .join(", ") ?? "";
 
@@ -225,6 +246,15 @@ export function formatObservation(observation: unknown): string {
   structuredLines.push(`Inventory: ${inventoryIds}`);
   structuredLines.push(`Visible items: ${visibleItemIds}`);
   structuredLines.push(`Visible terminals: ${visibleTerminals.length > 0 ? visibleTerminals : "none"}`);
+  if (obs.visibleAgents && obs.visibleAgents.length > 0) {
+    structuredLines.push(`Rivals here: ${obs.visibleAgents.join(", ")}`);
+  }
+  for (const member of obs._team?.crew ?? []) {
+    const carrying = member.inventory.length > 0 ? member.inventory.join(", ") : "nothing";
+    structuredLines.push(
+      `Crewmate ${member.agentId}: ${member.extracted ? "extracted" : `in ${member.roomId}`}, carrying ${carrying}`,
+    );
+  }
   structuredLines.push(
     `Adjacent rooms: ${adjacentRoomFacts.length > 0 ? adjacentRoomFacts : "none"}`,
   );
@@ -274,6 +304,50 @@ export function formatObservation(observation: unknown): string {
   return `${structuredLines.join("\n")}\n${lines.join("\n")}`;
 }
 
+/**
+ * The heist observation carries no verdict on the last action, so its effect
+ * is read from what changed: the room, the inventory and terminal progress.
+ */
+export function describeOutcome(observation: unknown, previous: unknown): string | null {
+  const current = observation as Partial<HeistObservation>;
+  const before = previous as Partial<HeistObservation> | undefined;
+  if (!before?.currentRoomId || !current.currentRoomId) {
+    return null;
+  }
+  const changes: string[] = [];
+  changes.push(
+    current.currentRoomId === before.currentRoomId
+      ? `Still in ${current.currentRoomId}.`
+      : `Moved from ${before.currentRoomId} to ${current.currentRoomId}.`,
+  );
+  const held = new Set((before.inventory ?? []).map((item) => item.itemId));
+  const holding = new Set((current.inventory ?? []).map((item) => item.itemId));
+  const gained = [...holding].filter((itemId) => !held.has(itemId));
+  const lost = [...held].filter((itemId) => !holding.has(itemId));
+  if (gained.length > 0) {
+    changes.push(`Picked up ${gained.join(", ")}.`);
+  }
+  if (lost.length > 0) {
+    changes.push(`No longer holding ${lost.join(", ")}.`);
+  }
+  const hackedBefore = before._private?.terminalHacked ?? {};
+  const progressBefore = before._private?.terminalProgress ?? {};
+  for (const [terminalId, hacked] of Object.entries(current._private?.terminalHacked ?? {})) {
+    if (hacked && !hackedBefore[terminalId]) {
+      changes.push(`Hacked ${terminalId}.`);
+    }
+  }
+  for (const [terminalId, progress] of Object.entries(current._private?.terminalProgress ?? {})) {
+    if (
+      progress !== progressBefore[terminalId] &&
+      !current._private?.terminalHacked?.[terminalId]
+    ) {
+      changes.push(`${terminalId} hacking progress ${progress}.`);
+    }
+  }
+  return changes.join(" ");
+}
+
 function resolveFallbackAction(observation?: unknown): HeistAction {
   const obs = observation as Partial<HeistObservation> | undefined;
   const fallback = obs?._private?.invalidActionFallback;
@@ -287,7 +361,38 @@ function resolveString(value: unknown): string | null {
   return typeof value === "string" && value.length > 0 ? value : null;
 }
 
-function normalizeHeistAction(action: LooseHeistAction): HeistAction | null {
+/**
+ * `use`/`use_item` historically meant "operate a terminal". A tool pointed at
+ * an adjacent door or a visible camera (named by `targetId`/`doorId`, or by a
+ * `target` matching one of them) becomes a real `use_item`; anything else
+ * keeps the old terminal meaning.
+ */
+function normalizeUseAction(
+  action: Extract<LooseHeistAction, { type: "use" | "use_item" }>,
+  observation?: Partial<HeistObservation>,
+): HeistAction | null {
+  const itemId = resolveString(action.itemId) ?? resolveString(action.item);
+  const loose = resolveString(action.target) ?? resolveString(action.targetEntityId);
+  const toolTargets = new Set(observation?.adjacentRooms?.map((room) => room.doorId) ?? []);
+  for (const entity of observation?.visibleEntities ?? []) {
+    if (entity.type === "camera") {
+      toolTargets.add(entity.id);
+    }
+  }
+  const targetId =
+    resolveString(action.targetId) ??
+    resolveString(action.doorId) ??
+    (loose && toolTargets.has(loose) ? loose : null);
+  if (itemId && targetId) {
+    return { type: "use_item", itemId, targetId };
+  }
+  return loose ? { type: "use_terminal", terminalId: loose } : null;
+}
+
+function normalizeHeistAction(
+  action: LooseHeistAction,
+  observation?: Partial<HeistObservation>,
+): HeistAction | null {
   switch (action.type) {
     case "move": {
       const toRoomId =
@@ -313,10 +418,14 @@ function normalizeHeistAction(action: LooseHeistAction): HeistAction | null {
       return terminalId ? { type: "use_terminal", terminalId } : null;
     }
     case "use":
-    case "use_item": {
-      const terminalId =
-        resolveString(action.target) ?? resolveString(action.targetEntityId);
-      return terminalId ? { type: "use_terminal", terminalId } : null;
+    case "use_item":
+      return normalizeUseAction(action, observation);
+    case "force_door": {
+      const doorId =
+        resolveString(action.doorId) ??
+        resolveString(action.targetId) ??
+        resolveString(action.target);
+      return doorId ? { type: "force_door", doorId } : null;
     }
     case "extract":
       return { type: "extract" };
@@ -355,14 +464,17 @@ export function parseResponse(
   const rawText = typeof text === "string" ? text : "";
   const fallback = resolveFallbackAction(observation);
   const result = decodeAgentAction(rawText, looseHeistActionSchema, fallback, {
-    unwrapPaths: [...DEFAULT_UNWRAP_PATHS, ["response"]],
+    unwrapPaths: HEIST_UNWRAP_PATHS,
   });
   const warnings = [...result.warnings];
   let fallbackReason = result.fallbackReason;
   let normalizedAction: HeistAction | null = null;
 
   if (result.action) {
-    normalizedAction = normalizeHeistAction(result.action);
+    normalizedAction = normalizeHeistAction(
+      result.action,
+      observation as Partial<HeistObservation> | undefined,
+    );
     if (!normalizedAction) {
       warnings.push("Action normalization failed.");
       fallbackReason ??= "normalization-failed";
@@ -404,9 +516,9 @@ export function parseResponse(
   });
 }
 
-export const heistAdapter: ScenarioAdapter = {
-  systemPrompt,
+export const heistAdapter: ScenarioAdapterBase = {
   formatObservation,
+  describeOutcome,
   parseResponse,
   fallbackAction,
   actionSchema: looseHeistActionSchema,
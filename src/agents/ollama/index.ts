@@ -3,7 +3,7 @@ import type { AgentId, JsonValue } from "../../contract/types.js";
 import type { HeistAction, HeistObservation } from "../../scenarios/heist/index.js";
 import type { OllamaConfig } from "./ollamaClient.js";
 import { createOllamaAgent } from "./createOllamaAgent.js";
-import { heistAdapter } from "./heistAdapter.js";
+import { getScenarioAdapter } from "../llm/adapters.js";
 
 const DEFAULT_MODEL = "qwen2.5:3b";
 const DEFAULT_TEMPERATURE = 0.3;
@@ -49,7 +49,10 @@ export function createOllamaHeistAgent(id: AgentId): Agent<HeistObservation, Hei
     ...(options ? { options } : {}),
   };
 
-  return createOllamaAgent(id, config, heistAdapter) as Agent<HeistObservation, HeistAction>;
+  return createOllamaAgent(id, config, getScenarioAdapter("heist")) as Agent<
+    HeistObservation,
+    HeistAction
+  >;
 }
 
 export { createOllamaAgent } from "./createOllamaAgent.js";
@@ -0,0 +1,95 @@
+import type { Agent, AgentConfig, AgentContext } from "../../contract/interfaces.js";
+import type { AgentId } from "../../contract/types.js";
+import type {
+  ResourceRivalsObservation,
+  ResourceRivalsAction,
+} from "../../scenarios/resourceRivals/index.js";
+
+// Scripted deterministic agent — no LLM call. A heuristic opponent so
+// ResourceRivals tournaments can run without a model server.
+// Tagged purpose:"test" in the tournament registry; non-publishable.
+/**
+ * Value-aware bidder for Resource Rivals.
+ *
+ * Budgets resources in proportion to each objective's share of the value
+ * still expected (remaining objectives times the average value seen so far),
+ * presses harder on above-average objectives and backs off below-average
+ * ones. It tracks the opponent's spending from revealed bids and never bids
+ * more than it takes to outbid everything the opponent has left. Uses seeded
+ * RNG for a small perturbation.
+ */
+export function createValueBidderAgent(
+  id: AgentId,
+): Agent<ResourceRivalsObservation, ResourceRivalsAction> {
+  let startingResources: number | null = null;
+  let valueSeen = 0;
+  let objectivesSeen = 0;
+  let opponentSpent = 0;
+
+  return {
+    id,
+    init(_config: AgentConfig): void {
+      startingResources = null;
+      valueSeen = 0;
+      objectivesSeen = 0;
+      opponentSpent = 0;
+    },
+    act(observation: ResourceRivalsObservation, ctx: AgentContext): ResourceRivalsAction {
+      const obs = observation as unknown as Record<string, unknown>;
+      const privateObs = obs._private as Record<string, unknown> | undefined;
+      const remaining = Number(privateObs?.remainingResources);
+      const objectivesLeft = Number(obs.objectivesRemaining);
+      const objectiveValue = Number(obs.objectiveValue);
+
+      if (
+        !Number.isFinite(remaining) ||
+        !Number.isFinite(objectivesLeft) ||
+        !Number.isFinite(objectiveValue) ||
+        remaining <= 0 ||
+        objectivesLeft <= 0
+      ) {
+        return { bid: 0 };
+      }
+
+      // Both sides start with the same resources.
+      startingResources ??= remaining;
+      const lastResult = obs.lastResult as { opponentBid?: unknown } | null | undefined;
+      const opponentBid = Number(lastResult?.opponentBid);
+      if (Number.isFinite(opponentBid)) {
+        opponentSpent += opponentBid;
+      }
+      valueSeen += objectiveValue;
+      objectivesSeen += 1;
+
+      const opponentRemaining = Math.max(0, startingResources - opponentSpent);
+      // Outbidding everything the opponent has left is a sure win.
+      const ceiling = Math.min(remaining, opponentRemaining + 1);
+      if (objectivesLeft === 1) {
+        return { bid: ceiling };
+      }
+
+      const averageValue = valueSeen / objectivesSeen;
+      const share = objectiveValue / (averageValue * objectivesLeft);
+      const emphasis = objectiveValue >= averageValue ? 1.5 : 0.5;
+      const perturbation = 1 + 0.15 * (ctx.rng() * 2 - 1);
+      const bid = Math.floor(remaining * share * emphasis * perturbation);
+
+      return { bid: Math.max(0, Math.min(ceiling, bid)) };
+    },
+    snapshot() {
+      return { startingResources, valueSeen, objectivesSeen, opponentSpent };
+    },
+    restore(snapshot) {
+      const saved = snapshot as {
+        startingResources: number | null;
+        valueSeen: number;
+        objectivesSeen: number;
+        opponentSpent: number;
+      };
+      startingResources = saved.startingResources;
+      valueSeen = saved.valueSeen;
+      objectivesSeen = saved.objectivesSeen;
+      opponentSpent = saved.opponentSpent;
+    },
+  };
+}
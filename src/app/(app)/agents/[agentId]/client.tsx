@@ -128,6 +128,21 @@ export default function AgentDetailClient({ params }: { params: Promise<{ agentI
         </CardContent>
       </Card>
 
+      {/* Prompt */}
+      {agent.prompt && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Prompt Template</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <p className="font-medium">{agent.prompt.template}</p>
+            <p className="break-all font-mono text-xs text-muted-foreground">
+              {agent.prompt.sha256}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Matches */}
       <Card>
         <CardHeader>
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { controlMatch } from "@/server/matchLifecycle";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ matchId: string }> },
+): Promise<Response> {
+  const { matchId } = await params;
+  const { httpStatus, body } = await controlMatch(matchId, "resume");
+  return NextResponse.json(body, { status: httpStatus });
+}
@@ -3,7 +3,10 @@ import { createWriteStream, existsSync, mkdirSync } from "node:fs";
 import { stat } from "node:fs/promises";
 import { join } from "node:path";
 import { NextResponse } from "next/server";
+import { MATCH_CONTROL_FILENAME } from "@/core/matchControlFile";
+import { readMatchLog } from "@/core/matchLog";
 import { verifyMatchDirectory } from "@/core/verifyMatchDirectory";
+import { loadHeistScenarioFile, resolveHeistPresetPath } from "@/games/heist/scenarioFile";
 import { buildOperatorMatchId } from "@/server/operatorMatch";
 import {
   ensureMatchesRoot,
@@ -21,6 +24,8 @@ const DEFAULT_TURNS = 20;
 
 interface StartMatchPayload {
   scenario: string;
+  /** Heist preset id or path under `scenarios/heist`; resolved to an absolute path once validated. */
+  scenarioFile?: string;
   agents: string[];
   seed?: number;
   totalTurns?: number;
@@ -42,6 +47,7 @@ function parsePayload(
   const agents = record.agents;
   const seed = record.seed;
   const totalTurns = record.totalTurns ?? record.turns;
+  const scenarioFile = record.scenarioFile;
 
   if (typeof scenario !== "string" || scenario.trim().length === 0) {
     return { ok: false, error: "Scenario is required" };
@@ -61,6 +67,14 @@ function parsePayload(
   ) {
     return { ok: false, error: "totalTurns must be a positive integer" };
   }
+  if (scenarioFile !== undefined) {
+    if (typeof scenarioFile !== "string" || scenarioFile.trim().length === 0) {
+      return { ok: false, error: "scenarioFile must be a non-empty string" };
+    }
+    if (scenario.trim() !== "heist") {
+      return { ok: false, error: "scenarioFile is only supported for the heist scenario" };
+    }
+  }
 
   return {
     ok: true,
@@ -69,10 +83,30 @@ function parsePayload(
       agents: agents.map((agent) => agent.trim()),
       ...(seed !== undefined ? { seed } : {}),
       ...(totalTurns !== undefined ? { totalTurns: totalTurns as number } : {}),
+      ...(typeof scenarioFile === "string" ? { scenarioFile: scenarioFile.trim() } : {}),
     },
   };
 }
 
+/**
+ * Only presets and files under `scenarios/heist` are accepted. Failures are
+ * logged here and answered with a generic message, since read and parse
+ * errors can quote the file.
+ */
+function resolveScenarioFile(
+  scenarioFile: string,
+): { ok: true; path: string } | { ok: false; error: string } {
+  try {
+    const path = resolveHeistPresetPath(scenarioFile);
+    loadHeistScenarioFile(path);
+    return { ok: true, path };
+  } catch (err: unknown) {
+    // eslint-disable-next-line no-console
+    console.error(`Rejected scenarioFile "${scenarioFile}":`, err);
+    return { ok: false, error: "Invalid scenario file" };
+  }
+}
+
 function resolveSeed(seed: StartMatchPayload["seed"]): number {
   return isValidSeed(seed) ? seed : DEFAULT_SEED;
 }
@@ -105,6 +139,9 @@ function createRunnerArgs(
     matchId,
     "--agents",
     payload.agents.join(","),
+    "--control-file",
+    join(outDir, MATCH_CONTROL_FILENAME),
+    ...(payload.scenarioFile ? ["--scenario-file", payload.scenarioFile] : []),
   ];
 }
 
@@ -133,6 +170,13 @@ export async function POST(request: Request): Promise<Response> {
   if (!parsed.ok) {
     return NextResponse.json({ error: parsed.error }, { status: 400 });
   }
+  if (parsed.data.scenarioFile) {
+    const scenarioFile = resolveScenarioFile(parsed.data.scenarioFile);
+    if (!scenarioFile.ok) {
+      return NextResponse.json({ error: scenarioFile.error }, { status: 400 });
+    }
+    parsed.data.scenarioFile = scenarioFile.path;
+  }
 
   const now = new Date();
   const matchId = buildOperatorMatchId(now);
@@ -191,8 +235,11 @@ export async function POST(request: Request): Promise<Response> {
     const matchLogPath = join(matchDir, "match.jsonl");
     let verified = false;
     let resolvedErrorMessage = errorMessage;
+    let endReason: string | undefined;
 
     if (await isNonEmptyFile(matchLogPath)) {
+      const lastEvent = (await readMatchLog(matchLogPath).catch(() => [])).at(-1);
+      endReason = lastEvent?.type === "MatchEnded" ? lastEvent.reason : undefined;
       const report = await verifyMatchDirectory(matchDir);
       verified = report.status === "pass";
       if (!verified && report.errors.length > 0 && !resolvedErrorMessage) {
@@ -211,8 +258,10 @@ export async function POST(request: Request): Promise<Response> {
       verified,
       exitCode,
       signal,
+      ...(endReason ? { endReason } : {}),
       ...(resolvedErrorMessage ? { errorMessage: resolvedErrorMessage } : {}),
     };
+    delete finalStatus.paused;
     await writeMatchStatusAtomic(matchDir, finalStatus);
   };
 
@@ -84,6 +84,10 @@ const extractScenarioParams = (event: MatchEvent): Record<string, unknown> | und
   }
 
   if (event.type === "MatchEnded" && isRecord(event.details)) {
+    if (isRecord(event.details.params)) {
+      return event.details.params as Record<string, unknown>;
+    }
+    // Legacy logs stitched two solo runs and nested each reveal under attempts.
     const attempts = event.details.attempts;
     if (Array.isArray(attempts) && attempts.length > 0) {
       const firstAttempt = attempts[0];
@@ -467,14 +471,31 @@ export const reduceHeistEvent = (
             continue;
           }
           if (updatedGuards[guardId]) {
+            const detecting = asStringArray(guardSummary.detecting);
             updatedGuards[guardId] = {
               ...updatedGuards[guardId],
               roomId,
+              ...(detecting ? { detecting } : {}),
             };
           }
         }
         nextState = { ...nextState, guards: updatedGuards };
       }
+      const cameras = summary && isRecord(summary.cameras) ? summary.cameras : undefined;
+      if (cameras) {
+        const updates: Record<string, Record<string, unknown>> = {};
+        for (const [cameraId, cameraSummary] of Object.entries(cameras)) {
+          if (!isRecord(cameraSummary)) {
+            continue;
+          }
+          updates[cameraId] = {
+            disabled: asBoolean(cameraSummary.disabled) ?? false,
+            coverage: asStringArray(cameraSummary.coverage) ?? [],
+            detecting: asStringArray(cameraSummary.detecting) ?? [],
+          };
+        }
+        nextState = updateEntityState(nextState, updates);
+      }
       break;
     }
     case "AgentError": {
@@ -486,7 +507,9 @@ export const reduceHeistEvent = (
     }
     case "MatchEnded": {
       let terminationReason: HeistSceneState["terminationReason"];
-      if (event.reason === "completed") {
+      if (isRecord(event.details) && event.details.outcome === "captured") {
+        terminationReason = "capture";
+      } else if (event.reason === "completed") {
         terminationReason = "completed";
       } else if (event.reason === "maxTurnsReached") {
         terminationReason = "maxTurns";
@@ -67,6 +67,8 @@ export type GuardVisual = {
   guardId: GuardId;
   roomId?: RoomId;
   patrolRoomIds: RoomId[];
+  /** Agents this guard currently has in sight (from the StateUpdated summary). */
+  detecting?: AgentId[];
 };
 
 export type EntityVisual = {
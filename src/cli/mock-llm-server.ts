@@ -0,0 +1,70 @@
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  DEFAULT_MOCK_LLM_PORT,
+  MOCK_LLM_SCRIPTS,
+  startMockLlmServer,
+  type MockLlmServerOptions,
+} from "../agents/llm/mockServer.js";
+
+const USAGE = `Usage: mock-llm-server [options]
+
+Serves an OpenAI-compatible API for llm:mock:<script> agents.
+Scripts: ${MOCK_LLM_SCRIPTS.join(", ")}
+
+Options:
+  --port <n>       Port to listen on (default: ${DEFAULT_MOCK_LLM_PORT})
+  --host <host>    Host to bind (default: 127.0.0.1)
+  --seed <n>       Seed for generated replies (default: 0)
+  --slow-ms <n>    Delay of the "slow" script (default: 2000)
+  --help           Show this help`;
+
+export function parseMockLlmServerArgs(argv: string[]): MockLlmServerOptions | "help" {
+  const options: MockLlmServerOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--help" || arg === "-h") {
+      return "help";
+    } else if (arg === "--port" && i + 1 < argv.length) {
+      options.port = Number(argv[++i]);
+    } else if (arg === "--host" && i + 1 < argv.length) {
+      options.host = argv[++i];
+    } else if (arg === "--seed" && i + 1 < argv.length) {
+      options.seed = Number(argv[++i]);
+    } else if (arg === "--slow-ms" && i + 1 < argv.length) {
+      options.slowDelayMs = Number(argv[++i]);
+    }
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseMockLlmServerArgs(process.argv.slice(2));
+  if (options === "help") {
+    // eslint-disable-next-line no-console
+    console.log(USAGE);
+    return;
+  }
+  const server = await startMockLlmServer(options);
+  // eslint-disable-next-line no-console
+  console.log(`Mock LLM server listening on ${server.baseUrl}`);
+  // eslint-disable-next-line no-console
+  console.log(`Set MOCK_LLM_ENDPOINT=${server.url} and use agents like llm:mock:valid`);
+
+  const shutdown = (): void => {
+    void server.close().then(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+// Only run when executed directly (not when imported by tests)
+const self = fileURLToPath(import.meta.url);
+const entry = resolve(process.argv[1] ?? "");
+if (self === entry) {
+  main().catch((err: unknown) => {
+    // eslint-disable-next-line no-console
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  });
+}
@@ -128,6 +128,9 @@ export function renderConsoleRecap(events: MatchEvent[]): string {
     lines.push(`Seed:     ${started.seed}`);
     lines.push(`Agents:   ${started.agentIds.join(", ")}`);
     lines.push(`MaxTurns: ${started.maxTurns}`);
+    if (started.turnStructure === "simultaneous") {
+      lines.push("Turns:    simultaneous");
+    }
   }
   lines.push("");
 
@@ -213,6 +216,9 @@ export function renderMarkdownRecap(events: MatchEvent[]): string {
     lines.push(`| Seed | ${started.seed} |`);
     lines.push(`| Agents | ${started.agentIds.map((a) => `\`${a}\``).join(", ")} |`);
     lines.push(`| Max Turns | ${started.maxTurns} |`);
+    if (started.turnStructure === "simultaneous") {
+      lines.push(`| Turns | simultaneous |`);
+    }
     lines.push("");
   }
 
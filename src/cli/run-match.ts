@@ -1,11 +1,19 @@
 import { loadEnv } from "../lib/env/loadEnv.js";
 import { execSync } from "node:child_process";
-import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
-import { dirname, resolve } from "node:path";
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import { toStableJsonl } from "../core/json.js";
-import { runMatchWithArtifacts } from "../tournament/runMatchWithArtifacts.js";
+import { watchMatchControlFile } from "../core/matchControlFile.js";
+import { createMatchControl } from "../engine/matchControl.js";
+import {
+  resumeMatchWithArtifacts,
+  runMatchWithArtifacts,
+} from "../tournament/runMatchWithArtifacts.js";
 import { assertPublishableAgents } from "../tournament/publishGuard.js";
+import { resolveHeistScenarioPath } from "../games/heist/scenarioFile.js";
+import { LLM_CASSETTE_FILENAME, type LlmCassetteMode } from "../agents/llm/cassette.js";
+import { loadLlmProvidersFile } from "../agents/llm/providers.js";
 
 loadEnv();
 
@@ -15,6 +23,7 @@ loadEnv();
 
 interface MatchCliArgs {
   scenario: string;
+  scenarioFile?: string;
   seed: number;
   turns: number;
   out?: string;
@@ -27,6 +36,10 @@ interface MatchCliArgs {
   agentBProvided: boolean;
   gateway?: "local" | "http";
   agentUrls: string[];
+  resume?: string;
+  controlFile?: string;
+  llmCassette?: { mode: LlmCassetteMode; path?: string };
+  llmProviders?: string;
 
   // Opt-in provenance
   emitProvenance: boolean;
@@ -38,6 +51,7 @@ export const usage = `Usage: npm run match -- [options]
 
 Options:
   --scenario <name>        Scenario to run (default: numberGuess)
+  --scenario-file <path>   Heist scenario file or preset id (implies --scenario heist)
   --seed <number>          RNG seed (default: 42)
   --turns <number>         Max turns (default: 20)
   --outDir <path>          Write match artifacts to a directory
@@ -48,6 +62,11 @@ Options:
   --out <path>             Write JSONL events to a file
   --gateway <local|http>   Use gateway adapters
   --agent-urls <urls>      Comma-separated agent URLs (required for http)
+  --resume <matchDir>      Continue a crashed --outDir run from its checkpoint.json
+  --control-file <path>    Poll for pause/resume/step/cancel commands (match_control.jsonl)
+  --llm-record             Record LLM calls to llm_cassette.json in --outDir
+  --llm-replay <path>      Replay LLM calls from a cassette file or match directory (no network)
+  --llm-providers <path>   Register extra LLM providers from a JSON file (llm:<id>:<model>)
   --emit-provenance        Include engine version/commit if available
   --engine-commit <sha>    Override engine commit hash
   --engine-version <ver>   Override engine version
@@ -65,6 +84,8 @@ export function parseArgs(argv: string[]): MatchCliArgs {
   }
 
   let scenario = "numberGuess";
+  let scenarioProvided = false;
+  let scenarioFile: string | undefined;
   let seed = 42;
   let turns = 20;
   let out: string | undefined;
@@ -77,6 +98,10 @@ export function parseArgs(argv: string[]): MatchCliArgs {
   let agentBProvided = false;
   let gateway: "local" | "http" | undefined;
   let agentUrls: string[] = [];
+  let resume: string | undefined;
+  let controlFile: string | undefined;
+  let llmCassette: MatchCliArgs["llmCassette"];
+  let llmProviders: string | undefined;
 
   let emitProvenance = false;
   let engineCommit: string | undefined;
@@ -86,6 +111,9 @@ export function parseArgs(argv: string[]): MatchCliArgs {
     const arg = argv[i];
     if (arg === "--scenario" && i + 1 < argv.length) {
       scenario = argv[++i];
+      scenarioProvided = true;
+    } else if ((arg === "--scenario-file" || arg === "--scenarioFile") && i + 1 < argv.length) {
+      scenarioFile = argv[++i];
     } else if (arg === "--seed" && i + 1 < argv.length) {
       seed = parseInt(argv[++i], 10);
     } else if ((arg === "--turns" || arg === "--maxTurns") && i + 1 < argv.length) {
@@ -117,6 +145,16 @@ export function parseArgs(argv: string[]): MatchCliArgs {
         .split(",")
         .map((entry) => entry.trim())
         .filter((entry) => entry.length > 0);
+    } else if (arg === "--resume" && i + 1 < argv.length) {
+      resume = argv[++i];
+    } else if (arg === "--control-file" && i + 1 < argv.length) {
+      controlFile = argv[++i];
+    } else if (arg === "--llm-record") {
+      llmCassette = { mode: "record" };
+    } else if (arg === "--llm-replay" && i + 1 < argv.length) {
+      llmCassette = { mode: "replay", path: argv[++i] };
+    } else if (arg === "--llm-providers" && i + 1 < argv.length) {
+      llmProviders = argv[++i];
     } else if (arg === "--emit-provenance") {
       emitProvenance = true;
     } else if (arg === "--engine-commit" && i + 1 < argv.length) {
@@ -126,8 +164,13 @@ export function parseArgs(argv: string[]): MatchCliArgs {
     }
   }
 
+  if (scenarioFile !== undefined && !scenarioProvided) {
+    scenario = "heist";
+  }
+
   return {
     scenario,
+    scenarioFile,
     seed,
     turns,
     out,
@@ -140,6 +183,10 @@ export function parseArgs(argv: string[]): MatchCliArgs {
     agents,
     gateway,
     agentUrls,
+    resume,
+    controlFile,
+    llmCassette,
+    llmProviders,
     emitProvenance,
     engineCommit,
     engineVersion,
@@ -187,6 +234,16 @@ export function resolveAgentDefaults(args: MatchCliArgs): {
   return { agentA, agentB, warning };
 }
 
+/** A replay path may name the cassette itself or the match directory holding it. */
+function resolveLlmCassetteArg(cassette: MatchCliArgs["llmCassette"]): MatchCliArgs["llmCassette"] {
+  if (!cassette?.path) {
+    return cassette;
+  }
+  const path = resolve(cassette.path);
+  const isDir = existsSync(path) && statSync(path).isDirectory();
+  return { ...cassette, path: isDir ? join(path, LLM_CASSETTE_FILENAME) : path };
+}
+
 function tryReadEngineCommit(): string | undefined {
   try {
     const output = execSync("git rev-parse HEAD", {
@@ -217,6 +274,27 @@ function tryReadEngineVersion(): string | undefined {
 
 async function main(): Promise<void> {
   const args = parseArgs(process.argv.slice(2));
+  if (args.llmProviders) {
+    try {
+      loadLlmProvidersFile(args.llmProviders);
+    } catch (err: unknown) {
+      // eslint-disable-next-line no-console
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  }
+  if (args.resume) {
+    try {
+      const outcome = await resumeMatchWithArtifacts(resolve(args.resume));
+      // eslint-disable-next-line no-console
+      console.error(`Resumed ${outcome.result.matchId}: ${outcome.reason}`);
+    } catch (err: unknown) {
+      // eslint-disable-next-line no-console
+      console.error(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+    return;
+  }
   const resolvedAgents = resolveAgentDefaults(args);
   const agentKeys = args.agents?.length
     ? args.agents
@@ -248,6 +326,12 @@ async function main(): Promise<void> {
     }
   }
 
+  if (args.llmCassette?.mode === "record" && !args.outDir) {
+    // eslint-disable-next-line no-console
+    console.error("Error: --llm-record needs --outDir to write llm_cassette.json into.");
+    process.exit(1);
+  }
+
   if (args.gateway === "http" && args.agentUrls.length === 0) {
     // eslint-disable-next-line no-console
     console.error("Error: --agent-urls is required when --gateway http is set.");
@@ -260,10 +344,20 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  const control = args.controlFile ? createMatchControl() : undefined;
+  const stopWatching =
+    control && args.controlFile
+      ? watchMatchControlFile(resolve(args.controlFile), (command) => control[command]())
+      : undefined;
+
   let outcome;
   try {
+    const scenarioPath = args.scenarioFile
+      ? resolveHeistScenarioPath(args.scenarioFile)
+      : undefined;
     outcome = await runMatchWithArtifacts({
       scenarioKey: args.scenario,
+      ...(scenarioPath ? { scenarioPath } : {}),
       agentKeys,
       seed: args.seed,
       maxTurns: args.turns,
@@ -273,11 +367,15 @@ async function main(): Promise<void> {
       agentUrls: args.agentUrls,
       transcriptDir: args.out ? dirname(args.out) : undefined,
       provenance,
+      ...(control ? { control } : {}),
+      ...(args.llmCassette ? { llmCassette: resolveLlmCassetteArg(args.llmCassette) } : {}),
     });
   } catch (err: unknown) {
     // eslint-disable-next-line no-console
     console.error(err instanceof Error ? err.message : String(err));
     process.exit(1);
+  } finally {
+    stopWatching?.();
   }
 
   const lines = toStableJsonl(outcome.result.events);
@@ -3,8 +3,10 @@ import { readFileSync } from "node:fs";
 import { resolve } from "node:path";
 import { runTournament } from "../tournament/runTournament.js";
 import { writeTournamentArtifacts, writeTournamentBundle } from "../tournament/artifacts.js";
-import type { TournamentConfig, StandingsRow } from "../tournament/types.js";
+import type { TournamentConfig, TournamentFormat, StandingsRow } from "../tournament/types.js";
 import { assertPublishableAgents } from "../tournament/publishGuard.js";
+import { resolveHeistScenarioPath } from "../games/heist/scenarioFile.js";
+import { loadLlmProvidersFile } from "../agents/llm/providers.js";
 
 loadEnv();
 
@@ -15,21 +17,32 @@ loadEnv();
 interface CliArgs {
   seed: number | undefined;
   rounds: number;
+  format: TournamentFormat;
+  placementPoints?: number[];
+  teamSize?: number;
   maxTurns: number;
   scenario: string;
+  scenarioFile?: string;
   agents: string[];
   outDir: string;
   bundleOut?: string;
+  llmProviders?: string;
 }
 
 function parseArgs(argv: string[]): CliArgs {
   let seed: number | undefined;
   let rounds = 1;
+  let format: TournamentFormat = "roundRobin";
+  let placementPoints: number[] | undefined;
+  let teamSize: number | undefined;
   let maxTurns = 20;
   let scenario = "numberGuess";
+  let scenarioProvided = false;
+  let scenarioFile: string | undefined;
   let agents: string[] = ["llm:ollama:qwen2.5:3b", "llm:ollama:qwen2.5:3b"];
   let outDir = "out";
   let bundleOut: string | undefined;
+  let llmProviders: string | undefined;
 
   for (let i = 0; i < argv.length; i++) {
     const arg = argv[i];
@@ -37,20 +50,48 @@ function parseArgs(argv: string[]): CliArgs {
       seed = parseInt(argv[++i], 10);
     } else if (arg === "--rounds" && i + 1 < argv.length) {
       rounds = parseInt(argv[++i], 10);
+    } else if (arg === "--format" && i + 1 < argv.length) {
+      format = argv[++i] as TournamentFormat;
+    } else if (arg === "--placement-points" && i + 1 < argv.length) {
+      placementPoints = argv[++i].split(",").map(Number);
+    } else if (arg === "--team-size" && i + 1 < argv.length) {
+      teamSize = parseInt(argv[++i], 10);
     } else if (arg === "--maxTurns" && i + 1 < argv.length) {
       maxTurns = parseInt(argv[++i], 10);
     } else if (arg === "--scenario" && i + 1 < argv.length) {
       scenario = argv[++i];
+      scenarioProvided = true;
+    } else if ((arg === "--scenario-file" || arg === "--scenarioFile") && i + 1 < argv.length) {
+      scenarioFile = argv[++i];
     } else if (arg === "--agents" && i + 1 < argv.length) {
       agents = argv[++i].split(",");
     } else if ((arg === "--outDir" || arg === "--out") && i + 1 < argv.length) {
       outDir = argv[++i];
     } else if (arg === "--bundle-out" && i + 1 < argv.length) {
       bundleOut = argv[++i];
+    } else if (arg === "--llm-providers" && i + 1 < argv.length) {
+      llmProviders = argv[++i];
     }
   }
 
-  return { seed, rounds, maxTurns, scenario, agents, outDir, bundleOut };
+  if (scenarioFile !== undefined && !scenarioProvided) {
+    scenario = "heist";
+  }
+
+  return {
+    seed,
+    rounds,
+    format,
+    ...(placementPoints && { placementPoints }),
+    ...(teamSize !== undefined && { teamSize }),
+    maxTurns,
+    scenario,
+    scenarioFile,
+    agents,
+    outDir,
+    bundleOut,
+    llmProviders,
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -59,10 +100,14 @@ function parseArgs(argv: string[]): CliArgs {
 
 function printStandings(rows: StandingsRow[]): void {
   const header = ["Rank", "Agent", "M", "W", "L", "D", "Pts", "SF", "SA", "Diff"];
+  const showPlaces = rows.some((r) => r.placementCounts);
+  if (showPlaces) {
+    header.push("Places");
+  }
 
   const data = rows.map((r, i) => [
     String(i + 1),
-    r.agentId,
+    r.members ? `${r.agentId} (${r.members.join(", ")})` : r.agentId,
     String(r.matches),
     String(r.wins),
     String(r.losses),
@@ -71,6 +116,7 @@ function printStandings(rows: StandingsRow[]): void {
     String(r.scoreFor),
     String(r.scoreAgainst),
     String(r.scoreDiff),
+    ...(showPlaces ? [(r.placementCounts ?? []).join("/")] : []),
   ]);
 
   // Compute column widths
@@ -114,12 +160,37 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  if (args.llmProviders) {
+    try {
+      loadLlmProvidersFile(args.llmProviders);
+    } catch (err: unknown) {
+      // eslint-disable-next-line no-console
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  }
+
+  let scenarioPath: string | undefined;
+  if (args.scenarioFile) {
+    try {
+      scenarioPath = resolveHeistScenarioPath(args.scenarioFile);
+    } catch (err: unknown) {
+      // eslint-disable-next-line no-console
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  }
+
   const harnessVersion = tryReadHarnessVersion();
   const config: TournamentConfig = {
     seed: args.seed,
     maxTurns: args.maxTurns,
     rounds: args.rounds,
+    ...(args.format !== "roundRobin" && { format: args.format }),
+    ...(args.placementPoints && { placementPoints: args.placementPoints }),
+    ...(args.teamSize !== undefined && { teamSize: args.teamSize }),
     scenarioKey: args.scenario,
+    ...(scenarioPath && { scenarioPath }),
     agentKeys: args.agents,
     includeEventLogs: true,
     ...(harnessVersion && { harnessVersion }),
@@ -132,7 +203,10 @@ async function main(): Promise<void> {
   // eslint-disable-next-line no-console
   console.log(
     `Tournament: seed=${config.seed} rounds=${config.rounds} maxTurns=${config.maxTurns} ` +
-      `scenario=${config.scenarioKey} agents=[${config.agentKeys.join(", ")}]`,
+      (config.format ? `format=${config.format} ` : "") +
+      (config.teamSize ? `teamSize=${config.teamSize} ` : "") +
+      `scenario=${config.scenarioKey} agents=[${config.agentKeys.join(", ")}]` +
+      (scenarioPath ? ` scenarioFile=${scenarioPath}` : ""),
   );
   // eslint-disable-next-line no-console
   console.log();
@@ -8,6 +8,11 @@ import { generateHeistDebugView } from "../games/heist/debugView.js";
 import { generateHeistScenario, HEIST_PRESETS } from "../games/heist/generator.js";
 import type { HeistGeneratorConfig } from "../games/heist/generatorTypes.js";
 import { generateLayoutReport } from "../games/heist/layoutReport.js";
+import {
+  solveHeistScenario,
+  toHeistParReport,
+  type HeistParReport,
+} from "../games/heist/solver.js";
 import type { HeistScenarioParams } from "../games/heist/types.js";
 import { validateHeistScenario } from "../games/heist/validator.js";
 
@@ -19,6 +24,7 @@ interface ScenarioFile {
   gameId: "heist";
   gameVersion: "0.1.0";
   params: HeistScenarioParams;
+  par?: HeistParReport;
 }
 
 interface ScenarioCliResult {
@@ -42,6 +48,21 @@ const parseSeed = (value: string | undefined): number | undefined => {
   return parsed;
 };
 
+/** `--max-states <n>`, when given: a positive cap on the solver's search. */
+const parseMaxStates = (
+  argv: string[],
+): { ok: true; maxStates?: number } | { ok: false; error: string } => {
+  const index = argv.indexOf("--max-states");
+  if (index === -1) {
+    return { ok: true };
+  }
+  const maxStates = Number(argv[index + 1]);
+  if (!Number.isInteger(maxStates) || maxStates <= 0) {
+    return { ok: false, error: "Invalid --max-states." };
+  }
+  return { ok: true, maxStates };
+};
+
 const parseGenArgs = (
   argv: string[],
 ):
@@ -53,6 +74,7 @@ const parseGenArgs = (
       configPath?: string;
       outDir: string;
       validate: boolean;
+      maxStates?: number;
     }
   | { ok: false; error: string } => {
   let game: string | undefined;
@@ -94,6 +116,10 @@ const parseGenArgs = (
   if (preset && configPath) {
     return { ok: false, error: "--preset and --config are mutually exclusive." };
   }
+  const limit = parseMaxStates(argv);
+  if (!limit.ok) {
+    return limit;
+  }
 
   return {
     ok: true,
@@ -103,6 +129,7 @@ const parseGenArgs = (
     configPath,
     outDir,
     validate,
+    maxStates: limit.maxStates,
   };
 };
 
@@ -160,14 +187,24 @@ const readScenarioFile = (path: string): ScenarioFile => {
 const formatValidationErrors = (errors: { message: string }[]): string[] =>
   errors.map((error) => `- ${error.message}`);
 
-const buildScenarioFile = (params: HeistScenarioParams, scenarioId: string): ScenarioFile => ({
+const buildScenarioFile = (
+  params: HeistScenarioParams,
+  scenarioId: string,
+  maxStates?: number,
+): ScenarioFile => ({
   schemaVersion: "0.1.0",
   scenarioId,
   gameId: "heist",
   gameVersion: "0.1.0",
   params,
+  par: toHeistParReport(solveHeistScenario(params, { maxStates })),
 });
 
+const formatPar = (par: HeistParReport): string =>
+  `Par: ${par.parTurns === null ? "unreachable" : `${par.parTurns} turns`}, ` +
+  `optimal score ${par.optimalScore} in ${par.optimalTurns} turns` +
+  (par.exhaustive ? "." : ` (search capped after ${par.statesExplored} states).`);
+
 const resolvePresetConfig = (preset: string): HeistGeneratorConfig => {
   const config = HEIST_PRESETS[preset];
   if (!config) {
@@ -184,7 +221,7 @@ export function runScenarioCli(argv: string[], cwd = process.cwd()): ScenarioCli
   if (!command) {
     writeLine(
       stderr,
-      "Missing command. Available: gen, validate, preview, describe, debug-view, layout-report.",
+      "Missing command. Available: gen, validate, solve, preview, describe, debug-view, layout-report.",
     );
     return { code: 1, stdout: stdout.join(""), stderr: stderr.join("") };
   }
@@ -208,7 +245,23 @@ export function runScenarioCli(argv: string[], cwd = process.cwd()): ScenarioCli
       const scenarioParams = generateHeistScenario(config ?? {}, parsed.seed);
       const scenarioIdSuffix = parsed.preset ?? (parsed.configPath ? "custom" : "default");
       const scenarioId = `heist:${scenarioIdSuffix}-${parsed.seed}`;
-      const scenario = buildScenarioFile(scenarioParams, scenarioId);
+      const scenario = buildScenarioFile(scenarioParams, scenarioId, parsed.maxStates);
+      if (scenario.par?.parTurns === null) {
+        // A map nobody can clear makes a useless preset, so nothing is written.
+        writeLine(
+          stderr,
+          `Par is unreachable for ${scenarioId}: no line holds every objective and extracts ` +
+            `within ${scenarioParams.winCondition.maxTurns} turns.`,
+        );
+        writeLine(stderr, formatPar(scenario.par));
+        writeLine(
+          stderr,
+          scenario.par.exhaustive
+            ? "Try another seed."
+            : "Try another seed, or a larger --max-states.",
+        );
+        return { code: 1, stdout: stdout.join(""), stderr: stderr.join("") };
+      }
       const outputPath = resolve(cwd, parsed.outDir, "scenario.json");
       mkdirSync(dirname(outputPath), { recursive: true });
       writeFileSync(outputPath, `${stableStringify(scenario)}\n`, "utf-8");
@@ -217,6 +270,9 @@ export function runScenarioCli(argv: string[], cwd = process.cwd()): ScenarioCli
         stdout,
         `Generated scenario ${scenarioId} (${scenarioParams.map.rooms.length} rooms).`,
       );
+      if (scenario.par) {
+        writeLine(stdout, formatPar(scenario.par));
+      }
       writeLine(stdout, `Wrote ${outputPath}`);
 
       if (parsed.validate) {
@@ -262,6 +318,41 @@ export function runScenarioCli(argv: string[], cwd = process.cwd()): ScenarioCli
     }
   }
 
+  if (command === "solve") {
+    const parsed = parsePathArg(argv.slice(1));
+    if (!parsed.ok) {
+      writeLine(stderr, parsed.error);
+      return { code: 1, stdout: stdout.join(""), stderr: stderr.join("") };
+    }
+    const limit = parseMaxStates(argv.slice(1));
+    if (!limit.ok) {
+      writeLine(stderr, limit.error);
+      return { code: 1, stdout: stdout.join(""), stderr: stderr.join("") };
+    }
+    try {
+      const path = resolve(cwd, parsed.path);
+      const scenario = readScenarioFile(path);
+      const validation = validateHeistScenario(scenario.params);
+      if (!validation.ok) {
+        writeLine(stderr, "Scenario validation failed:");
+        for (const line of formatValidationErrors(validation.errors)) {
+          writeLine(stderr, line);
+        }
+        return { code: 1, stdout: stdout.join(""), stderr: stderr.join("") };
+      }
+      const par = toHeistParReport(
+        solveHeistScenario(scenario.params, { maxStates: limit.maxStates }),
+      );
+      writeFileSync(path, `${stableStringify({ ...scenario, par })}\n`, "utf-8");
+      writeLine(stdout, formatPar(par));
+      writeLine(stdout, `Wrote ${path}`);
+      return { code: 0, stdout: stdout.join(""), stderr: stderr.join("") };
+    } catch (error) {
+      writeLine(stderr, error instanceof Error ? error.message : "Failed to solve scenario.");
+      return { code: 1, stdout: stdout.join(""), stderr: stderr.join("") };
+    }
+  }
+
   if (command === "preview" || command === "describe") {
     const parsed = parsePathArg(argv.slice(1));
     if (!parsed.ok) {
@@ -325,6 +416,11 @@ export function runScenarioCli(argv: string[], cwd = process.cwd()): ScenarioCli
       writeLine(stderr, parsed.error);
       return { code: 1, stdout: stdout.join(""), stderr: stderr.join("") };
     }
+    const limit = parseMaxStates(argv.slice(1));
+    if (!limit.ok) {
+      writeLine(stderr, limit.error);
+      return { code: 1, stdout: stdout.join(""), stderr: stderr.join("") };
+    }
     try {
       const scenario = readScenarioFile(resolve(cwd, parsed.path));
       const validation = validateHeistScenario(scenario.params);
@@ -335,7 +431,10 @@ export function runScenarioCli(argv: string[], cwd = process.cwd()): ScenarioCli
         }
         return { code: 1, stdout: stdout.join(""), stderr: stderr.join("") };
       }
-      writeLine(stdout, generateLayoutReport(scenario.params));
+      const par =
+        scenario.par ??
+        toHeistParReport(solveHeistScenario(scenario.params, { maxStates: limit.maxStates }));
+      writeLine(stdout, generateLayoutReport(scenario.params, par));
       return { code: 0, stdout: stdout.join(""), stderr: stderr.join("") };
     } catch (error) {
       writeLine(
@@ -6,10 +6,15 @@ import {
   type VerifyMatchHashStatus,
   type VerifyMatchReport,
 } from "../core/verifyMatchDirectory.js";
+import type { ResimulationReport } from "../engine/resimulate.js";
+import { resimulateMatchDirectory } from "../tournament/resimulateMatchDirectory.js";
 
 loadEnv();
 
-export function formatVerifyMatchReport(report: VerifyMatchReport): string {
+export function formatVerifyMatchReport(
+  report: VerifyMatchReport,
+  resimulation?: ResimulationReport,
+): string {
   const lines: string[] = [];
   lines.push(`verify-match: ${report.matchDir}`);
 
@@ -36,18 +41,52 @@ export function formatVerifyMatchReport(report: VerifyMatchReport): string {
     addHashLine("manifestHash", report.manifestHash);
   }
 
-  const resultLabel =
-    report.status === "pass" ? "PASS" : report.status === "fail" ? "FAIL" : "ERROR";
+  if (report.stateChain?.ok) {
+    lines.push(
+      `  ${"stateChain".padEnd(columnWidth)}  ✓ PASS (${report.stateChain.turnsChecked} turns)`,
+    );
+  } else if (report.stateChain?.brokenAt) {
+    const { seq, turn, expected, actual } = report.stateChain.brokenAt;
+    lines.push(`  ${"stateChain".padEnd(columnWidth)}  ✗ FAIL at turn ${turn} (seq ${seq})`);
+    lines.push(`    expected: ${expected ?? "(missing)"}`);
+    lines.push(`    actual:   ${actual ?? "(missing)"}`);
+  }
+
+  if (resimulation?.ok) {
+    lines.push(
+      `  ${"resimulation".padEnd(columnWidth)}  ✓ PASS (${resimulation.eventsChecked} events)`,
+    );
+  } else if (resimulation?.divergence) {
+    const { seq, eventType, field, recorded, recomputed } = resimulation.divergence;
+    lines.push(
+      `  ${"resimulation".padEnd(columnWidth)}  ✗ FAIL at seq ${seq} (${eventType}.${field})`,
+    );
+    lines.push(`    recorded:   ${JSON.stringify(recorded)}`);
+    lines.push(`    recomputed: ${JSON.stringify(recomputed)}`);
+  }
+
+  const status =
+    report.status === "pass" && resimulation && !resimulation.ok ? "fail" : report.status;
+  const resultLabel = status === "pass" ? "PASS" : status === "fail" ? "FAIL" : "ERROR";
   lines.push(`RESULT: ${resultLabel}`);
   return lines.join("\n");
 }
 
 export async function runVerifyMatchCli(argv: string[]): Promise<number> {
   let matchDir: string | undefined;
+  let resimulate = false;
+  let scenarioPath: string | undefined;
+  let maxConsecutiveTimeouts: number | undefined;
   for (let i = 0; i < argv.length; i++) {
     const arg = argv[i];
     if (arg === "--path" && i + 1 < argv.length) {
       matchDir = argv[++i];
+    } else if (arg === "--resimulate") {
+      resimulate = true;
+    } else if (arg === "--scenario-file" && i + 1 < argv.length) {
+      scenarioPath = argv[++i];
+    } else if (arg === "--max-consecutive-timeouts" && i + 1 < argv.length) {
+      maxConsecutiveTimeouts = Number(argv[++i]);
     }
   }
 
@@ -56,9 +95,32 @@ export async function runVerifyMatchCli(argv: string[]): Promise<number> {
     console.error("Error: --path <matchDir> is required");
     return 2;
   }
+  if (
+    maxConsecutiveTimeouts !== undefined &&
+    !(Number.isInteger(maxConsecutiveTimeouts) && maxConsecutiveTimeouts > 0)
+  ) {
+    // eslint-disable-next-line no-console
+    console.error("Error: --max-consecutive-timeouts must be a positive integer");
+    return 2;
+  }
 
   const report = await verifyMatchDirectory(matchDir);
-  process.stdout.write(`${formatVerifyMatchReport(report)}\n`);
+  let resimulation: ResimulationReport | undefined;
+  if (resimulate && report.status !== "error") {
+    try {
+      resimulation = await resimulateMatchDirectory(matchDir, {
+        scenarioPath,
+        maxConsecutiveTimeouts,
+      });
+    } catch (err: unknown) {
+      report.errors.push(
+        `Resimulation failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      report.status = "error";
+      report.exitCode = 2;
+    }
+  }
+  process.stdout.write(`${formatVerifyMatchReport(report, resimulation)}\n`);
 
   if (report.errors.length > 0) {
     for (const error of report.errors) {
@@ -67,6 +129,9 @@ export async function runVerifyMatchCli(argv: string[]): Promise<number> {
     }
   }
 
+  if (report.exitCode === 0 && resimulation && !resimulation.ok) {
+    return 1;
+  }
   return report.exitCode;
 }
 
@@ -1,6 +1,7 @@
 "use client";
 
 import type { HeistSceneState, RoomVisual, DoorVisual } from "@/arena/heist/types";
+import { selectCameras } from "@/components/heist/hud/selectors";
 
 const CELL = 120;
 const ROOM_SIZE = 88;
@@ -49,7 +50,7 @@ export function HeistMap({ state }: HeistMapProps) {
   const doors = Object.values(state.map.doors);
   const agents = Object.values(state.agents);
   const guards = Object.values(state.guards);
-  const entities = Object.values(state.entities);
+  const cameras = selectCameras(state);
 
   // Compute bounds
   let minX = Infinity;
@@ -215,43 +216,60 @@ export function HeistMap({ state }: HeistMapProps) {
         );
       })}
 
-      {/* Camera entities */}
-      {entities
-        .filter((e) => e.kind === "camera")
-        .map((cam) => {
-          const room = cam.roomId ? roomMap[cam.roomId] : undefined;
-          if (!room) {
-            return null;
-          }
-          const c = getRoomCenter(room, minX, minY);
-          const isVisible = cam.roomId ? visibleRooms.has(cam.roomId) : false;
-          return (
-            <g
-              key={cam.entityId}
-              opacity={isVisible ? 0.7 : 0.15}
-              style={{ transition: "opacity 0.5s ease" }}
+      {/* Camera entities: view cones to covered rooms, greyed out when disabled */}
+      {cameras.map((cam) => {
+        const room = cam.roomId ? roomMap[cam.roomId] : undefined;
+        if (!room) {
+          return null;
+        }
+        const c = getRoomCenter(room, minX, minY);
+        const isVisible = cam.roomId ? visibleRooms.has(cam.roomId) : false;
+        const color = cam.isDisabled ? "#445" : cam.detecting.length > 0 ? "#ff3d71" : "#7c4dff";
+        return (
+          <g
+            key={cam.id}
+            opacity={isVisible ? 0.7 : 0.15}
+            style={{ transition: "opacity 0.5s ease" }}
+          >
+            {cam.coverageRoomIds
+              .filter((roomId) => roomId !== cam.roomId && roomMap[roomId])
+              .map((roomId) => {
+                const target = getRoomCenter(roomMap[roomId], minX, minY);
+                return (
+                  <line
+                    key={`${cam.id}-${roomId}`}
+                    x1={c.cx + 30}
+                    y1={c.cy - 30}
+                    x2={target.cx}
+                    y2={target.cy}
+                    stroke={color}
+                    strokeOpacity={0.25}
+                    strokeWidth={6}
+                    strokeLinecap="round"
+                  />
+                );
+              })}
+            <circle
+              cx={c.cx + 30}
+              cy={c.cy - 30}
+              r={8}
+              fill={cam.isDisabled ? "rgba(68,68,85,0.15)" : "rgba(124,77,255,0.15)"}
+              stroke={cam.isDisabled ? "rgba(68,68,85,0.4)" : "rgba(124,77,255,0.4)"}
+              strokeWidth={1}
+            />
+            <text
+              x={c.cx + 30}
+              y={c.cy - 26}
+              textAnchor="middle"
+              fontSize={8}
+              fill={color}
+              fontFamily="'JetBrains Mono', ui-monospace, monospace"
             >
-              <circle
-                cx={c.cx + 30}
-                cy={c.cy - 30}
-                r={8}
-                fill="rgba(124,77,255,0.15)"
-                stroke="rgba(124,77,255,0.4)"
-                strokeWidth={1}
-              />
-              <text
-                x={c.cx + 30}
-                y={c.cy - 26}
-                textAnchor="middle"
-                fontSize={8}
-                fill="#7c4dff"
-                fontFamily="'JetBrains Mono', ui-monospace, monospace"
-              >
-                {"@"}
-              </text>
-            </g>
-          );
-        })}
+              {cam.isDisabled ? "x" : "@"}
+            </text>
+          </g>
+        );
+      })}
 
       {/* Guards */}
       {guards.map((guard, gi) => {
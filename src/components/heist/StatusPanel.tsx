@@ -14,9 +14,17 @@ export function StatusPanel({ state }: StatusPanelProps) {
   const roomLabel = currentRoom?.label ?? currentRoomId ?? "Unknown";
   const alertLevel = state.sceneFacts?.alertLevel ?? 0;
 
-  // Use alert level as a proxy for "noise" since the engine doesn't expose noise directly
+  const noise = state.sceneFacts?.noise;
+  const thresholds = state.scenarioParams?.alertThresholds ?? [];
+  const topThreshold = thresholds.length > 0 ? Math.max(...thresholds) : 0;
+
+  // Scale the bar by noise against the top alert threshold; older logs without
+  // noise fall back to using the alert level as a proxy.
   const barLength = 8;
-  const filled = Math.min(alertLevel * 2 + 1, barLength);
+  const filled =
+    noise !== undefined && topThreshold > 0
+      ? Math.min(Math.max(Math.round((noise / topThreshold) * barLength), 1), barLength)
+      : Math.min(alertLevel * 2 + 1, barLength);
   const barColor = alertLevel >= 3 ? "#ff3d71" : alertLevel >= 2 ? "#ffd740" : "#00e676";
 
   return (
@@ -1,7 +1,11 @@
 import type { ActionAdjudicatedEvent, MatchEvent } from "@/contract/types";
 import { reduceHeistEvent } from "@/arena/heist/reducer";
 import type { HeistSceneState } from "@/arena/heist/types";
-import { HEIST_ERROR_CODES, HEIST_RESULT_CODES } from "@/scenarios/heist/feedbackCodes";
+import {
+  HEIST_DETECTION_CODES,
+  HEIST_ERROR_CODES,
+  HEIST_RESULT_CODES,
+} from "@/scenarios/heist/feedbackCodes";
 import type {
   HeistMomentCandidate,
   HeistMomentId,
@@ -62,6 +66,18 @@ export interface DoorDisplay {
   isLocked: boolean;
 }
 
+// ---- Cameras ----
+
+export interface CameraDisplay {
+  id: string;
+  label: string;
+  roomId?: string;
+  /** Rooms inside the camera's view; empty while the camera is disabled. */
+  coverageRoomIds: string[];
+  isDisabled: boolean;
+  detecting: string[];
+}
+
 // ---- Icon mapping ----
 
 const ITEM_ICONS: Record<string, string> = {
@@ -208,6 +224,34 @@ export function selectDoors(state: HeistSceneState): DoorDisplay[] {
   });
 }
 
+export function selectCameras(state: HeistSceneState): CameraDisplay[] {
+  return Object.values(state.entities)
+    .filter((e) => e.kind === "camera")
+    .map((entity) => {
+      const isDisabled = entity.state?.disabled === true;
+      const coverage = Array.isArray(entity.state?.coverage)
+        ? (entity.state.coverage as unknown[]).filter(
+            (roomId): roomId is string => typeof roomId === "string",
+          )
+        : entity.roomId
+          ? [entity.roomId]
+          : [];
+      const detecting = Array.isArray(entity.state?.detecting)
+        ? (entity.state.detecting as unknown[]).filter(
+            (agentId): agentId is string => typeof agentId === "string",
+          )
+        : [];
+      return {
+        id: entity.entityId,
+        label: entity.label ?? entity.entityId,
+        roomId: entity.roomId,
+        coverageRoomIds: isDisabled ? [] : coverage,
+        isDisabled,
+        detecting: isDisabled ? [] : detecting,
+      };
+    });
+}
+
 // ---- Moments ----
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
@@ -250,6 +294,41 @@ const HEIST_FEEDBACK_MOMENTS: Record<string, HeistMomentDefinition> = {
     register: "failure",
     priority: 80,
   },
+  [HEIST_ERROR_CODES.invalid_door_id]: {
+    id: "misnavigation",
+    register: "failure",
+    priority: 90,
+  },
+  [HEIST_ERROR_CODES.door_not_adjacent]: {
+    id: "misnavigation",
+    register: "failure",
+    priority: 90,
+  },
+  [HEIST_ERROR_CODES.door_not_locked]: {
+    id: "interaction_snag",
+    register: "failure",
+    priority: 70,
+  },
+  [HEIST_ERROR_CODES.door_not_alarmed]: {
+    id: "interaction_snag",
+    register: "failure",
+    priority: 70,
+  },
+  [HEIST_ERROR_CODES.item_not_in_inventory]: {
+    id: "interaction_snag",
+    register: "failure",
+    priority: 70,
+  },
+  [HEIST_ERROR_CODES.item_not_tool]: {
+    id: "interaction_snag",
+    register: "failure",
+    priority: 70,
+  },
+  [HEIST_ERROR_CODES.tool_not_applicable]: {
+    id: "interaction_snag",
+    register: "failure",
+    priority: 70,
+  },
   [HEIST_ERROR_CODES.item_not_in_room]: {
     id: "interaction_snag",
     register: "failure",
@@ -300,6 +379,36 @@ const HEIST_FEEDBACK_MOMENTS: Record<string, HeistMomentDefinition> = {
     register: "failure",
     priority: 75,
   },
+  [HEIST_RESULT_CODES.door_forced]: {
+    id: "door_breached",
+    register: "tension",
+    priority: 62,
+  },
+  [HEIST_RESULT_CODES.door_unlocked]: {
+    id: "door_breached",
+    register: "progress",
+    priority: 58,
+  },
+  [HEIST_RESULT_CODES.alarm_disarmed]: {
+    id: "door_breached",
+    register: "progress",
+    priority: 50,
+  },
+  [HEIST_ERROR_CODES.camera_not_in_room]: {
+    id: "interaction_snag",
+    register: "failure",
+    priority: 70,
+  },
+  [HEIST_ERROR_CODES.camera_already_disabled]: {
+    id: "interaction_snag",
+    register: "failure",
+    priority: 70,
+  },
+  [HEIST_RESULT_CODES.camera_disabled]: {
+    id: "camera_disabled",
+    register: "progress",
+    priority: 60,
+  },
   [HEIST_RESULT_CODES.hack_complete]: {
     id: "terminal_hacked",
     register: "progress",
@@ -310,11 +419,21 @@ const HEIST_FEEDBACK_MOMENTS: Record<string, HeistMomentDefinition> = {
     register: "progress",
     priority: 40,
   },
+  [HEIST_RESULT_CODES.intel_downloaded]: {
+    id: "item_acquired",
+    register: "progress",
+    priority: 55,
+  },
   [HEIST_RESULT_CODES.item_pickup]: {
     id: "item_acquired",
     register: "progress",
     priority: 55,
   },
+  [HEIST_RESULT_CODES.item_contested]: {
+    id: "item_contested",
+    register: "tension",
+    priority: 65,
+  },
   [HEIST_RESULT_CODES.extraction_success]: {
     id: "clean_extraction",
     register: "progress",
@@ -351,6 +470,9 @@ type HeistMomentContext = {
   fallbackReason?: string;
   alertLevelBefore?: number;
   alertLevelAfter?: number;
+  guardLabel?: string;
+  cameraLabel?: string;
+  detectionEvent?: Record<string, unknown>;
 };
 
 const roomLabel = (state: HeistSceneState, roomId?: string): string | undefined => {
@@ -387,6 +509,13 @@ const terminalLabel = (state: HeistSceneState, terminalId?: string): string | un
   return state.entities[terminalId]?.label ?? terminalId;
 };
 
+const cameraLabel = (state: HeistSceneState, cameraId?: string): string | undefined => {
+  if (!cameraId) {
+    return undefined;
+  }
+  return state.entities[cameraId]?.label ?? cameraId;
+};
+
 function buildHeistMomentContext(
   event: ActionAdjudicatedEvent,
   state: HeistSceneState,
@@ -440,6 +569,7 @@ function buildHeistMomentContext(
     extractionRoomId,
     extractionRoomLabel: roomLabel(state, extractionRoomId),
     fallbackReason: event.fallbackReason ?? undefined,
+    cameraLabel: cameraLabel(state, asString(feedback?.cameraId)),
     alertLevelBefore,
     alertLevelAfter,
   };
@@ -455,6 +585,15 @@ export function adjudicationToMomentCandidate(
   const resultCode = asString(feedback?.result);
   const fallbackReason = event.fallbackReason;
   const context = buildHeistMomentContext(event, state, previousState);
+  const detections: unknown[] = Array.isArray(feedback?.detections) ? feedback.detections : [];
+  const detection = detections.find(
+    (entry): entry is Record<string, unknown> =>
+      isRecord(entry) && entry.code === HEIST_DETECTION_CODES.guard_detected,
+  );
+  const cameraDetection = detections.find(
+    (entry): entry is Record<string, unknown> =>
+      isRecord(entry) && entry.code === HEIST_DETECTION_CODES.camera_detected,
+  );
 
   if (fallbackReason) {
     return {
@@ -471,6 +610,52 @@ export function adjudicationToMomentCandidate(
     };
   }
 
+  if (detection) {
+    // detectionEvent also suppresses the near_miss detector for this turn.
+    return {
+      id: "guard_detection",
+      register: "failure",
+      priority: 92,
+      turn: event.turn,
+      agentId: event.agentId,
+      seqRange: { start: event.seq, end: event.seq },
+      context: {
+        ...context,
+        guardLabel: asString(detection.guardId),
+        alertLevelAfter: asNumber(detection.alertLevel) ?? context.alertLevelAfter,
+        detectionEvent: detection,
+      },
+    };
+  }
+
+  if (cameraDetection) {
+    return {
+      id: "camera_spotted",
+      register: "tension",
+      priority: 84,
+      turn: event.turn,
+      agentId: event.agentId,
+      seqRange: { start: event.seq, end: event.seq },
+      context: {
+        ...context,
+        cameraLabel: asString(cameraDetection.cameraId),
+        alertLevelAfter: asNumber(cameraDetection.alertLevel) ?? context.alertLevelAfter,
+      },
+    };
+  }
+
+  if (event.valid && feedback?.alarmTripped === true) {
+    return {
+      id: "alarm_tripped",
+      register: "failure",
+      priority: 88,
+      turn: event.turn,
+      agentId: event.agentId,
+      seqRange: { start: event.seq, end: event.seq },
+      context,
+    };
+  }
+
   if (!event.valid && errorCode) {
     const definition = HEIST_FEEDBACK_MOMENTS[errorCode];
     if (!definition) {
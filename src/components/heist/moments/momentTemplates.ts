@@ -43,6 +43,7 @@ type HeistMomentContext = {
   alertLevelBefore?: number;
   alertLevelAfter?: number;
   guardLabel?: string;
+  cameraLabel?: string;
   guardRoomLabel?: string;
   agentRoomLabel?: string;
   stalledTurns?: number;
@@ -174,6 +175,76 @@ const MOMENT_TEMPLATES: Record<HeistMomentId, TemplateFn[]> = {
       category: "inventory",
     }),
   ],
+  item_contested: [
+    (ctx) => ({
+      icon: "\u{1F91C}",
+      title: "Beaten to it",
+      detail: `${ctx.itemLabel ?? "Item"} snatched by a rival first`,
+      category: "inventory",
+    }),
+    (ctx) => ({
+      icon: "\u{1F3C3}",
+      title: "Contested grab",
+      detail: `${ctx.agentLabel ?? "Agent"} lost the race for ${ctx.itemLabel ?? "the item"}`,
+      category: "inventory",
+    }),
+  ],
+  door_breached: [
+    (ctx) => ({
+      icon: "\u{1F6AA}",
+      title: "Door breached",
+      detail: `${ctx.agentLabel ?? "Agent"} got through ${ctx.doorLabel ?? "a locked door"}`,
+      category: "navigation",
+    }),
+    (ctx) => ({
+      icon: "\u{1F527}",
+      title: "Way in",
+      detail: `${ctx.doorLabel ?? "Door"} is open now`,
+      category: "navigation",
+    }),
+  ],
+  alarm_tripped: [
+    (ctx) => ({
+      icon: "\u{1F514}",
+      title: "Alarm tripped",
+      detail: `${ctx.doorLabel ?? "A door"} alarm went off \u2014 alert ${ctx.alertLevelAfter ?? "?"}`,
+      category: "stealth",
+    }),
+    (ctx) => ({
+      icon: "\u{1F6A8}",
+      title: "Bells ringing",
+      detail: `${ctx.agentLabel ?? "Agent"} set off the alarm on ${ctx.doorLabel ?? "the door"}`,
+      category: "stealth",
+    }),
+  ],
+  camera_spotted: [
+    (ctx) => ({
+      icon: "\u{1F4F9}",
+      title: "On camera",
+      detail: `${ctx.cameraLabel ?? "A camera"} caught ${ctx.agentLabel ?? "the agent"} \u2014 alert ${ctx.alertLevelAfter ?? "?"}`,
+      category: "stealth",
+    }),
+    (ctx) => ({
+      icon: "\u{1F534}",
+      title: "Recording",
+      detail: `${ctx.agentLabel ?? "Agent"} walked into ${ctx.cameraLabel ?? "camera"} view`,
+      category: "stealth",
+    }),
+  ],
+  camera_disabled: [
+    (ctx) => ({
+      icon: "\u{1F4F4}",
+      title: "Camera down",
+      detail: `${ctx.agentLabel ?? "Agent"} knocked out ${ctx.cameraLabel ?? "a camera"}`,
+      category: "stealth",
+    }),
+    (ctx) => ({
+      icon: "\u26A1",
+      title: "Feed cut",
+      detail: `${ctx.cameraLabel ?? "Camera"} has gone dark`,
+      category: "stealth",
+    }),
+  ],
   clean_extraction: [
     (ctx) => ({
       icon: "\u{1F681}",
@@ -244,6 +315,20 @@ const MOMENT_TEMPLATES: Record<HeistMomentId, TemplateFn[]> = {
       category: "tempo",
     }),
   ],
+  guard_detection: [
+    (ctx) => ({
+      icon: "\u{1F6A8}",
+      title: "Spotted!",
+      detail: `${ctx.guardLabel ?? "A guard"} spotted ${ctx.agentLabel ?? "the agent"} \u2014 alert ${ctx.alertLevelAfter ?? "?"}`,
+      category: "stealth",
+    }),
+    (ctx) => ({
+      icon: "\u{1F526}",
+      title: "Caught in the light",
+      detail: `${ctx.guardLabel ?? "Guard"} has eyes on ${ctx.agentLabel ?? "the agent"}`,
+      category: "stealth",
+    }),
+  ],
   near_miss: [
     (ctx) => ({
       icon: "\u{1F9DF}\u200D\u2642\uFE0F",
@@ -9,11 +9,17 @@ export type HeistMomentId =
   | "terminal_hacked"
   | "terminal_progress"
   | "item_acquired"
+  | "item_contested"
+  | "door_breached"
+  | "alarm_tripped"
   | "clean_extraction"
   | "guard_closing"
   | "stalled_objective"
   | "noise_creep"
   | "near_miss"
+  | "guard_detection"
+  | "camera_spotted"
+  | "camera_disabled"
   | "fm17_stall";
 
 export interface HeistMomentCandidate {
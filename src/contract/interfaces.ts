@@ -1,4 +1,14 @@
-import type { AgentId, JsonValue, MatchProvenance, Seed } from "./types.js";
+import type {
+  AgentId,
+  JsonValue,
+  MatchEndedEvent,
+  MatchEvent,
+  MatchId,
+  MatchProvenance,
+  Seed,
+  TeamAssignment,
+  TeamId,
+} from "./types.js";
 
 // ---------------------------------------------------------------------------
 // Agent
@@ -8,6 +18,8 @@ import type { AgentId, JsonValue, MatchProvenance, Seed } from "./types.js";
 export interface AgentConfig {
   agentId: AgentId;
   seed: Seed;
+  /** Team matches only: the agent's team, members in seat order (itself included). */
+  team?: { id: TeamId; members: AgentId[] };
 }
 
 /** Per-turn context provided alongside the observation. */
@@ -16,6 +28,29 @@ export interface AgentContext {
   rng: () => number;
   turn: number;
   agentId: AgentId;
+  /** Aborts when the match is cancelled; pass it to fetch and other slow work. */
+  signal?: AbortSignal;
+  /** Clock matches only: what is left of this agent's time bank for this move. */
+  timeRemainingMs?: number;
+}
+
+/** What an agent learns once its match is over. */
+export interface AgentMatchOutcome {
+  matchId: MatchId;
+  agentId: AgentId;
+  reason: MatchEndedEvent["reason"];
+  scores: Record<AgentId, number>;
+  /** Team matches only. */
+  teamScores?: Record<TeamId, number>;
+  turns: number;
+  forfeitedBy?: AgentId;
+  /** `MatchEnded.details`, e.g. the scenario's revealed secrets. */
+  details?: JsonValue;
+  /**
+   * Events carrying this agent's id, in `seq` order. A resumed match only has
+   * the events since its checkpoint.
+   */
+  events: MatchEvent[];
 }
 
 /** An agent that can participate in a match. */
@@ -23,6 +58,20 @@ export interface Agent<TObs = JsonValue, TAct = JsonValue> {
   readonly id: AgentId;
   init(config: AgentConfig): void;
   act(observation: TObs, ctx: AgentContext): TAct | Promise<TAct>;
+  /** Capture internal state for a match checkpoint. Agents without it are treated as stateless. */
+  snapshot?(): JsonValue;
+  /** Restore state captured by `snapshot`; called after `init` when a match resumes. */
+  restore?(snapshot: JsonValue): void;
+  /**
+   * Called once after MatchEnded is logged and given up to `maxTurnTimeMs` to
+   * settle. Errors are ignored; the result stands.
+   */
+  onMatchEnd?(outcome: AgentMatchOutcome): void | Promise<void>;
+  /**
+   * Release held resources (sockets, child processes). Called last, after
+   * `onMatchEnd`, and also when the match throws.
+   */
+  dispose?(): void | Promise<void>;
 }
 
 // ---------------------------------------------------------------------------
@@ -74,6 +123,36 @@ export interface AdjudicationResult<TState> {
   feedback: JsonValue;
 }
 
+/**
+ * How a scenario expects agents to take their turns.
+ *
+ * - `sequential`: agents observe and act one after another in seat order; each
+ *   sees the state left by the previous agent's action.
+ * - `simultaneous`: every agent observes the same pre-turn state, all agents
+ *   act concurrently, and the actions are resolved together.
+ */
+export type TurnStructure = "sequential" | "simultaneous";
+
+/** One agent's action within a simultaneous turn. */
+export interface SubmittedAction<TAct> {
+  agentId: AgentId;
+  action: TAct;
+}
+
+/** Per-agent outcome of a batch adjudication. */
+export interface BatchAdjudicationEntry {
+  agentId: AgentId;
+  valid: boolean;
+  feedback: JsonValue;
+}
+
+/** Result returned by a scenario after adjudicating a simultaneous turn. */
+export interface BatchAdjudicationResult<TState> {
+  state: TState;
+  /** One entry per submitted action, in the order the actions were given. */
+  results: BatchAdjudicationEntry[];
+}
+
 /**
  * Scenario-defined telemetry hints for failure mode classification.
  *
@@ -91,16 +170,34 @@ export interface ScenarioHints {
 /** A scenario (game / simulation) defining rules and scoring. */
 export interface Scenario<TState = unknown, TObs = JsonValue, TAct = JsonValue> {
   readonly name: string;
-  /** Create initial state from a seed and the participating agent ids. */
-  init(seed: Seed, agentIds: AgentId[]): TState;
+  /**
+   * Create initial state from a seed and the participating agent ids. Team
+   * matches also pass the rosters, so observations can carry team-shared
+   * fields under `_team` keys.
+   */
+  init(seed: Seed, agentIds: AgentId[], teams?: TeamAssignment): TState;
   /** Derive an observation for a specific agent from the current state. */
   observe(state: TState, agentId: AgentId): TObs;
-  /** Validate and apply an agent's action, returning new state + feedback. */
-  adjudicate(state: TState, agentId: AgentId, action: TAct): AdjudicationResult<TState>;
+  /**
+   * Validate and apply an agent's action, returning new state + feedback.
+   * `turn` is the engine turn being played (1-based). A scenario keeping its
+   * own clock can use it to stay in step when an agent's action is skipped.
+   */
+  adjudicate(
+    state: TState,
+    agentId: AgentId,
+    action: TAct,
+    turn?: number,
+  ): AdjudicationResult<TState>;
   /** Whether the match should end. */
   isTerminal(state: TState): boolean;
   /** Final scores keyed by agent id. */
   score(state: TState): Record<AgentId, number>;
+  /**
+   * Team matches only: final scores keyed by team id. Without it a team
+   * scores the sum of its members' `score`.
+   */
+  scoreTeams?(state: TState, teams: TeamAssignment): Record<TeamId, number>;
   /** JSON-serializable summary of state for the event log. */
   summarize(state: TState): JsonValue;
   /** Default action to use when an agent fails to respond in time. */
@@ -111,12 +208,61 @@ export interface Scenario<TState = unknown, TObs = JsonValue, TAct = JsonValue>
   reveal?(state: TState): JsonValue;
   /** Optional structured rule briefing injected into the turn-1 observation as gameRules. */
   getBriefing?(): GameBriefing;
+  /** Turn structure the engine should use. Defaults to `sequential`. */
+  readonly turnStructure?: TurnStructure;
+  /**
+   * Resolve every action of a simultaneous turn at once. Only used when
+   * `turnStructure` is `simultaneous`; without it the engine applies
+   * `adjudicate` to each action in seat order.
+   */
+  adjudicateBatch?(
+    state: TState,
+    actions: SubmittedAction<TAct>[],
+  ): BatchAdjudicationResult<TState>;
 }
 
 // ---------------------------------------------------------------------------
 // Match runner config
 // ---------------------------------------------------------------------------
 
+/**
+ * Receives each event as soon as the runner emits it, in `seq` order. The
+ * runner waits for pending writes at every turn boundary, so a slow sink
+ * applies backpressure and a failing one aborts the match.
+ */
+export type MatchEventSink = (event: MatchEvent) => void | Promise<void>;
+
+/** Per-agent runner state saved in a checkpoint. */
+export interface AgentCheckpoint {
+  /** Values drawn so far from the agent's RNG stream. */
+  rngDraws: number;
+  snapshot?: JsonValue;
+}
+
+/**
+ * Everything the runner needs to continue a match from the end of a turn.
+ * The event log up to (not including) `seq` is final at that point.
+ */
+export interface MatchCheckpoint {
+  version: 1;
+  matchId: string;
+  scenarioName: string;
+  seed: Seed;
+  agentIds: AgentId[];
+  /** Last completed turn. */
+  turn: number;
+  /** `seq` of the next event to emit. */
+  seq: number;
+  state: JsonValue;
+  agents: Record<AgentId, AgentCheckpoint>;
+  timeoutsPerAgent: Record<AgentId, number>;
+  consecutiveTimeouts: Record<AgentId, number>;
+  /** `chainHash` of the last `StateUpdated`, so the resumed chain links on. */
+  chainHash: string;
+  /** Clock matches only: each agent's remaining bank. */
+  clockRemainingMs?: Record<AgentId, number>;
+}
+
 /** Configuration for a single match run. */
 export interface MatchRunnerConfig {
   seed: Seed;
@@ -125,6 +271,44 @@ export interface MatchRunnerConfig {
   provenance?: MatchProvenance;
   maxTurnTimeMs?: number;
   maxConsecutiveTimeouts?: number;
+  /**
+   * "fixed" (default) gives every move `maxTurnTimeMs`; "clock" gives each
+   * agent a `clockBankMs` bank plus `clockIncrementMs` per move, and running
+   * out forfeits. The mode profile and division config take precedence.
+   */
+  timeControl?: "fixed" | "clock";
+  clockBankMs?: number;
+  clockIncrementMs?: number;
+  /**
+   * Group the agents into teams. Recorded on MatchStarted; MatchEnded adds
+   * `teamScores`, and a forfeit loses the match for the forfeiter's team.
+   */
+  teams?: TeamAssignment;
   modeProfile?: JsonValue;
   divisionConfig?: JsonValue;
+  eventSink?: MatchEventSink;
+  /**
+   * Keep every event in `MatchResult.events` (default true). Pass false with
+   * an `eventSink` to hold memory flat on long matches; `events` is then empty.
+   */
+  retainEvents?: boolean;
+  /**
+   * Receives a checkpoint after every `checkpointEvery` turns (default 1),
+   * once that turn's events have reached `eventSink`.
+   */
+  onCheckpoint?: (checkpoint: MatchCheckpoint) => void | Promise<void>;
+  checkpointEvery?: number;
+  /**
+   * Continue from a checkpoint instead of starting fresh. The runner emits
+   * only the events after it, starting at `checkpoint.seq`.
+   */
+  resumeFrom?: MatchCheckpoint;
+  /**
+   * Cancels the match when aborted: the turn in flight is abandoned and
+   * MatchEnded is logged with reason "cancelled". Agents see it as
+   * `AgentContext.signal`.
+   */
+  signal?: AbortSignal;
+  /** Awaited before each turn starts; holds a paused match (see `createMatchControl`). */
+  turnGate?: () => Promise<void>;
 }
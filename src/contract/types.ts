@@ -4,6 +4,10 @@ import type { ZodIssue } from "zod";
 export type AgentId = string;
 export type MatchId = string;
 export type Seed = number;
+export type TeamId = string;
+
+/** Team rosters keyed by team id; every agent in a team match is on exactly one team. */
+export type TeamAssignment = Record<TeamId, AgentId[]>;
 
 /** A JSON-serializable value (no functions, no undefined). */
 export type JsonValue =
@@ -39,12 +43,29 @@ export interface MatchProvenance {
   engineVersion?: string;
 }
 
+/** Fischer-style clock: each agent starts with `bankMs` and gains `incrementMs` per move. */
+export interface ClockTimeControl {
+  mode: "clock";
+  bankMs: number;
+  incrementMs: number;
+}
+
 export interface MatchStartedEvent extends BaseEvent, MatchProvenance {
   type: "MatchStarted";
   seed: Seed;
   agentIds: AgentId[];
   scenarioName: string;
   maxTurns: number;
+  /**
+   * Present only for simultaneous matches. Every agent's ObservationEmitted
+   * for a turn then precedes its ActionSubmitted events, and all
+   * ActionAdjudicated events follow once the whole turn has been resolved.
+   */
+  turnStructure?: "simultaneous";
+  /** Present only for clock matches; fixed-deadline matches omit it. */
+  timeControl?: ClockTimeControl;
+  /** Present only for team matches. */
+  teams?: TeamAssignment;
 }
 
 export interface TurnStartedEvent extends BaseEvent {
@@ -64,6 +85,8 @@ export interface ActionSubmittedEvent extends BaseEvent {
   agentId: AgentId;
   turn: number;
   action: JsonValue;
+  /** Clock matches only: the agent's bank after this move, increment included. */
+  timeRemainingMs?: number;
 }
 
 export interface AgentRawOutputEvent extends BaseEvent {
@@ -125,6 +148,10 @@ export interface StateUpdatedEvent extends BaseEvent {
   type: "StateUpdated";
   turn: number;
   summary: JsonValue;
+  /** sha256 of the full post-turn state (hidden fields included); see `core/stateChain`. */
+  stateHash?: string;
+  /** Links this turn's `stateHash`, `summary` and events to the previous turn's `chainHash`. */
+  chainHash?: string;
 }
 
 export interface AgentErrorEvent extends BaseEvent {
@@ -151,8 +178,10 @@ export interface MatchSetupFailedEvent extends BaseEvent {
 
 export interface MatchEndedEvent extends BaseEvent {
   type: "MatchEnded";
-  reason: "completed" | "maxTurnsReached" | "agentForfeited" | "setupFailed";
+  reason: "completed" | "maxTurnsReached" | "agentForfeited" | "cancelled" | "setupFailed";
   scores: Record<AgentId, number>;
+  /** Team matches only: each team's aggregated score. */
+  teamScores?: Record<TeamId, number>;
   turns: number;
   /** Optional scenario-specific details revealed at match end (e.g. secret values). */
   details?: JsonValue;
@@ -187,4 +216,11 @@ export interface MatchResult {
   maxTurnTimeMs: number;
   timeoutsPerAgent: Record<AgentId, number>;
   forfeitedBy?: AgentId;
+  /** Same as `MatchEnded.reason`. */
+  reason: MatchEndedEvent["reason"];
+  /** Same as `MatchEnded.details`, when the scenario reveals any. */
+  details?: JsonValue;
+  /** Team matches only. */
+  teams?: TeamAssignment;
+  teamScores?: Record<TeamId, number>;
 }
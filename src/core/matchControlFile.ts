@@ -0,0 +1,65 @@
+import { existsSync, readFileSync } from "node:fs";
+import { appendFile } from "node:fs/promises";
+import { stableStringify } from "./json.js";
+
+/**
+ * Operator commands for a match running in another process. The API routes
+ * append one JSON line per command to `match_control.jsonl` in the match
+ * directory; the runner polls the file and applies each new line once.
+ */
+export const MATCH_CONTROL_FILENAME = "match_control.jsonl";
+
+export const MATCH_CONTROL_COMMANDS = ["pause", "resume", "step", "cancel"] as const;
+export type MatchControlCommand = (typeof MATCH_CONTROL_COMMANDS)[number];
+
+export interface MatchControlRequest {
+  command: MatchControlCommand;
+  requestedAt: string;
+}
+
+export async function appendMatchControlCommand(
+  path: string,
+  command: MatchControlCommand,
+): Promise<void> {
+  const request: MatchControlRequest = { command, requestedAt: new Date().toISOString() };
+  await appendFile(path, stableStringify(request) + "\n", "utf-8");
+}
+
+function isMatchControlCommand(value: unknown): value is MatchControlCommand {
+  return (MATCH_CONTROL_COMMANDS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Poll `path` and hand every newly appended command to `onCommand`, in order.
+ * Lines that do not parse are skipped. Returns a function that stops polling.
+ */
+export function watchMatchControlFile(
+  path: string,
+  onCommand: (command: MatchControlCommand) => void,
+  intervalMs = 200,
+): () => void {
+  let applied = 0;
+  const poll = (): void => {
+    if (!existsSync(path)) {
+      return;
+    }
+    // Only complete lines; a command still being appended is picked up next poll.
+    const lines = readFileSync(path, "utf-8").split("\n").slice(0, -1);
+    for (const line of lines.slice(applied)) {
+      applied++;
+      try {
+        const { command } = JSON.parse(line) as Partial<MatchControlRequest>;
+        if (isMatchControlCommand(command)) {
+          onCommand(command);
+        }
+      } catch {
+        // Ignore malformed lines.
+      }
+    }
+  };
+
+  poll();
+  const timer = setInterval(poll, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
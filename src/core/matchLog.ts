@@ -0,0 +1,52 @@
+import { mkdirSync } from "node:fs";
+import { open, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { MatchEventSink } from "../contract/interfaces.js";
+import type { MatchEvent } from "../contract/types.js";
+import { stableStringify } from "./json.js";
+
+export interface MatchLogWriter {
+  /** Pass as `MatchRunnerConfig.eventSink`; appends one stable JSON line per event. */
+  sink: MatchEventSink;
+  close(): Promise<void>;
+}
+
+/**
+ * Open `match.jsonl` for live appends. Lines are written exactly as
+ * `toStableJsonl` would render them, so the finished file hashes the same as
+ * one written after the fact. `append` continues an existing log (resume).
+ */
+export async function openMatchLogWriter(
+  path: string,
+  options: { append?: boolean } = {},
+): Promise<MatchLogWriter> {
+  mkdirSync(dirname(path), { recursive: true });
+  const handle = await open(path, options.append ? "a" : "w");
+  return {
+    sink: async (event) => {
+      await handle.write(stableStringify(event) + "\n");
+    },
+    close: () => handle.close(),
+  };
+}
+
+/** Read a finished `match.jsonl` back into events. */
+export async function readMatchLog(path: string): Promise<MatchEvent[]> {
+  const text = await readFile(path, "utf-8");
+  return text
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line) as MatchEvent);
+}
+
+/**
+ * Cut a log back to its first `seq` events (seq 0..seq-1), dropping anything
+ * a crashed run wrote after its last checkpoint, including a torn last line.
+ */
+export async function truncateMatchLog(path: string, seq: number): Promise<void> {
+  const lines = (await readFile(path, "utf-8")).split("\n").slice(0, seq);
+  if (lines.length < seq || lines.some((line) => line.trim().length === 0)) {
+    throw new Error(`${path} holds fewer than ${seq} events; it does not match the checkpoint.`);
+  }
+  await writeFile(path, lines.map((line) => line + "\n").join(""), "utf-8");
+}
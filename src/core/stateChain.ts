@@ -0,0 +1,108 @@
+import type { JsonValue, MatchEvent, MatchStartedEvent } from "../contract/types.js";
+import { sha256Hex } from "./hash.js";
+import { stableStringify } from "./json.js";
+
+/**
+ * Per-turn hash chain carried on `StateUpdated` events.
+ *
+ * - `stateHash` commits to the full post-turn scenario state, hidden fields
+ *   included, so it can only be checked by re-simulating the match.
+ * - `chainHash` = sha256(stable JSON of
+ *   `{ previous, turn, stateHash, summary, eventsHash }`), where `previous` is
+ *   the prior turn's `chainHash`, or for turn 1 the hash of the
+ *   `MatchStarted` event, and `eventsHash` covers every event logged since
+ *   that previous link. Editing any observation, action or adjudication of a
+ *   turn therefore breaks its link. The chain can be checked from the log
+ *   alone, so a partially streamed match is verifiable up to its last
+ *   `StateUpdated`; events after it (such as `MatchEnded`) are not covered.
+ */
+
+function sha256OfJson(value: unknown): string {
+  return sha256Hex(Buffer.from(stableStringify(value), "utf-8"));
+}
+
+/** Hash of `value` as it reads back from the log, normalized through JSON. */
+function sha256OfLogged(value: unknown): string {
+  return sha256OfJson(JSON.parse(JSON.stringify(value)));
+}
+
+/** Hash of a scenario state, normalized through JSON like checkpoints are. */
+export function hashState(state: unknown): string {
+  return sha256OfLogged(state);
+}
+
+/** What one link commits to besides the previous `chainHash`. */
+export interface ChainLink {
+  turn: number;
+  stateHash: string;
+  summary: JsonValue;
+  /** Events logged after the previous link, in `seq` order, excluding this `StateUpdated`. */
+  events: MatchEvent[];
+}
+
+/** The `previous` link for turn 1. */
+export function genesisChainHash(matchStarted: MatchStartedEvent): string {
+  return sha256OfJson(matchStarted);
+}
+
+export function chainTurnHash(previous: string, link: ChainLink): string {
+  const { turn, stateHash, summary, events } = link;
+  return sha256OfLogged({ previous, turn, stateHash, summary, eventsHash: sha256OfLogged(events) });
+}
+
+export interface StateChainBreak {
+  seq: number;
+  turn: number;
+  expected: string | null;
+  actual: string | null;
+}
+
+export interface StateChainReport {
+  ok: boolean;
+  /** `StateUpdated` events whose link held (all of them when `ok`). */
+  turnsChecked: number;
+  brokenAt?: StateChainBreak;
+}
+
+/**
+ * Walk the chain across every `StateUpdated` in `events`. Returns undefined
+ * for logs that predate the chain (no `chainHash` anywhere).
+ */
+export function verifyStateChain(events: MatchEvent[]): StateChainReport | undefined {
+  const startIndex = events.findIndex((event) => event.type === "MatchStarted");
+  const started = events[startIndex];
+  const updates = events.filter((event) => event.type === "StateUpdated");
+  if (started?.type !== "MatchStarted" || !updates.some((event) => event.chainHash)) {
+    return undefined;
+  }
+
+  let previous = genesisChainHash(started);
+  let linked: MatchEvent[] = [];
+  let turnsChecked = 0;
+  for (const event of events.slice(startIndex + 1)) {
+    if (event.type !== "StateUpdated") {
+      linked.push(event);
+      continue;
+    }
+    const expected =
+      event.stateHash !== undefined
+        ? chainTurnHash(previous, {
+            turn: event.turn,
+            stateHash: event.stateHash,
+            summary: event.summary,
+            events: linked,
+          })
+        : null;
+    if (expected === null || event.chainHash !== expected) {
+      return {
+        ok: false,
+        turnsChecked,
+        brokenAt: { seq: event.seq, turn: event.turn, expected, actual: event.chainHash ?? null },
+      };
+    }
+    previous = expected;
+    linked = [];
+    turnsChecked += 1;
+  }
+  return { ok: true, turnsChecked };
+}
@@ -2,6 +2,8 @@ import { access, readFile } from "node:fs/promises";
 import { constants } from "node:fs";
 import { join } from "node:path";
 import { hashFile, hashManifestCore } from "./hash.js";
+import { readMatchLog } from "./matchLog.js";
+import { verifyStateChain, type StateChainReport } from "./stateChain.js";
 
 const REQUIRED_FILES = ["match.jsonl", "match_manifest.json", "match_summary.json"] as const;
 
@@ -23,6 +25,8 @@ export interface VerifyMatchReport {
   files: VerifyMatchFileStatus[];
   logHash?: VerifyMatchHashStatus;
   manifestHash?: VerifyMatchHashStatus;
+  /** Per-turn hash chain; absent for logs without one or that no longer parse. */
+  stateChain?: StateChainReport;
   status: VerifyMatchStatus;
   exitCode: 0 | 1 | 2;
   errors: string[];
@@ -114,12 +118,16 @@ export async function verifyMatchDirectory(matchDir: string): Promise<VerifyMatc
     ok: expectedHashes.manifestHash === actualManifestHash,
   };
 
-  const passed = logHash.ok && manifestHash.ok;
+  // A log that no longer parses has already failed its logHash.
+  const stateChain = await readMatchLog(logPath).then(verifyStateChain, () => undefined);
+
+  const passed = logHash.ok && manifestHash.ok && stateChain?.ok !== false;
   return {
     matchDir,
     files,
     logHash,
     manifestHash,
+    ...(stateChain ? { stateChain } : {}),
     status: passed ? "pass" : "fail",
     exitCode: passed ? 0 : 1,
     errors: [],
@@ -0,0 +1,30 @@
+import type { MatchCheckpoint } from "../contract/interfaces.js";
+import type { AgentId, Seed } from "../contract/types.js";
+
+/** Throw unless `checkpoint` was taken from the match about to be resumed. */
+export function assertResumable(
+  checkpoint: MatchCheckpoint,
+  expected: { matchId: string; scenarioName: string; seed: Seed; agentIds: AgentId[] },
+): void {
+  const problems: string[] = [];
+  if (checkpoint.version !== 1) {
+    problems.push(`unsupported checkpoint version ${String(checkpoint.version)}`);
+  }
+  if (checkpoint.matchId !== expected.matchId) {
+    problems.push(`matchId "${checkpoint.matchId}" != "${expected.matchId}"`);
+  }
+  if (checkpoint.scenarioName !== expected.scenarioName) {
+    problems.push(`scenario "${checkpoint.scenarioName}" != "${expected.scenarioName}"`);
+  }
+  if (checkpoint.seed !== expected.seed) {
+    problems.push(`seed ${checkpoint.seed} != ${expected.seed}`);
+  }
+  if (checkpoint.agentIds.join(",") !== expected.agentIds.join(",")) {
+    problems.push(
+      `agents [${checkpoint.agentIds.join(", ")}] != [${expected.agentIds.join(", ")}]`,
+    );
+  }
+  if (problems.length > 0) {
+    throw new Error(`Cannot resume from checkpoint: ${problems.join("; ")}`);
+  }
+}
@@ -0,0 +1,70 @@
+export type MatchControlState = "running" | "paused" | "cancelled";
+
+/**
+ * Operator handle on a running match. Pass `signal` and `waitForTurn` to
+ * `runMatch` as `config.signal` and `config.turnGate`.
+ *
+ * Pausing takes effect between turns: the turn in flight finishes, then the
+ * runner waits in `waitForTurn` until `resume`, `step` or `cancel`.
+ */
+export interface MatchControl {
+  readonly signal: AbortSignal;
+  readonly state: MatchControlState;
+  pause(): void;
+  resume(): void;
+  /** Let exactly one more turn start, then pause again. */
+  step(): void;
+  cancel(): void;
+  /** Resolves once the next turn may start; immediately unless paused. */
+  waitForTurn(): Promise<void>;
+}
+
+export function createMatchControl(): MatchControl {
+  const abortController = new AbortController();
+  let paused = false;
+  let stepsAllowed = 0;
+  let wake: (() => void) | undefined;
+
+  const release = (): void => {
+    wake?.();
+    wake = undefined;
+  };
+
+  abortController.signal.addEventListener("abort", release, { once: true });
+
+  return {
+    signal: abortController.signal,
+    get state(): MatchControlState {
+      if (abortController.signal.aborted) {
+        return "cancelled";
+      }
+      return paused ? "paused" : "running";
+    },
+    pause() {
+      paused = true;
+      stepsAllowed = 0;
+    },
+    resume() {
+      paused = false;
+      release();
+    },
+    step() {
+      paused = true;
+      stepsAllowed++;
+      release();
+    },
+    cancel() {
+      abortController.abort();
+    },
+    async waitForTurn() {
+      while (paused && stepsAllowed === 0 && !abortController.signal.aborted) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+      if (stepsAllowed > 0) {
+        stepsAllowed--;
+      }
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import type { Scenario } from "../contract/interfaces.js";
+import type { AgentId, JsonValue, MatchResult } from "../contract/types.js";
+import type { getActionForensics } from "../core/agentActionMetadata.js";
+
+/** What an agent's turn produced once every `aroundAct` layer has run. */
+export type ActOutcome<TAct> =
+  | { kind: "action"; action: TAct }
+  /** The agent missed its deadline; the runner applies the scenario's default action. */
+  | { kind: "timeout" }
+  /** The agent failed; nothing is adjudicated for it this turn. */
+  | { kind: "error"; message: string };
+
+/** An action that reached the scenario, with the decoder forensics needed to log it. */
+export interface Submission<TAct> {
+  agentId: AgentId;
+  chosenAction: TAct;
+  actionForensics: ReturnType<typeof getActionForensics>;
+}
+
+export interface MatchContext<TState, TObs, TAct> {
+  scenario: Scenario<TState, TObs, TAct>;
+  matchId: string;
+  agentIds: AgentId[];
+  maxTurnTimeMs: number;
+  /** The match's cancellation signal, when it has one. */
+  signal?: AbortSignal;
+  /** Append an event (sans seq/matchId) to the match log. */
+  emit(partial: Record<string, unknown> & { type: string }): void;
+}
+
+export interface TurnContext<TState, TObs, TAct> extends MatchContext<TState, TObs, TAct> {
+  turn: number;
+  turnStartedAt: string;
+  agentId: AgentId;
+}
+
+export type ActHandler<TObs, TAct> = (observation: TObs) => Promise<ActOutcome<TAct>>;
+
+/**
+ * A pluggable layer of the match runner. Every hook is optional; hooks run in
+ * middleware order, and for `aroundAct` the first layer is the outermost.
+ */
+export interface MatchMiddleware<TState, TObs, TAct> {
+  /** Runs right after MatchStarted is logged. */
+  onMatchStart?(ctx: MatchContext<TState, TObs, TAct>): void;
+  /** Rewrites an observation before it is logged and handed to the agent. */
+  beforeObserve?(observation: TObs, ctx: TurnContext<TState, TObs, TAct>): TObs;
+  /** Wraps the call that turns an observation into an action; call `next` to continue inward. */
+  aroundAct?(
+    observation: TObs,
+    ctx: TurnContext<TState, TObs, TAct>,
+    next: ActHandler<TObs, TAct>,
+  ): Promise<ActOutcome<TAct>>;
+  /** Runs after ActionAdjudicated is logged and before any InvalidAction. */
+  afterAdjudicate?(
+    submission: Submission<TAct>,
+    result: { valid: boolean; feedback: JsonValue },
+    ctx: TurnContext<TState, TObs, TAct>,
+  ): void;
+  /** Runs after MatchEnded is logged and agents have seen the outcome. */
+  onMatchEnd?(result: MatchResult, ctx: MatchContext<TState, TObs, TAct>): void | Promise<void>;
+}
+
+/** Settle with `promise`, or report `timedOut` after `timeoutMs` (no limit when not positive). */
+export async function raceWithTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+): Promise<{ timedOut: boolean; value?: T }> {
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    return { timedOut: false, value: await promise };
+  }
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<{ timedOut: true }>((resolve) => {
+    timeoutId = setTimeout(() => resolve({ timedOut: true }), timeoutMs);
+  });
+  try {
+    return await Promise.race([
+      promise.then((value) => ({ timedOut: false, value })),
+      timeoutPromise,
+    ]);
+  } finally {
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/** Attach the scenario's rule briefing as `gameRules` on each agent's first observation. */
+export function briefingMiddleware<TState, TObs, TAct>(): MatchMiddleware<TState, TObs, TAct> {
+  return {
+    beforeObserve(observation, ctx) {
+      const briefing = ctx.turn === 1 ? ctx.scenario.getBriefing?.() : undefined;
+      return briefing ? ({ ...(observation as object), gameRules: briefing } as TObs) : observation;
+    },
+  };
+}
+
+/** Enforce `maxTurnTimeMs` on everything inside this layer. */
+export function timeoutMiddleware<TState, TObs, TAct>(): MatchMiddleware<TState, TObs, TAct> {
+  return {
+    async aroundAct(observation, ctx, next) {
+      const result = await raceWithTimeout(next(observation), ctx.maxTurnTimeMs);
+      return result.timedOut ? { kind: "timeout" } : (result.value as ActOutcome<TAct>);
+    },
+  };
+}
+
+/** Log an AgentBudget event for actions that carry LLM budget telemetry. */
+export function budgetTelemetryMiddleware<TState, TObs, TAct>(): MatchMiddleware<
+  TState,
+  TObs,
+  TAct
+> {
+  return {
+    afterAdjudicate({ agentId, actionForensics }, _result, ctx) {
+      if (!actionForensics?.budget) {
+        return;
+      }
+      const { budget } = actionForensics;
+      ctx.emit({
+        type: "AgentBudget",
+        agentId,
+        turn: ctx.turn,
+        tokensUsed: budget.tokensUsed,
+        tokensAllowed: budget.tokensAllowed,
+        matchTokensUsed: budget.matchTokensUsed,
+        matchTokensAllowed: budget.matchTokensAllowed,
+        callsUsed: budget.callsUsed,
+        callsAllowed: budget.callsAllowed,
+        matchCallsUsed: budget.matchCallsUsed,
+        matchCallsAllowed: budget.matchCallsAllowed,
+        outputTruncated: budget.outputTruncated,
+        tokenCapHit: budget.tokenCapHit,
+        callCapHit: budget.callCapHit,
+        ...(actionForensics.provider ? { provider: actionForensics.provider } : {}),
+        ...(actionForensics.model ? { model: actionForensics.model } : {}),
+      });
+    },
+  };
+}
+
+/** The stack `runMatch` uses when no middleware is given. */
+export function defaultMatchMiddleware<TState, TObs, TAct>(): MatchMiddleware<
+  TState,
+  TObs,
+  TAct
+>[] {
+  return [
+    briefingMiddleware<TState, TObs, TAct>(),
+    timeoutMiddleware<TState, TObs, TAct>(),
+    budgetTelemetryMiddleware<TState, TObs, TAct>(),
+  ];
+}
+
+/** Compose every `aroundAct` layer around `innermost`, first middleware outermost. */
+export function composeAct<TState, TObs, TAct>(
+  middleware: MatchMiddleware<TState, TObs, TAct>[],
+  ctx: TurnContext<TState, TObs, TAct>,
+  innermost: ActHandler<TObs, TAct>,
+): ActHandler<TObs, TAct> {
+  return middleware.reduceRight<ActHandler<TObs, TAct>>(
+    (next, layer) =>
+      layer.aroundAct ? (observation) => layer.aroundAct!(observation, ctx, next) : next,
+    innermost,
+  );
+}
@@ -0,0 +1,230 @@
+import type { BatchAdjudicationEntry, Scenario, SubmittedAction } from "../contract/interfaces.js";
+import type { AgentId, JsonValue, MatchEvent, TeamAssignment } from "../contract/types.js";
+import { stableStringify } from "../core/json.js";
+import { hashState } from "../core/stateChain.js";
+import { applyForfeitScores } from "./runMatch.js";
+import { deriveMatchSeeds } from "./seeds.js";
+import { computeTeamScores, teamOf } from "./teams.js";
+import { adjudicateSimultaneousTurn } from "./turnStructure.js";
+import { DEFAULT_MAX_CONSECUTIVE_TIMEOUTS } from "./turnTimeout.js";
+
+/** The first place a recorded log disagrees with its re-simulation. */
+export interface ResimulationDivergence {
+  seq: number;
+  eventType: string;
+  field: string;
+  recorded: JsonValue;
+  recomputed: JsonValue;
+}
+
+export interface ResimulationReport {
+  ok: boolean;
+  /** Events walked before stopping (all of them when `ok`). */
+  eventsChecked: number;
+  divergence?: ResimulationDivergence;
+}
+
+export interface ResimulateOptions {
+  /**
+   * Timeouts in a row that forfeited a fixed-deadline match. Logs do not
+   * record it, so it defaults to the engine's; clock matches forfeit on the
+   * first timeout whatever this says.
+   */
+  maxConsecutiveTimeouts?: number;
+}
+
+function toJson(value: unknown): JsonValue {
+  return value === undefined ? null : (JSON.parse(JSON.stringify(value)) as JsonValue);
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return stableStringify(toJson(a)) === stableStringify(toJson(b));
+}
+
+/**
+ * Replay a recorded match through its scenario: rebuild the initial state
+ * from `MatchStarted.seed`, feed every `ActionSubmitted.action` through
+ * `adjudicate` (or `adjudicateBatch` for simultaneous turns), and check the
+ * logged validity, feedback, state summaries and hashes, and final scores
+ * against what the scenario actually produces. Agents are not needed; their recorded
+ * actions are the input. A forfeit is only accepted when the blamed agent's
+ * timeouts in a row reached the limit, and every timed-out agent must have
+ * been given the scenario's default action.
+ */
+export function resimulateMatch<TState, TObs, TAct>(
+  scenario: Scenario<TState, TObs, TAct>,
+  events: MatchEvent[],
+  options: ResimulateOptions = {},
+): ResimulationReport {
+  let state: TState | undefined;
+  let simultaneous = false;
+  let teams: TeamAssignment | undefined;
+  let turn = 0;
+  let maxConsecutiveTimeouts = options.maxConsecutiveTimeouts ?? DEFAULT_MAX_CONSECUTIVE_TIMEOUTS;
+  // The agent whose timeouts in a row last reached the limit, as in `runMatch`.
+  let forfeiter: AgentId | undefined;
+  const consecutiveTimeouts = new Map<AgentId, number>();
+  // Agents whose next ActionSubmitted must be the default action.
+  const timedOut = new Set<AgentId>();
+  const pending: SubmittedAction<TAct>[] = [];
+  let batchResults: BatchAdjudicationEntry[] | undefined;
+
+  const diverge = (
+    index: number,
+    eventType: string,
+    field: string,
+    recorded: unknown,
+    recomputed: unknown,
+  ): ResimulationReport => ({
+    ok: false,
+    eventsChecked: index,
+    divergence: {
+      seq: index,
+      eventType,
+      field,
+      recorded: toJson(recorded),
+      recomputed: toJson(recomputed),
+    },
+  });
+
+  for (const [index, event] of events.entries()) {
+    if (event.seq !== index) {
+      return diverge(index, event.type, "seq", event.seq, index);
+    }
+    if (state === undefined && event.type !== "MatchStarted") {
+      return diverge(index, event.type, "type", event.type, "MatchStarted");
+    }
+
+    switch (event.type) {
+      case "MatchStarted": {
+        if (state !== undefined) {
+          return diverge(index, event.type, "type", event.type, null);
+        }
+        if (event.scenarioName !== scenario.name) {
+          return diverge(index, event.type, "scenarioName", event.scenarioName, scenario.name);
+        }
+        simultaneous = event.turnStructure === "simultaneous";
+        teams = event.teams;
+        if (event.timeControl) {
+          maxConsecutiveTimeouts = 1;
+        }
+        const { scenarioSeed } = deriveMatchSeeds(event.seed, event.agentIds.length);
+        state = teams
+          ? scenario.init(scenarioSeed, event.agentIds, teams)
+          : scenario.init(scenarioSeed, event.agentIds);
+        break;
+      }
+      case "TurnStarted":
+        turn = event.turn;
+        break;
+      case "ActionSubmitted": {
+        if (timedOut.delete(event.agentId)) {
+          const defaultAction = scenario.getDefaultAction();
+          if (!sameJson(event.action, defaultAction)) {
+            return diverge(index, event.type, "action", event.action, defaultAction);
+          }
+        } else {
+          consecutiveTimeouts.set(event.agentId, 0);
+        }
+        pending.push({ agentId: event.agentId, action: event.action as TAct });
+        break;
+      }
+      case "ActionAdjudicated": {
+        let result: { agentId: AgentId; valid: boolean; feedback: JsonValue } | undefined;
+        if (simultaneous) {
+          if (!batchResults) {
+            const batch = adjudicateSimultaneousTurn(scenario, state!, pending.splice(0), turn);
+            state = batch.state;
+            batchResults = [...batch.results];
+          }
+          result = batchResults.shift();
+        } else {
+          const submitted = pending.shift();
+          if (submitted) {
+            const adjudicated = scenario.adjudicate(
+              state!,
+              submitted.agentId,
+              submitted.action,
+              turn,
+            );
+            state = adjudicated.state;
+            result = { ...adjudicated, agentId: submitted.agentId };
+          }
+        }
+        if (!result || result.agentId !== event.agentId) {
+          return diverge(index, event.type, "agentId", event.agentId, result?.agentId ?? null);
+        }
+        if (result.valid !== event.valid) {
+          return diverge(index, event.type, "valid", event.valid, result.valid);
+        }
+        if (!sameJson(event.feedback, result.feedback)) {
+          return diverge(index, event.type, "feedback", event.feedback, result.feedback);
+        }
+        break;
+      }
+      case "AgentError":
+        if (event.errorType === "timeout") {
+          const inARow = (consecutiveTimeouts.get(event.agentId) ?? 0) + 1;
+          consecutiveTimeouts.set(event.agentId, inARow);
+          timedOut.add(event.agentId);
+          if (inARow >= maxConsecutiveTimeouts) {
+            forfeiter = event.agentId;
+          }
+        } else {
+          consecutiveTimeouts.set(event.agentId, 0);
+        }
+        break;
+      case "StateUpdated": {
+        batchResults = undefined;
+        const summary = scenario.summarize(state!);
+        if (!sameJson(event.summary, summary)) {
+          return diverge(index, event.type, "summary", event.summary, summary);
+        }
+        if (event.stateHash !== undefined) {
+          const stateHash = hashState(state);
+          if (event.stateHash !== stateHash) {
+            return diverge(index, event.type, "stateHash", event.stateHash, stateHash);
+          }
+        }
+        break;
+      }
+      case "MatchEnded": {
+        // Cancellations come from outside the scenario, so the log's word is
+        // taken for them. A forfeit must follow enough timeouts in a row.
+        const forfeitedBy = event.reason === "agentForfeited" ? forfeiter : undefined;
+        const reason = forfeitedBy
+          ? "agentForfeited"
+          : event.reason === "cancelled"
+            ? "cancelled"
+            : scenario.isTerminal(state!)
+              ? "completed"
+              : "maxTurnsReached";
+        if (event.reason !== reason) {
+          return diverge(index, event.type, "reason", event.reason, reason);
+        }
+        if (event.turns !== turn) {
+          return diverge(index, event.type, "turns", event.turns, turn);
+        }
+        const baseScores = scenario.score(state!);
+        const scores = applyForfeitScores(baseScores, forfeitedBy);
+        if (!sameJson(event.scores, scores)) {
+          return diverge(index, event.type, "scores", event.scores, scores);
+        }
+        const teamScores =
+          teams &&
+          applyForfeitScores(
+            computeTeamScores(scenario, state!, teams, baseScores),
+            forfeitedBy && teamOf(teams, forfeitedBy),
+          );
+        if (!sameJson(event.teamScores, teamScores)) {
+          return diverge(index, event.type, "teamScores", event.teamScores, teamScores);
+        }
+        return { ok: true, eventsChecked: index + 1 };
+      }
+      default:
+        break;
+    }
+  }
+
+  return diverge(events.length, "MatchEnded", "type", null, "MatchEnded");
+}
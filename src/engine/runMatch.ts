@@ -1,57 +1,131 @@
-import type { Agent, AgentContext, MatchRunnerConfig, Scenario } from "../contract/interfaces.js";
+import type {
+  Agent,
+  AgentCheckpoint,
+  AgentContext,
+  AgentMatchOutcome,
+  MatchCheckpoint,
+  MatchRunnerConfig,
+  Scenario,
+} from "../contract/interfaces.js";
 import type {
   AgentId,
   JsonValue,
   MatchEvent,
   MatchResult,
+  MatchStartedEvent,
   NormalizationMethod,
 } from "../contract/types.js";
 import { getActionForensics } from "../core/agentActionMetadata.js";
-import { createRng, deriveSeed } from "../core/rng.js";
-import { combineHeistRuns } from "./heistCompetitive.js";
+import { createRng } from "../core/rng.js";
+import { chainTurnHash, genesisChainHash, hashState } from "../core/stateChain.js";
+import { assertResumable } from "./checkpoint.js";
 import { buildInvalidActionDetails } from "./invalidAction.js";
-import { generateMatchId } from "./matchId.js";
-import { resolveMaxConsecutiveTimeouts, resolveMaxTurnTimeMs } from "./turnTimeout.js";
+import {
+  composeAct,
+  defaultMatchMiddleware,
+  raceWithTimeout,
+  type ActOutcome,
+  type MatchContext,
+  type MatchMiddleware,
+  type Submission,
+  type TurnContext,
+} from "./middleware.js";
+import { deriveMatchSeeds } from "./seeds.js";
+import { assertValidTeams, computeTeamScores, teamOf } from "./teams.js";
+import {
+  resolveMaxConsecutiveTimeouts,
+  resolveMaxTurnTimeMs,
+  resolveTimeControl,
+} from "./turnTimeout.js";
+import { adjudicateSimultaneousTurn, resolveTurnStructure } from "./turnStructure.js";
+
+export interface RunMatchOptions<TState, TObs, TAct> {
+  /** Layers wrapped around the turn loop; defaults to `defaultMatchMiddleware()`. */
+  middleware?: MatchMiddleware<TState, TObs, TAct>[];
+}
+
+/**
+ * Where emitted events go: the retained list and/or the caller's sink. Sink
+ * writes are chained so they land in `seq` order without making `emit` async;
+ * `flush` waits for them and surfaces the first sink failure.
+ */
+interface EventLog {
+  events: MatchEvent[];
+  /** Events since the last state-chain link, which the next link commits to. */
+  linkEvents: MatchEvent[];
+  seq: { value: number };
+  push(event: MatchEvent): void;
+  flush(): Promise<void>;
+}
+
+function createEventLog(
+  config: MatchRunnerConfig,
+  onEvent?: (event: MatchEvent) => void,
+): EventLog {
+  const events: MatchEvent[] = [];
+  const linkEvents: MatchEvent[] = [];
+  const retain = config.retainEvents !== false;
+  const sink = config.eventSink;
+  let pending: Promise<void> = Promise.resolve();
+  let sinkError: { error: unknown } | undefined;
 
-/** Append a partial event (sans seq/matchId) to the event list. */
+  return {
+    events,
+    linkEvents,
+    seq: { value: config.resumeFrom?.seq ?? 0 },
+    push(event) {
+      onEvent?.(event);
+      linkEvents.push(event);
+      if (retain) {
+        events.push(event);
+      }
+      if (sink) {
+        pending = pending
+          .then(() => (sinkError ? undefined : sink(event)))
+          .catch((error: unknown) => {
+            sinkError ??= { error };
+          });
+      }
+    },
+    async flush() {
+      await pending;
+      if (sinkError) {
+        throw sinkError.error;
+      }
+    },
+  };
+}
+
+/** Append a partial event (sans seq/matchId) to the event log. */
 function emit(
-  events: MatchEvent[],
-  seq: { value: number },
+  log: EventLog,
   matchId: string,
   partial: Record<string, unknown> & { type: string },
-): void {
-  events.push({ ...partial, seq: seq.value++, matchId } as MatchEvent);
+): MatchEvent {
+  const event = { ...partial, seq: log.seq.value++, matchId } as MatchEvent;
+  log.push(event);
+  return event;
 }
 
-async function raceWithTimeout<T>(
-  promise: Promise<T>,
-  timeoutMs: number,
-): Promise<{ timedOut: boolean; value?: T }> {
-  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
-    return { timedOut: false, value: await promise };
-  }
-  let timeoutId: NodeJS.Timeout | undefined;
-  const timeoutPromise = new Promise<{ timedOut: true }>((resolve) => {
-    timeoutId = setTimeout(() => resolve({ timedOut: true }), timeoutMs);
-  });
-  const wrappedPromise = promise.then(
-    (value) => ({ timedOut: false as const, value }),
-    (error) => ({ timedOut: false as const, error }),
-  );
-  try {
-    const result = await Promise.race([wrappedPromise, timeoutPromise]);
-    if ("error" in result) {
-      throw result.error;
-    }
-    return result;
-  } finally {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
+/** Resolves (never rejects) once `signal` aborts; never settles without one. */
+function whenAborted(signal: AbortSignal | undefined): Promise<undefined> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(undefined);
     }
-  }
+    signal?.addEventListener("abort", () => resolve(undefined), { once: true });
+  });
 }
 
-function applyForfeitScores(
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Make sure the forfeiting agent does not outscore or tie anyone else. Team
+ * scores go through the same rule, keyed by the forfeiter's team.
+ */
+export function applyForfeitScores(
   scores: Record<AgentId, number>,
   forfeitedBy: AgentId | undefined,
 ): Record<AgentId, number> {
@@ -75,41 +149,146 @@ function applyForfeitScores(
  * Run a complete match: initialize scenario + agents, loop turns, collect
  * events, and return the final result.
  *
- * Pure computation — no I/O. The caller decides what to do with the events.
+ * All agents act on one shared scenario state in seat order, so multi-agent
+ * scenarios (including head-to-head Heist) produce a single coherent log.
+ * Scenarios that declare `turnStructure: "simultaneous"` instead have every
+ * agent observe the same pre-turn state and act concurrently; the collected
+ * actions are then resolved together via `adjudicateBatch`.
+ *
+ * Cross-cutting behaviour (briefing injection, turn timeouts, budget
+ * telemetry, gateway transport) lives in `options.middleware`, so every way
+ * of running a match shares this one loop.
+ *
+ * `config.signal` cancels the match and `config.turnGate` can hold it between
+ * turns; `createMatchControl` provides both for operator pause/step.
+ *
+ * Agents with `onMatchEnd` are told the outcome once MatchEnded is logged;
+ * every agent's `dispose` runs last, whether or not the match completes.
+ *
+ * Pure computation — no I/O. The caller decides what to do with the events,
+ * either from the result or live through `config.eventSink`.
  */
-async function runMatchStandard<TState, TObs, TAct>(
+export async function runMatch<TState, TObs, TAct>(
   scenario: Scenario<TState, TObs, TAct>,
   agents: Agent<TObs, TAct>[],
   config: MatchRunnerConfig,
+  options: RunMatchOptions<TState, TObs, TAct> = {},
 ): Promise<MatchResult> {
-  const events: MatchEvent[] = [];
-  const seq = { value: 0 };
+  try {
+    return await playMatch(scenario, agents, config, options);
+  } finally {
+    await Promise.all(
+      agents.map(async (agent) => {
+        try {
+          await agent.dispose?.();
+        } catch {
+          // A failed cleanup must not mask the match result or error.
+        }
+      }),
+    );
+  }
+}
+
+async function playMatch<TState, TObs, TAct>(
+  scenario: Scenario<TState, TObs, TAct>,
+  agents: Agent<TObs, TAct>[],
+  config: MatchRunnerConfig,
+  options: RunMatchOptions<TState, TObs, TAct>,
+): Promise<MatchResult> {
+  const middleware = options.middleware ?? defaultMatchMiddleware<TState, TObs, TAct>();
+  // Each listening agent's own events, for `onMatchEnd`. Kept even under
+  // `retainEvents: false`: one agent's slice is small next to the full log.
+  const agentEvents = new Map<AgentId, MatchEvent[]>(
+    agents.flatMap((agent) => (agent.onMatchEnd ? [[agent.id, []]] : [])),
+  );
+  const log = createEventLog(
+    config,
+    agentEvents.size > 0
+      ? (event) => {
+          const agentId = "agentId" in event ? event.agentId : undefined;
+          if (agentId !== undefined) {
+            agentEvents.get(agentId)?.push(event);
+          }
+        }
+      : undefined,
+  );
 
-  const masterRng = createRng(config.seed);
-  const generatedMatchId = generateMatchId(masterRng);
-  const matchId = config.matchId ?? generatedMatchId;
+  const seeds = deriveMatchSeeds(config.seed, agents.length);
+  const matchId = config.matchId ?? seeds.generatedMatchId;
 
   // Stable agent ordering
   const agentIds: AgentId[] = agents.map((a) => a.id);
   const maxTurnTimeMs = resolveMaxTurnTimeMs(config);
   const maxConsecutiveTimeouts = resolveMaxConsecutiveTimeouts(config);
-  const timeoutsPerAgent: Record<AgentId, number> = Object.fromEntries(
-    agentIds.map((agentId) => [agentId, 0]),
+  const { signal } = config;
+  const cancelled = whenAborted(signal);
+  const { teams } = config;
+  if (teams) {
+    assertValidTeams(teams, agentIds);
+  }
+  const resumeFrom = config.resumeFrom;
+  if (resumeFrom) {
+    assertResumable(resumeFrom, {
+      matchId,
+      scenarioName: scenario.name,
+      seed: config.seed,
+      agentIds,
+    });
+  }
+  const timeoutsPerAgent: Record<AgentId, number> = resumeFrom
+    ? { ...resumeFrom.timeoutsPerAgent }
+    : Object.fromEntries(agentIds.map((agentId) => [agentId, 0]));
+  const consecutiveTimeouts = new Map<AgentId, number>(
+    agentIds.map((agentId) => [agentId, resumeFrom?.consecutiveTimeouts[agentId] ?? 0]),
   );
-  const consecutiveTimeouts = new Map<AgentId, number>(agentIds.map((agentId) => [agentId, 0]));
   let forfeitedBy: AgentId | undefined;
 
-  // Give each agent its own independent RNG stream
+  // Clock mode: each agent's remaining bank replaces the per-move deadline.
+  const timeControl = resolveTimeControl(config);
+  const clock = timeControl.mode === "clock" ? timeControl : undefined;
+  const clockRemainingMs = new Map<AgentId, number>(
+    agentIds.map((agentId) => [
+      agentId,
+      resumeFrom?.clockRemainingMs?.[agentId] ?? clock?.bankMs ?? 0,
+    ]),
+  );
+
+  // Give each agent its own independent RNG stream, counting draws so a
+  // checkpoint can record each stream's position.
   const agentRngs = new Map<AgentId, () => number>();
-  for (const agent of agents) {
-    const agentSeed = deriveSeed(masterRng);
-    agentRngs.set(agent.id, createRng(agentSeed));
-    agent.init({ agentId: agent.id, seed: agentSeed });
+  const agentRngDraws = new Map<AgentId, number>();
+  for (const [index, agent] of agents.entries()) {
+    const agentSeed = seeds.agentSeeds[index];
+    const rng = createRng(agentSeed);
+    agentRngDraws.set(agent.id, 0);
+    agentRngs.set(agent.id, () => {
+      agentRngDraws.set(agent.id, agentRngDraws.get(agent.id)! + 1);
+      return rng();
+    });
+    const teamId = teams && teamOf(teams, agent.id);
+    agent.init({
+      agentId: agent.id,
+      seed: agentSeed,
+      ...(teamId !== undefined && { team: { id: teamId, members: teams![teamId] } }),
+    });
+    if (resumeFrom) {
+      const saved = resumeFrom.agents[agent.id];
+      const agentRng = agentRngs.get(agent.id)!;
+      for (let draw = 0; draw < saved.rngDraws; draw++) {
+        agentRng();
+      }
+      if (saved.snapshot !== undefined) {
+        agent.restore?.(saved.snapshot);
+      }
+    }
   }
 
   // Initialize scenario with its own derived seed
-  const scenarioSeed = deriveSeed(masterRng);
-  let state = scenario.init(scenarioSeed, agentIds);
+  let state = resumeFrom
+    ? (resumeFrom.state as TState)
+    : teams
+      ? scenario.init(seeds.scenarioSeed, agentIds, teams)
+      : scenario.init(seeds.scenarioSeed, agentIds);
 
   const provenanceFields = config.provenance
     ? {
@@ -122,221 +301,381 @@ async function runMatchStandard<TState, TObs, TAct>(
       }
     : {};
 
-  emit(events, seq, matchId, {
-    type: "MatchStarted",
-    seed: config.seed,
+  const turnStructure = resolveTurnStructure(scenario);
+  const matchContext: MatchContext<TState, TObs, TAct> = {
+    scenario,
+    matchId,
     agentIds,
+    maxTurnTimeMs,
+    ...(signal ? { signal } : {}),
+    emit: (partial) => emit(log, matchId, partial),
+  };
+
+  let chainHash = resumeFrom?.chainHash ?? "";
+  if (!resumeFrom) {
+    const started = emit(log, matchId, {
+      type: "MatchStarted",
+      seed: config.seed,
+      agentIds,
+      scenarioName: scenario.name,
+      maxTurns: config.maxTurns,
+      ...provenanceFields,
+      ...(turnStructure === "simultaneous" ? { turnStructure } : {}),
+      ...(clock ? { timeControl: clock } : {}),
+      ...(teams ? { teams } : {}),
+    });
+    chainHash = genesisChainHash(started as MatchStartedEvent);
+    log.linkEvents.length = 0;
+  }
+  for (const layer of middleware) {
+    layer.onMatchStart?.(matchContext);
+  }
+
+  let turn = resumeFrom?.turn ?? 0;
+  const checkpointEvery = Math.max(1, Math.floor(config.checkpointEvery ?? 1));
+
+  const captureCheckpoint = (): MatchCheckpoint => ({
+    version: 1,
+    matchId,
     scenarioName: scenario.name,
-    maxTurns: config.maxTurns,
-    ...provenanceFields,
+    seed: config.seed,
+    agentIds,
+    turn,
+    seq: log.seq.value,
+    state: JSON.parse(JSON.stringify(state)) as JsonValue,
+    agents: Object.fromEntries(
+      agents.map((agent) => {
+        const snapshot = agent.snapshot?.();
+        const saved: AgentCheckpoint = {
+          rngDraws: agentRngDraws.get(agent.id)!,
+          ...(snapshot !== undefined ? { snapshot } : {}),
+        };
+        return [agent.id, saved];
+      }),
+    ),
+    timeoutsPerAgent: { ...timeoutsPerAgent },
+    consecutiveTimeouts: Object.fromEntries(consecutiveTimeouts),
+    chainHash,
+    ...(clock ? { clockRemainingMs: Object.fromEntries(clockRemainingMs) } : {}),
   });
+  let turnStartedAt = "";
 
-  let turn = 0;
+  const turnContext = (agentId: AgentId): TurnContext<TState, TObs, TAct> => ({
+    ...matchContext,
+    // At least 1ms: a zero deadline means "no limit" to the timeout layers.
+    ...(clock ? { maxTurnTimeMs: Math.max(1, clockRemainingMs.get(agentId)!) } : {}),
+    turn,
+    turnStartedAt,
+    agentId,
+  });
 
-  while (turn < config.maxTurns && !scenario.isTerminal(state)) {
-    turn++;
-    emit(events, seq, matchId, { type: "TurnStarted", turn });
+  const observeAgent = (agent: Agent<TObs, TAct>): TObs => {
+    const ctx = turnContext(agent.id);
+    const observation = middleware.reduce(
+      (current, layer) => (layer.beforeObserve ? layer.beforeObserve(current, ctx) : current),
+      scenario.observe(state, agent.id),
+    );
+    emit(log, matchId, {
+      type: "ObservationEmitted",
+      agentId: agent.id,
+      turn,
+      observation: observation as JsonValue,
+    });
+    return observation;
+  };
 
-    for (const agent of agents) {
-      if (scenario.isTerminal(state)) {
-        break;
+  // Emits nothing, so simultaneous turns can await every agent at once.
+  // Resolves to undefined if the match is cancelled while the agent works.
+  const requestAction = async (
+    agent: Agent<TObs, TAct>,
+    observation: TObs,
+  ): Promise<ActOutcome<TAct> | undefined> => {
+    const agentContext: AgentContext = {
+      rng: agentRngs.get(agent.id)!,
+      turn,
+      agentId: agent.id,
+      ...(signal ? { signal } : {}),
+      ...(clock ? { timeRemainingMs: clockRemainingMs.get(agent.id)! } : {}),
+    };
+    const act = composeAct(middleware, turnContext(agent.id), async (obs) => {
+      try {
+        return { kind: "action", action: await agent.act(obs, agentContext) };
+      } catch (err: unknown) {
+        return { kind: "error", message: errorMessage(err) };
       }
+    });
+    const startedAt = Date.now();
+    let outcome: ActOutcome<TAct> | undefined;
+    try {
+      outcome = await Promise.race([act(observation), cancelled]);
+    } catch (err: unknown) {
+      outcome = { kind: "error", message: errorMessage(err) };
+    }
+    if (clock && outcome) {
+      const left = clockRemainingMs.get(agent.id)! - (Date.now() - startedAt);
+      clockRemainingMs.set(
+        agent.id,
+        outcome.kind === "timeout" ? 0 : Math.max(0, left) + clock.incrementMs,
+      );
+    }
+    return outcome;
+  };
 
-      const rawObservation = scenario.observe(state, agent.id);
-      // Injection seam: on turn 1, attach the scenario's rule briefing as
-      // gameRules so agents receive structured rules on their first observation.
-      const briefing = turn === 1 ? scenario.getBriefing?.() : undefined;
-      const observation = briefing
-        ? ({ ...(rawObservation as object), gameRules: briefing } as TObs)
-        : rawObservation;
-      emit(events, seq, matchId, {
-        type: "ObservationEmitted",
+  /** Record an agent's outcome; returns undefined when there is no action to adjudicate. */
+  const submitAction = (
+    agent: Agent<TObs, TAct>,
+    outcome: ActOutcome<TAct>,
+  ): Submission<TAct> | undefined => {
+    let action: TAct;
+    if (outcome.kind === "error") {
+      emit(log, matchId, {
+        type: "AgentError",
         agentId: agent.id,
         turn,
-        observation: observation as JsonValue,
+        message: outcome.message,
       });
-
-      let action: TAct;
-      try {
-        const ctx: AgentContext = {
-          rng: agentRngs.get(agent.id)!,
-          turn,
-          agentId: agent.id,
-        };
-        const result = await raceWithTimeout(
-          Promise.resolve().then(() => agent.act(observation, ctx)),
-          maxTurnTimeMs,
-        );
-        if (result.timedOut) {
-          timeoutsPerAgent[agent.id] = (timeoutsPerAgent[agent.id] ?? 0) + 1;
-          const nextConsecutive = (consecutiveTimeouts.get(agent.id) ?? 0) + 1;
-          consecutiveTimeouts.set(agent.id, nextConsecutive);
-          emit(events, seq, matchId, {
-            type: "AgentError",
-            agentId: agent.id,
-            turn,
-            message: `Agent exceeded maxTurnTimeMs (${maxTurnTimeMs}ms). Default action applied.`,
-            errorType: "timeout",
-          });
-          action = scenario.getDefaultAction();
-          if (nextConsecutive >= maxConsecutiveTimeouts) {
-            forfeitedBy = agent.id;
-          }
-        } else {
-          consecutiveTimeouts.set(agent.id, 0);
-          action = result.value as TAct;
-        }
-      } catch (err: unknown) {
-        const message = err instanceof Error ? err.message : String(err);
-        emit(events, seq, matchId, { type: "AgentError", agentId: agent.id, turn, message });
-        consecutiveTimeouts.set(agent.id, 0);
-        continue;
+      consecutiveTimeouts.set(agent.id, 0);
+      return undefined;
+    }
+    if (outcome.kind === "timeout") {
+      timeoutsPerAgent[agent.id] = (timeoutsPerAgent[agent.id] ?? 0) + 1;
+      const nextConsecutive = (consecutiveTimeouts.get(agent.id) ?? 0) + 1;
+      consecutiveTimeouts.set(agent.id, nextConsecutive);
+      emit(log, matchId, {
+        type: "AgentError",
+        agentId: agent.id,
+        turn,
+        message: clock
+          ? `Agent's clock ran out (${clock.bankMs}ms bank, +${clock.incrementMs}ms per move). Default action applied.`
+          : `Agent exceeded maxTurnTimeMs (${maxTurnTimeMs}ms). Default action applied.`,
+        errorType: "timeout",
+      });
+      action = scenario.getDefaultAction();
+      // A fallen flag forfeits at once; fixed deadlines allow a few misses.
+      if (clock || nextConsecutive >= maxConsecutiveTimeouts) {
+        forfeitedBy = agent.id;
       }
+    } else {
+      consecutiveTimeouts.set(agent.id, 0);
+      action = outcome.action;
+    }
 
-      const actionForensics = getActionForensics(action);
-      const chosenAction = (actionForensics?.chosenAction ?? action) as TAct;
-
-      if (actionForensics) {
-        emit(events, seq, matchId, {
-          type: "AgentRawOutput",
-          agentId: agent.id,
-          turn,
-          rawSha256: actionForensics.rawSha256,
-          rawBytes: actionForensics.rawBytes,
-          truncated: actionForensics.truncated,
-          ...(actionForensics.provider ? { provider: actionForensics.provider } : {}),
-          ...(actionForensics.model ? { model: actionForensics.model } : {}),
-          ...(actionForensics.latencyMs !== undefined
-            ? { latencyMs: actionForensics.latencyMs }
-            : {}),
-          ...(actionForensics.adjudicationPath
-            ? { adjudicationPath: actionForensics.adjudicationPath }
-            : {}),
-          _privateRaw: actionForensics.rawText,
-        });
-      }
+    const actionForensics = getActionForensics(action);
+    const chosenAction = (actionForensics?.chosenAction ?? action) as TAct;
 
-      emit(events, seq, matchId, {
-        type: "ActionSubmitted",
+    if (actionForensics) {
+      emit(log, matchId, {
+        type: "AgentRawOutput",
         agentId: agent.id,
         turn,
-        action: chosenAction as JsonValue,
+        rawSha256: actionForensics.rawSha256,
+        rawBytes: actionForensics.rawBytes,
+        truncated: actionForensics.truncated,
+        ...(actionForensics.provider ? { provider: actionForensics.provider } : {}),
+        ...(actionForensics.model ? { model: actionForensics.model } : {}),
+        ...(actionForensics.latencyMs !== undefined
+          ? { latencyMs: actionForensics.latencyMs }
+          : {}),
+        ...(actionForensics.adjudicationPath
+          ? { adjudicationPath: actionForensics.adjudicationPath }
+          : {}),
+        _privateRaw: actionForensics.rawText,
       });
+    }
 
-      const result = scenario.adjudicate(state, agent.id, chosenAction);
-      emit(events, seq, matchId, {
-        type: "ActionAdjudicated",
-        agentId: agent.id,
+    emit(log, matchId, {
+      type: "ActionSubmitted",
+      agentId: agent.id,
+      turn,
+      action: chosenAction as JsonValue,
+      ...(clock ? { timeRemainingMs: clockRemainingMs.get(agent.id)! } : {}),
+    });
+
+    return { agentId: agent.id, chosenAction, actionForensics };
+  };
+
+  const recordAdjudication = (
+    submission: Submission<TAct>,
+    result: { valid: boolean; feedback: JsonValue },
+  ): void => {
+    const { agentId, chosenAction, actionForensics } = submission;
+    emit(log, matchId, {
+      type: "ActionAdjudicated",
+      agentId,
+      turn,
+      valid: result.valid,
+      feedback: result.feedback,
+      method: (actionForensics?.method ?? "direct-json") as NormalizationMethod,
+      warnings: actionForensics?.warnings ?? [],
+      errors: actionForensics?.errors ?? null,
+      fallbackReason: actionForensics?.fallbackReason ?? null,
+      chosenAction: chosenAction as JsonValue,
+    });
+
+    const ctx = turnContext(agentId);
+    for (const layer of middleware) {
+      layer.afterAdjudicate?.(submission, result, ctx);
+    }
+
+    const invalidDetails = buildInvalidActionDetails(chosenAction, actionForensics, result);
+    if (invalidDetails) {
+      emit(log, matchId, {
+        type: "InvalidAction",
+        agentId,
         turn,
-        valid: result.valid,
-        feedback: result.feedback,
-        method: (actionForensics?.method ?? "direct-json") as NormalizationMethod,
-        warnings: actionForensics?.warnings ?? [],
-        errors: actionForensics?.errors ?? null,
-        fallbackReason: actionForensics?.fallbackReason ?? null,
-        chosenAction: chosenAction as JsonValue,
+        reason: invalidDetails.reason,
+        attemptedAction: invalidDetails.attemptedAction,
       });
+    }
+  };
 
-      if (actionForensics?.budget) {
-        emit(events, seq, matchId, {
-          type: "AgentBudget",
-          agentId: agent.id,
-          turn,
-          tokensUsed: actionForensics.budget.tokensUsed,
-          tokensAllowed: actionForensics.budget.tokensAllowed,
-          matchTokensUsed: actionForensics.budget.matchTokensUsed,
-          matchTokensAllowed: actionForensics.budget.matchTokensAllowed,
-          callsUsed: actionForensics.budget.callsUsed,
-          callsAllowed: actionForensics.budget.callsAllowed,
-          matchCallsUsed: actionForensics.budget.matchCallsUsed,
-          matchCallsAllowed: actionForensics.budget.matchCallsAllowed,
-          outputTruncated: actionForensics.budget.outputTruncated,
-          tokenCapHit: actionForensics.budget.tokenCapHit,
-          callCapHit: actionForensics.budget.callCapHit,
-          ...(actionForensics.provider ? { provider: actionForensics.provider } : {}),
-          ...(actionForensics.model ? { model: actionForensics.model } : {}),
+  let wasCancelled = false;
+  while (turn < config.maxTurns && !scenario.isTerminal(state)) {
+    await config.turnGate?.();
+    if (signal?.aborted) {
+      wasCancelled = true;
+      break;
+    }
+    turn++;
+    turnStartedAt = new Date().toISOString();
+    emit(log, matchId, { type: "TurnStarted", turn });
+
+    if (turnStructure === "simultaneous") {
+      // Every agent sees the same pre-turn state; actions resolve together.
+      const observations = agents.map((agent) => observeAgent(agent));
+      const outcomes = await Promise.all(
+        agents.map((agent, index) => requestAction(agent, observations[index])),
+      );
+      // A cancelled turn resolves nothing rather than a partial batch.
+      if (signal?.aborted) {
+        wasCancelled = true;
+      } else {
+        const submissions = agents.flatMap((agent, index) => {
+          const submission = submitAction(agent, outcomes[index]!);
+          return submission ? [submission] : [];
         });
-      }
-      const invalidDetails = buildInvalidActionDetails(chosenAction, actionForensics, result);
-      if (invalidDetails) {
-        emit(events, seq, matchId, {
-          type: "InvalidAction",
-          agentId: agent.id,
+        const batch = adjudicateSimultaneousTurn(
+          scenario,
+          state,
+          submissions.map(({ agentId, chosenAction }) => ({ agentId, action: chosenAction })),
           turn,
-          reason: invalidDetails.reason,
-          attemptedAction: invalidDetails.attemptedAction,
-        });
+        );
+        submissions.forEach((submission, index) =>
+          recordAdjudication(submission, batch.results[index]),
+        );
+        state = batch.state;
       }
+    } else {
+      for (const agent of agents) {
+        if (scenario.isTerminal(state)) {
+          break;
+        }
+
+        const observation = observeAgent(agent);
+        const outcome = await requestAction(agent, observation);
+        if (!outcome || signal?.aborted) {
+          wasCancelled = true;
+          break;
+        }
+        const submission = submitAction(agent, outcome);
+        if (!submission) {
+          continue;
+        }
 
-      state = result.state;
+        const result = scenario.adjudicate(state, agent.id, submission.chosenAction, turn);
+        recordAdjudication(submission, result);
+        state = result.state;
 
-      if (forfeitedBy) {
-        break;
+        if (forfeitedBy) {
+          break;
+        }
       }
     }
 
-    emit(events, seq, matchId, {
-      type: "StateUpdated",
-      turn,
-      summary: scenario.summarize(state),
-    });
+    const stateHash = hashState(state);
+    const summary = scenario.summarize(state);
+    chainHash = chainTurnHash(chainHash, { turn, stateHash, summary, events: log.linkEvents });
+    emit(log, matchId, { type: "StateUpdated", turn, summary, stateHash, chainHash });
+    log.linkEvents.length = 0;
+    await log.flush();
 
-    if (forfeitedBy) {
+    if (forfeitedBy || wasCancelled) {
       break;
     }
+
+    const matchGoesOn = turn < config.maxTurns && !scenario.isTerminal(state);
+    if (config.onCheckpoint && matchGoesOn && turn % checkpointEvery === 0) {
+      await config.onCheckpoint(captureCheckpoint());
+    }
   }
 
   const baseScores = scenario.score(state);
   const scores = applyForfeitScores(baseScores, forfeitedBy);
-  const reason = forfeitedBy
-    ? "agentForfeited"
-    : scenario.isTerminal(state)
-      ? "completed"
-      : "maxTurnsReached";
+  const teamScores =
+    teams &&
+    applyForfeitScores(
+      computeTeamScores(scenario, state, teams, baseScores),
+      forfeitedBy && teamOf(teams, forfeitedBy),
+    );
+  const reason = wasCancelled
+    ? "cancelled"
+    : forfeitedBy
+      ? "agentForfeited"
+      : scenario.isTerminal(state)
+        ? "completed"
+        : "maxTurnsReached";
 
   const details = scenario.reveal?.(state);
-  emit(events, seq, matchId, {
+  emit(log, matchId, {
     type: "MatchEnded",
     reason,
     scores,
+    ...(teamScores ? { teamScores } : {}),
     turns: turn,
     ...(details !== undefined && { details }),
   });
+  await log.flush();
 
-  return {
+  const result: MatchResult = {
     matchId,
     seed: config.seed,
     scores,
-    events,
+    events: log.events,
     turns: turn,
     maxTurnTimeMs,
     timeoutsPerAgent,
     ...(forfeitedBy ? { forfeitedBy } : {}),
+    reason,
+    ...(details !== undefined && { details }),
+    ...(teams ? { teams, teamScores } : {}),
   };
-}
-
-export async function runMatch<TState, TObs, TAct>(
-  scenario: Scenario<TState, TObs, TAct>,
-  agents: Agent<TObs, TAct>[],
-  config: MatchRunnerConfig,
-): Promise<MatchResult> {
-  const isHeistCompetitive = scenario.name === "Heist" && agents.length === 2;
-  if (!isHeistCompetitive) {
-    return runMatchStandard(scenario, agents, config);
+  for (const agent of agents) {
+    if (!agent.onMatchEnd) {
+      continue;
+    }
+    const outcome: AgentMatchOutcome = {
+      matchId,
+      agentId: agent.id,
+      reason,
+      scores,
+      ...(teamScores ? { teamScores } : {}),
+      turns: turn,
+      ...(forfeitedBy ? { forfeitedBy } : {}),
+      ...(details !== undefined && { details }),
+      events: agentEvents.get(agent.id) ?? [],
+    };
+    try {
+      // A listener gets as long as a turn; one that never settles cannot hold up the rest.
+      await raceWithTimeout(
+        Promise.resolve().then(() => agent.onMatchEnd?.(outcome)),
+        maxTurnTimeMs,
+      );
+    } catch {
+      // The match is decided; a failing listener cannot change that.
+    }
   }
-
-  const [agentA, agentB] = agents;
-  const resultA = await runMatchStandard(scenario, [agentA], config);
-  const matchId = config.matchId ?? resultA.matchId;
-  const resultB = await runMatchStandard(scenario, [agentB], { ...config, matchId });
-
-  return combineHeistRuns(
-    scenario.name,
-    { ...config, matchId },
-    [agentA.id, agentB.id],
-    [
-      { agentId: agentA.id, result: resultA },
-      { agentId: agentB.id, result: resultB },
-    ],
-  );
+  for (const layer of middleware) {
+    await layer.onMatchEnd?.(result, matchContext);
+  }
+  return result;
 }
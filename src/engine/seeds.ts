@@ -0,0 +1,24 @@
+import type { Seed } from "../contract/types.js";
+import { createRng, deriveSeed } from "../core/rng.js";
+import { generateMatchId } from "./matchId.js";
+
+/** Everything a match derives from its seed. */
+export interface MatchSeeds {
+  generatedMatchId: string;
+  /** One per agent, in seat order. */
+  agentSeeds: Seed[];
+  scenarioSeed: Seed;
+}
+
+/**
+ * Derive a match's seeds from the master seed. The draw order (match id,
+ * agents in seat order, scenario) is part of the determinism contract:
+ * changing it changes every recorded match.
+ */
+export function deriveMatchSeeds(seed: Seed, agentCount: number): MatchSeeds {
+  const masterRng = createRng(seed);
+  const generatedMatchId = generateMatchId(masterRng);
+  const agentSeeds = Array.from({ length: agentCount }, () => deriveSeed(masterRng));
+  const scenarioSeed = deriveSeed(masterRng);
+  return { generatedMatchId, agentSeeds, scenarioSeed };
+}
@@ -0,0 +1,57 @@
+import type { Scenario } from "../contract/interfaces.js";
+import type { AgentId, TeamAssignment, TeamId } from "../contract/types.js";
+
+/** Throw unless every agent is on exactly one of at least two non-empty teams. */
+export function assertValidTeams(teams: TeamAssignment, agentIds: AgentId[]): void {
+  const problems: string[] = [];
+  const teamIds = Object.keys(teams);
+  if (teamIds.length < 2) {
+    problems.push("at least two teams are required");
+  }
+  const seen = new Map<AgentId, TeamId>();
+  for (const teamId of teamIds) {
+    if (teams[teamId].length === 0) {
+      problems.push(`team "${teamId}" has no members`);
+    }
+    for (const agentId of teams[teamId]) {
+      if (!agentIds.includes(agentId)) {
+        problems.push(`team "${teamId}" lists unknown agent "${agentId}"`);
+      }
+      const other = seen.get(agentId);
+      if (other !== undefined) {
+        problems.push(`agent "${agentId}" is on both "${other}" and "${teamId}"`);
+      }
+      seen.set(agentId, teamId);
+    }
+  }
+  for (const agentId of agentIds) {
+    if (!seen.has(agentId)) {
+      problems.push(`agent "${agentId}" is on no team`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid teams: ${problems.join("; ")}`);
+  }
+}
+
+export function teamOf(teams: TeamAssignment, agentId: AgentId): TeamId | undefined {
+  return Object.keys(teams).find((teamId) => teams[teamId].includes(agentId));
+}
+
+/** The scenario's `scoreTeams`, or else each team's summed member scores. */
+export function computeTeamScores<TState>(
+  scenario: Scenario<TState, unknown, unknown>,
+  state: TState,
+  teams: TeamAssignment,
+  scores: Record<AgentId, number>,
+): Record<TeamId, number> {
+  if (scenario.scoreTeams) {
+    return scenario.scoreTeams(state, teams);
+  }
+  return Object.fromEntries(
+    Object.entries(teams).map(([teamId, members]) => [
+      teamId,
+      members.reduce((total, agentId) => total + (scores[agentId] ?? 0), 0),
+    ]),
+  );
+}
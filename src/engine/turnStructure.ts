@@ -0,0 +1,42 @@
+import type {
+  BatchAdjudicationResult,
+  Scenario,
+  SubmittedAction,
+  TurnStructure,
+} from "../contract/interfaces.js";
+
+export function resolveTurnStructure(scenario: Scenario<unknown, unknown, unknown>): TurnStructure {
+  return scenario.turnStructure ?? "sequential";
+}
+
+/**
+ * Resolve a simultaneous turn. Uses the scenario's `adjudicateBatch` when it
+ * has one; otherwise folds `adjudicate` over the actions in submission order.
+ */
+export function adjudicateSimultaneousTurn<TState, TObs, TAct>(
+  scenario: Scenario<TState, TObs, TAct>,
+  state: TState,
+  actions: SubmittedAction<TAct>[],
+  turn?: number,
+): BatchAdjudicationResult<TState> {
+  if (!scenario.adjudicateBatch) {
+    let current = state;
+    const results = actions.map(({ agentId, action }) => {
+      const result = scenario.adjudicate(current, agentId, action, turn);
+      current = result.state;
+      return { agentId, valid: result.valid, feedback: result.feedback };
+    });
+    return { state: current, results };
+  }
+
+  const batch = scenario.adjudicateBatch(state, actions);
+  const mismatch =
+    batch.results.length !== actions.length ||
+    batch.results.some((entry, index) => entry.agentId !== actions[index].agentId);
+  if (mismatch) {
+    throw new Error(
+      `Scenario "${scenario.name}" adjudicateBatch must return one result per action, in order.`,
+    );
+  }
+  return batch;
+}
@@ -1,8 +1,12 @@
 import type { MatchRunnerConfig } from "../contract/interfaces.js";
-import type { JsonValue } from "../contract/types.js";
+import type { ClockTimeControl, JsonValue } from "../contract/types.js";
 
 const DEFAULT_MAX_TURN_TIME_MS = 30000;
-const DEFAULT_MAX_CONSECUTIVE_TIMEOUTS = 3;
+export const DEFAULT_MAX_CONSECUTIVE_TIMEOUTS = 3;
+const DEFAULT_CLOCK_BANK_MS = 300000;
+const DEFAULT_CLOCK_INCREMENT_MS = 0;
+
+export type TimeControl = { mode: "fixed"; maxTurnTimeMs: number } | ClockTimeControl;
 
 function resolveNumber(value: unknown): number | undefined {
   if (typeof value !== "number" || !Number.isFinite(value)) {
@@ -15,12 +19,19 @@ function resolveNumber(value: unknown): number | undefined {
   return normalized;
 }
 
-function readConfigNumber(source: JsonValue | undefined, key: string): number | undefined {
+function readConfigValue(source: JsonValue | undefined, key: string): unknown {
   if (!source || typeof source !== "object" || Array.isArray(source)) {
     return undefined;
   }
-  const record = source as Record<string, unknown>;
-  return resolveNumber(record[key]);
+  return (source as Record<string, unknown>)[key];
+}
+
+function readConfigNumber(source: JsonValue | undefined, key: string): number | undefined {
+  return resolveNumber(readConfigValue(source, key));
+}
+
+function resolveTimeControlMode(value: unknown): TimeControl["mode"] | undefined {
+  return value === "fixed" || value === "clock" ? value : undefined;
 }
 
 export function resolveMaxTurnTimeMs(config: MatchRunnerConfig): number {
@@ -36,3 +47,25 @@ export function resolveMaxConsecutiveTimeouts(config: MatchRunnerConfig): number
   const fromOverride = resolveNumber(config.maxConsecutiveTimeouts);
   return fromMode ?? fromDivision ?? fromOverride ?? DEFAULT_MAX_CONSECUTIVE_TIMEOUTS;
 }
+
+export function resolveTimeControl(config: MatchRunnerConfig): TimeControl {
+  const mode =
+    resolveTimeControlMode(readConfigValue(config.modeProfile, "timeControl")) ??
+    resolveTimeControlMode(readConfigValue(config.divisionConfig, "timeControl")) ??
+    resolveTimeControlMode(config.timeControl) ??
+    "fixed";
+  if (mode === "fixed") {
+    return { mode, maxTurnTimeMs: resolveMaxTurnTimeMs(config) };
+  }
+  const bankMs =
+    readConfigNumber(config.modeProfile, "clockBankMs") ??
+    readConfigNumber(config.divisionConfig, "clockBankMs") ??
+    resolveNumber(config.clockBankMs) ??
+    DEFAULT_CLOCK_BANK_MS;
+  const incrementMs =
+    readConfigNumber(config.modeProfile, "clockIncrementMs") ??
+    readConfigNumber(config.divisionConfig, "clockIncrementMs") ??
+    resolveNumber(config.clockIncrementMs) ??
+    DEFAULT_CLOCK_INCREMENT_MS;
+  return { mode, bankMs, incrementMs };
+}
@@ -68,6 +68,11 @@ const getDoorStroke = (door: HeistDoor): { color: string; dash?: string } => {
 
 const getRoomTypeDisplay = (room: HeistRoom): string => ROOM_LABELS[room.type] ?? room.type;
 
+const renderHazardMarker = (x: number, y: number, title?: string): string =>
+  `<polygon points="${x},${y - 6} ${x + 6},${y} ${x},${y + 6} ${x - 6},${y}" fill="#ff6f00"${
+    title ? ` data-hazard="${escapeXml(title)}"` : ""
+  } />`;
+
 const renderLegend = (originX: number, originY: number): string[] => {
   const lines: string[] = [];
   const entries = [
@@ -90,6 +95,7 @@ const renderLegend = (originX: number, originY: number): string[] => {
     { label: "Item (tool)", marker: "tool" },
     { label: "Item (loot)", marker: "loot" },
     { label: "Item (intel)", marker: "intel" },
+    { label: "Hazard", marker: "hazard" },
   ];
   let offsetY = originY;
   lines.push(
@@ -129,6 +135,8 @@ const renderLegend = (originX: number, originY: number): string[] => {
       lines.push(`<circle cx="${originX + 12}" cy="${offsetY - 6}" r="4" fill="#f9a825" />`);
     } else if (entry.marker === "intel") {
       lines.push(`<circle cx="${originX + 12}" cy="${offsetY - 6}" r="4" fill="#1976d2" />`);
+    } else if (entry.marker === "hazard") {
+      lines.push(renderHazardMarker(originX + 12, offsetY - 6));
     } else {
       const color = entry.fill ?? "#ffffff";
       const stroke = entry.stroke ?? "#424242";
@@ -290,6 +298,14 @@ export function generateHeistDebugView(params: HeistScenarioParams): string {
     );
   }
 
+  for (const room of rooms) {
+    if (!room.position || !room.hazard) {
+      continue;
+    }
+    const { left, top } = centerForRoom(room, minX, maxY, cellSize, margin, roomWidth, roomHeight);
+    lines.push(renderHazardMarker(left + roomWidth - 10, top + 10, room.hazard.type));
+  }
+
   const itemsByRoom = groupItemsByRoom(params.items);
   for (const [roomId, items] of itemsByRoom) {
     const room = roomsById.get(roomId);
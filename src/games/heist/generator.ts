@@ -5,6 +5,8 @@ import type {
   HeistDoor,
   HeistEntity,
   HeistGuardEntity,
+  HeistHazard,
+  HeistHazardType,
   HeistItem,
   HeistKeycardItem,
   HeistLootItem,
@@ -18,7 +20,8 @@ import type {
   HeistVaultEntity,
   HeistWinCondition,
 } from "./types.js";
-import type { HeistGeneratorConfig } from "./generatorTypes.js";
+import type { HeistDifficultyPreset, HeistGeneratorConfig } from "./generatorTypes.js";
+import { collectHazardSafetyErrors } from "./validator.js";
 
 const DEFAULT_BRANCHING_FACTOR = 2;
 const DEFAULT_LOOP_COUNT = 1;
@@ -40,10 +43,12 @@ const DEFAULT_RULES = {
     hack: 2,
     force: 4,
     wait: 0,
+    camera: 2,
   },
   alertThresholds: [0, 3, 6, 10],
   noiseDecayRate: 1,
   guardDetectionRange: 2,
+  cameraDetectionRange: 1,
   maxAlertLevel: 3,
   captureOnMaxAlert: true,
 };
@@ -63,6 +68,12 @@ const PRESET_OVERRIDES: Record<string, Partial<HeistScoring>> = {
   hard: { alertPenaltyPerLevel: 15, lootMultiplier: 0.9 },
 };
 
+const HAZARD_TYPES: HeistHazardType[] = ["laser_grid", "pressure_plate", "motion_sensor"];
+
+/** Hazards per map, and how hard each one bites, by difficulty. */
+const HAZARD_COUNTS: Record<HeistDifficultyPreset, number> = { easy: 1, normal: 2, hard: 3 };
+const HAZARD_SEVERITY: Record<HeistDifficultyPreset, number> = { easy: 1, normal: 2, hard: 3 };
+
 const DEFAULT_MAX_TURNS = 24;
 const DEFAULT_CONFIG: HeistGeneratorConfig = {
   rooms: { exact: 8 },
@@ -82,7 +93,7 @@ export const HEIST_PRESETS: Record<string, HeistGeneratorConfig> = {
     loopCount: 0,
     securityDensity: { guards: 1, cameras: 1, terminals: 1 },
     hazardsEnabled: false,
-    maxTurns: 6,
+    maxTurns: 16,
     difficultyPreset: "easy",
     skin: {
       themeName: "Warehouse Break-in",
@@ -95,7 +106,7 @@ export const HEIST_PRESETS: Record<string, HeistGeneratorConfig> = {
     loopCount: 0,
     securityDensity: { guards: 2, cameras: 2, terminals: 2 },
     hazardsEnabled: false,
-    maxTurns: 6,
+    maxTurns: 20,
     difficultyPreset: "normal",
     skin: {
       themeName: "Prison Escape",
@@ -108,7 +119,7 @@ export const HEIST_PRESETS: Record<string, HeistGeneratorConfig> = {
     loopCount: 0,
     securityDensity: { guards: 3, cameras: 3, terminals: 3 },
     hazardsEnabled: false,
-    maxTurns: 6,
+    maxTurns: 30,
     difficultyPreset: "hard",
     skin: {
       themeName: "Museum Night",
@@ -491,6 +502,61 @@ function computeUnlockedReachableRooms(
   return [...reachable];
 }
 
+/** Rooms more than `hops` doors away from `startId`, locks ignored. */
+function computeRoomsBeyond(
+  rooms: HeistRoom[],
+  doors: HeistDoor[],
+  startId: string,
+  hops: number,
+): string[] {
+  const graph = buildDoorGraph(rooms, doors);
+  const distances = new Map<string, number>([[startId, 0]]);
+  const queue: string[] = [startId];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (!current) {
+      break;
+    }
+    const distance = distances.get(current) ?? 0;
+    for (const neighbor of graph.get(current) ?? []) {
+      if (!distances.has(neighbor.neighborId)) {
+        distances.set(neighbor.neighborId, distance + 1);
+        queue.push(neighbor.neighborId);
+      }
+    }
+  }
+  return rooms
+    .map((room) => room.id)
+    .filter((id) => (distances.get(id) ?? Number.POSITIVE_INFINITY) > hops);
+}
+
+/**
+ * Rooms from which nothing with a straight-line sight of `range` doors can see
+ * `startId`: past its neighbours, and off its row and column within `range`.
+ */
+function computeRoomsOutOfSight(
+  rooms: HeistRoom[],
+  doors: HeistDoor[],
+  startId: string,
+  range: number,
+): string[] {
+  const start = rooms.find((room) => room.id === startId)?.position;
+  if (!start) {
+    return computeRoomsBeyond(rooms, doors, startId, range);
+  }
+  const positions = new Map(rooms.map((room) => [room.id, room.position]));
+  return computeRoomsBeyond(rooms, doors, startId, 1).filter((id) => {
+    const position = positions.get(id);
+    return (
+      position !== undefined &&
+      !(
+        (position.x === start.x || position.y === start.y) &&
+        manhattanDistance(position, start) <= range
+      )
+    );
+  });
+}
+
 function isDoorBetween(door: HeistDoor, roomA: string, roomB: string): boolean {
   return (
     (door.roomA === roomA && door.roomB === roomB) || (door.roomA === roomB && door.roomB === roomA)
@@ -513,18 +579,35 @@ function assignDoorRequirements(doors: HeistDoor[], keycards: HeistKeycardItem[]
   }
 }
 
-function createGuards(roomIds: string[], rng: () => number, count: number): HeistGuardEntity[] {
+/**
+ * Guards walk a beat: two or three rooms joined by doors, out and back, so a
+ * guard moves one room per turn and never camps in one spot for good. Beats
+ * keep to `roomIds`.
+ */
+function createGuards(
+  roomIds: string[],
+  graph: Map<string, string[]>,
+  rng: () => number,
+  count: number,
+): HeistGuardEntity[] {
+  const allowed = new Set(roomIds);
   const guards: HeistGuardEntity[] = [];
   for (let i = 0; i < count; i++) {
-    const patrolLength = Math.max(2, randomInt(rng, 2, Math.min(4, roomIds.length)));
-    const patrolRoute: string[] = [];
-    for (let step = 0; step < patrolLength; step++) {
-      patrolRoute.push(roomIds[randomInt(rng, 0, roomIds.length - 1)]);
+    const beatLength = randomInt(rng, 2, 3);
+    const beat = [roomIds[randomInt(rng, 0, roomIds.length - 1)]];
+    while (beat.length < beatLength) {
+      const next = (graph.get(beat[beat.length - 1]) ?? []).filter(
+        (id) => allowed.has(id) && !beat.includes(id),
+      );
+      if (next.length === 0) {
+        break;
+      }
+      beat.push(next[randomInt(rng, 0, next.length - 1)]);
     }
     guards.push({
       id: `guard-${i + 1}`,
       type: "guard",
-      patrolRoute,
+      patrolRoute: [...beat, ...beat.slice(1, -1).reverse()],
       detectionRange: randomInt(rng, 2, 3),
       ...(rng() < 0.5 ? { alertResponse: "lockdown" } : {}),
     });
@@ -547,6 +630,20 @@ function createCameras(roomIds: string[], rng: () => number, count: number): Hei
   return cameras;
 }
 
+/** Give every camera a terminal that shuts it off, spreading cameras round-robin. */
+function linkTerminalsToCameras(
+  terminals: HeistTerminalEntity[],
+  cameras: HeistCameraEntity[],
+): void {
+  if (terminals.length === 0) {
+    return;
+  }
+  cameras.forEach((camera, index) => {
+    const terminal = terminals[index % terminals.length];
+    terminal.successDisables = [...(terminal.successDisables ?? []), camera.id];
+  });
+}
+
 function createTerminals(
   roomIds: string[],
   rng: () => number,
@@ -635,6 +732,69 @@ function attachTerminalIntel(
     cursor = (cursor + grantsCount) % intelIds.length;
     terminal.successGrants = grants;
   }
+  // Every fragment must come from somewhere, or the vault can never open.
+  const granted = new Set(terminals.flatMap((terminal) => terminal.successGrants ?? []));
+  intelIds
+    .filter((id) => !granted.has(id))
+    .forEach((id, index) => {
+      const terminal = terminals[index % terminals.length];
+      if (terminal) {
+        terminal.successGrants = [...(terminal.successGrants ?? []), id];
+      }
+    });
+}
+
+function createHazard(type: HeistHazardType, severity: number): HeistHazard {
+  switch (type) {
+    case "laser_grid":
+      return { type, damage: 10 * severity };
+    case "pressure_plate":
+      return { type, noise: 1 + severity };
+    case "motion_sensor":
+      return { type, waitTurns: Math.ceil(severity / 2) };
+  }
+}
+
+/**
+ * Put hazards in random side rooms (never spawn, vault or extraction), keeping
+ * each one only while the map still has a hazard-free route to the objectives.
+ */
+function placeHazards(
+  params: HeistScenarioParams,
+  rng: () => number,
+  difficulty: HeistDifficultyPreset,
+): HeistScenarioParams {
+  const reserved = new Set([
+    ...params.map.rooms
+      .filter((room) => room.type === "spawn" || room.type === "vault")
+      .map((room) => room.id),
+    params.winCondition.extractionRoomId,
+  ]);
+  const candidates = shuffle(
+    params.map.rooms.filter((room) => !reserved.has(room.id)).map((room) => room.id),
+    rng,
+  );
+  let placed = params;
+  let remaining = HAZARD_COUNTS[difficulty];
+  for (const roomId of candidates) {
+    if (remaining === 0) {
+      break;
+    }
+    const type = HAZARD_TYPES[randomInt(rng, 0, HAZARD_TYPES.length - 1)];
+    const hazard = createHazard(type, HAZARD_SEVERITY[difficulty]);
+    const trial: HeistScenarioParams = {
+      ...placed,
+      map: {
+        ...placed.map,
+        rooms: placed.map.rooms.map((room) => (room.id === roomId ? { ...room, hazard } : room)),
+      },
+    };
+    if (collectHazardSafetyErrors(trial).length === 0) {
+      placed = trial;
+      remaining -= 1;
+    }
+  }
+  return placed;
 }
 
 function assignRoomPositions(
@@ -910,17 +1070,35 @@ function buildScenario(config: HeistGeneratorConfig, seed: Seed): HeistScenarioP
   );
   attachTerminalIntel(terminals, intelItems, rng);
 
+  // Security starts out of sight of the spawn room, so an agent that only
+  // waits is not spotted before it has moved.
+  const awayFromSpawn = rooms.map((room) => room.id).filter((id) => id !== spawnId);
+  const patrolRooms = computeRoomsOutOfSight(
+    roomsWithPositions,
+    doors,
+    spawnId,
+    DEFAULT_RULES.guardDetectionRange,
+  );
   const guards = createGuards(
-    rooms.map((room) => room.id),
+    patrolRooms.length > 0 ? patrolRooms : awayFromSpawn,
+    buildAdjacencyGraph(rooms, doors),
     rng,
     securityDensity.guards ?? Math.max(1, Math.floor(roomCount / 3)),
   );
+  const cameraRooms = computeRoomsBeyond(rooms, doors, spawnId, DEFAULT_RULES.cameraDetectionRange);
+  const cameraHallways = roomByType.hallway.filter((id) => cameraRooms.includes(id));
   const cameras = createCameras(
-    roomByType.hallway.length > 0 ? roomByType.hallway : rooms.map((room) => room.id),
+    cameraHallways.length > 0
+      ? cameraHallways
+      : cameraRooms.length > 0
+        ? cameraRooms
+        : awayFromSpawn,
     rng,
     securityDensity.cameras ?? Math.max(1, Math.floor(roomCount / 4)),
   );
 
+  linkTerminalsToCameras(terminals, cameras);
+
   const vaultEntity: HeistVaultEntity = {
     id: "vault-1",
     type: "vault",
@@ -937,7 +1115,7 @@ function buildScenario(config: HeistGeneratorConfig, seed: Seed): HeistScenarioP
     ...(config.difficultyPreset ? PRESET_OVERRIDES[config.difficultyPreset] : {}),
   };
 
-  return {
+  const params: HeistScenarioParams = {
     layoutVersion: 1,
     map: { rooms: roomsWithPositions, doors } satisfies HeistMap,
     entities,
@@ -951,6 +1129,9 @@ function buildScenario(config: HeistGeneratorConfig, seed: Seed): HeistScenarioP
     ),
     skin: config.skin,
   };
+  return config.hazardsEnabled
+    ? placeHazards(params, rng, config.difficultyPreset ?? "normal")
+    : params;
 }
 
 export function generateHeistScenario(
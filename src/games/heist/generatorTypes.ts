@@ -15,6 +15,7 @@ export interface HeistGeneratorConfig {
   branchingFactor?: number;
   loopCount?: number;
   securityDensity?: HeistGeneratorSecurityDensity;
+  /** Place room hazards; how many and how harsh follows `difficultyPreset`. */
   hazardsEnabled?: boolean;
   maxTurns?: number;
   timeLimit?: number;
@@ -1,3 +1,4 @@
+import type { HeistParReport } from "./solver.js";
 import type { HeistDoor, HeistRoom, HeistScenarioParams } from "./types.js";
 
 const ROOM_TYPE_LABELS: Record<string, string> = {
@@ -127,7 +128,8 @@ const longestHallwayCorridor = (rooms: HeistRoom[]): number => {
   return longest;
 };
 
-export function generateLayoutReport(params: HeistScenarioParams): string {
+/** Layout metrics for a map, followed by its par and optimal score when `par` is given. */
+export function generateLayoutReport(params: HeistScenarioParams, par?: HeistParReport): string {
   const rooms = params.map.rooms;
   const doors = params.map.doors;
   const graph = buildRoomGraph(rooms, doors);
@@ -230,6 +232,11 @@ export function generateLayoutReport(params: HeistScenarioParams): string {
   lines.push(
     `Longest corridor: ${hasRoomPositions(rooms) ? longestHallwayCorridor(rooms) : "n/a"}`,
   );
+  if (par) {
+    const bound = par.exhaustive ? "" : " (search capped; best found)";
+    lines.push(`Par: ${par.parTurns === null ? "unreachable" : `${par.parTurns} turns`}${bound}`);
+    lines.push(`Optimal score: ${par.optimalScore} in ${par.optimalTurns} turns${bound}`);
+  }
 
   return `${lines.join("\n")}\n`;
 }
@@ -1,4 +1,11 @@
-import type { HeistDoor, HeistEntity, HeistItem, HeistRoom, HeistScenarioParams } from "./types.js";
+import type {
+  HeistDoor,
+  HeistEntity,
+  HeistHazard,
+  HeistItem,
+  HeistRoom,
+  HeistScenarioParams,
+} from "./types.js";
 
 const ROOM_TYPE_LABELS: Record<HeistRoom["type"], string> = {
   spawn: "SPAWN",
@@ -87,7 +94,8 @@ const formatSpatialMap = (
       return "   ";
     }
     const symbol = ROOM_TYPE_SYMBOLS[room.type] ?? "?";
-    return `[${symbol}]`;
+    // Hazard rooms get braces so they stand out on the grid.
+    return room.hazard ? `{${symbol}}` : `[${symbol}]`;
   };
   const doorByKey = new Map<string, HeistDoor>();
   for (const door of doors) {
@@ -288,6 +296,24 @@ const formatItemSummary = (params: HeistScenarioParams): string => {
   return parts.length > 0 ? parts.join(", ") : "none";
 };
 
+const formatHazardEffects = (hazard: HeistHazard): string => {
+  const effects = [
+    hazard.noise ? `noise +${hazard.noise}` : null,
+    hazard.waitTurns ? `pinned ${hazard.waitTurns} ${pluralize("turn", hazard.waitTurns)}` : null,
+    hazard.damage ? `score -${hazard.damage}` : null,
+  ].filter((effect): effect is string => effect !== null);
+  return effects.length > 0 ? effects.join(", ") : "no effect";
+};
+
+const formatHazardSummary = (params: HeistScenarioParams): string | null => {
+  const parts = params.map.rooms.flatMap((room) =>
+    room.hazard
+      ? [`${getRoomName(params, room)} ${room.hazard.type} (${formatHazardEffects(room.hazard)})`]
+      : [],
+  );
+  return parts.length > 0 ? parts.join("; ") : null;
+};
+
 const formatRulesSummary = (params: HeistScenarioParams): string =>
   `${params.winCondition.maxTurns} turns, alert levels 0-${params.rules.maxAlertLevel}, noise decay ${params.rules.noiseDecayRate}/turn`;
 
@@ -359,6 +385,10 @@ export function generatePreview(params: HeistScenarioParams, options: PreviewOpt
   lines.push("");
   lines.push(`ENTITIES: ${formatEntitySummary(params.entities)}`);
   lines.push(`ITEMS: ${formatItemSummary(params)}`);
+  const hazardSummary = formatHazardSummary(params);
+  if (hazardSummary) {
+    lines.push(`HAZARDS: ${hazardSummary}`);
+  }
   lines.push(`RULES: ${formatRulesSummary(params)}`);
   lines.push(`SCORING: ${formatScoringSummary(params)}`);
   lines.push("");
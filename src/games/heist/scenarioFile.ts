@@ -0,0 +1,117 @@
+import { existsSync, readdirSync, readFileSync, realpathSync } from "node:fs";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import type { HeistParReport } from "./solver.js";
+import type { HeistScenarioParams } from "./types.js";
+import { validateHeistScenario } from "./validator.js";
+
+/** Directory (relative to the repo root) holding the curated `*.scenario.json` presets. */
+export const HEIST_PRESETS_DIR = join("scenarios", "heist");
+
+const SCENARIO_FILE_SUFFIX = ".scenario.json";
+
+/** On-disk format written by `scenario gen`. */
+export interface HeistScenarioFile {
+  schemaVersion: string;
+  scenarioId: string;
+  gameId: "heist";
+  gameVersion: string;
+  params: HeistScenarioParams;
+  /** Solver results for `params`; see `solveHeistScenario`. */
+  par?: HeistParReport;
+}
+
+export interface LoadedHeistScenario {
+  /** Absolute path of the file the params were read from. */
+  path: string;
+  scenarioId: string;
+  params: HeistScenarioParams;
+}
+
+/** List the preset ids (file names without `.scenario.json`) shipped under `scenarios/heist`. */
+export function listHeistScenarioPresets(cwd = process.cwd()): string[] {
+  const dir = resolve(cwd, HEIST_PRESETS_DIR);
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((name) => name.endsWith(SCENARIO_FILE_SUFFIX))
+    .map((name) => name.slice(0, -SCENARIO_FILE_SUFFIX.length))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Resolve a scenario file path or preset id (e.g. `museum_night_seed24`) to an
+ * absolute path. Paths win over presets when both exist.
+ */
+export function resolveHeistScenarioPath(pathOrPreset: string, cwd = process.cwd()): string {
+  const directPath = resolve(cwd, pathOrPreset);
+  if (existsSync(directPath)) {
+    return directPath;
+  }
+  const presetPath = resolve(cwd, HEIST_PRESETS_DIR, `${pathOrPreset}${SCENARIO_FILE_SUFFIX}`);
+  if (existsSync(presetPath)) {
+    return presetPath;
+  }
+  const presets = listHeistScenarioPresets(cwd);
+  const available = presets.length > 0 ? ` Available presets: ${presets.join(", ")}` : "";
+  throw new Error(`Unknown Heist scenario file or preset "${pathOrPreset}".${available}`);
+}
+
+/**
+ * Like `resolveHeistScenarioPath`, but only accepts a preset id or a path to a
+ * `*.scenario.json` inside `scenarios/heist`, for callers such as the API that
+ * must not read arbitrary files.
+ */
+export function resolveHeistPresetPath(pathOrPreset: string, cwd = process.cwd()): string {
+  const presetsDir = resolve(cwd, HEIST_PRESETS_DIR);
+  const candidates = [
+    resolve(presetsDir, `${pathOrPreset}${SCENARIO_FILE_SUFFIX}`),
+    resolve(cwd, pathOrPreset),
+  ];
+  const insidePresets = (path: string): boolean => {
+    const fromDir = relative(realpathSync(presetsDir), realpathSync(path));
+    return fromDir.length > 0 && !fromDir.startsWith("..") && !isAbsolute(fromDir);
+  };
+  const match = candidates.find(
+    (path) => path.endsWith(SCENARIO_FILE_SUFFIX) && existsSync(path) && insidePresets(path),
+  );
+  if (!match) {
+    throw new Error(
+      `"${pathOrPreset}" is not a Heist preset or a file under ${HEIST_PRESETS_DIR}.`,
+    );
+  }
+  return match;
+}
+
+/**
+ * Read and validate a Heist scenario file. Throws with every validation error
+ * listed so a bad file fails before any agent is created.
+ */
+export function loadHeistScenarioFile(path: string): LoadedHeistScenario {
+  const absolutePath = resolve(path);
+  let parsed: Partial<HeistScenarioFile>;
+  try {
+    parsed = JSON.parse(readFileSync(absolutePath, "utf-8")) as Partial<HeistScenarioFile>;
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to read Heist scenario file ${absolutePath}: ${message}`);
+  }
+  if (!parsed || typeof parsed !== "object" || !parsed.params) {
+    throw new Error(`Invalid scenario file format: ${absolutePath}`);
+  }
+  if (parsed.gameId !== undefined && parsed.gameId !== "heist") {
+    throw new Error(`Scenario file ${absolutePath} is for "${parsed.gameId}", not heist.`);
+  }
+
+  const validation = validateHeistScenario(parsed.params);
+  if (!validation.ok) {
+    const details = validation.errors.map((error) => `- ${error.message}`).join("\n");
+    throw new Error(`Heist scenario file ${absolutePath} failed validation:\n${details}`);
+  }
+
+  return {
+    path: absolutePath,
+    scenarioId: typeof parsed.scenarioId === "string" ? parsed.scenarioId : absolutePath,
+    params: parsed.params,
+  };
+}
@@ -0,0 +1,381 @@
+import { stableStringify } from "../../core/json.js";
+import { createHeistScenario, type HeistState } from "../../scenarios/heist/index.js";
+import type { HeistAction, HeistScenarioParams, HeistTerminalEntity } from "./types.js";
+import { buildRoomGraph, type RoomGraph } from "./validation.js";
+
+/** The lone agent the solver plays as. */
+const SOLVER_AGENT_ID = "solver";
+
+/** Default cap on distinct states searched, par and optimum together, before giving up on an exact answer. */
+export const DEFAULT_SOLVER_MAX_STATES = 100_000;
+
+/**
+ * What a lone agent can achieve on a map under the real adjudication rules
+ * (guards, cameras, noise and alarms included). Stored in scenario files as
+ * `par` so match scores can be read as a share of what was possible.
+ */
+export interface HeistParReport {
+  /**
+   * Fewest turns to hold every required objective and extract, or null when
+   * that cannot be done within the map's `maxTurns`.
+   */
+  parTurns: number | null;
+  /** Best final score reachable, and the turns the line reaching it takes. */
+  optimalScore: number;
+  optimalTurns: number;
+  /**
+   * False when the search stopped at `maxStates`; the figures are then the
+   * best found, not proven optimal.
+   */
+  exhaustive: boolean;
+  statesExplored: number;
+}
+
+export interface HeistSolution extends HeistParReport {
+  /** Actions achieving par (empty when `parTurns` is null). */
+  parPlan: HeistAction[];
+  /** Actions achieving `optimalScore`. */
+  optimalPlan: HeistAction[];
+}
+
+export interface HeistSolverOptions {
+  maxStates?: number;
+}
+
+interface SearchNode {
+  state: HeistState;
+  parent: SearchNode | null;
+  action: HeistAction | null;
+}
+
+const planTo = (node: SearchNode | null): HeistAction[] => {
+  const plan: HeistAction[] = [];
+  for (let cursor = node; cursor?.action; cursor = cursor.parent) {
+    plan.push(cursor.action);
+  }
+  return plan.reverse();
+};
+
+type HeistScenario = ReturnType<typeof createHeistScenario>;
+
+/**
+ * Identity of a search state: everything but the (shared, unchanging) params
+ * and the claim and turn records, which only keep history.
+ */
+const stateKey = (state: HeistState): string =>
+  stableStringify({ ...state, params: null, actionsTaken: null, itemClaims: null });
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/** Turns after which every guard is back at the start of its patrol. */
+const guardCycle = (params: HeistScenarioParams): number =>
+  params.entities.reduce(
+    (cycle, entity) =>
+      entity.type === "guard" && entity.patrolRoute.length > 0
+        ? (cycle * entity.patrolRoute.length) / gcd(cycle, entity.patrolRoute.length)
+        : cycle,
+    1,
+  );
+
+/**
+ * Every action worth trying from `state`: the legal-looking moves the agent's
+ * own observation offers. Actions that turn out invalid are dropped by the
+ * search, since an invalid action only costs a turn and a penalty. Working a
+ * terminal that has nothing left to give is left out: it is a noisy wait.
+ */
+const candidateActions = (scenario: HeistScenario, state: HeistState): HeistAction[] => {
+  const observation = scenario.observe(state, SOLVER_AGENT_ID);
+  const actions: HeistAction[] = [];
+  for (const room of observation.adjacentRooms) {
+    actions.push({ type: "move", toRoomId: room.roomId });
+    if (!room.passable) {
+      actions.push({ type: "force_door", doorId: room.doorId });
+    }
+  }
+  for (const item of observation.visibleItems) {
+    actions.push({ type: "pickup", itemId: item.id });
+  }
+  const cameraIds: string[] = [];
+  const inventory = state.agents[SOLVER_AGENT_ID].inventory;
+  for (const entity of observation.visibleEntities) {
+    if (
+      entity.type === "terminal" &&
+      (!state.terminalHacked[entity.id] ||
+        (entity.successGrants ?? []).some((grant) => !inventory.includes(grant)))
+    ) {
+      actions.push({ type: "use_terminal", terminalId: entity.id });
+    }
+    if (entity.type === "camera") {
+      cameraIds.push(entity.id);
+    }
+  }
+  for (const entry of observation.inventory) {
+    if (entry.type !== "tool") {
+      continue;
+    }
+    for (const targetId of [
+      ...observation.adjacentRooms.map((room) => room.doorId),
+      ...cameraIds,
+    ]) {
+      actions.push({ type: "use_item", itemId: entry.itemId, targetId });
+    }
+  }
+  if (observation.currentRoomId === state.params.winCondition.extractionRoomId) {
+    actions.push({ type: "extract" });
+  }
+  actions.push({ type: "wait" });
+  return actions;
+};
+
+const hasRequiredObjectives = (state: HeistState): boolean => {
+  const inventory = state.agents[SOLVER_AGENT_ID].inventory;
+  return state.params.winCondition.requiredObjectives.every((id) => inventory.includes(id));
+};
+
+const isParReached = (state: HeistState): boolean =>
+  state.agents[SOLVER_AGENT_ID].extracted && hasRequiredObjectives(state);
+
+/** Door hops from `startId` to every room it connects to, locks ignored. */
+const hopDistances = (graph: RoomGraph, startId: string): Map<string, number> => {
+  const distances = new Map([[startId, 0]]);
+  const queue = [startId];
+  for (let index = 0; index < queue.length; index++) {
+    const roomId = queue[index];
+    for (const link of graph.get(roomId) ?? []) {
+      if (!distances.has(link.neighborId)) {
+        distances.set(link.neighborId, (distances.get(roomId) ?? 0) + 1);
+        queue.push(link.neighborId);
+      }
+    }
+  }
+  return distances;
+};
+
+/**
+ * A lower bound on the turns `state` still needs to extract holding every
+ * objective: walk (through any door) to fetch each missing one — from the
+ * floor, or by finishing a terminal that grants it — and on to extraction.
+ * Infinite when some objective cannot be had at all.
+ */
+const createTurnsLeftEstimate = (params: HeistScenarioParams): ((state: HeistState) => number) => {
+  const graph = buildRoomGraph(params.map.rooms, params.map.doors);
+  const distances = new Map(
+    params.map.rooms.map((room) => [room.id, hopDistances(graph, room.id)]),
+  );
+  const distance = (fromRoomId: string, toRoomId: string): number =>
+    distances.get(fromRoomId)?.get(toRoomId) ?? Number.POSITIVE_INFINITY;
+  const { extractionRoomId, requiredObjectives } = params.winCondition;
+  const terminals = params.entities.filter(
+    (entity): entity is HeistTerminalEntity => entity.type === "terminal",
+  );
+
+  return (state) => {
+    const agent = state.agents[SOLVER_AGENT_ID];
+    if (agent.extracted) {
+      return 0;
+    }
+    const via = (roomId: string, turnsThere: number): number =>
+      distance(agent.roomId, roomId) + turnsThere + distance(roomId, extractionRoomId) + 1;
+    const hackLeft = (terminal: HeistTerminalEntity): number =>
+      state.terminalHacked[terminal.id]
+        ? 1
+        : Math.max(1, terminal.hackTurns - (state.terminalProgress[terminal.id] ?? 0));
+
+    // Every route ends by walking to extraction and spending a turn there.
+    let estimate = via(extractionRoomId, 0);
+    // Terminals that are the only source of some objective must all be worked.
+    const mustHack = new Set<HeistTerminalEntity>();
+    for (const objectiveId of requiredObjectives) {
+      if (agent.inventory.includes(objectiveId)) {
+        continue;
+      }
+      const roomId = state.itemLocations[objectiveId];
+      const sources = terminals.filter((terminal) =>
+        (terminal.successGrants ?? []).includes(objectiveId),
+      );
+      let fetch = typeof roomId === "string" ? via(roomId, 1) : Number.POSITIVE_INFINITY;
+      for (const terminal of sources) {
+        fetch = Math.min(fetch, via(terminal.roomId, hackLeft(terminal)));
+      }
+      estimate = Math.max(estimate, fetch);
+      if (typeof roomId !== "string" && sources.length === 1) {
+        mustHack.add(sources[0]);
+      }
+    }
+    let hacking = 0;
+    let trip = via(extractionRoomId, 0);
+    for (const terminal of mustHack) {
+      hacking += hackLeft(terminal);
+      trip = Math.max(trip, via(terminal.roomId, 0));
+    }
+    return Math.max(estimate, hacking + trip);
+  };
+};
+
+interface SearchResult {
+  node: SearchNode | null;
+  statesExplored: number;
+  exhaustive: boolean;
+}
+
+/**
+ * Fewest turns to par, best first: lines are taken in order of turns spent
+ * plus the least they could still need, so the first one to extract with every
+ * objective is the shortest. Loot that is not an objective stays on the floor
+ * (it only adds score). A state met again with the guards at the same point of
+ * their patrols is not searched again unless it comes sooner or quieter: the
+ * earlier, calmer visit gets everywhere sooner and no more noticed.
+ */
+const searchPar = (scenario: HeistScenario, root: SearchNode, maxStates: number): SearchResult => {
+  const params = root.state.params;
+  const { maxTurns } = params.winCondition;
+  const cycle = guardCycle(params);
+  const estimate = createTurnsLeftEstimate(params);
+  const phaseKey = (state: HeistState): string =>
+    `${state.turn % cycle}:${stateKey({ ...state, turn: 0, alertLevel: 0, noise: 0 })}`;
+  const covers = (earlier: HeistState, later: HeistState): boolean =>
+    earlier.turn <= later.turn &&
+    earlier.alertLevel <= later.alertLevel &&
+    earlier.noise <= later.noise;
+  const { requiredObjectives } = params.winCondition;
+  const spareLoot = new Set(
+    params.items
+      .filter((item) => item.type === "loot" && !requiredObjectives.includes(item.id))
+      .map((item) => item.id),
+  );
+
+  // Frontier buckets by turns spent plus turns still needed; never behind the
+  // bucket being worked, so no line is dropped when the estimate jumps.
+  const buckets: SearchNode[][] = [];
+  const enqueue = (node: SearchNode, atLeast: number): void => {
+    const bound = Math.max(atLeast, node.state.turn + estimate(node.state));
+    if (bound <= maxTurns) {
+      (buckets[bound] ??= []).push(node);
+    }
+  };
+  const reached = new Map([[phaseKey(root.state), [root.state]]]);
+  let statesExplored = 1;
+  let exhaustive = true;
+  enqueue(root, 0);
+
+  for (let bound = 0; bound < buckets.length; bound++) {
+    const bucket = buckets[bound] ?? [];
+    for (let index = 0; index < bucket.length; index++) {
+      const node = bucket[index];
+      if (isParReached(node.state)) {
+        return { node, statesExplored, exhaustive };
+      }
+      if (scenario.isTerminal(node.state)) {
+        continue;
+      }
+      for (const action of candidateActions(scenario, node.state)) {
+        if (action.type === "pickup" && spareLoot.has(action.itemId)) {
+          continue;
+        }
+        const result = scenario.adjudicate(node.state, SOLVER_AGENT_ID, action);
+        if (!result.valid) {
+          continue;
+        }
+        const key = phaseKey(result.state);
+        const earlier = reached.get(key) ?? [];
+        if (earlier.some((state) => covers(state, result.state))) {
+          continue;
+        }
+        if (statesExplored >= maxStates) {
+          exhaustive = false;
+          continue;
+        }
+        reached.set(key, [
+          ...earlier.filter((state) => !covers(result.state, state)),
+          result.state,
+        ]);
+        statesExplored += 1;
+        enqueue({ state: result.state, parent: node, action }, bound);
+      }
+    }
+  }
+  return { node: null, statesExplored, exhaustive };
+};
+
+/**
+ * Par from `searchPar`, then a breadth-first search over the states a lone
+ * agent can reach, one turn per level, up to the map's `maxTurns`, for the
+ * best score over all finished lines (the par line included). Both searches
+ * share `maxStates`. Deterministic for the same params.
+ */
+export function solveHeistScenario(
+  params: HeistScenarioParams,
+  options: HeistSolverOptions = {},
+): HeistSolution {
+  const maxStates = options.maxStates ?? DEFAULT_SOLVER_MAX_STATES;
+  const scenario = createHeistScenario(params);
+  const root: SearchNode = {
+    state: scenario.init(0, [SOLVER_AGENT_ID]),
+    parent: null,
+    action: null,
+  };
+
+  const par = searchPar(scenario, root, maxStates);
+  let statesExplored = par.statesExplored;
+  let exhaustive = par.exhaustive;
+  let best: SearchNode | null = null;
+  let bestScore = Number.NEGATIVE_INFINITY;
+  const finish = (node: SearchNode): void => {
+    const score = scenario.score(node.state)[SOLVER_AGENT_ID];
+    if (score > bestScore) {
+      best = node;
+      bestScore = score;
+    }
+  };
+  if (par.node) {
+    finish(par.node);
+  }
+
+  let frontier: SearchNode[] = [root];
+  while (frontier.length > 0) {
+    const seen = new Set<string>();
+    const next: SearchNode[] = [];
+    for (const node of frontier) {
+      if (scenario.isTerminal(node.state)) {
+        finish(node);
+        continue;
+      }
+      for (const action of candidateActions(scenario, node.state)) {
+        const result = scenario.adjudicate(node.state, SOLVER_AGENT_ID, action);
+        if (!result.valid) {
+          continue;
+        }
+        const key = stateKey(result.state);
+        if (seen.has(key)) {
+          continue;
+        }
+        if (statesExplored >= maxStates) {
+          exhaustive = false;
+          continue;
+        }
+        seen.add(key);
+        statesExplored += 1;
+        next.push({ state: result.state, parent: node, action });
+      }
+    }
+    frontier = next;
+  }
+
+  const parNode = par.node;
+  const bestNode = (best as SearchNode | null) ?? root;
+  return {
+    parTurns: parNode ? parNode.state.turn : null,
+    optimalScore: bestScore === Number.NEGATIVE_INFINITY ? 0 : bestScore,
+    optimalTurns: bestNode.state.turn,
+    exhaustive,
+    statesExplored,
+    parPlan: planTo(parNode),
+    optimalPlan: planTo(bestNode),
+  };
+}
+
+/** The file-friendly part of a solution, without the plans. */
+export function toHeistParReport(solution: HeistSolution): HeistParReport {
+  const { parTurns, optimalScore, optimalTurns, exhaustive, statesExplored } = solution;
+  return { parTurns, optimalScore, optimalTurns, exhaustive, statesExplored };
+}
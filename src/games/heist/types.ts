@@ -19,6 +19,20 @@ export interface HeistDoor {
   noiseOnForce?: number;
 }
 
+export type HeistHazardType = "laser_grid" | "pressure_plate" | "motion_sensor";
+
+/**
+ * A trap covering a whole room. It goes off every time an agent moves in:
+ * `noise` is added to the noise level, `waitTurns` pins the agent in place
+ * for that many of its following turns, and `damage` comes off its score.
+ */
+export interface HeistHazard {
+  type: HeistHazardType;
+  noise?: number;
+  waitTurns?: number;
+  damage?: number;
+}
+
 export interface HeistRoom {
   id: string;
   type: HeistRoomType;
@@ -27,6 +41,7 @@ export interface HeistRoom {
    * Required when layoutVersion >= 1.
    */
   position?: { x: number; y: number };
+  hazard?: HeistHazard;
   properties?: Record<string, unknown>;
 }
 
@@ -58,6 +73,8 @@ export interface HeistTerminalEntity {
   hackTurns: number;
   alarmOnFail?: boolean;
   successGrants?: string[];
+  /** Camera ids switched off when the hack completes. */
+  successDisables?: string[];
 }
 
 export interface HeistVaultEntity {
@@ -107,6 +124,8 @@ export type HeistAction =
   | { type: "move"; toRoomId: string }
   | { type: "pickup"; itemId: string }
   | { type: "use_terminal"; terminalId: string }
+  | { type: "use_item"; itemId: string; targetId: string }
+  | { type: "force_door"; doorId: string }
   | { type: "extract" }
   | { type: "wait" };
 
@@ -115,6 +134,7 @@ export interface HeistRules {
   alertThresholds: number[];
   noiseDecayRate: number;
   guardDetectionRange?: number;
+  cameraDetectionRange?: number;
   maxAlertLevel: number;
   captureOnMaxAlert: boolean;
   invalidActionFallback?: HeistAction;
@@ -157,6 +177,15 @@ export interface HeistScenarioParams {
   skin?: HeistSkin;
 }
 
+const HeistHazardSchema = z
+  .object({
+    type: z.enum(["laser_grid", "pressure_plate", "motion_sensor"]),
+    noise: z.number().nonnegative().optional(),
+    waitTurns: z.number().int().nonnegative().optional(),
+    damage: z.number().nonnegative().optional(),
+  })
+  .strict();
+
 const HeistRoomSchema = z
   .object({
     id: z.string().min(1),
@@ -167,6 +196,7 @@ const HeistRoomSchema = z
         y: z.number().int(),
       })
       .optional(),
+    hazard: HeistHazardSchema.optional(),
     properties: z.record(z.string(), z.unknown()).optional(),
   })
   .strict();
@@ -211,6 +241,7 @@ const HeistTerminalEntitySchema = z
     hackTurns: z.number().int().positive(),
     alarmOnFail: z.boolean().optional(),
     successGrants: z.array(z.string().min(1)).optional(),
+    successDisables: z.array(z.string().min(1)).optional(),
   })
   .strict();
 
@@ -277,6 +308,12 @@ export const HeistActionSchema = z.discriminatedUnion("type", [
   z.object({ type: z.literal("move"), toRoomId: z.string().min(1) }),
   z.object({ type: z.literal("pickup"), itemId: z.string().min(1) }),
   z.object({ type: z.literal("use_terminal"), terminalId: z.string().min(1) }),
+  z.object({
+    type: z.literal("use_item"),
+    itemId: z.string().min(1),
+    targetId: z.string().min(1),
+  }),
+  z.object({ type: z.literal("force_door"), doorId: z.string().min(1) }),
   z.object({ type: z.literal("extract") }),
   z.object({ type: z.literal("wait") }),
 ]);
@@ -287,6 +324,7 @@ const HeistRulesSchema = z
     alertThresholds: z.array(z.number()),
     noiseDecayRate: z.number(),
     guardDetectionRange: z.number().int().nonnegative().optional(),
+    cameraDetectionRange: z.number().int().nonnegative().optional(),
     maxAlertLevel: z.number().int().nonnegative(),
     captureOnMaxAlert: z.boolean(),
     invalidActionFallback: HeistActionSchema.optional(),
@@ -407,6 +445,9 @@ export const HeistScenarioParamsSchema = z
       }
     }
 
+    const cameraIds = new Set(
+      params.entities.filter((entity) => entity.type === "camera").map((entity) => entity.id),
+    );
     for (const entity of params.entities) {
       if (entityIds.has(entity.id)) {
         addDuplicateIssue("entity", entity.id);
@@ -447,6 +488,14 @@ export const HeistScenarioParamsSchema = z
             });
           }
         }
+        for (const cameraId of entity.successDisables ?? []) {
+          if (!cameraIds.has(cameraId)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `Terminal ${entity.id} disables unknown camera: ${cameraId}`,
+            });
+          }
+        }
       }
 
       if (entity.type === "vault") {
@@ -26,6 +26,7 @@ export const HeistValidationCodes = {
   PathTooShort: "HEIST_PATH_TOO_SHORT",
   BranchingInsufficient: "HEIST_BRANCHING_INSUFFICIENT",
   HardlockDetected: "HEIST_HARDLOCK_DETECTED",
+  HazardNoSafePath: "HEIST_HAZARD_NO_SAFE_PATH",
 } as const;
 
 export type HeistValidationCode = (typeof HeistValidationCodes)[keyof typeof HeistValidationCodes];
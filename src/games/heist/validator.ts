@@ -4,6 +4,7 @@ import {
   type HeistDoor,
   type HeistScenarioParams,
   type HeistScenarioParamsSchemaType,
+  type HeistTerminalEntity,
 } from "./types.js";
 import {
   HeistValidationCodes,
@@ -135,6 +136,31 @@ const computeInventoryWithObjectives = (
   return { inventory: finalResult.inventory, reachableRooms: finalResult.reachableRooms };
 };
 
+/**
+ * Turns of terminal work the objectives take at the least: for each required
+ * objective not lying in a room, the quickest terminal granting it, each
+ * terminal counted once.
+ */
+const objectiveHackTurns = (scenario: HeistScenarioParams): number => {
+  const terminals = scenario.entities.filter(
+    (entity): entity is HeistTerminalEntity => entity.type === "terminal",
+  );
+  const worked = new Set<HeistTerminalEntity>();
+  for (const objectiveId of scenario.winCondition.requiredObjectives) {
+    const item = scenario.items.find((candidate) => candidate.id === objectiveId);
+    if (item && "roomId" in item) {
+      continue;
+    }
+    const [quickest] = terminals
+      .filter((terminal) => (terminal.successGrants ?? []).includes(objectiveId))
+      .sort((a, b) => a.hackTurns - b.hackTurns);
+    if (quickest) {
+      worked.add(quickest);
+    }
+  }
+  return [...worked].reduce((turns, terminal) => turns + terminal.hackTurns, 0);
+};
+
 const shortestPathLength = (
   graph: Map<string, { neighborId: string; doorId: string }[]>,
   doorsById: Map<string, HeistDoor>,
@@ -170,6 +196,53 @@ const computeReachableRoomsIgnoringLocks = (
   return reachable;
 };
 
+/**
+ * Hazards must leave a careful agent a clean run: the vault, every required
+ * objective and extraction reachable from spawn without entering a hazard room.
+ * (A hazard on spawn itself never fires; agents start there rather than enter.)
+ */
+export const collectHazardSafetyErrors = (scenario: HeistScenarioParams): ValidationError[] => {
+  const hazardRooms = scenario.map.rooms.filter((room) => room.hazard);
+  if (hazardRooms.length === 0) {
+    return [];
+  }
+  const spawnId = getRoomIdByType(scenario, "spawn");
+  const vaultId = getRoomIdByType(scenario, "vault");
+  const extractionId = scenario.winCondition.extractionRoomId;
+  if (!spawnId || !vaultId) {
+    return [];
+  }
+
+  const safeRooms = scenario.map.rooms.filter((room) => !room.hazard || room.id === spawnId);
+  const safeGraph = buildRoomGraph(safeRooms, scenario.map.doors);
+  const { inventory, reachableRooms } = computeInventoryWithObjectives(
+    scenario,
+    safeGraph,
+    buildDoorsById(scenario.map.doors),
+    spawnId,
+    vaultId,
+  );
+  const hazardRoomIds = hazardRooms.map((room) => room.id);
+  const unreachableRooms = [...new Set([vaultId, extractionId])].filter(
+    (roomId) => !reachableRooms.has(roomId),
+  );
+  const unsecuredObjectives = scenario.winCondition.requiredObjectives.filter(
+    (itemId) => !inventory.has(itemId),
+  );
+  if (unreachableRooms.length === 0 && unsecuredObjectives.length === 0) {
+    return [];
+  }
+  const missing = [...unreachableRooms, ...unsecuredObjectives].join(", ");
+  return [
+    {
+      code: HeistValidationCodes.HazardNoSafePath,
+      message: `No hazard-free route from spawn reaches ${missing}.`,
+      path: "map.rooms",
+      details: { hazardRoomIds, unreachableRooms, unsecuredObjectives },
+    },
+  ];
+};
+
 export const validateHeistScenario = (
   scenario: HeistScenarioInput,
   options: HeistLayoutValidationOptions = {},
@@ -266,15 +339,6 @@ export const validateHeistScenario = (
       details: { shortestSpawnToVault, maxTurns },
     });
   }
-  const trivialThreshold = Math.ceil(maxTurns * 0.3);
-  if (shortestSpawnToVault !== null && shortestSpawnToVault <= trivialThreshold) {
-    errors.push({
-      code: HeistValidationCodes.PathTooShort,
-      message: `Shortest path from spawn to vault is too short (${shortestSpawnToVault} <= ${trivialThreshold}).`,
-      path: "winCondition.maxTurns",
-      details: { shortestSpawnToVault, maxTurns, trivialThreshold },
-    });
-  }
 
   const shortestVaultToExtraction = shortestPathLength(
     graph,
@@ -291,6 +355,21 @@ export const validateHeistScenario = (
     });
   }
 
+  // The whole run, walking and terminal work, must take a fair share of the turns.
+  const trivialThreshold = Math.ceil(maxTurns * 0.3);
+  if (shortestSpawnToVault !== null && shortestVaultToExtraction !== null) {
+    const shortestRoute =
+      shortestSpawnToVault + shortestVaultToExtraction + objectiveHackTurns(params);
+    if (shortestRoute <= trivialThreshold) {
+      errors.push({
+        code: HeistValidationCodes.PathTooShort,
+        message: `Shortest route through the vault to extraction is too short (${shortestRoute} <= ${trivialThreshold}).`,
+        path: "winCondition.maxTurns",
+        details: { shortestRoute, maxTurns, trivialThreshold },
+      });
+    }
+  }
+
   if (!ensureBranching(graph, spawnId, vaultId)) {
     errors.push({
       code: HeistValidationCodes.BranchingInsufficient,
@@ -299,6 +378,8 @@ export const validateHeistScenario = (
     });
   }
 
+  errors.push(...collectHazardSafetyErrors(params));
+
   for (const door of sortById(params.map.doors)) {
     if (!door.requiredItem) {
       continue;
@@ -8,6 +8,9 @@ import type {
   GatewayTranscriptEntry,
 } from "./types.js";
 
+/** How long `onMatchEnd` waits for the agent when the config sets no deadline. */
+export const DEFAULT_MATCH_END_DEADLINE_MS = 5000;
+
 class HttpStatusError extends Error {
   status: number;
 
@@ -161,7 +164,28 @@ function parseActionResponse(
 
 export function createHttpAdapter(endpointUrl: string, config?: GatewayConfig): AgentAdapter {
   return {
-    async requestAction(request, fallbackAction) {
+    /** Best effort: an agent that is gone or slow to answer cannot hold up the match. */
+    async onMatchEnd(_matchId, message) {
+      const configured = config?.defaultDeadlineMs ?? 0;
+      const deadlineMs = configured > 0 ? configured : DEFAULT_MATCH_END_DEADLINE_MS;
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), deadlineMs);
+      try {
+        const response = await fetch(endpointUrl, {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: stableStringify(message),
+          signal: controller.signal,
+        });
+        await response.body?.cancel();
+      } catch {
+        // Ignore delivery failures.
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+
+    async requestAction(request, fallbackAction, signal) {
       const observationSentAt = new Date().toISOString();
       const startTime = Date.now();
       const deadlineMs = resolveDeadlineMs(request, config);
@@ -174,8 +198,13 @@ export function createHttpAdapter(endpointUrl: string, config?: GatewayConfig):
         let timeoutId: NodeJS.Timeout | undefined;
         const controller = new AbortController();
         let didTimeout = false;
+        const onCancel = (): void => controller.abort();
+        signal?.addEventListener("abort", onCancel, { once: true });
 
         try {
+          if (signal?.aborted) {
+            controller.abort();
+          }
           if (deadlineMs > 0) {
             timeoutId = setTimeout(() => {
               didTimeout = true;
@@ -221,6 +250,24 @@ export function createHttpAdapter(endpointUrl: string, config?: GatewayConfig):
             clearTimeout(timeoutId);
           }
 
+          if (signal?.aborted && !didTimeout) {
+            const actionReceivedAt = new Date().toISOString();
+            const transcript: GatewayTranscriptEntry = {
+              matchId: request.matchId,
+              turn: request.turn,
+              agentId: request.agentId,
+              timestamp: actionReceivedAt,
+              observationSentAt,
+              observationBytes,
+              actionReceivedAt,
+              responseTimeMs: Date.now() - startTime,
+              status: "error",
+              errorMessage: "Match cancelled",
+              fallbackApplied: false,
+            };
+            return { action: fallbackAction, transcript };
+          }
+
           if (didTimeout || (error instanceof Error && error.name === "AbortError")) {
             const actionReceivedAt = new Date().toISOString();
             const responseTimeMs = Date.now() - startTime;
@@ -293,6 +340,7 @@ export function createHttpAdapter(endpointUrl: string, config?: GatewayConfig):
           if (timeoutId) {
             clearTimeout(timeoutId);
           }
+          signal?.removeEventListener("abort", onCancel);
         }
       }
 
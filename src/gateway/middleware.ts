@@ -0,0 +1,121 @@
+import type { AgentId } from "../contract/types.js";
+import type { ActOutcome, MatchMiddleware, TurnContext } from "../engine/middleware.js";
+import { createLocalAdapter } from "./localAdapter.js";
+import type { GatewayRuntimeConfig } from "./runtime.js";
+import type { AgentAdapter, GatewayObservationRequest } from "./types.js";
+
+function resolveGameId(scenarioName: string, gateway: GatewayRuntimeConfig): string {
+  return gateway.gameId ?? scenarioName;
+}
+
+function resolveGameVersion(gateway: GatewayRuntimeConfig): string {
+  return gateway.gameVersion ?? "unknown";
+}
+
+function buildObservationRequest<TState, TObs, TAct>(
+  gateway: GatewayRuntimeConfig,
+  ctx: TurnContext<TState, TObs, TAct>,
+  observation: TObs,
+): GatewayObservationRequest {
+  return {
+    protocolVersion: "0.1.0",
+    matchId: ctx.matchId,
+    turn: ctx.turn,
+    agentId: ctx.agentId,
+    deadlineMs: ctx.maxTurnTimeMs,
+    turnStartedAt: ctx.turnStartedAt,
+    gameId: resolveGameId(ctx.scenario.name, gateway),
+    gameVersion: resolveGameVersion(gateway),
+    observation,
+    constraints: {
+      maxResponseBytes: gateway.config.maxResponseBytes,
+    },
+  };
+}
+
+/** Unwrap an inner outcome for the local adapter, which expects a value or a throw. */
+function unwrapOutcome<TAct>(outcome: ActOutcome<TAct>): TAct {
+  if (outcome.kind === "action") {
+    return outcome.action;
+  }
+  throw new Error(outcome.kind === "error" ? outcome.message : "Agent timed out");
+}
+
+/**
+ * Route each act call through the agent gateway. In `local` mode the rest of
+ * the stack runs behind a local adapter; in `http` mode the configured adapter
+ * replaces it. The gateway owns the turn deadline, so stack this instead of
+ * `timeoutMiddleware`. Every exchange is written to the transcript.
+ */
+export function gatewayMiddleware<TState, TObs, TAct>(
+  gateway: GatewayRuntimeConfig,
+): MatchMiddleware<TState, TObs, TAct> {
+  const adapterFor = (agentId: AgentId): AgentAdapter | undefined => gateway.adapters?.get(agentId);
+
+  return {
+    onMatchStart(ctx) {
+      if (gateway.mode !== "local") {
+        const missing = ctx.agentIds.find((agentId) => !adapterFor(agentId));
+        if (missing) {
+          throw new Error(`Missing gateway adapter for agent "${missing}"`);
+        }
+      }
+      if (gateway.adapters) {
+        for (const [agentId, adapter] of gateway.adapters) {
+          adapter.onMatchStart?.(ctx.matchId, resolveGameId(ctx.scenario.name, gateway), agentId);
+        }
+      }
+    },
+
+    async aroundAct(observation, ctx, next) {
+      const adapter =
+        gateway.mode === "local"
+          ? createLocalAdapter(
+              async (obs) => unwrapOutcome(await next(obs as TObs)),
+              gateway.config,
+            )
+          : adapterFor(ctx.agentId)!;
+
+      const request = buildObservationRequest(gateway, ctx, observation);
+      const { action, transcript } = await adapter.requestAction(
+        request,
+        ctx.scenario.getDefaultAction(),
+        ctx.signal,
+      );
+      gateway.transcriptWriter?.write(transcript);
+
+      if (transcript.status === "timeout") {
+        return { kind: "timeout" };
+      }
+      if (transcript.status !== "ok") {
+        return {
+          kind: "error",
+          message: transcript.errorMessage ?? `Gateway ${transcript.status}`,
+        };
+      }
+      return { kind: "action", action: action as TAct };
+    },
+
+    async onMatchEnd(result, ctx) {
+      if (!gateway.adapters) {
+        return;
+      }
+      await Promise.all(
+        [...gateway.adapters].map(([agentId, adapter]) =>
+          adapter.onMatchEnd?.(result.matchId, {
+            protocolVersion: "0.1.0",
+            type: "matchEnded",
+            matchId: result.matchId,
+            agentId,
+            gameId: resolveGameId(ctx.scenario.name, gateway),
+            reason: result.reason,
+            scores: result.scores,
+            turns: result.turns,
+            ...(result.forfeitedBy ? { forfeitedBy: result.forfeitedBy } : {}),
+            ...(result.details !== undefined && { details: result.details }),
+          }),
+        ),
+      );
+    },
+  };
+}
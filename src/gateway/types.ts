@@ -28,6 +28,24 @@ export interface GatewayActionResponse {
   };
 }
 
+/**
+ * Sent once per agent after the match ends. HTTP agents receive it as a POST
+ * to their endpoint and tell it apart from an observation by `type`; the
+ * response body is ignored.
+ */
+export interface GatewayMatchEndMessage {
+  protocolVersion: "0.1.0";
+  type: "matchEnded";
+  matchId: string;
+  agentId: string;
+  gameId: string;
+  reason: string;
+  scores: Record<string, number>;
+  turns: number;
+  forfeitedBy?: string;
+  details?: unknown;
+}
+
 export interface GatewayTimeoutEvent {
   matchId: string;
   turn: number;
@@ -54,12 +72,14 @@ export interface GatewayTranscriptEntry {
 }
 
 export interface AgentAdapter {
+  /** `signal` aborts when the match is cancelled; adapters should drop the request. */
   requestAction(
     request: GatewayObservationRequest,
     fallbackAction: unknown,
+    signal?: AbortSignal,
   ): Promise<{ action: unknown; transcript: GatewayTranscriptEntry }>;
   onMatchStart?: (matchId: string, gameId: string, agentId: string) => void;
-  onMatchEnd?: (matchId: string) => void;
+  onMatchEnd?: (matchId: string, message: GatewayMatchEndMessage) => void | Promise<void>;
 }
 
 export type GatewayRetryPolicy = Record<string, unknown>;
@@ -26,6 +26,8 @@ export type {
 export type {
   HeistRoomType,
   HeistDoor,
+  HeistHazard,
+  HeistHazardType,
   HeistRoom,
   HeistMap,
   HeistEntity,
@@ -63,6 +65,8 @@ export { generateHeistScenario, HEIST_PRESETS } from "./games/heist/generator.js
 export { generateDescription, generatePreview } from "./games/heist/preview.js";
 export { generateHeistDebugView } from "./games/heist/debugView.js";
 export { generateLayoutReport } from "./games/heist/layoutReport.js";
+export type { HeistParReport, HeistSolution, HeistSolverOptions } from "./games/heist/solver.js";
+export { solveHeistScenario } from "./games/heist/solver.js";
 
 export type {
   HeistSceneState,
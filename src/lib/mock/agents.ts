@@ -12,6 +12,10 @@ export const mockAgents: Agent[] = [
     reliability: 0.94,
     lastSeen: "2025-01-15T14:30:00Z",
     capabilities: ["planning", "negotiation", "risk-assessment", "multi-agent-coordination"],
+    prompt: {
+      template: "heist-v1",
+      sha256: "sha256:7f53ca7e049a01122bebb6a21b44683816ceb04f1465f6614809a49d5b6f1a30",
+    },
   },
   {
     id: "agent-002",
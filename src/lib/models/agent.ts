@@ -10,6 +10,8 @@ export const AgentSchema = z.object({
   reliability: z.number().min(0).max(1),
   lastSeen: z.string(),
   capabilities: z.array(z.string()),
+  /** Prompt template and hash from the agent's match manifest metadata. */
+  prompt: z.object({ template: z.string(), sha256: z.string() }).optional(),
 });
 
 export type Agent = z.infer<typeof AgentSchema>;
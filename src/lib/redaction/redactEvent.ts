@@ -8,10 +8,12 @@
  *
  * Convention: any key whose name starts with `_private` (e.g. `_private`,
  * `_privateRemainingResources`) is considered sensitive and is recursively
- * removed from the event payload in spectator-safe modes.
+ * removed from the event payload in spectator-safe modes. Keys starting with
+ * `_team` (team-shared fields in team matches) are removed too, except for a
+ * viewer on that team.
  */
 
-import type { MatchEvent, JsonValue } from "../../contract/types";
+import type { AgentId, MatchEvent, JsonValue } from "../../contract/types";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -29,16 +31,23 @@ export interface ModeProfile {
 // Helpers
 // ---------------------------------------------------------------------------
 
+function isHiddenKey(key: string, keepTeamKeys: boolean): boolean {
+  return key.startsWith("_private") || (!keepTeamKeys && key.startsWith("_team"));
+}
+
 /**
- * Recursively strip all keys starting with `_private` from a value tree.
- * Returns a new deep-cloned structure and a flag indicating whether anything
- * was stripped.
+ * Recursively strip all keys starting with `_private` (and `_team`, unless
+ * `keepTeamKeys`) from a value tree. Returns a new deep-cloned structure and
+ * a flag indicating whether anything was stripped.
  */
-function stripPrivateKeys(value: unknown): { result: unknown; stripped: boolean } {
+function stripPrivateKeys(
+  value: unknown,
+  keepTeamKeys = false,
+): { result: unknown; stripped: boolean } {
   if (Array.isArray(value)) {
     let anyStripped = false;
     const arr = value.map((item) => {
-      const { result, stripped } = stripPrivateKeys(item);
+      const { result, stripped } = stripPrivateKeys(item, keepTeamKeys);
       if (stripped) {
         anyStripped = true;
       }
@@ -52,11 +61,11 @@ function stripPrivateKeys(value: unknown): { result: unknown; stripped: boolean
     let anyStripped = false;
     const out: Record<string, unknown> = {};
     for (const [key, val] of Object.entries(obj)) {
-      if (key.startsWith("_private")) {
+      if (isHiddenKey(key, keepTeamKeys)) {
         anyStripped = true;
         continue;
       }
-      const { result, stripped } = stripPrivateKeys(val);
+      const { result, stripped } = stripPrivateKeys(val, keepTeamKeys);
       if (stripped) {
         anyStripped = true;
       }
@@ -88,11 +97,15 @@ function isPlainObject(value: unknown): value is Record<string, unknown> {
  * Default-safe: if `modeProfile` is `null` / `undefined`, treats as
  * `live_safe`.  For MVP, all phases and both `live_safe` / `post_match_reveal`
  * policies strip `_private`-prefixed keys (conservative approach).
+ *
+ * `viewerTeam` lists the members of the viewer's own team, if any; `_team`
+ * keys survive on events about those agents and nowhere else.
  */
 export function redactEvent(
   event: MatchEvent,
   modeProfile: ModeProfile | null | undefined,
   _matchPhase: MatchPhase,
+  viewerTeam?: readonly AgentId[],
 ): MatchEvent {
   // Resolve policy — default to live_safe when modeProfile is missing
   const policy = modeProfile?.visibility?.spectatorPolicy ?? "live_safe";
@@ -103,8 +116,11 @@ export function redactEvent(
   }
 
   // For live_safe and post_match_reveal (MVP: both strip _private for all phases):
-  // Strip all _private-prefixed keys from the entire event (also deep clones).
-  const { result } = stripPrivateKeys(event);
+  // Strip all _private-prefixed keys (and other teams' _team keys) from the
+  // entire event (also deep clones).
+  const eventAgentId = "agentId" in event ? event.agentId : undefined;
+  const keepTeamKeys = eventAgentId !== undefined && (viewerTeam?.includes(eventAgentId) ?? false);
+  const { result } = stripPrivateKeys(event, keepTeamKeys);
   const redacted = result as MatchEvent;
 
   // ObservationEmitted special case: if observation became an empty object
@@ -13,6 +13,8 @@ export interface ReplayMeta {
   maxTurns: number;
   engineCommit?: string;
   engineVersion?: string;
+  /** Set when agents acted simultaneously each turn. */
+  turnStructure?: "simultaneous";
   totalTurns: number;
   endReason?: string;
 }
@@ -187,6 +189,9 @@ export function adaptReplayToViewModel(engineEvents: ParsedMatchEvent[]): Replay
       started?.type === "MatchStarted"
         ? ((started as Record<string, unknown>).engineVersion as string | undefined)
         : undefined,
+    ...(started?.type === "MatchStarted" && started.turnStructure === "simultaneous"
+      ? { turnStructure: "simultaneous" as const }
+      : {}),
     totalTurns: ended?.type === "MatchEnded" ? ended.turns : 0,
     endReason: ended?.type === "MatchEnded" ? ended.reason : undefined,
   };
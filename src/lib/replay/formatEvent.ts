@@ -130,7 +130,12 @@ function formatHeistAction(a: Record<string, unknown>): ActionInfo {
     case "use_item":
     case "use":
       return {
-        text: `Action: use_item (item=${getStr(a, "itemId") ?? getStr(a, "item") ?? "unknown"}, target=${getStr(a, "target") ?? "room"})`,
+        text: `Action: use_item (item=${getStr(a, "itemId") ?? getStr(a, "item") ?? "unknown"}, target=${getStr(a, "targetId") ?? getStr(a, "target") ?? "room"})`,
+        isWait: false,
+      };
+    case "force_door":
+      return {
+        text: `Action: force_door (door=${getStr(a, "doorId") ?? getStr(a, "target") ?? "unknown"})`,
         isWait: false,
       };
     case "extract":
@@ -325,8 +330,10 @@ export function formatEvent(event: Record<string, unknown>, scenarioName: string
     const agentIds = Array.isArray(event.agentIds)
       ? (event.agentIds as unknown[]).filter((x): x is string => typeof x === "string").join(" vs ")
       : "";
+    const simultaneous = getStr(event, "turnStructure") === "simultaneous";
     return {
       primaryText: `Match started: ${scenario}${agentIds ? ` (${agentIds})` : ""}`,
+      ...(simultaneous ? { details: "Simultaneous turns" } : {}),
       badge: "system",
     };
   }
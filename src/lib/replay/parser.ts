@@ -42,6 +42,11 @@ export const MatchStartedSchema = z
     // Optional provenance fields
     engineCommit: z.string().optional(),
     engineVersion: z.string().optional(),
+    turnStructure: z.literal("simultaneous").optional(),
+    timeControl: z
+      .object({ mode: z.literal("clock"), bankMs: z.number(), incrementMs: z.number() })
+      .optional(),
+    teams: z.record(z.string(), z.array(z.string())).optional(),
   })
   .passthrough();
 
@@ -70,6 +75,7 @@ export const ActionSubmittedSchema = z
     agentId: z.string(),
     turn: z.number().int(),
     action: JsonValueSchema,
+    timeRemainingMs: z.number().optional(),
   })
   .passthrough();
 
@@ -146,6 +152,8 @@ export const StateUpdatedSchema = z
     type: z.literal("StateUpdated"),
     turn: z.number().int(),
     summary: JsonValueSchema,
+    stateHash: z.string().optional(),
+    chainHash: z.string().optional(),
   })
   .passthrough();
 
@@ -175,8 +183,16 @@ export const MatchEndedSchema = z
   .object({
     ...BaseFields,
     type: z.literal("MatchEnded"),
-    reason: z.enum(["completed", "maxTurnsReached", "error", "setupFailed"]),
+    reason: z.enum([
+      "completed",
+      "maxTurnsReached",
+      "agentForfeited",
+      "cancelled",
+      "error",
+      "setupFailed",
+    ]),
     scores: z.record(z.string(), z.number()),
+    teamScores: z.record(z.string(), z.number()).optional(),
     turns: z.number().int(),
     details: JsonValueSchema.optional(),
   })
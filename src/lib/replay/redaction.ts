@@ -71,14 +71,22 @@ function cloneRaw(raw: Record<string, unknown>): Record<string, unknown> {
 }
 
 /**
- * Recursively strip all `_private*` keys from a value.
+ * Keys hidden from spectators: `_private*` (one agent's eyes only) and
+ * `_team*` (shared within a team in team matches).
+ */
+function isHiddenKey(key: string): boolean {
+  return key.startsWith("_private") || key.startsWith("_team");
+}
+
+/**
+ * Recursively strip all `_private*` and `_team*` keys from a value.
  *
  * Convention: any object may include a `_private`-prefixed key whose value holds fields
  * that must be hidden in spectator mode.  This helper removes every `_private`
  * key at any depth in the object tree (including inside arrays) and returns a
- * new deep-cloned structure.
+ * new deep-cloned structure. Team-shared `_team` keys are treated the same way.
  *
- * Returns `true` if at least one `_private` key was found and removed.
+ * Returns `true` if at least one hidden key was found and removed.
  */
 function stripPrivateFields(value: unknown): { result: unknown; stripped: boolean } {
   if (Array.isArray(value)) {
@@ -95,10 +103,10 @@ function stripPrivateFields(value: unknown): { result: unknown; stripped: boolea
 
   if (typeof value === "object" && value !== null) {
     const obj = value as Record<string, unknown>;
-    let anyStripped = Object.keys(obj).some((key) => key.startsWith("_private"));
+    let anyStripped = Object.keys(obj).some(isHiddenKey);
     const out: Record<string, unknown> = {};
     for (const [key, val] of Object.entries(obj)) {
-      if (key.startsWith("_private")) {
+      if (isHiddenKey(key)) {
         continue;
       }
       const { result, stripped } = stripPrivateFields(val);
@@ -114,7 +122,7 @@ function stripPrivateFields(value: unknown): { result: unknown; stripped: boolea
 }
 
 /**
- * Check whether a value contains any `_private*` key at any depth.
+ * Check whether a value contains any `_private*` or `_team*` key at any depth.
  */
 function hasPrivateFields(value: unknown): boolean {
   if (Array.isArray(value)) {
@@ -123,7 +131,7 @@ function hasPrivateFields(value: unknown): boolean {
   if (typeof value === "object" && value !== null) {
     const obj = value as Record<string, unknown>;
     return Object.entries(obj).some(([key, entryValue]) => {
-      if (key.startsWith("_private")) {
+      if (isHiddenKey(key)) {
         return true;
       }
       return hasPrivateFields(entryValue);
@@ -269,7 +277,7 @@ export function redactEvent(event: ReplayEvent, opts?: Partial<RedactionOptions>
 }
 
 /**
- * Strip `_private` keys from a value tree.  Exported for use in moment
+ * Strip `_private` and `_team` keys from a value tree.  Exported for use in moment
  * detection and other modules that need spectator-safe data.
  */
 export { stripPrivateFields };
@@ -32,7 +32,11 @@ export function getHeistBriefing(): GameBriefing {
         type: "pickup",
         description: "Pick up an item in your current room.",
         jsonExample: { type: "pickup", itemId: "keycard-1" },
-        notes: ["The item must be present in your current room."],
+        notes: [
+          "The item must be present in your current room.",
+          "If a rival grabs the same item earlier in the same turn, your pickup is contested: " +
+            "the turn is spent but no penalty applies.",
+        ],
       },
       {
         type: "use_terminal",
@@ -42,7 +46,30 @@ export function getHeistBriefing(): GameBriefing {
         jsonExample: { type: "use_terminal", terminalId: "terminal-1" },
         notes: [
           "The terminal must be in your current room.",
-          "Completing a hack may grant intel items.",
+          "Completing a hack may grant intel items and can switch off linked cameras.",
+          "Hack progress is shared; using an already hacked terminal downloads any intel you lack.",
+        ],
+      },
+      {
+        type: "use_item",
+        description:
+          "Use a tool from your inventory on a door connected to your current room, " +
+          "or on a camera in it.",
+        jsonExample: { type: "use_item", itemId: "tool-1", targetId: "door-2" },
+        notes: [
+          "Lockpicks and drills open a locked door without the noise of forcing it.",
+          "An emp disarms a door's alarm so it can be breached safely, or switches off a " +
+            "camera in your current room (use the camera id as targetId).",
+          "Tools with limited uses are used up and dropped when they run out.",
+        ],
+      },
+      {
+        type: "force_door",
+        description: "Break open a locked door connected to your current room.",
+        jsonExample: { type: "force_door", doorId: "door-2" },
+        notes: [
+          "Works on any locked door, with or without its key, but makes a lot of noise.",
+          "A forced or unlocked door stays open for everyone.",
         ],
       },
       {
@@ -63,7 +90,8 @@ export function getHeistBriefing(): GameBriefing {
         field: "adjacentRooms",
         description:
           "Array of rooms reachable from your current room, each with doorId, " +
-          "locked status, requiredItem (if any), and passable flag.",
+          "locked status, requiredItem (if any), passable flag, alarmed flag " +
+          "when the door has an armed alarm, and the room's hazard (if any).",
       },
       {
         field: "visibleItems",
@@ -71,18 +99,46 @@ export function getHeistBriefing(): GameBriefing {
       },
       {
         field: "visibleEntities",
-        description: "Non-guard entities (terminals, vaults, cameras) in your current room.",
+        description:
+          "Terminals, vaults and cameras in your current room, plus any guard in your room " +
+          "or an adjacent room (guards include their current roomId).",
+      },
+      {
+        field: "visibleAgents",
+        description: "IDs of rival agents in your current room.",
       },
       {
         field: "inventory",
-        description: "Items you are carrying, each with itemId and type.",
+        description:
+          "Items you are carrying, each with itemId and type. Tools with limited uses " +
+          "also carry usesLeft.",
       },
       { field: "turn", description: "The current game turn number." },
+      {
+        field: "_team",
+        description:
+          "Crew matches only: your teamId and, for each crewmate, their room, inventory " +
+          "and whether they have extracted.",
+      },
     ],
     rulesNotes: [
       "Invalid actions waste a turn and increase the alert level.",
+      "Actions make noise (moving and hacking especially). Noise fades a little each turn, " +
+        "but once it crosses a threshold the alert level rises and stays raised.",
+      "In some facilities, reaching the maximum alert level ends the heist in capture.",
+      "Breaching an alarmed door (by force or with a lockpick or drill) trips its alarm " +
+        "and raises the alert level, unless the alarm was disarmed first.",
+      "Rivals share the same facility: items they take are gone, and the alert level " +
+        "(and its score penalty) is shared by everyone.",
       "You can only see items and entities in your current room.",
-      "Guards are never shown in observations — plan around uncertainty.",
+      "Guards patrol a fixed route, one room per turn. A guard that comes within its " +
+        "detection range (in rooms) spots you and raises the alert level.",
+      "Guards more than one room away are not shown — plan around uncertainty.",
+      "Active cameras watch their own room and nearby rooms. Entering a camera's view " +
+        "makes noise; disabled cameras see nothing.",
+      "Some rooms hold hazards (laser grids, pressure plates, motion sensors) that go off " +
+        "every time you enter: they can make noise, cost you score, or pin you in place " +
+        "for a few turns. There is always a route to the objective that avoids them.",
       "Actions must be valid JSON matching the schemas above.",
     ],
     version: "1.0.0",
@@ -12,15 +12,30 @@ export const HEIST_ERROR_CODES = {
   missing_required_item: "missing_required_item",
   door_locked: "door_locked",
 
+  // Doors
+  invalid_door_id: "invalid_door_id",
+  door_not_adjacent: "door_not_adjacent",
+  door_not_locked: "door_not_locked",
+  door_not_alarmed: "door_not_alarmed",
+
   // Items
   invalid_item_id: "invalid_item_id",
   item_not_in_room: "item_not_in_room",
   unknown_item: "unknown_item",
+  item_not_in_inventory: "item_not_in_inventory",
+
+  // Tools
+  item_not_tool: "item_not_tool",
+  tool_not_applicable: "tool_not_applicable",
 
   // Terminal
   invalid_terminal_id: "invalid_terminal_id",
   terminal_not_in_room: "terminal_not_in_room",
 
+  // Cameras
+  camera_not_in_room: "camera_not_in_room",
+  camera_already_disabled: "camera_already_disabled",
+
   // Extraction
   not_in_extraction_room: "not_in_extraction_room",
 } as const;
@@ -32,15 +47,37 @@ export const HEIST_RESULT_CODES = {
   // Movement
   moved: "moved",
 
+  // Doors
+  door_forced: "door_forced",
+  door_unlocked: "door_unlocked",
+  alarm_disarmed: "alarm_disarmed",
+
+  // Cameras
+  camera_disabled: "camera_disabled",
+
   // Terminal
   hack_progress: "hack_progress",
   hack_complete: "hack_complete",
+  intel_downloaded: "intel_downloaded",
 
   // Items
   item_pickup: "item_pickup",
+  item_contested: "item_contested",
 
   // Extraction
   extraction_success: "extraction_success",
+
+  // Hazards
+  pinned: "pinned",
 } as const;
 
 export type HeistResultCode = (typeof HEIST_RESULT_CODES)[keyof typeof HEIST_RESULT_CODES];
+
+/** Machine-readable codes for security detections (and hazards) reported in `feedback.detections` */
+export const HEIST_DETECTION_CODES = {
+  guard_detected: "guard_detected",
+  camera_detected: "camera_detected",
+  hazard_triggered: "hazard_triggered",
+} as const;
+
+export type HeistDetectionCode = (typeof HEIST_DETECTION_CODES)[keyof typeof HEIST_DETECTION_CODES];
@@ -1,15 +1,24 @@
 import type { AdjudicationResult, Scenario } from "../../contract/interfaces.js";
-import type { AgentId, JsonValue, Seed } from "../../contract/types.js";
+import type { AgentId, JsonValue, Seed, TeamAssignment, TeamId } from "../../contract/types.js";
 import type {
   HeistAction,
+  HeistCameraEntity,
   HeistDoor,
   HeistEntity,
+  HeistGuardEntity,
+  HeistHazard,
   HeistItem,
   HeistMap,
   HeistScenarioParams,
   HeistTerminalEntity,
 } from "../../games/heist/types.js";
-import { HEIST_ERROR_CODES, HEIST_RESULT_CODES, type HeistErrorCode } from "./feedbackCodes.js";
+import { buildRoomGraph, findShortestPath, type RoomGraph } from "../../games/heist/validation.js";
+import {
+  HEIST_DETECTION_CODES,
+  HEIST_ERROR_CODES,
+  HEIST_RESULT_CODES,
+  type HeistErrorCode,
+} from "./feedbackCodes.js";
 import { getHeistBriefing } from "./briefing.js";
 
 // ---------------------------------------------------------------------------
@@ -23,15 +32,69 @@ export interface HeistAgentState {
   extracted: boolean;
 }
 
+/** Records which agent first took an item, on which turn, and from which room. */
+export interface HeistItemClaim {
+  agentId: AgentId;
+  turn: number;
+  roomId: string;
+}
+
 export interface HeistState {
   params: HeistScenarioParams;
   agentIds: AgentId[];
   agents: Record<AgentId, HeistAgentState>;
   itemLocations: Record<string, string | null>;
+  itemClaims: Record<string, HeistItemClaim>;
   terminalProgress: Record<string, number>;
   terminalHacked: Record<string, boolean>;
   alertLevel: number;
+  /** Accumulated noise; decays each turn and drives alert via `rules.alertThresholds`. */
+  noise: number;
+  /**
+   * Shared-world turn counter. All agents act on one state, so the turn is the
+   * highest per-agent action count rather than the total number of actions.
+   */
   turn: number;
+  /**
+   * The turn each agent last acted on. Under the engine this follows the
+   * engine's turn, so an agent whose action was skipped does not fall behind.
+   */
+  actionsTaken: Record<AgentId, number>;
+  /** Agents each guard currently has in sight. Alert rises only on a new sighting. */
+  guardSightings: Record<string, AgentId[]>;
+  /** Doors opened by force or with a tool. They stay open for every agent. */
+  openedDoors: Record<string, boolean>;
+  /** Alarmed doors whose alarm has gone off or been disarmed; either way it is spent. */
+  doorAlarms: Record<string, HeistDoorAlarmState>;
+  /** Remaining uses of tools that have a `uses` limit. Spent tools leave the inventory. */
+  toolUses: Record<string, number>;
+  /** Whether each camera is switched off, seeded from the camera's `disabled` flag. */
+  cameraDisabled: Record<string, boolean>;
+  /** Agents each camera currently has in view. Noise rises only on a new sighting. */
+  cameraSightings: Record<string, AgentId[]>;
+  /**
+   * Turns each agent must still sit out after a hazard pinned it. Only present
+   * once a hazard has pinned someone, so hazard-free matches keep their shape.
+   */
+  pinnedTurns?: Record<AgentId, number>;
+  /** Crew rosters, for team matches only. */
+  teams?: TeamAssignment;
+}
+
+export type HeistDoorAlarmState = "tripped" | "disarmed";
+
+/** How a match ended (or `in_progress`), reported in the summary and reveal. */
+export type HeistOutcome = "captured" | "extracted" | "timeout" | "in_progress";
+
+/** A guard as seen by an agent: the entity plus where it stands this turn. */
+export type HeistVisibleGuard = HeistGuardEntity & { roomId: string };
+
+/** What a crew member knows about a crewmate, wherever they are. */
+export interface HeistCrewMember {
+  agentId: AgentId;
+  roomId: string;
+  inventory: string[];
+  extracted: boolean;
 }
 
 export interface HeistObservation {
@@ -42,21 +105,33 @@ export interface HeistObservation {
     locked: boolean;
     requiredItem?: string;
     passable: boolean;
+    /** Present when the door has an armed alarm that forcing or picking it would trip. */
+    alarmed?: boolean;
+    /** The hazard that goes off on entering the room, if it has one. */
+    hazard?: HeistHazard;
   }[];
   visibleItems: HeistItem[];
-  visibleEntities: HeistEntity[];
-  inventory: { itemId: string; type: HeistItem["type"] }[];
+  visibleEntities: (HeistEntity | HeistVisibleGuard)[];
+  /** Rival agents standing in the same room. */
+  visibleAgents: AgentId[];
+  inventory: { itemId: string; type: HeistItem["type"]; usesLeft?: number }[];
   turn: number;
   _private: {
     map: HeistMap;
     entities: HeistEntity[];
     items: HeistItem[];
     alertLevel: number;
+    noise: number;
     extractionRoomId: string;
     terminalProgress: Record<string, number>;
     terminalHacked: Record<string, boolean>;
     invalidActionFallback?: HeistAction;
   };
+  /** Team matches only: shared with the agent's crew, hidden from spectators. */
+  _team?: {
+    teamId: TeamId;
+    crew: HeistCrewMember[];
+  };
 }
 
 export type { HeistAction };
@@ -149,13 +224,14 @@ export function createHeistScenario(
   return {
     name: "Heist",
 
-    init(_seed: Seed, agentIds: AgentId[]): HeistState {
+    init(_seed: Seed, agentIds: AgentId[], teams?: TeamAssignment): HeistState {
       const spawnRoomId =
         params.map.rooms.find((room) => room.type === "spawn")?.id ??
         params.map.rooms[0]?.id ??
         "spawn";
 
       const agents: Record<AgentId, HeistAgentState> = {};
+      const actionsTaken: Record<AgentId, number> = {};
       for (const id of agentIds) {
         agents[id] = {
           roomId: spawnRoomId,
@@ -163,6 +239,7 @@ export function createHeistScenario(
           score: 0,
           extracted: false,
         };
+        actionsTaken[id] = 0;
       }
 
       const itemLocations: Record<string, string | null> = {};
@@ -174,13 +251,24 @@ export function createHeistScenario(
         }
       }
 
+      const toolUses: Record<string, number> = {};
+      for (const item of params.items) {
+        if (item.type === "tool" && item.uses !== undefined) {
+          toolUses[item.id] = item.uses;
+        }
+      }
+
       const terminalProgress: Record<string, number> = {};
       const terminalHacked: Record<string, boolean> = {};
+      const cameraDisabled: Record<string, boolean> = {};
       for (const entity of params.entities) {
         if (entity.type === "terminal") {
           terminalProgress[entity.id] = 0;
           terminalHacked[entity.id] = false;
         }
+        if (entity.type === "camera") {
+          cameraDisabled[entity.id] = entity.disabled ?? false;
+        }
       }
 
       return {
@@ -188,10 +276,20 @@ export function createHeistScenario(
         agentIds: [...agentIds],
         agents,
         itemLocations,
+        itemClaims: {},
         terminalProgress,
         terminalHacked,
         alertLevel: 0,
+        noise: 0,
         turn: 0,
+        actionsTaken,
+        guardSightings: {},
+        openedDoors: {},
+        doorAlarms: {},
+        toolUses,
+        cameraDisabled,
+        cameraSightings: {},
+        ...(teams && { teams }),
       };
     },
 
@@ -201,16 +299,20 @@ export function createHeistScenario(
       const doors = state.params.map.doors;
       const itemsById = new Map(state.params.items.map((item) => [item.id, item]));
 
+      const hazardsByRoom = getRoomHazards(state.params);
       const adjacentRooms = doors
         .filter((door) => door.roomA === agent.roomId || door.roomB === agent.roomId)
         .map((door) => {
           const roomId = door.roomA === agent.roomId ? door.roomB : door.roomA;
+          const hazard = hazardsByRoom.get(roomId);
           return {
             roomId,
             doorId: door.id,
-            locked: door.locked ?? false,
-            passable: isDoorPassable(door, inventorySet),
+            locked: (door.locked ?? false) && !state.openedDoors[door.id],
+            passable: isDoorPassable(door, inventorySet, state.openedDoors),
             ...(door.requiredItem !== undefined && { requiredItem: door.requiredItem }),
+            ...(isAlarmArmed(state, door) && { alarmed: true }),
+            ...(hazard && { hazard }),
           };
         });
 
@@ -224,18 +326,35 @@ export function createHeistScenario(
         }
       }
 
-      // TODO(hashmatch): Implement guard detection mechanics
-      // Context: Guards have patrolRoute and detectionRange defined in HeistGuardEntity
-      // but are currently excluded from observations and do not trigger detection events.
-      // Guards should be visible when in the agent's room or within detectionRange,
-      // and should trigger alert escalation when detecting the agent per heist_game_contract_v0.md §5.
-      // Verify: Add tests that guards in the same room as the agent trigger detection
-      const visibleEntities = state.params.entities.filter((entity) => {
-        if (entity.type === "guard") {
-          return false;
+      const graph = getRoomGraph(state.params);
+      const visibleEntities: (HeistEntity | HeistVisibleGuard)[] = [];
+      for (const entity of state.params.entities) {
+        if (entity.type === "camera") {
+          if (entity.roomId === agent.roomId) {
+            visibleEntities.push({ ...entity, disabled: state.cameraDisabled[entity.id] ?? false });
+          }
+          continue;
+        }
+        if (entity.type !== "guard") {
+          if (entity.roomId === agent.roomId) {
+            visibleEntities.push(entity);
+          }
+          continue;
+        }
+        // Guards are seen in the agent's room or one door away.
+        const guardRoomId = getGuardRoomId(entity, state.turn);
+        const distance = guardRoomId ? roomDistance(graph, agent.roomId, guardRoomId) : null;
+        if (guardRoomId && distance !== null && distance <= GUARD_SIGHT_RANGE) {
+          visibleEntities.push({ ...entity, roomId: guardRoomId });
         }
-        return entity.roomId === agent.roomId;
-      });
+      }
+
+      const visibleAgents = state.agentIds.filter(
+        (id) =>
+          id !== agentId &&
+          !state.agents[id]?.extracted &&
+          state.agents[id]?.roomId === agent.roomId,
+      );
 
       const inventory = agent.inventory
         .map((itemId) => {
@@ -243,15 +362,17 @@ export function createHeistScenario(
           if (!item) {
             return null;
           }
-          return { itemId, type: item.type };
+          const usesLeft = state.toolUses[itemId];
+          return { itemId, type: item.type, ...(usesLeft !== undefined && { usesLeft }) };
         })
-        .filter((entry): entry is { itemId: string; type: HeistItem["type"] } => Boolean(entry));
+        .filter((entry): entry is HeistObservation["inventory"][number] => Boolean(entry));
 
       return {
         currentRoomId: agent.roomId,
         adjacentRooms,
         visibleItems,
         visibleEntities,
+        visibleAgents,
         inventory,
         turn: state.turn,
         _private: {
@@ -259,6 +380,7 @@ export function createHeistScenario(
           entities: state.params.entities,
           items: state.params.items,
           alertLevel: state.alertLevel,
+          noise: state.noise,
           extractionRoomId: state.params.winCondition.extractionRoomId,
           terminalProgress: { ...state.terminalProgress },
           terminalHacked: { ...state.terminalHacked },
@@ -266,91 +388,31 @@ export function createHeistScenario(
             ? { invalidActionFallback: state.params.rules.invalidActionFallback }
             : {}),
         },
+        ...observeCrew(state, agentId),
       };
     },
 
-    // TODO(hashmatch): Implement per-action noise tracking using rules.noiseTable
-    // Context: The noiseTable, alertThresholds, and noiseDecayRate are defined in HeistRules
-    // but not used during adjudication. Currently, alertLevel only increments on invalid actions.
-    // Each valid action should generate noise per noiseTable, noise should accumulate with decay,
-    // and alertLevel should be derived from alertThresholds crossings.
-    // Verify: tests/heist-scenario.test.ts should test that move actions generate noise=1 per default noiseTable
     adjudicate(
-      state: HeistState,
+      stateBefore: HeistState,
       agentId: AgentId,
       action: HeistAction,
+      turn?: number,
     ): AdjudicationResult<HeistState> {
-      const agent = state.agents[agentId];
-      if (!agent) {
-        return invalidAction(state, agentId, HEIST_ERROR_CODES.unknown_agent, "Unknown agent.");
-      }
-
-      if (!isActionObject(action)) {
-        return invalidAction(
-          state,
-          agentId,
-          HEIST_ERROR_CODES.invalid_action_payload,
-          "Invalid action payload.",
-        );
-      }
-
-      if (agent.extracted && action.type !== "wait") {
-        return invalidAction(
-          state,
-          agentId,
-          HEIST_ERROR_CODES.agent_already_extracted,
-          "Agent already extracted.",
-        );
-      }
-
-      switch (action.type) {
-        case "wait":
-          return {
-            valid: true,
-            state: advanceTurn(state),
-            feedback: { message: "Waited." },
-          };
-        case "move":
-          return adjudicateMove(state, agentId, action.toRoomId);
-        case "pickup":
-          return adjudicatePickup(state, agentId, action.itemId);
-        case "use_terminal":
-          return adjudicateTerminal(state, agentId, action.terminalId);
-        case "extract":
-          return adjudicateExtract(state, agentId);
-        default:
-          return invalidAction(
+      const state = syncAgentTurn(stateBefore, agentId, turn);
+      // A pinned agent's action is ignored; the turn passes as a wait.
+      const pinned = (state.pinnedTurns?.[agentId] ?? 0) > 0;
+      const result = pinned
+        ? applyNoise(state, adjudicatePinned(state, agentId), { type: "wait" })
+        : applyHazard(
             state,
+            applyNoise(state, adjudicateAction(state, agentId, action), action),
             agentId,
-            HEIST_ERROR_CODES.invalid_action_type,
-            "Unknown action type.",
-            { actionType: (action as HeistAction).type },
           );
-      }
+      return applyGuardDetection(applyCameraDetection(result, agentId), agentId);
     },
 
-    // TODO(hashmatch): Check captureOnMaxAlert in isTerminal
-    // Context: rules.captureOnMaxAlert is defined in HeistRules and defaults to false.
-    // When true, reaching maxAlertLevel should end the match immediately (capture/lockdown).
-    // Currently isTerminal does not check alertLevel at all.
-    // Verify: tests/heist-scenario.test.ts should test that captureOnMaxAlert=true ends match at max alert
     isTerminal(state: HeistState): boolean {
-      if (state.turn >= state.params.winCondition.maxTurns) {
-        return true;
-      }
-
-      const allExtracted = state.agentIds.every((id) => state.agents[id]?.extracted);
-      if (allExtracted) {
-        return true;
-      }
-
-      return state.agentIds.some((id) => {
-        const agent = state.agents[id];
-        if (!agent?.extracted) {
-          return false;
-        }
-        return hasRequiredObjectives(state, agent);
-      });
+      return resolveOutcome(state) !== "in_progress";
     },
 
     score(state: HeistState): Record<AgentId, number> {
@@ -389,6 +451,7 @@ export function createHeistScenario(
       for (const objectiveId of requiredObjectives) {
         objectives[objectiveId] = {
           secured: sharedInventory.has(objectiveId),
+          securedBy: state.itemClaims[objectiveId]?.agentId ?? null,
         };
       }
       const extractedAgents = state.agentIds.filter((id) => state.agents[id]?.extracted);
@@ -407,16 +470,34 @@ export function createHeistScenario(
           roomId: route[patrolIndex],
           patrolIndex,
           routeLength: route.length,
-          detectionRange: entity.detectionRange,
+          detectionRange: resolveDetectionRange(state.params, entity),
+          detecting: [...(state.guardSightings[entity.id] ?? [])],
+        };
+      }
+
+      const cameras: Record<string, JsonValue> = {};
+      for (const entity of state.params.entities) {
+        if (entity.type !== "camera") {
+          continue;
+        }
+        cameras[entity.id] = {
+          roomId: entity.roomId,
+          range: resolveCameraRange(state.params, entity),
+          disabled: state.cameraDisabled[entity.id] ?? false,
+          coverage: getCameraCoverage(state.params, entity),
+          detecting: [...(state.cameraSightings[entity.id] ?? [])],
         };
       }
 
       const doors: Record<string, JsonValue> = {};
       for (const door of state.params.map.doors) {
         doors[door.id] = {
-          locked: door.locked ?? false,
+          locked: (door.locked ?? false) && !state.openedDoors[door.id],
           requiredItem: door.requiredItem ?? null,
-          accessible: isDoorPassable(door, sharedInventory),
+          accessible: isDoorPassable(door, sharedInventory, state.openedDoors),
+          opened: state.openedDoors[door.id] ?? false,
+          alarmed: door.alarmed ?? false,
+          alarm: state.doorAlarms[door.id] ?? (door.alarmed ? "armed" : null),
         };
       }
 
@@ -446,10 +527,13 @@ export function createHeistScenario(
       return {
         turn: state.turn,
         alertLevel: state.alertLevel,
+        noise: state.noise,
         tension,
         maxAlertLevel,
+        outcome: resolveOutcome(state),
         agents,
         guards,
+        cameras,
         doors,
         terminals,
         vaults,
@@ -466,9 +550,14 @@ export function createHeistScenario(
       const roomCount = params.map.rooms.length;
       const itemCount = params.items.length;
       const terminalCount = params.entities.filter((entity) => entity.type === "terminal").length;
+      const doorCount = params.map.doors.length;
+      const toolCount = params.items.filter((item) => item.type === "tool").length;
       return {
         noopActions: ["wait"],
-        actionSpaceSize: Math.max(0, roomCount + itemCount + terminalCount + 2),
+        actionSpaceSize: Math.max(
+          0,
+          roomCount + itemCount + terminalCount + doorCount * (1 + toolCount) + 2,
+        ),
       };
     },
 
@@ -479,6 +568,8 @@ export function createHeistScenario(
         params: state.params as unknown as JsonValue,
         turn: state.turn,
         alertLevel: state.alertLevel,
+        noise: state.noise,
+        outcome: resolveOutcome(state),
         agents: state.agentIds.map((id) => ({
           agentId: id,
           roomId: state.agents[id]?.roomId,
@@ -487,8 +578,14 @@ export function createHeistScenario(
           extracted: state.agents[id]?.extracted,
         })),
         itemLocations: { ...state.itemLocations },
+        itemClaims: { ...state.itemClaims } as unknown as JsonValue,
         terminalProgress: { ...state.terminalProgress },
         terminalHacked: { ...state.terminalHacked },
+        openedDoors: { ...state.openedDoors },
+        doorAlarms: { ...state.doorAlarms },
+        toolUses: { ...state.toolUses },
+        cameraDisabled: { ...state.cameraDisabled },
+        ...(state.pinnedTurns && { pinnedTurns: { ...state.pinnedTurns } }),
       };
     },
   };
@@ -498,6 +595,64 @@ export function createHeistScenario(
 // Action helpers
 // ---------------------------------------------------------------------------
 
+function adjudicateAction(
+  state: HeistState,
+  agentId: AgentId,
+  action: HeistAction,
+): AdjudicationResult<HeistState> {
+  const agent = state.agents[agentId];
+  if (!agent) {
+    return invalidAction(state, agentId, HEIST_ERROR_CODES.unknown_agent, "Unknown agent.");
+  }
+
+  if (!isActionObject(action)) {
+    return invalidAction(
+      state,
+      agentId,
+      HEIST_ERROR_CODES.invalid_action_payload,
+      "Invalid action payload.",
+    );
+  }
+
+  if (agent.extracted && action.type !== "wait") {
+    return invalidAction(
+      state,
+      agentId,
+      HEIST_ERROR_CODES.agent_already_extracted,
+      "Agent already extracted.",
+    );
+  }
+
+  switch (action.type) {
+    case "wait":
+      return {
+        valid: true,
+        state: advanceTurn(state, agentId),
+        feedback: { message: "Waited." },
+      };
+    case "move":
+      return adjudicateMove(state, agentId, action.toRoomId);
+    case "pickup":
+      return adjudicatePickup(state, agentId, action.itemId);
+    case "use_terminal":
+      return adjudicateTerminal(state, agentId, action.terminalId);
+    case "use_item":
+      return adjudicateUseItem(state, agentId, action.itemId, action.targetId);
+    case "force_door":
+      return adjudicateForceDoor(state, agentId, action.doorId);
+    case "extract":
+      return adjudicateExtract(state, agentId);
+    default:
+      return invalidAction(
+        state,
+        agentId,
+        HEIST_ERROR_CODES.invalid_action_type,
+        "Unknown action type.",
+        { actionType: (action as HeistAction).type },
+      );
+  }
+}
+
 function adjudicateMove(
   state: HeistState,
   agentId: AgentId,
@@ -525,7 +680,7 @@ function adjudicateMove(
   }
 
   const inventory = new Set(agent.inventory);
-  if (!isDoorPassable(door, inventory)) {
+  if (!isDoorPassable(door, inventory, state.openedDoors)) {
     if (door.requiredItem && !inventory.has(door.requiredItem)) {
       return invalidAction(
         state,
@@ -548,7 +703,7 @@ function adjudicateMove(
     });
   }
 
-  const nextState = advanceTurn(state);
+  const nextState = advanceTurn(state, agentId);
   return {
     valid: true,
     state: updateAgent(nextState, agentId, {
@@ -574,6 +729,24 @@ function adjudicatePickup(
 
   const agent = state.agents[agentId];
   const location = state.itemLocations[itemId];
+  const claim = state.itemClaims[itemId];
+  const nextTurn = Math.max(state.turn, (state.actionsTaken[agentId] ?? 0) + 1);
+  const claimedHere = claim?.roomId === agent.roomId && claim.agentId !== agentId;
+  if (location === null && claimedHere && claim.turn === nextTurn) {
+    // Same-turn contention: the first agent to act claims the item. The loser
+    // wasted a turn but played a legal move, so no invalid-action penalty.
+    return {
+      valid: true,
+      state: advanceTurn(state, agentId),
+      feedback: {
+        result: HEIST_RESULT_CODES.item_contested,
+        message: `${itemId} was taken by ${claim.agentId} this turn.`,
+        itemId,
+        takenBy: claim.agentId,
+      },
+    };
+  }
+
   if (location !== agent.roomId) {
     return invalidAction(
       state,
@@ -591,7 +764,7 @@ function adjudicatePickup(
     });
   }
 
-  const nextState = advanceTurn(state);
+  const nextState = advanceTurn(state, agentId);
   const updatedInventory = addUnique(agent.inventory, itemId);
   const updatedScore =
     item.type === "loot"
@@ -609,6 +782,10 @@ function adjudicatePickup(
         ...nextState.itemLocations,
         [itemId]: null,
       },
+      itemClaims: {
+        ...nextState.itemClaims,
+        [itemId]: { agentId, turn: nextState.turn, roomId: agent.roomId },
+      },
     },
     feedback: {
       result: HEIST_RESULT_CODES.item_pickup,
@@ -649,7 +826,7 @@ function adjudicateTerminal(
     );
   }
 
-  const nextState = advanceTurn(state);
+  const nextState = advanceTurn(state, agentId);
   const currentProgress = nextState.terminalProgress[terminalId] ?? 0;
   const nextProgress = currentProgress + 1;
   const terminalAlreadyHacked = nextState.terminalHacked[terminalId] ?? false;
@@ -660,18 +837,55 @@ function adjudicateTerminal(
   const grantedItems: string[] = [];
   const willHack = !terminalAlreadyHacked && nextProgress >= terminal.hackTurns;
 
-  if (willHack) {
+  // Intel is information, not a physical item: once a rival has cracked the
+  // terminal, anyone else at the console can copy the intel they are missing.
+  const missingGrants = (terminal.successGrants ?? []).filter(
+    (grant) => !agent.inventory.includes(grant),
+  );
+  const willDownload = terminalAlreadyHacked && missingGrants.length > 0;
+
+  if (willHack || willDownload) {
     hacked = true;
-    for (const grant of terminal.successGrants ?? []) {
+    for (const grant of missingGrants) {
       updatedInventory = addUnique(updatedInventory, grant);
       grantedItems.push(grant);
     }
   }
 
+  if (willDownload) {
+    return {
+      valid: true,
+      state: updateAgent(nextState, agentId, { inventory: updatedInventory }),
+      feedback: {
+        result: HEIST_RESULT_CODES.intel_downloaded,
+        message: "Downloaded intel from an already hacked terminal.",
+        terminalId,
+        progress: currentProgress,
+        hackRequired,
+        hacked,
+        grantedItems,
+      },
+    };
+  }
+
+  const disabledCameras = willHack ? (terminal.successDisables ?? []) : [];
+  const cameraDisabled = { ...nextState.cameraDisabled };
+  for (const cameraId of disabledCameras) {
+    cameraDisabled[cameraId] = true;
+  }
+
+  let itemClaims = nextState.itemClaims;
+  for (const grant of grantedItems) {
+    itemClaims = itemClaims[grant]
+      ? itemClaims
+      : { ...itemClaims, [grant]: { agentId, turn: nextState.turn, roomId: agent.roomId } };
+  }
+
   return {
     valid: true,
     state: {
       ...updateAgent(nextState, agentId, { inventory: updatedInventory }),
+      itemClaims,
       terminalProgress: {
         ...nextState.terminalProgress,
         [terminalId]: nextProgress,
@@ -680,6 +894,7 @@ function adjudicateTerminal(
         ...nextState.terminalHacked,
         [terminalId]: hacked,
       },
+      cameraDisabled,
     },
     feedback: {
       result: willHack ? HEIST_RESULT_CODES.hack_complete : HEIST_RESULT_CODES.hack_progress,
@@ -691,6 +906,209 @@ function adjudicateTerminal(
       hackRequired,
       hacked,
       ...(grantedItems.length > 0 ? { grantedItems } : {}),
+      ...(disabledCameras.length > 0 ? { disabledCameras } : {}),
+    },
+  };
+}
+
+/**
+ * What each `toolType` does with `use_item`. Openers work on locked doors;
+ * jammers disarm door alarms and switch off cameras.
+ */
+const TOOL_EFFECTS: Record<string, "open_door" | "jam_electronics"> = {
+  lockpick: "open_door",
+  drill: "open_door",
+  emp: "jam_electronics",
+};
+
+function adjudicateForceDoor(
+  state: HeistState,
+  agentId: AgentId,
+  doorId: string,
+): AdjudicationResult<HeistState> {
+  const door = findAdjacentDoor(state, agentId, doorId);
+  if (!door.ok) {
+    return door.result;
+  }
+
+  const agent = state.agents[agentId];
+  if (isDoorPassable(door.door, new Set(agent.inventory), state.openedDoors)) {
+    return invalidAction(state, agentId, HEIST_ERROR_CODES.door_not_locked, "Door is not locked.", {
+      doorId,
+    });
+  }
+
+  const opened = openDoor(advanceTurn(state, agentId), door.door);
+  return {
+    valid: true,
+    state: opened.state,
+    feedback: {
+      result: HEIST_RESULT_CODES.door_forced,
+      message: opened.alarmTripped
+        ? `Forced ${doorId} open and tripped its alarm.`
+        : `Forced ${doorId} open.`,
+      doorId,
+      alarmTripped: opened.alarmTripped,
+    },
+  };
+}
+
+function adjudicateUseItem(
+  state: HeistState,
+  agentId: AgentId,
+  itemId: string,
+  targetId: string,
+): AdjudicationResult<HeistState> {
+  if (typeof itemId !== "string" || itemId.length === 0) {
+    return invalidAction(state, agentId, HEIST_ERROR_CODES.invalid_item_id, "Invalid item id.");
+  }
+
+  const agent = state.agents[agentId];
+  if (!agent.inventory.includes(itemId)) {
+    return invalidAction(
+      state,
+      agentId,
+      HEIST_ERROR_CODES.item_not_in_inventory,
+      "Item is not in your inventory.",
+      { itemId },
+    );
+  }
+
+  const item = state.params.items.find((candidate) => candidate.id === itemId);
+  if (!item || item.type !== "tool") {
+    return invalidAction(state, agentId, HEIST_ERROR_CODES.item_not_tool, "Item is not a tool.", {
+      itemId,
+    });
+  }
+
+  const camera = state.params.entities.find(
+    (entity): entity is HeistCameraEntity => entity.type === "camera" && entity.id === targetId,
+  );
+  if (camera) {
+    return adjudicateToolOnCamera(state, agentId, item.id, item.toolType, camera);
+  }
+
+  const door = findAdjacentDoor(state, agentId, targetId);
+  if (!door.ok) {
+    return door.result;
+  }
+
+  const effect = TOOL_EFFECTS[item.toolType];
+  const toolDetails = { itemId, toolType: item.toolType, doorId: door.door.id };
+  if (!effect) {
+    return invalidAction(
+      state,
+      agentId,
+      HEIST_ERROR_CODES.tool_not_applicable,
+      `A ${item.toolType} cannot be used on a door.`,
+      toolDetails,
+    );
+  }
+
+  if (effect === "open_door") {
+    if (isDoorPassable(door.door, new Set(agent.inventory), state.openedDoors)) {
+      return invalidAction(
+        state,
+        agentId,
+        HEIST_ERROR_CODES.door_not_locked,
+        "Door is not locked.",
+        toolDetails,
+      );
+    }
+    const opened = openDoor(
+      consumeToolUse(advanceTurn(state, agentId), agentId, itemId),
+      door.door,
+    );
+    return {
+      valid: true,
+      state: opened.state,
+      feedback: {
+        result: HEIST_RESULT_CODES.door_unlocked,
+        message: opened.alarmTripped
+          ? `Opened ${door.door.id} with ${itemId} and tripped its alarm.`
+          : `Opened ${door.door.id} with ${itemId}.`,
+        ...toolDetails,
+        alarmTripped: opened.alarmTripped,
+        ...toolUsesFeedback(opened.state, itemId),
+      },
+    };
+  }
+
+  // effect === "jam_electronics": disarm the door's alarm.
+  if (!isAlarmArmed(state, door.door)) {
+    return invalidAction(
+      state,
+      agentId,
+      HEIST_ERROR_CODES.door_not_alarmed,
+      "Door has no armed alarm.",
+      toolDetails,
+    );
+  }
+  const nextState = consumeToolUse(advanceTurn(state, agentId), agentId, itemId);
+  return {
+    valid: true,
+    state: {
+      ...nextState,
+      doorAlarms: { ...nextState.doorAlarms, [door.door.id]: "disarmed" },
+    },
+    feedback: {
+      result: HEIST_RESULT_CODES.alarm_disarmed,
+      message: `Disarmed the alarm on ${door.door.id}.`,
+      ...toolDetails,
+      ...toolUsesFeedback(nextState, itemId),
+    },
+  };
+}
+
+function adjudicateToolOnCamera(
+  state: HeistState,
+  agentId: AgentId,
+  itemId: string,
+  toolType: string,
+  camera: HeistCameraEntity,
+): AdjudicationResult<HeistState> {
+  const agent = state.agents[agentId];
+  const toolDetails = { itemId, toolType, cameraId: camera.id };
+  if (camera.roomId !== agent.roomId) {
+    return invalidAction(
+      state,
+      agentId,
+      HEIST_ERROR_CODES.camera_not_in_room,
+      "Camera not in this room.",
+      { ...toolDetails, currentRoomId: agent.roomId },
+    );
+  }
+  if (TOOL_EFFECTS[toolType] !== "jam_electronics") {
+    return invalidAction(
+      state,
+      agentId,
+      HEIST_ERROR_CODES.tool_not_applicable,
+      `A ${toolType} cannot be used on a camera.`,
+      toolDetails,
+    );
+  }
+  if (state.cameraDisabled[camera.id]) {
+    return invalidAction(
+      state,
+      agentId,
+      HEIST_ERROR_CODES.camera_already_disabled,
+      "Camera is already disabled.",
+      toolDetails,
+    );
+  }
+
+  const nextState = consumeToolUse(advanceTurn(state, agentId), agentId, itemId);
+  return {
+    valid: true,
+    state: {
+      ...nextState,
+      cameraDisabled: { ...nextState.cameraDisabled, [camera.id]: true },
+    },
+    feedback: {
+      result: HEIST_RESULT_CODES.camera_disabled,
+      message: `Disabled ${camera.id} with ${itemId}.`,
+      ...toolDetails,
+      ...toolUsesFeedback(nextState, itemId),
     },
   };
 }
@@ -710,7 +1128,7 @@ function adjudicateExtract(state: HeistState, agentId: AgentId): AdjudicationRes
     );
   }
 
-  const nextState = advanceTurn(state);
+  const nextState = advanceTurn(state, agentId);
   return {
     valid: true,
     state: updateAgent(nextState, agentId, { extracted: true }),
@@ -732,7 +1150,7 @@ function invalidAction(
 ): AdjudicationResult<HeistState> {
   return {
     valid: false,
-    state: applyInvalidPenalty(advanceTurn(state), agentId),
+    state: applyInvalidPenalty(advanceTurn(state, agentId), agentId),
     feedback: {
       error,
       message,
@@ -741,6 +1159,559 @@ function invalidAction(
   };
 }
 
+// ---------------------------------------------------------------------------
+// Doors & tools
+// ---------------------------------------------------------------------------
+
+type AdjacentDoorLookup =
+  | { ok: true; door: HeistDoor }
+  | { ok: false; result: AdjudicationResult<HeistState> };
+
+/** Resolve a door id that must touch the agent's current room. */
+function findAdjacentDoor(state: HeistState, agentId: AgentId, doorId: string): AdjacentDoorLookup {
+  if (typeof doorId !== "string" || doorId.length === 0) {
+    return {
+      ok: false,
+      result: invalidAction(state, agentId, HEIST_ERROR_CODES.invalid_door_id, "Invalid door id."),
+    };
+  }
+
+  const agent = state.agents[agentId];
+  const door = state.params.map.doors.find((candidate) => candidate.id === doorId);
+  if (!door) {
+    return {
+      ok: false,
+      result: invalidAction(state, agentId, HEIST_ERROR_CODES.invalid_door_id, "Unknown door.", {
+        doorId,
+      }),
+    };
+  }
+  if (door.roomA !== agent.roomId && door.roomB !== agent.roomId) {
+    return {
+      ok: false,
+      result: invalidAction(
+        state,
+        agentId,
+        HEIST_ERROR_CODES.door_not_adjacent,
+        "Door does not connect to your current room.",
+        { doorId, currentRoomId: agent.roomId },
+      ),
+    };
+  }
+  return { ok: true, door };
+}
+
+function isAlarmArmed(state: HeistState, door: HeistDoor): boolean {
+  return door.alarmed === true && state.doorAlarms[door.id] === undefined;
+}
+
+/**
+ * Open a door for everyone. Breaching an alarmed door trips its alarm once,
+ * which raises the alert level by one.
+ */
+function openDoor(
+  state: HeistState,
+  door: HeistDoor,
+): { state: HeistState; alarmTripped: boolean } {
+  const openedDoors = { ...state.openedDoors, [door.id]: true };
+  if (!isAlarmArmed(state, door)) {
+    return { state: { ...state, openedDoors }, alarmTripped: false };
+  }
+  return {
+    state: {
+      ...state,
+      openedDoors,
+      doorAlarms: { ...state.doorAlarms, [door.id]: "tripped" },
+      alertLevel: Math.min(state.alertLevel + 1, state.params.rules.maxAlertLevel),
+    },
+    alarmTripped: true,
+  };
+}
+
+/** Spend one use of a limited tool, dropping it from the inventory when it runs out. */
+function consumeToolUse(state: HeistState, agentId: AgentId, itemId: string): HeistState {
+  const remaining = state.toolUses[itemId];
+  if (remaining === undefined) {
+    return state;
+  }
+  const usesLeft = Math.max(0, remaining - 1);
+  const nextState = { ...state, toolUses: { ...state.toolUses, [itemId]: usesLeft } };
+  if (usesLeft > 0) {
+    return nextState;
+  }
+  const agent = state.agents[agentId];
+  return updateAgent(nextState, agentId, {
+    inventory: agent.inventory.filter((id) => id !== itemId),
+  });
+}
+
+function toolUsesFeedback(state: HeistState, itemId: string): { usesLeft?: number } {
+  const usesLeft = state.toolUses[itemId];
+  return usesLeft === undefined ? {} : { usesLeft };
+}
+
+// ---------------------------------------------------------------------------
+// Noise & alert
+// ---------------------------------------------------------------------------
+
+/** `rules.noiseTable` keys per action type; actions fall back to their own type name. */
+const NOISE_TABLE_KEYS: Partial<Record<HeistAction["type"], string>> = {
+  use_terminal: "hack",
+  force_door: "force",
+};
+
+function actionNoise(params: HeistScenarioParams, action: HeistAction): number {
+  if (!isActionObject(action)) {
+    return 0;
+  }
+  if (action.type === "force_door") {
+    // Doors can set their own cost of being forced; the table is the fallback.
+    const door = params.map.doors.find((candidate) => candidate.id === action.doorId);
+    if (door?.noiseOnForce !== undefined) {
+      return door.noiseOnForce;
+    }
+  }
+  const table = params.rules.noiseTable;
+  const key = NOISE_TABLE_KEYS[action.type];
+  return (key !== undefined ? table[key] : undefined) ?? table[action.type] ?? 0;
+}
+
+/** Highest alert level whose threshold the noise has reached, capped at `maxAlertLevel`. */
+function alertLevelForNoise(params: HeistScenarioParams, noise: number): number {
+  let level = 0;
+  params.rules.alertThresholds.forEach((threshold, index) => {
+    if (noise >= threshold) {
+      level = index;
+    }
+  });
+  return Math.min(level, params.rules.maxAlertLevel);
+}
+
+/**
+ * Decay noise for every turn that elapsed, add the noise of a valid action,
+ * and raise the alert level to match any threshold crossed. Alert never drops
+ * back down when noise decays — a raised alarm stays raised.
+ */
+function applyNoise(
+  previous: HeistState,
+  result: AdjudicationResult<HeistState>,
+  action: HeistAction,
+): AdjudicationResult<HeistState> {
+  const state = result.state;
+  const elapsedTurns = Math.max(0, state.turn - previous.turn);
+  const decayed = Math.max(0, state.noise - elapsedTurns * state.params.rules.noiseDecayRate);
+  const generated = result.valid ? actionNoise(state.params, action) : 0;
+  const noise = decayed + generated;
+  if (noise === state.noise) {
+    return result;
+  }
+  return { ...result, state: withNoise(state, noise) };
+}
+
+/** Set the noise level, raising (never lowering) the alert level to match. */
+function withNoise(state: HeistState, noise: number): HeistState {
+  const alertLevel = Math.max(state.alertLevel, alertLevelForNoise(state.params, noise));
+  return { ...state, noise, alertLevel };
+}
+
+function isCaptured(state: HeistState): boolean {
+  return (
+    state.params.rules.captureOnMaxAlert && state.alertLevel >= state.params.rules.maxAlertLevel
+  );
+}
+
+function resolveOutcome(state: HeistState): HeistOutcome {
+  if (isCaptured(state)) {
+    return "captured";
+  }
+  const extractedWithObjectives = state.agentIds.some((id) => {
+    const agent = state.agents[id];
+    return agent?.extracted === true && hasRequiredObjectives(state, agent);
+  });
+  if (extractedWithObjectives || state.agentIds.every((id) => state.agents[id]?.extracted)) {
+    return "extracted";
+  }
+  if (state.turn >= state.params.winCondition.maxTurns) {
+    return "timeout";
+  }
+  return "in_progress";
+}
+
+// ---------------------------------------------------------------------------
+// Cameras
+// ---------------------------------------------------------------------------
+
+/** Noise a camera adds when it spots an agent, unless `noiseTable.camera` says otherwise. */
+const DEFAULT_CAMERA_NOISE = 2;
+
+/** A camera's own range, capped by `rules.cameraDetectionRange` when the map sets one. */
+function resolveCameraRange(params: HeistScenarioParams, camera: HeistCameraEntity): number {
+  const cap = params.rules.cameraDetectionRange;
+  return cap === undefined ? camera.range : Math.min(camera.range, cap);
+}
+
+/** Rooms a camera watches: every room within its range, in door hops. */
+function getCameraCoverage(params: HeistScenarioParams, camera: HeistCameraEntity): string[] {
+  const graph = getRoomGraph(params);
+  const range = resolveCameraRange(params, camera);
+  return params.map.rooms
+    .map((room) => room.id)
+    .filter((roomId) => {
+      const distance = roomDistance(graph, camera.roomId, roomId);
+      return distance !== null && distance <= range;
+    });
+}
+
+/**
+ * Check every active camera against the acting agent's position. A camera
+ * that newly spots the agent adds camera noise (which can raise the alert
+ * level through the thresholds) and is reported in `feedback.detections`.
+ * Cameras do not raise the alert directly the way guards do.
+ */
+function applyCameraDetection(
+  result: AdjudicationResult<HeistState>,
+  agentId: AgentId,
+): AdjudicationResult<HeistState> {
+  let state = result.state;
+  const agent = state.agents[agentId];
+  if (!agent) {
+    return result;
+  }
+
+  const graph = getRoomGraph(state.params);
+  const cameraNoise = state.params.rules.noiseTable.camera ?? DEFAULT_CAMERA_NOISE;
+  const cameraSightings = { ...state.cameraSightings };
+  const detections: Record<string, JsonValue>[] = [];
+
+  for (const entity of state.params.entities) {
+    if (entity.type !== "camera") {
+      continue;
+    }
+    const active = !state.cameraDisabled[entity.id] && !agent.extracted;
+    const distance = active ? roomDistance(graph, agent.roomId, entity.roomId) : null;
+    const inRange = distance !== null && distance <= resolveCameraRange(state.params, entity);
+    const sighted = cameraSightings[entity.id] ?? [];
+    const alreadySighted = sighted.includes(agentId);
+
+    if (!inRange) {
+      if (alreadySighted) {
+        cameraSightings[entity.id] = sighted.filter((id) => id !== agentId);
+      }
+      continue;
+    }
+    if (alreadySighted) {
+      continue;
+    }
+
+    state = withNoise(state, state.noise + cameraNoise);
+    cameraSightings[entity.id] = [...sighted, agentId];
+    detections.push({
+      code: HEIST_DETECTION_CODES.camera_detected,
+      cameraId: entity.id,
+      cameraRoomId: entity.roomId,
+      distance,
+      alertLevel: state.alertLevel,
+    });
+  }
+
+  return {
+    ...result,
+    state: { ...state, cameraSightings },
+    feedback: withDetections(result.feedback, detections),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Hazards
+// ---------------------------------------------------------------------------
+
+const roomHazardsCache = new WeakMap<HeistScenarioParams, Map<string, HeistHazard>>();
+
+function getRoomHazards(params: HeistScenarioParams): Map<string, HeistHazard> {
+  let hazards = roomHazardsCache.get(params);
+  if (!hazards) {
+    hazards = new Map(
+      params.map.rooms.flatMap((room) => (room.hazard ? [[room.id, room.hazard] as const] : [])),
+    );
+    roomHazardsCache.set(params, hazards);
+  }
+  return hazards;
+}
+
+/** A pinned agent loses the turn whatever it asked for. Not an error, so no penalty. */
+function adjudicatePinned(state: HeistState, agentId: AgentId): AdjudicationResult<HeistState> {
+  const turnsLeft = Math.max(0, (state.pinnedTurns?.[agentId] ?? 0) - 1);
+  const nextState = advanceTurn(state, agentId);
+  return {
+    valid: true,
+    state: { ...nextState, pinnedTurns: { ...nextState.pinnedTurns, [agentId]: turnsLeft } },
+    feedback: {
+      result: HEIST_RESULT_CODES.pinned,
+      message:
+        turnsLeft > 0
+          ? `Pinned by a hazard; ${turnsLeft} more turn(s) before you can act.`
+          : "Pinned by a hazard; you can act again next turn.",
+      turnsLeft,
+    },
+  };
+}
+
+/**
+ * Set off the hazard in the room the agent just moved into: its noise (which
+ * can raise the alert level through the thresholds), its score damage and its
+ * pin on the agent's next turns. Reported in `feedback.detections`.
+ */
+function applyHazard(
+  previous: HeistState,
+  result: AdjudicationResult<HeistState>,
+  agentId: AgentId,
+): AdjudicationResult<HeistState> {
+  const agent = result.state.agents[agentId];
+  if (!result.valid || !agent || agent.roomId === previous.agents[agentId]?.roomId) {
+    return result;
+  }
+  const hazard = getRoomHazards(result.state.params).get(agent.roomId);
+  if (!hazard) {
+    return result;
+  }
+
+  const noise = hazard.noise ?? 0;
+  const damage = hazard.damage ?? 0;
+  const waitTurns = hazard.waitTurns ?? 0;
+  let state = updateAgent(withNoise(result.state, result.state.noise + noise), agentId, {
+    score: agent.score - damage,
+  });
+  if (waitTurns > 0) {
+    state = { ...state, pinnedTurns: { ...state.pinnedTurns, [agentId]: waitTurns } };
+  }
+  return {
+    ...result,
+    state,
+    feedback: withDetections(result.feedback, [
+      {
+        code: HEIST_DETECTION_CODES.hazard_triggered,
+        hazardType: hazard.type,
+        roomId: agent.roomId,
+        noise,
+        damage,
+        waitTurns,
+        alertLevel: state.alertLevel,
+      },
+    ]),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Guards
+// ---------------------------------------------------------------------------
+
+/** Guards are visible in the agent's room and in directly adjacent rooms. */
+const GUARD_SIGHT_RANGE = 1;
+
+const roomGraphCache = new WeakMap<HeistScenarioParams, RoomGraph>();
+
+function getRoomGraph(params: HeistScenarioParams): RoomGraph {
+  let graph = roomGraphCache.get(params);
+  if (!graph) {
+    graph = buildRoomGraph(params.map.rooms, params.map.doors);
+    roomGraphCache.set(params, graph);
+  }
+  return graph;
+}
+
+const doorsByIdCache = new WeakMap<HeistScenarioParams, Map<string, HeistDoor>>();
+
+function getDoorsById(params: HeistScenarioParams): Map<string, HeistDoor> {
+  let doors = doorsByIdCache.get(params);
+  if (!doors) {
+    doors = new Map(params.map.doors.map((door) => [door.id, door]));
+    doorsByIdCache.set(params, doors);
+  }
+  return doors;
+}
+
+/** Guards step one room along their cyclic patrol route per turn. */
+function getGuardRoomId(guard: HeistGuardEntity, turn: number): string | undefined {
+  if (guard.patrolRoute.length === 0) {
+    return undefined;
+  }
+  return guard.patrolRoute[turn % guard.patrolRoute.length];
+}
+
+/** Door hops between two rooms, ignoring locks. */
+function roomDistance(graph: RoomGraph, fromRoomId: string, toRoomId: string): number | null {
+  return findShortestPath(graph, fromRoomId, toRoomId)?.distance ?? null;
+}
+
+/** A guard's own range, capped by `rules.guardDetectionRange` when the map sets one. */
+function resolveDetectionRange(params: HeistScenarioParams, guard: HeistGuardEntity): number {
+  const cap = params.rules.guardDetectionRange;
+  return cap === undefined ? guard.detectionRange : Math.min(guard.detectionRange, cap);
+}
+
+const roomPositionsCache = new WeakMap<
+  HeistScenarioParams,
+  Map<string, { x: number; y: number }>
+>();
+
+function getRoomPositions(params: HeistScenarioParams): Map<string, { x: number; y: number }> {
+  let positions = roomPositionsCache.get(params);
+  if (!positions) {
+    positions = new Map(
+      params.map.rooms.flatMap((room) =>
+        room.position ? [[room.id, room.position] as const] : [],
+      ),
+    );
+    roomPositionsCache.set(params, positions);
+  }
+  return positions;
+}
+
+/** Grid direction of one door hop, or null when the rooms are not in a straight row or column. */
+function hopDirection(
+  positions: Map<string, { x: number; y: number }>,
+  fromRoomId: string,
+  toRoomId: string,
+): { x: number; y: number } | null {
+  const from = positions.get(fromRoomId);
+  const to = positions.get(toRoomId);
+  if (!from || !to || (from.x !== to.x && from.y !== to.y)) {
+    return null;
+  }
+  return { x: Math.sign(to.x - from.x), y: Math.sign(to.y - from.y) };
+}
+
+/**
+ * Door hops from a guard's room to a room it can see, or null when the room
+ * is out of sight. A guard sees its own room and looks straight on through
+ * doors that are not locked: every hop must keep the same grid direction, so
+ * walls, corners and locked doors block the view. On a map without room
+ * positions a guard only sees through the doors of its own room.
+ */
+function guardSightDistance(
+  state: HeistState,
+  guardRoomId: string,
+  targetRoomId: string,
+  range: number,
+): number | null {
+  if (guardRoomId === targetRoomId) {
+    return 0;
+  }
+  const graph = getRoomGraph(state.params);
+  const positions = getRoomPositions(state.params);
+  const doorsById = getDoorsById(state.params);
+  const isOpen = (doorId: string): boolean =>
+    !(doorsById.get(doorId)?.locked ?? false) || Boolean(state.openedDoors[doorId]);
+
+  for (const first of graph.get(guardRoomId) ?? []) {
+    if (!isOpen(first.doorId)) {
+      continue;
+    }
+    const direction = hopDirection(positions, guardRoomId, first.neighborId);
+    let roomId = first.neighborId;
+    for (let distance = 1; distance <= range; distance++) {
+      if (roomId === targetRoomId) {
+        return distance;
+      }
+      const current = roomId;
+      const next = direction
+        ? (graph.get(current) ?? []).find((link) => {
+            const step = hopDirection(positions, current, link.neighborId);
+            return isOpen(link.doorId) && step?.x === direction.x && step?.y === direction.y;
+          })
+        : undefined;
+      if (!next) {
+        break;
+      }
+      roomId = next.neighborId;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check every guard against the acting agent's position after the action.
+ * A guard that newly spots the agent is reported in `feedback.detections`,
+ * and any new sighting raises the alert level by one: however many guards
+ * spot the agent at once, one action costs at most one level. A guard that
+ * keeps the agent in sight does not escalate again until it loses contact.
+ */
+function applyGuardDetection(
+  result: AdjudicationResult<HeistState>,
+  agentId: AgentId,
+): AdjudicationResult<HeistState> {
+  const state = result.state;
+  const agent = state.agents[agentId];
+  if (!agent) {
+    return result;
+  }
+
+  const guardSightings = { ...state.guardSightings };
+  const detections: Record<string, JsonValue>[] = [];
+  const alertLevel = Math.min(state.alertLevel + 1, state.params.rules.maxAlertLevel);
+
+  for (const entity of state.params.entities) {
+    if (entity.type !== "guard") {
+      continue;
+    }
+    const guardRoomId = getGuardRoomId(entity, state.turn);
+    const distance =
+      guardRoomId && !agent.extracted
+        ? guardSightDistance(
+            state,
+            guardRoomId,
+            agent.roomId,
+            resolveDetectionRange(state.params, entity),
+          )
+        : null;
+    const inRange = distance !== null;
+    const sighted = guardSightings[entity.id] ?? [];
+    const alreadySighted = sighted.includes(agentId);
+
+    if (!inRange) {
+      if (alreadySighted) {
+        guardSightings[entity.id] = sighted.filter((id) => id !== agentId);
+      }
+      continue;
+    }
+    if (alreadySighted) {
+      continue;
+    }
+
+    guardSightings[entity.id] = [...sighted, agentId];
+    detections.push({
+      code: HEIST_DETECTION_CODES.guard_detected,
+      guardId: entity.id,
+      guardRoomId: guardRoomId ?? null,
+      distance,
+      alertLevel,
+    });
+  }
+
+  return {
+    ...result,
+    state: {
+      ...state,
+      alertLevel: detections.length > 0 ? alertLevel : state.alertLevel,
+      guardSightings,
+    },
+    feedback: withDetections(result.feedback, detections),
+  };
+}
+
+/** Append security (and hazard) detections to `feedback.detections`, keeping earlier ones. */
+function withDetections(
+  feedback: JsonValue,
+  detections: Record<string, JsonValue>[],
+): JsonValue {
+  if (detections.length === 0 || typeof feedback !== "object" || feedback === null) {
+    return feedback;
+  }
+  const record = feedback as Record<string, JsonValue>;
+  const existing = Array.isArray(record.detections) ? record.detections : [];
+  return { ...record, detections: [...existing, ...detections] };
+}
+
 // ---------------------------------------------------------------------------
 // Utilities
 // ---------------------------------------------------------------------------
@@ -749,10 +1720,38 @@ function isActionObject(action: unknown): action is HeistAction {
   return typeof action === "object" && action !== null && "type" in action;
 }
 
-function advanceTurn(state: HeistState): HeistState {
+/**
+ * Line `agentId` up with the engine's `turn` before it acts, so an agent whose
+ * earlier actions were skipped (errors, timeouts) is not a turn behind:
+ * `advanceTurn` then lands it on `turn`. Without a turn (direct calls) the
+ * agent's own action count stands in.
+ */
+function syncAgentTurn(state: HeistState, agentId: AgentId, turn: number | undefined): HeistState {
+  if (turn === undefined || (state.actionsTaken[agentId] ?? 0) === turn - 1) {
+    return state;
+  }
   return {
     ...state,
-    turn: state.turn + 1,
+    actionsTaken: {
+      ...state.actionsTaken,
+      [agentId]: Math.max(0, turn - 1),
+    },
+  };
+}
+
+/**
+ * Count one action for `agentId`. In a shared world every agent acts once per
+ * turn, so the turn only advances when an agent's own action count overtakes it.
+ */
+function advanceTurn(state: HeistState, agentId: AgentId): HeistState {
+  const taken = (state.actionsTaken[agentId] ?? 0) + 1;
+  return {
+    ...state,
+    turn: Math.max(state.turn, taken),
+    actionsTaken: {
+      ...state.actionsTaken,
+      [agentId]: taken,
+    },
   };
 }
 
@@ -800,7 +1799,14 @@ function findDoorBetween(doors: HeistDoor[], roomA: string, roomB: string): Heis
   );
 }
 
-function isDoorPassable(door: HeistDoor, inventory: Set<string>): boolean {
+function isDoorPassable(
+  door: HeistDoor,
+  inventory: Set<string>,
+  openedDoors: Record<string, boolean>,
+): boolean {
+  if (openedDoors[door.id]) {
+    return true;
+  }
   if (door.requiredItem && !inventory.has(door.requiredItem)) {
     return false;
   }
@@ -817,6 +1823,29 @@ function addUnique(items: string[], itemId: string): string[] {
   return [...items, itemId];
 }
 
+/** The `_team` block of a crew member's observation; empty outside team matches. */
+function observeCrew(state: HeistState, agentId: AgentId): Pick<HeistObservation, "_team"> {
+  const teamId = state.teams
+    ? Object.keys(state.teams).find((id) => state.teams![id].includes(agentId))
+    : undefined;
+  if (teamId === undefined) {
+    return {};
+  }
+  const members = state.teams![teamId];
+  const crew = members
+    .filter((id) => id !== agentId)
+    .map((id) => {
+      const member = state.agents[id];
+      return {
+        agentId: id,
+        roomId: member.roomId,
+        inventory: [...member.inventory],
+        extracted: member.extracted,
+      };
+    });
+  return { _team: { teamId, crew } };
+}
+
 function hasRequiredObjectives(state: HeistState, agent: HeistAgentState): boolean {
   const inventory = new Set(agent.inventory);
   return state.params.winCondition.requiredObjectives.every((id) => inventory.has(id));
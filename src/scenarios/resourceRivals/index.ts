@@ -1,4 +1,9 @@
-import type { AdjudicationResult, Scenario } from "../../contract/interfaces.js";
+import type {
+  AdjudicationResult,
+  BatchAdjudicationResult,
+  Scenario,
+  SubmittedAction,
+} from "../../contract/interfaces.js";
 import type { AgentId, JsonValue, Seed } from "../../contract/types.js";
 import { createRng, randomInt } from "../../core/rng.js";
 import { getResourceRivalsBriefing } from "./briefing.js";
@@ -29,7 +34,10 @@ export interface ResourceRivalsState {
   objectives: Objective[];
   /** Index of the current objective (0-based). */
   currentObjective: number;
-  /** Bids collected this turn (partial — one per agent). */
+  /**
+   * Bids collected so far for the current objective when actions arrive one
+   * at a time through `adjudicate`. Always empty between simultaneous turns.
+   */
   pendingBids: Record<AgentId, number>;
   /** Full bid history (one entry per resolved objective). */
   bidHistory: BidRecord[];
@@ -92,6 +100,7 @@ export function createResourceRivalsScenario(
 
   return {
     name: "ResourceRivals",
+    turnStructure: "simultaneous",
 
     init(seed: Seed, agentIds: AgentId[]): ResourceRivalsState {
       const rng = createRng(seed);
@@ -154,33 +163,27 @@ export function createResourceRivalsScenario(
       agentId: AgentId,
       action: ResourceRivalsAction,
     ): AdjudicationResult<ResourceRivalsState> {
-      const bid = resolveBidAmount(action);
-      const remaining = state.resources[agentId] ?? 0;
-
-      // Validate bid
-      if (typeof bid !== "number" || !Number.isInteger(bid) || bid < 0 || bid > remaining) {
-        // Invalid bid: treat as 0 bid, penalize by not participating
-        const newPendingBids = { ...state.pendingBids, [agentId]: 0 };
-        const newState = maybeResolveBids({ ...state, pendingBids: newPendingBids });
-        return {
-          valid: false,
-          state: newState,
-          feedback: {
-            error: `Invalid bid: must be integer in [0, ${remaining}]`,
-            bid: bid ?? null,
-          },
-        };
-      }
-
-      // Record the bid
-      const newPendingBids = { ...state.pendingBids, [agentId]: bid };
+      const checked = checkBid(state, agentId, action);
+      const newPendingBids = { ...state.pendingBids, [agentId]: checked.bid };
       const newState = maybeResolveBids({ ...state, pendingBids: newPendingBids });
+      return { valid: checked.valid, state: newState, feedback: checked.feedback };
+    },
 
-      return {
-        valid: true,
-        state: newState,
-        feedback: { accepted: true, bid },
-      };
+    adjudicateBatch(
+      state: ResourceRivalsState,
+      actions: SubmittedAction<ResourceRivalsAction>[],
+    ): BatchAdjudicationResult<ResourceRivalsState> {
+      const bids: Record<AgentId, number> = {};
+      const results = actions.map(({ agentId, action }) => {
+        const checked = checkBid(state, agentId, action);
+        bids[agentId] = checked.bid;
+        return { agentId, valid: checked.valid, feedback: checked.feedback };
+      });
+      // Agents that failed to submit (e.g. an agent error) bid nothing.
+      for (const id of state.agentIds) {
+        bids[id] ??= 0;
+      }
+      return { state: resolveBids(state, bids), results };
     },
 
     isTerminal(state: ResourceRivalsState): boolean {
@@ -245,6 +248,32 @@ function resolveBidAmount(action: ResourceRivalsAction): number | undefined {
   return undefined;
 }
 
+/**
+ * Validate a bid against the agent's remaining resources. Invalid bids count
+ * as 0: the agent sits the objective out.
+ */
+function checkBid(
+  state: ResourceRivalsState,
+  agentId: AgentId,
+  action: ResourceRivalsAction,
+): { valid: boolean; bid: number; feedback: JsonValue } {
+  const bid = resolveBidAmount(action);
+  const remaining = state.resources[agentId] ?? 0;
+
+  if (typeof bid !== "number" || !Number.isInteger(bid) || bid < 0 || bid > remaining) {
+    return {
+      valid: false,
+      bid: 0,
+      feedback: {
+        error: `Invalid bid: must be integer in [0, ${remaining}]`,
+        bid: bid ?? null,
+      },
+    };
+  }
+
+  return { valid: true, bid, feedback: { accepted: true, bid } };
+}
+
 /**
  * If all agents have submitted bids for the current objective, resolve the
  * bidding round and advance to the next objective.
@@ -257,9 +286,16 @@ function maybeResolveBids(state: ResourceRivalsState): ResourceRivalsState {
     }
   }
 
-  // All bids are in — resolve
+  return resolveBids(state, state.pendingBids);
+}
+
+/** Resolve one bidding round with every agent's bid and advance to the next objective. */
+function resolveBids(
+  state: ResourceRivalsState,
+  submittedBids: Record<AgentId, number>,
+): ResourceRivalsState {
   const objective = state.objectives[state.currentObjective];
-  const bids = { ...state.pendingBids };
+  const bids = { ...submittedBids };
 
   // Deduct resources
   const newResources = { ...state.resources };
@@ -2,6 +2,12 @@ import { mkdirSync } from "node:fs";
 import { readFile, rename, writeFile } from "node:fs/promises";
 import { join, resolve } from "node:path";
 import { stableStringify } from "@/core/json";
+import {
+  appendMatchControlCommand,
+  MATCH_CONTROL_FILENAME,
+  type MatchControlCommand,
+} from "@/core/matchControlFile";
+import { isSafeMatchId } from "@/engine/matchId";
 
 export type MatchLifecycleStatus = "waiting" | "running" | "finished";
 
@@ -15,6 +21,10 @@ export interface MatchLifecycleStatusRecord {
   verified: boolean | null;
   totalTurns: number;
   currentTurn: number | null;
+  /** Set while an operator has the match paused between turns. */
+  paused?: boolean;
+  /** `MatchEnded.reason` once finished, e.g. "cancelled". */
+  endReason?: string;
   errorMessage?: string;
   exitCode?: number | null;
   signal?: NodeJS.Signals | null;
@@ -62,3 +72,41 @@ export async function writeMatchStatusAtomic(
   await writeFile(tmpPath, payload, "utf-8");
   await rename(tmpPath, join(matchDir, "match_status.json"));
 }
+
+export interface MatchControlOutcome {
+  httpStatus: number;
+  body: MatchLifecycleStatusRecord | { error: string };
+}
+
+/**
+ * Queue an operator command for a running match: it is appended to the
+ * match's control file, which the runner process polls. Pause and step take
+ * effect at the next turn boundary; cancel also aborts the turn in flight.
+ */
+export async function controlMatch(
+  matchId: string,
+  command: MatchControlCommand,
+): Promise<MatchControlOutcome> {
+  if (process.env.HASHMATCH_OPERATOR_MODE !== "true") {
+    return { httpStatus: 404, body: { error: "Not Found" } };
+  }
+  if (!isSafeMatchId(matchId)) {
+    return { httpStatus: 404, body: { error: "Match not found" } };
+  }
+  const matchDir = resolveMatchDir(matchId);
+  const status = await readMatchStatus(matchDir);
+  if (!status) {
+    return { httpStatus: 404, body: { error: "Match not found" } };
+  }
+  if (status.status !== "running") {
+    return { httpStatus: 409, body: { error: `Match is ${status.status}` } };
+  }
+
+  await appendMatchControlCommand(join(matchDir, MATCH_CONTROL_FILENAME), command);
+  if (command === "cancel") {
+    return { httpStatus: 200, body: status };
+  }
+  const nextStatus: MatchLifecycleStatusRecord = { ...status, paused: command !== "resume" };
+  await writeMatchStatusAtomic(matchDir, nextStatus);
+  return { httpStatus: 200, body: nextStatus };
+}
@@ -1,4 +1,8 @@
 import { existsSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import type { MatchResult } from "../contract/types.js";
+import { openMatchLogWriter, readMatchLog } from "../core/matchLog.js";
+import { createMatchControl, type MatchControl } from "../engine/matchControl.js";
 import { createUniqueMatchId, isSafeMatchId } from "../engine/matchId.js";
 import { runMatch } from "../engine/runMatch.js";
 import { getAgentFactory, getScenarioFactory } from "../tournament/runTournament.js";
@@ -24,6 +28,8 @@ export interface StartMatchResult {
   matchId: string;
   matchPath: string;
   runPromise: Promise<void>;
+  /** Cancel, pause or step the run. */
+  control: MatchControl;
 }
 
 function resolveSeed(seed?: number): number {
@@ -61,6 +67,7 @@ async function runMatchAndPersist(
   seed: number,
   maxTurns: number,
   startedAt: string,
+  control: MatchControl,
 ): Promise<void> {
   try {
     const scenarioFactory = getScenarioFactory(request.scenarioKey);
@@ -73,13 +80,27 @@ async function runMatchAndPersist(
       return factory(`${agentKey}-${index}`);
     });
 
-    const result = await runMatch(scenario, agents, {
-      seed,
-      maxTurns,
-      matchId,
-    });
-
-    const lastEvent = result.events[result.events.length - 1];
+    // Stream events into match.jsonl as they happen so the SSE route can tail
+    // the live match.
+    const matchLogPath = join(matchDir, "match.jsonl");
+    const matchLog = await openMatchLogWriter(matchLogPath);
+    let result: MatchResult;
+    try {
+      result = await runMatch(scenario, agents, {
+        seed,
+        maxTurns,
+        matchId,
+        eventSink: matchLog.sink,
+        retainEvents: false,
+        signal: control.signal,
+        turnGate: control.waitForTurn,
+      });
+    } finally {
+      await matchLog.close();
+    }
+    const events = await readMatchLog(matchLogPath);
+
+    const lastEvent = events[events.length - 1];
     const reason = lastEvent?.type === "MatchEnded" ? lastEvent.reason : "unknown";
 
     await writeMatchArtifacts({
@@ -91,7 +112,8 @@ async function runMatchAndPersist(
       maxTurns,
       maxTurnTimeMs: result.maxTurnTimeMs,
       modeKey: request.modeKey,
-      events: result.events,
+      events,
+      logWritten: true,
       scores: result.scores,
       timeoutsPerAgent: result.timeoutsPerAgent,
       ...(result.forfeitedBy ? { forfeitedBy: result.forfeitedBy } : {}),
@@ -100,7 +122,8 @@ async function runMatchAndPersist(
       matchDir,
     });
 
-    const finalStatus: MatchStatusState = reason === "completed" ? "complete" : "incomplete";
+    const finalStatus: MatchStatusState =
+      reason === "completed" ? "complete" : reason === "cancelled" ? "cancelled" : "incomplete";
     writeTerminalStatus(matchDir, finalStatus, startedAt);
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
@@ -127,13 +150,14 @@ export async function startMatchRun(request: StartMatchRequest): Promise<StartMa
   const startedAt = new Date().toISOString();
   writeMatchStatus(matchDir, { status: "running", startedAt });
 
+  const control = createMatchControl();
   const runPromise = new Promise<void>((resolve, reject) => {
     setImmediate(() => {
-      runMatchAndPersist(request, matchId, matchDir, seed, maxTurns, startedAt)
+      runMatchAndPersist(request, matchId, matchDir, seed, maxTurns, startedAt, control)
         .then(resolve)
         .catch(reject);
     });
   });
 
-  return { matchId, matchPath: `/match/${matchId}`, runPromise };
+  return { matchId, matchPath: `/match/${matchId}`, runPromise, control };
 }
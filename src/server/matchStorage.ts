@@ -7,6 +7,7 @@ export type MatchStatusState =
   | "complete"
   | "incomplete"
   | "failed"
+  | "cancelled"
   | "completed"
   | "crashed";
 
@@ -84,6 +84,7 @@ function buildTournamentManifest(result: TournamentResult): TournamentManifest {
   return {
     tournamentSeed: result.tournament.tournamentSeed,
     scenarioName: result.tournament.scenarioName,
+    ...(result.tournament.format !== undefined && { format: result.tournament.format }),
     agents: result.tournament.agents,
     matches: result.tournament.matches,
     ...(result.tournament.modeProfile !== undefined && {
@@ -142,7 +143,7 @@ export async function writeTournamentArtifacts(
   mkdirSync(outDir, { recursive: true });
 
   const provenance = await buildMatchManifestProvenance(result);
-  const scenario = getScenarioFactory(result.config.scenarioKey)();
+  const scenario = getScenarioFactory(result.config.scenarioKey, result.config.scenarioPath)();
   const scenarioHints = scenario.getScenarioHints();
   const effectiveMaxTurnTimeMs = resolveMaxTurnTimeMs({
     seed: result.config.seed,
@@ -14,7 +14,8 @@ import {
 import { DEFAULT_HEIST_PARAMS } from "../scenarios/heist/index.js";
 import type { MatchManifestAgent, MatchManifestScenario, TournamentResult } from "./types.js";
 import { parseLlmAgentKey } from "../agents/llm/keys.js";
-import { getAgentProvenanceDescriptor } from "./runTournament.js";
+import type { LlmProvider } from "../agents/llm/types.js";
+import { getAgentProvenanceDescriptor, getBuiltInAgentSourceFile } from "./runTournament.js";
 
 const RUNTIME_ROOT = join(process.cwd(), "src");
 const HASH_EXCLUDE_EXTENSIONS = [".d.ts", ".map"];
@@ -34,23 +35,6 @@ const SCENARIO_PARAMS_BY_KEY: Record<string, JsonValue> = {
   heist: DEFAULT_HEIST_PARAMS as unknown as JsonValue,
 };
 
-const AGENT_PATHS: Record<string, string> = {
-  random: "agents/randomAgent",
-  baseline: "agents/baselineAgent",
-  noop: "agents/noopAgent",
-  randomBidder: "agents/resourceRivals/randomBidder",
-  conservative: "agents/resourceRivals/conservativeAgent",
-  "ollama-heist": "agents/llm",
-};
-
-const BUILTIN_AGENT_FILES: Record<string, string> = {
-  random: "agents/randomAgent.ts",
-  baseline: "agents/baselineAgent.ts",
-  noop: "agents/noopAgent.ts",
-  randomBidder: "agents/resourceRivals/randomBidder.ts",
-  conservative: "agents/resourceRivals/conservativeAgent.ts",
-};
-
 function resolveArtifactPath(relativePath: string): string {
   const directPath = join(RUNTIME_ROOT, relativePath);
   if (existsSync(directPath)) {
@@ -108,6 +92,9 @@ export interface MatchManifestProvenanceConfig {
   scenarioName: string;
   scenarioPath?: string;
   agentKeys: string[];
+  /** Resolve LLM agents' memory policy the way their factories did. */
+  modeProfile?: JsonValue;
+  divisionConfig?: JsonValue;
 }
 
 export async function buildMatchManifestProvenanceFromConfig(
@@ -141,7 +128,7 @@ export async function buildMatchManifestProvenanceFromConfig(
       throw new Error(`Missing agent provenance mapping for "${agentKey}"`);
     }
     let contentHash: string;
-    const builtInAgentFile = BUILTIN_AGENT_FILES[agentKey];
+    const builtInAgentFile = getBuiltInAgentSourceFile(agentKey);
     if (builtInAgentFile) {
       // Built-in agents are hashed from their single source file (no artifact bundle exists).
       contentHash = await hashFile(join(RUNTIME_ROOT, builtInAgentFile));
@@ -161,7 +148,11 @@ export async function buildMatchManifestProvenanceFromConfig(
     if (agentMetadataByKey.has(agentKey)) {
       continue;
     }
-    const descriptor = getAgentProvenanceDescriptor(agentKey);
+    const descriptor = getAgentProvenanceDescriptor(agentKey, {
+      scenarioKey: config.scenarioKey,
+      modeProfile: config.modeProfile,
+      divisionConfig: config.divisionConfig,
+    });
     if (descriptor?.metadata) {
       agentMetadataByKey.set(agentKey, descriptor.metadata);
       agentVersionByKey.set(agentKey, resolveVersionFromMetadata(descriptor.metadata));
@@ -196,22 +187,19 @@ export async function buildMatchManifestProvenanceFromConfig(
 }
 
 function resolveAgentPath(agentKey: string): string | undefined {
-  if (agentKey.startsWith("llm:ollama:")) {
-    return "agents/llm";
-  }
-  if (agentKey.startsWith("llm:openrouter:")) {
+  if (agentKey.startsWith("llm:")) {
     return "agents/llm";
   }
   if (agentKey === "ollama-heist") {
     return "agents/llm";
   }
-  return AGENT_PATHS[agentKey];
+  return getBuiltInAgentSourceFile(agentKey);
 }
 
 function resolveLlmDescriptor(agentKey: string): {
   kind: "llm";
   purpose: "competitive" | "test";
-  provider: "ollama" | "openrouter";
+  provider: LlmProvider;
   model: string;
 } {
   if (agentKey === "ollama-heist") {
@@ -235,6 +223,9 @@ export async function buildMatchManifestProvenance(
   return buildMatchManifestProvenanceFromConfig({
     scenarioKey: result.config.scenarioKey,
     scenarioName: result.tournament.scenarioName,
+    ...(result.config.scenarioPath ? { scenarioPath: result.config.scenarioPath } : {}),
     agentKeys: result.config.agentKeys,
+    modeProfile: result.config.modeProfile,
+    divisionConfig: result.config.divisionConfig,
   });
 }
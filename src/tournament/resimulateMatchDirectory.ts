@@ -0,0 +1,57 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { hashFile } from "../core/hash.js";
+import { readMatchLog } from "../core/matchLog.js";
+import {
+  resimulateMatch,
+  type ResimulateOptions,
+  type ResimulationReport,
+} from "../engine/resimulate.js";
+import { getScenarioFactoryByName } from "./runTournament.js";
+import type { MatchManifest } from "./types.js";
+
+export interface ResimulateMatchDirectoryOptions extends ResimulateOptions {
+  /**
+   * Heist scenario file the match was run with, if not the built-in default.
+   * Must hash to the `scenario.contentHash` in `match_manifest.json`.
+   */
+  scenarioPath?: string;
+}
+
+async function assertScenarioFileMatchesManifest(
+  matchDir: string,
+  scenarioPath: string,
+): Promise<void> {
+  const manifestPath = join(matchDir, "match_manifest.json");
+  const manifest = JSON.parse(await readFile(manifestPath, "utf-8")) as Partial<MatchManifest>;
+  const expected = manifest.scenario?.contentHash;
+  const actual = await hashFile(scenarioPath);
+  if (actual !== expected) {
+    throw new Error(
+      `Scenario file ${scenarioPath} does not match the match manifest (expected ${expected ?? "no contentHash"}, got ${actual})`,
+    );
+  }
+}
+
+/**
+ * Re-simulate `<matchDir>/match.jsonl` against the scenario its
+ * `MatchStarted` event names.
+ */
+export async function resimulateMatchDirectory(
+  matchDir: string,
+  options: ResimulateMatchDirectoryOptions = {},
+): Promise<ResimulationReport> {
+  const events = await readMatchLog(join(matchDir, "match.jsonl"));
+  if (events[0]?.type === "MatchSetupFailed") {
+    return { ok: true, eventsChecked: events.length };
+  }
+  const started = events[0];
+  if (started?.type !== "MatchStarted") {
+    throw new Error(`${matchDir}/match.jsonl does not begin with MatchStarted`);
+  }
+  if (options.scenarioPath !== undefined) {
+    await assertScenarioFileMatchesManifest(matchDir, options.scenarioPath);
+  }
+  const scenario = getScenarioFactoryByName(started.scenarioName, options.scenarioPath)();
+  return resimulateMatch(scenario, events, options);
+}
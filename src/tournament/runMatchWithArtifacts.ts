@@ -1,8 +1,17 @@
-import { mkdirSync, writeFileSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
 import { join } from "node:path";
+import type { MatchControl } from "../engine/matchControl.js";
 import { runMatch } from "../engine/runMatch.js";
 import { runMatchWithGateway } from "../engine/runMatchWithGateway.js";
+import type {
+  Agent,
+  MatchCheckpoint,
+  MatchRunnerConfig,
+  Scenario,
+} from "../contract/interfaces.js";
 import type { MatchEndedEvent, MatchResult, MatchSetupFailedEvent } from "../contract/types.js";
+import { openMatchLogWriter, readMatchLog, truncateMatchLog } from "../core/matchLog.js";
 import { createHttpAdapter } from "../gateway/httpAdapter.js";
 import { createTranscriptWriter } from "../gateway/transcript.js";
 import type { GatewayRuntimeConfig } from "../gateway/runtime.js";
@@ -10,6 +19,11 @@ import { writeMatchArtifacts, writeMatchArtifactsCore } from "./writeMatchArtifa
 import { getAgentFactory, getScenarioFactory } from "./runTournament.js";
 import { LlmPreflightError, preflightValidateLlmAgents } from "../agents/llm/preflight.js";
 import { parseLlmAgentKey } from "../agents/llm/keys.js";
+import {
+  LLM_CASSETTE_FILENAME,
+  openLlmCassette,
+  type LlmCassetteMode,
+} from "../agents/llm/cassette.js";
 import { createMatchIdFromSeed } from "../engine/matchId.js";
 import { stableStringify } from "../core/json.js";
 import { buildMatchManifestProvenanceFromConfig } from "./provenance.js";
@@ -18,6 +32,8 @@ import type { MatchManifest, MatchSummary } from "./types.js";
 
 export interface RunMatchArtifactsOptions {
   scenarioKey: string;
+  /** Heist scenario file to play; hashed into the manifest's scenario provenance. */
+  scenarioPath?: string;
   agentKeys: string[];
   seed: number;
   maxTurns: number;
@@ -28,6 +44,24 @@ export interface RunMatchArtifactsOptions {
   transcriptDir?: string;
   provenance?: { engineCommit?: string; engineVersion?: string };
   modeKey?: string;
+  /** Continue a crashed run from its checkpoint; `outDir` must hold that run's match.jsonl. */
+  resumeFrom?: MatchCheckpoint;
+  /** Operator cancel/pause/step handle for this run. */
+  control?: MatchControl;
+  /**
+   * Record LLM calls to, or replay them from, a cassette. `path` defaults to
+   * `llm_cassette.json` in `outDir`. Replay makes no network calls and skips
+   * the LLM preflight.
+   */
+  llmCassette?: { mode: LlmCassetteMode; path?: string };
+}
+
+export const MATCH_CHECKPOINT_FILENAME = "checkpoint.json";
+
+/** Contents of checkpoint.json: the engine checkpoint plus the options to rebuild the match. */
+export interface MatchCheckpointFile {
+  options: Omit<RunMatchArtifactsOptions, "outDir" | "resumeFrom" | "control">;
+  checkpoint: MatchCheckpoint;
 }
 
 export interface RunMatchArtifactsOutcome {
@@ -55,7 +89,7 @@ export async function runMatchWithArtifacts(
     }
     return [];
   });
-  if (llmAgents.length > 0) {
+  if (llmAgents.length > 0 && options.llmCassette?.mode !== "replay") {
     try {
       await preflightValidateLlmAgents(llmAgents);
     } catch (err: unknown) {
@@ -65,10 +99,19 @@ export async function runMatchWithArtifacts(
       throw err;
     }
   }
-  const scenarioFactory = getScenarioFactory(options.scenarioKey);
+  const scenarioFactory = getScenarioFactory(options.scenarioKey, options.scenarioPath);
+  const cassette = options.llmCassette
+    ? openLlmCassette(resolveCassettePath(options), options.llmCassette.mode, {
+        resume: options.resumeFrom !== undefined,
+      })
+    : undefined;
   const agentFactories = options.agentKeys.map((key, index) => ({
     key,
-    factory: getAgentFactory(key, { scenarioKey: options.scenarioKey, slotIndex: index }),
+    factory: getAgentFactory(key, {
+      scenarioKey: options.scenarioKey,
+      slotIndex: index,
+      ...(cassette ? { cassette } : {}),
+    }),
   }));
 
   const scenario = scenarioFactory();
@@ -79,12 +122,6 @@ export async function runMatchWithArtifacts(
     return agentConfig.factory(`${agentConfig.key}-${index}`);
   });
 
-  const matchConfig = {
-    seed: options.seed,
-    maxTurns: options.maxTurns,
-    ...(options.provenance ? { provenance: options.provenance } : {}),
-    ...(options.matchId ? { matchId: options.matchId } : {}),
-  };
   if (options.gateway === "http") {
     if (!options.agentUrls || options.agentUrls.length !== options.agentKeys.length) {
       throw new Error("agentUrls must be provided for each agent when gateway http is enabled");
@@ -94,7 +131,90 @@ export async function runMatchWithArtifacts(
     }
   }
   const agentUrls = options.agentUrls ?? [];
+
+  // With an outDir, events go straight to match.jsonl as they happen instead
+  // of piling up in memory until the match ends, and every turn leaves a
+  // checkpoint.json that resumeMatchWithArtifacts can pick up after a crash.
+  const matchLogPath = options.outDir ? join(options.outDir, "match.jsonl") : undefined;
+  const checkpointPath = options.outDir
+    ? join(options.outDir, MATCH_CHECKPOINT_FILENAME)
+    : undefined;
+  if (matchLogPath && options.resumeFrom) {
+    await truncateMatchLog(matchLogPath, options.resumeFrom.seq);
+  }
+  const matchLog = matchLogPath
+    ? await openMatchLogWriter(matchLogPath, { append: options.resumeFrom !== undefined })
+    : undefined;
+  const matchConfig: MatchRunnerConfig = {
+    seed: options.seed,
+    maxTurns: options.maxTurns,
+    ...(options.provenance ? { provenance: options.provenance } : {}),
+    ...(options.matchId ? { matchId: options.matchId } : {}),
+    ...(matchLog ? { eventSink: matchLog.sink, retainEvents: false } : {}),
+    ...(checkpointPath
+      ? {
+          onCheckpoint: (checkpoint: MatchCheckpoint) => {
+            // The cassette must hold every call up to the checkpoint a resume starts from.
+            cassette?.flush();
+            return writeCheckpointFile(checkpointPath, options, checkpoint);
+          },
+        }
+      : {}),
+    ...(options.resumeFrom ? { resumeFrom: options.resumeFrom } : {}),
+    ...(options.control
+      ? { signal: options.control.signal, turnGate: options.control.waitForTurn }
+      : {}),
+  };
   let result: MatchResult;
+  try {
+    result = await runMatchForArtifacts(scenario, agents, matchConfig, options, agentUrls);
+  } finally {
+    await matchLog?.close();
+    cassette?.flush();
+  }
+  if (matchLogPath) {
+    result = { ...result, events: await readMatchLog(matchLogPath) };
+  }
+  if (checkpointPath) {
+    rmSync(checkpointPath, { force: true });
+  }
+
+  const lastEvent = result.events[result.events.length - 1];
+  const reason = lastEvent?.type === "MatchEnded" ? lastEvent.reason : "unknown";
+
+  if (options.outDir) {
+    await writeMatchArtifacts({
+      matchId: result.matchId,
+      scenarioName: scenario.name,
+      scenarioKey: options.scenarioKey,
+      ...(options.scenarioPath ? { scenarioPath: options.scenarioPath } : {}),
+      scenarioHints: scenario.getScenarioHints(),
+      agentKeys: options.agentKeys,
+      seed: options.seed,
+      maxTurns: options.maxTurns,
+      maxTurnTimeMs: result.maxTurnTimeMs,
+      events: result.events,
+      scores: result.scores,
+      timeoutsPerAgent: result.timeoutsPerAgent,
+      ...(result.forfeitedBy ? { forfeitedBy: result.forfeitedBy } : {}),
+      turns: result.turns,
+      reason,
+      matchDir: options.outDir,
+      logWritten: true,
+      ...(options.modeKey ? { modeKey: options.modeKey } : {}),
+    });
+  }
+
+  return { result, scenarioName: scenario.name, reason };
+}
+
+async function runMatchForArtifacts<TState, TObs, TAct>(
+  scenario: Scenario<TState, TObs, TAct>,
+  agents: Agent<TObs, TAct>[],
+  matchConfig: MatchRunnerConfig,
+  options: RunMatchArtifactsOptions,
+  agentUrls: string[],
+): Promise<MatchResult> {
   if (options.gateway) {
     const gatewayDefaults = {
       defaultDeadlineMs: 5000,
@@ -120,36 +240,59 @@ export async function runMatchWithArtifacts(
         : {}),
     };
 
-    result = await runMatchWithGateway(scenario, agents, matchConfig, gatewayConfig);
-  } else {
-    result = await runMatch(scenario, agents, matchConfig);
+    return runMatchWithGateway(scenario, agents, matchConfig, gatewayConfig);
   }
+  return runMatch(scenario, agents, matchConfig);
+}
 
-  const lastEvent = result.events[result.events.length - 1];
-  const reason = lastEvent?.type === "MatchEnded" ? lastEvent.reason : "unknown";
-
-  if (options.outDir) {
-    await writeMatchArtifacts({
-      matchId: result.matchId,
-      scenarioName: scenario.name,
-      scenarioKey: options.scenarioKey,
-      scenarioHints: scenario.getScenarioHints(),
-      agentKeys: options.agentKeys,
-      seed: options.seed,
-      maxTurns: options.maxTurns,
-      maxTurnTimeMs: result.maxTurnTimeMs,
-      events: result.events,
-      scores: result.scores,
-      timeoutsPerAgent: result.timeoutsPerAgent,
-      ...(result.forfeitedBy ? { forfeitedBy: result.forfeitedBy } : {}),
-      turns: result.turns,
-      reason,
-      matchDir: options.outDir,
-      ...(options.modeKey ? { modeKey: options.modeKey } : {}),
-    });
+function resolveCassettePath(options: RunMatchArtifactsOptions): string {
+  if (options.llmCassette?.path) {
+    return options.llmCassette.path;
+  }
+  if (!options.outDir) {
+    throw new Error("An LLM cassette needs a path or an outDir to live in.");
   }
+  return join(options.outDir, LLM_CASSETTE_FILENAME);
+}
 
-  return { result, scenarioName: scenario.name, reason };
+// ---------------------------------------------------------------------------
+// Checkpoints
+// ---------------------------------------------------------------------------
+
+async function writeCheckpointFile(
+  path: string,
+  options: RunMatchArtifactsOptions,
+  checkpoint: MatchCheckpoint,
+): Promise<void> {
+  // Round-trip through JSON to drop undefined options before stable serialization.
+  const savedOptions = JSON.parse(
+    JSON.stringify({ ...options, outDir: undefined, resumeFrom: undefined, control: undefined }),
+  ) as MatchCheckpointFile["options"];
+  const file: MatchCheckpointFile = { options: savedOptions, checkpoint };
+  const tmpPath = `${path}.tmp`;
+  await writeFile(tmpPath, stableStringify(file) + "\n", "utf-8");
+  await rename(tmpPath, path);
+}
+
+/**
+ * Continue a match whose run died part-way, from the checkpoint.json left in
+ * `matchDir`. For deterministic agents the finished match.jsonl is identical
+ * to the one an uninterrupted run would have written.
+ */
+export async function resumeMatchWithArtifacts(
+  matchDir: string,
+): Promise<RunMatchArtifactsOutcome> {
+  const path = join(matchDir, MATCH_CHECKPOINT_FILENAME);
+  if (!existsSync(path)) {
+    throw new Error(`No ${MATCH_CHECKPOINT_FILENAME} in ${matchDir}; nothing to resume.`);
+  }
+  const { options, checkpoint } = JSON.parse(readFileSync(path, "utf-8")) as MatchCheckpointFile;
+  return runMatchWithArtifacts({
+    ...options,
+    matchId: checkpoint.matchId,
+    outDir: matchDir,
+    resumeFrom: checkpoint,
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -195,6 +338,7 @@ async function writePreflightFailureArtifacts(
   const provenance = await buildMatchManifestProvenanceFromConfig({
     scenarioKey: options.scenarioKey,
     scenarioName,
+    ...(options.scenarioPath ? { scenarioPath: options.scenarioPath } : {}),
     agentKeys: options.agentKeys,
   });
   const agentIds = options.agentKeys.map((key, index) => `${key}-${index}`);
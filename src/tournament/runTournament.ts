@@ -6,22 +6,30 @@ import type {
   MatchEvent,
   MatchSetupFailedEvent,
   Seed,
+  TeamAssignment,
 } from "../contract/types.js";
 import { runMatch } from "../engine/runMatch.js";
 import { createNumberGuessScenario } from "../scenarios/numberGuess/index.js";
 import { createHeistScenario } from "../scenarios/heist/index.js";
+import { loadHeistScenarioFile } from "../games/heist/scenarioFile.js";
 import { createResourceRivalsScenario } from "../scenarios/resourceRivals/index.js";
 import { createRandomAgent } from "../agents/randomAgent.js";
 import { createBaselineAgent } from "../agents/baselineAgent.js";
 import { createNoopAgent } from "../agents/noopAgent.js";
 import { createRandomBidderAgent } from "../agents/resourceRivals/randomBidder.js";
 import { createConservativeAgent } from "../agents/resourceRivals/conservativeAgent.js";
+import { createValueBidderAgent } from "../agents/resourceRivals/valueBidder.js";
+import { createHeistPlannerAgent } from "../agents/heist/plannerAgent.js";
 import { buildOllamaHeistMetadata } from "../agents/ollama/index.js";
-import { getScenarioAdapter } from "../agents/llm/adapters.js";
+import { getScenarioAdapter, resolveScenarioPrompt } from "../agents/llm/adapters.js";
 import { createLlmAgent } from "../agents/llm/createLlmAgent.js";
 import { resolveLlmBudgetConfig } from "../agents/llm/budget.js";
+import { describeLlmMemory, resolveLlmMemoryConfig } from "../agents/llm/memory.js";
+import type { LlmCassette } from "../agents/llm/cassette.js";
+import { getLlmProvider, listLlmProviderIds, resolveOllamaModel } from "../agents/llm/providers.js";
 import type { LlmProvider } from "../agents/llm/types.js";
 import { parseLlmAgentKey } from "../agents/llm/keys.js";
+import { describePromptTemplate } from "../agents/llm/prompts.js";
 import { LlmPreflightError, preflightValidateLlmAgents } from "../agents/llm/preflight.js";
 import { createMatchIdFromSeed } from "../engine/matchId.js";
 import type {
@@ -31,7 +39,12 @@ import type {
   TournamentConfig,
   TournamentResult,
 } from "./types.js";
-import { computeStandings } from "./standings.js";
+import {
+  computeStandings,
+  computeTeamStandings,
+  rankByScore,
+  winnerFromPlacements,
+} from "./standings.js";
 
 // ---------------------------------------------------------------------------
 // Registries (v0.1 — built-in only)
@@ -46,6 +59,8 @@ export interface AgentProvenanceDescriptor {
 
 interface AgentRegistration {
   factory: AgentFactory;
+  /** Source file under `src/`, hashed into the agent's provenance. */
+  sourceFile: string;
   provenance?: AgentProvenanceDescriptor | (() => AgentProvenanceDescriptor);
 }
 
@@ -54,6 +69,8 @@ interface AgentFactoryOptions {
   slotIndex?: number;
   modeProfile?: JsonValue;
   divisionConfig?: JsonValue;
+  /** LLM agents record their calls to, or replay them from, this cassette. */
+  cassette?: LlmCassette;
 }
 
 const scenarioRegistry: Record<string, ScenarioFactory> = {
@@ -62,74 +79,54 @@ const scenarioRegistry: Record<string, ScenarioFactory> = {
   resourceRivals: createResourceRivalsScenario,
 };
 
-// All five built-in agents are scripted/deterministic (no LLM provider or
+// All seven built-in agents are scripted/deterministic (no LLM provider or
 // model config). They are explicitly tagged as non-publishable test fixtures
 // so the publish pipeline can reject them. Category (B) agents (random,
 // baseline, randomBidder, conservative) will be migrated to LLM-backed
-// versions once the provider gateway lands — see #125.
+// versions once the provider gateway lands — see #125. The heuristic agents
+// (heistPlanner, valueBidder) give tournaments real opponents without a model
+// server.
 const agentRegistry: Record<string, AgentRegistration> = {
   random: {
     factory: createRandomAgent,
+    sourceFile: "agents/randomAgent.ts",
     provenance: { metadata: { agentType: "scripted", purpose: "test" } },
   },
   baseline: {
     factory: createBaselineAgent,
+    sourceFile: "agents/baselineAgent.ts",
     provenance: { metadata: { agentType: "scripted", purpose: "test" } },
   },
   noop: {
     factory: createNoopAgent,
+    sourceFile: "agents/noopAgent.ts",
     provenance: { metadata: { agentType: "scripted", purpose: "test" } },
   },
   randomBidder: {
     factory: createRandomBidderAgent,
+    sourceFile: "agents/resourceRivals/randomBidder.ts",
     provenance: { metadata: { agentType: "scripted", purpose: "test" } },
   },
   conservative: {
     factory: createConservativeAgent,
+    sourceFile: "agents/resourceRivals/conservativeAgent.ts",
+    provenance: { metadata: { agentType: "scripted", purpose: "test" } },
+  },
+  valueBidder: {
+    factory: createValueBidderAgent,
+    sourceFile: "agents/resourceRivals/valueBidder.ts",
+    provenance: { metadata: { agentType: "scripted", purpose: "test" } },
+  },
+  heistPlanner: {
+    factory: createHeistPlannerAgent,
+    sourceFile: "agents/heist/plannerAgent.ts",
     provenance: { metadata: { agentType: "scripted", purpose: "test" } },
   },
 };
 
-const knownLlmProviders: LlmProvider[] = ["ollama", "openrouter"];
 const llmAgentKeys = ["llm:<provider>:<model>[:<purpose>]", "ollama-heist"];
-const DEFAULT_OLLAMA_MODEL = "qwen2.5:3b";
 let ollamaHeistDeprecatedWarned = false;
 
-function resolveTemperature(): { value: number; options?: Record<string, unknown> } {
-  const raw = process.env.OLLAMA_TEMPERATURE;
-  if (!raw || raw.trim().length === 0) {
-    return { value: 0.3 };
-  }
-  const parsed = Number(raw);
-  if (!Number.isFinite(parsed)) {
-    return { value: 0.3 };
-  }
-  return { value: parsed, options: { temperature: parsed } };
-}
-
-function resolveOllamaModel(
-  keyModel: string | undefined,
-  slotIndex?: number,
-  allowGlobalOverride = true,
-): string {
-  if (slotIndex !== undefined) {
-    const override = process.env[`OLLAMA_MODEL_${slotIndex}`];
-    if (override && override.trim().length > 0) {
-      return override.trim();
-    }
-  }
-  if (keyModel && keyModel.trim().length > 0) {
-    return keyModel.trim();
-  }
-  if (allowGlobalOverride) {
-    const globalModel = process.env.OLLAMA_MODEL;
-    if (globalModel && globalModel.trim().length > 0) {
-      return globalModel.trim();
-    }
-  }
-  return DEFAULT_OLLAMA_MODEL;
-}
-
 function resolveLlmAgentFactory(
   provider: LlmProvider,
   model: string,
@@ -137,6 +134,8 @@ function resolveLlmAgentFactory(
   slotIndex: number | undefined,
   modeProfile?: JsonValue,
   divisionConfig?: JsonValue,
+  cassette?: LlmCassette,
+  promptTemplate?: string,
 ): AgentFactory {
   if (!scenarioKey) {
     throw new Error(
@@ -144,73 +143,89 @@ function resolveLlmAgentFactory(
     );
   }
 
-  if (!knownLlmProviders.includes(provider)) {
+  const definition = getLlmProvider(provider);
+  if (!definition) {
     throw new Error(
-      `Unknown LLM provider "${provider}". Available providers: ${knownLlmProviders.join(", ")}`,
+      `Unknown LLM provider "${provider}". Available providers: ${listLlmProviderIds().join(", ")}`,
     );
   }
 
-  const adapter = getScenarioAdapter(scenarioKey);
+  const adapter = getScenarioAdapter(scenarioKey, promptTemplate);
   const budget = resolveLlmBudgetConfig(modeProfile, divisionConfig);
-
-  if (provider === "ollama") {
-    const endpoint = process.env.OLLAMA_ENDPOINT?.trim();
-    const baseUrl = endpoint ? `${endpoint.replace(/\/$/, "")}/v1` : "http://localhost:11434/v1";
-    const resolvedModel = resolveOllamaModel(model, slotIndex);
-    return (id: AgentId) =>
-      createLlmAgent(
-        id,
-        {
+  const memory = resolveLlmMemoryConfig(modeProfile, divisionConfig);
+  const resolvedModel = definition.resolveModel?.(model, slotIndex) ?? model;
+  const baseUrl = definition.baseUrl();
+  const temperature = definition.temperature?.();
+
+  return (id: AgentId) =>
+    createLlmAgent(
+      id,
+      {
         provider,
+        api: definition.api,
+        structuredOutput: definition.structuredOutput,
         model: resolvedModel,
-        temperature: resolveTemperature().value,
+        ...(temperature !== undefined ? { temperature } : {}),
         baseUrl,
-        apiKey: process.env.OLLAMA_API_KEY ?? "ollama",
+        apiKey: definition.apiKey(),
         budget,
-        },
-        adapter,
-      ) as Agent<Record<string, unknown>, Record<string, unknown>>;
-  }
-
-  if (provider === "openrouter") {
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    const baseUrl = process.env.OPENROUTER_BASE_URL?.trim() || "https://openrouter.ai/api/v1";
-    return (id: AgentId) =>
-      createLlmAgent(
-        id,
-        {
-        provider,
-        model,
-        temperature: resolveTemperature().value,
-        baseUrl,
-        apiKey,
-        budget,
-        },
-        adapter,
-      ) as Agent<Record<string, unknown>, Record<string, unknown>>;
-  }
+        memory,
+        cassette,
+      },
+      adapter,
+    ) as Agent<Record<string, unknown>, Record<string, unknown>>;
+}
 
-  throw new Error(`Provider "${provider}" is registered but has no factory. This is a bug.`);
+/** Source file of a built-in scripted agent, relative to `src/`. */
+export function getBuiltInAgentSourceFile(key: string): string | undefined {
+  return agentRegistry[key]?.sourceFile;
 }
 
 function listAvailableAgentKeys(): string {
   return [...Object.keys(agentRegistry), ...llmAgentKeys].join(", ");
 }
 
-/** Resolve a scenario factory by key. Throws if unknown. */
-export function getScenarioFactory(key: string): ScenarioFactory {
+/**
+ * Resolve a scenario factory by key. Throws if unknown.
+ *
+ * When `scenarioPath` is given the scenario params come from that file
+ * (validated up front) instead of the built-in defaults. Only heist supports
+ * scenario files.
+ */
+export function getScenarioFactory(key: string, scenarioPath?: string): ScenarioFactory {
   const factory = scenarioRegistry[key];
   if (!factory) {
     const available = Object.keys(scenarioRegistry).join(", ");
     throw new Error(`Unknown scenario "${key}". Available: ${available}`);
   }
-  return factory;
+  if (scenarioPath === undefined) {
+    return factory;
+  }
+  if (key !== "heist") {
+    throw new Error(`Scenario "${key}" does not support scenario files. Use --scenario heist.`);
+  }
+  const { params } = loadHeistScenarioFile(scenarioPath);
+  return () => createHeistScenario(params);
+}
+
+/**
+ * Resolve a scenario factory from the `scenarioName` a match log records
+ * (e.g. "Heist"), the inverse of `getScenarioFactory(key)().name`.
+ */
+export function getScenarioFactoryByName(name: string, scenarioPath?: string): ScenarioFactory {
+  const key = Object.keys(scenarioRegistry).find(
+    (entry) => scenarioRegistry[entry]().name === name,
+  );
+  if (!key) {
+    throw new Error(`No registered scenario is named "${name}".`);
+  }
+  return getScenarioFactory(key, scenarioPath);
 }
 
 /** Resolve an agent factory by key. Throws if unknown. */
 export function getAgentFactory(key: string, options: AgentFactoryOptions = {}): AgentFactory {
   if (key.startsWith("llm:")) {
-    const { provider, model } = parseLlmAgentKey(key);
+    const { provider, model, promptTemplate } = parseLlmAgentKey(key);
     return resolveLlmAgentFactory(
       provider,
       model,
@@ -218,6 +233,8 @@ export function getAgentFactory(key: string, options: AgentFactoryOptions = {}):
       options.slotIndex,
       options.modeProfile,
       options.divisionConfig,
+      options.cassette,
+      promptTemplate,
     );
   }
 
@@ -235,6 +252,7 @@ export function getAgentFactory(key: string, options: AgentFactoryOptions = {}):
       options.slotIndex,
       options.modeProfile,
       options.divisionConfig,
+      options.cassette,
     );
   }
 
@@ -267,26 +285,45 @@ export function getAgentFactory(key: string, options: AgentFactoryOptions = {}):
     }
   }
 
+  if (key === "heistPlanner") {
+    if (!options.scenarioKey) {
+      throw new Error('Internal: getAgentFactory("heistPlanner") requires scenarioKey.');
+    }
+    if (options.scenarioKey !== "heist") {
+      throw new Error('Agent "heistPlanner" is Heist-only. Use "noop" or an LLM agent instead.');
+    }
+  }
+
   return registration.factory;
 }
 
-export function getAgentProvenanceDescriptor(key: string): AgentProvenanceDescriptor | undefined {
+/**
+ * Provenance metadata for an agent key. LLM agents also record their memory
+ * policy, resolved from the same mode profile and division config as their
+ * factory, so matches played under different policies are told apart, and,
+ * given the scenario, the name and hash of their rendered prompt template.
+ */
+export function getAgentProvenanceDescriptor(
+  key: string,
+  options: Pick<AgentFactoryOptions, "scenarioKey" | "modeProfile" | "divisionConfig"> = {},
+): AgentProvenanceDescriptor | undefined {
+  const memory = describeLlmMemory(
+    resolveLlmMemoryConfig(options.modeProfile, options.divisionConfig),
+  );
+  const describePrompt = (promptTemplate?: string) =>
+    options.scenarioKey
+      ? describePromptTemplate(resolveScenarioPrompt(options.scenarioKey, promptTemplate))
+      : {};
   if (key === "ollama-heist") {
     const model = resolveOllamaModel(undefined);
-    return { metadata: buildOllamaHeistMetadata(model) };
+    return { metadata: { ...buildOllamaHeistMetadata(model), memory, ...describePrompt() } };
   }
   if (key.startsWith("llm:")) {
-    const { provider, model } = parseLlmAgentKey(key);
-    if (provider === "ollama") {
-      return { metadata: buildOllamaHeistMetadata(model) };
-    }
-    if (provider === "openrouter") {
+    const { provider, model, promptTemplate } = parseLlmAgentKey(key);
+    const definition = getLlmProvider(provider);
+    if (definition) {
       return {
-        metadata: {
-          llmProvider: "openrouter",
-          model,
-          nondeterministic: true,
-        },
+        metadata: { ...definition.provenance(model), memory, ...describePrompt(promptTemplate) },
       };
     }
   }
@@ -328,7 +365,9 @@ export function deriveMatchSeed(tournamentSeed: Seed, matchKey: MatchKey): Seed
 // ---------------------------------------------------------------------------
 
 /**
- * Run a complete round-robin tournament.
+ * Run a complete tournament: round-robin pairs, or free-for-all matches with
+ * every agent seated (`config.format`). With `config.teamSize` the same
+ * formats schedule teams, and every match seats whole teams.
  *
  * Deterministic: given the same config, produces identical results.
  */
@@ -337,7 +376,11 @@ export async function runTournament(config: TournamentConfig): Promise<Tournamen
     seed,
     maxTurns,
     rounds,
+    format = "roundRobin",
+    placementPoints,
+    teamSize,
     scenarioKey,
+    scenarioPath,
     agentKeys,
     includeEventLogs,
     modeProfile,
@@ -364,7 +407,26 @@ export async function runTournament(config: TournamentConfig): Promise<Tournamen
     return [];
   });
   // Validate
-  const scenarioFactory = getScenarioFactory(scenarioKey);
+  if (format !== "roundRobin" && format !== "freeForAll") {
+    throw new Error(
+      `Unknown tournament format "${String(format)}". Available: roundRobin, freeForAll`,
+    );
+  }
+  if (format === "freeForAll" && agentKeys.length < 2) {
+    throw new Error("A free-for-all tournament needs at least two agents.");
+  }
+  if (
+    teamSize !== undefined &&
+    (!Number.isInteger(teamSize) ||
+      teamSize < 1 ||
+      agentKeys.length % teamSize !== 0 ||
+      agentKeys.length < 2 * teamSize)
+  ) {
+    throw new Error(
+      `Team size ${teamSize} must be a positive integer that splits the ${agentKeys.length} agents into at least two teams.`,
+    );
+  }
+  const scenarioFactory = getScenarioFactory(scenarioKey, scenarioPath);
   const agentFactories = agentKeys.map((key, index) => ({
     key,
     factory: getAgentFactory(key, {
@@ -380,149 +442,180 @@ export async function runTournament(config: TournamentConfig): Promise<Tournamen
   const matchLogs: Record<MatchKey, MatchEvent[]> = {};
   const agentIds = agentFactories.map((a, i) => `${a.key}-${i}`);
   const scenarioName = scenarioFactory().name;
+  // Team `t` is agents t*teamSize .. (t+1)*teamSize-1; without teams, every
+  // agent is a team of one and the schedule below is unchanged.
+  const size = teamSize ?? 1;
+  const rosters = Array.from({ length: agentIds.length / size }, (_, t) =>
+    Array.from({ length: size }, (_, k) => t * size + k),
+  );
+  const teams: TeamAssignment | undefined = teamSize
+    ? Object.fromEntries(
+        rosters.map((roster, t) => [`team-${t}`, roster.map((index) => agentIds[index])]),
+      )
+    : undefined;
   let preflightOk = false;
 
-  // Round-robin: for every unordered pair (i, j) with i < j, play `rounds` matches
+  /**
+   * Play one scheduled match between teams (in canonical order, used for the
+   * summary) with `seatOrder` the same teams in seat order. Members of the
+   * seated teams alternate: first members of each team, then second members.
+   */
+  const playScheduledMatch = async (
+    matchKey: MatchKey,
+    entrantTeams: number[],
+    seatOrder: number[],
+  ): Promise<void> => {
+    // Stable competitor IDs (index-based, independent of seat order)
+    const entrantIds = entrantTeams.flatMap((t) => rosters[t].map((index) => agentIds[index]));
+    const seats = rosters[0].flatMap((_, k) => seatOrder.map((t) => rosters[t][k]));
+    const matchTeams: TeamAssignment | undefined = teams
+      ? Object.fromEntries(entrantTeams.map((t) => [`team-${t}`, teams[`team-${t}`]]))
+      : undefined;
+    const matchSeed = deriveMatchSeed(seed, matchKey);
+    matchSpecs.push({
+      matchKey,
+      seed: matchSeed,
+      scenarioName,
+      agentIds: entrantIds,
+      maxTurns,
+    });
+
+    let preflightError: unknown;
+    if (llmAgents.length > 0 && !preflightOk) {
+      try {
+        await preflightValidateLlmAgents(llmAgents);
+        preflightOk = true;
+      } catch (err: unknown) {
+        preflightError = err;
+      }
+    }
+
+    if (preflightError) {
+      const matchId = createMatchIdFromSeed(matchSeed);
+      const safeMessage =
+        preflightError instanceof Error ? preflightError.message : String(preflightError);
+      const safeDetails =
+        preflightError instanceof LlmPreflightError ? preflightError.details : undefined;
+      const setupFailedEvent: MatchSetupFailedEvent = {
+        type: "MatchSetupFailed",
+        seq: 0,
+        matchId,
+        message: safeMessage,
+        ...(safeDetails ? { details: safeDetails } : {}),
+      };
+      const matchEndedEvent: MatchEndedEvent = {
+        type: "MatchEnded",
+        seq: 1,
+        matchId,
+        reason: "setupFailed",
+        scores: {},
+        turns: 0,
+      };
+      const failureEvents = [setupFailedEvent, matchEndedEvent];
+
+      if (includeEventLogs) {
+        matchLogs[matchKey] = failureEvents;
+      }
+
+      const zeroes = Object.fromEntries(entrantIds.map((id) => [id, 0]));
+      const teamZeroes =
+        matchTeams && Object.fromEntries(Object.keys(matchTeams).map((id) => [id, 0]));
+      const ranked = teamZeroes ?? zeroes;
+      matches.push({
+        matchId,
+        matchKey,
+        seed: matchSeed,
+        agentIds: entrantIds,
+        scores: zeroes,
+        timeoutsPerAgent: { ...zeroes },
+        winner: null,
+        ...(Object.keys(ranked).length > 2 && {
+          placements: rankByScore(Object.keys(ranked), ranked),
+        }),
+        ...(matchTeams && { teams: matchTeams, teamScores: teamZeroes }),
+        turns: 0,
+        reason: "setupFailed",
+        error: safeMessage,
+      });
+      return;
+    }
+
+    const scenario = scenarioFactory();
+
+    // Fresh agent instances per match (agents can be stateful)
+    const orderedAgents = seats.map((index) => agentFactories[index].factory(agentIds[index]));
+
+    const result = await runMatch(scenario, orderedAgents, {
+      seed: matchSeed,
+      maxTurns,
+      modeProfile,
+      divisionConfig,
+      maxTurnTimeMs,
+      maxConsecutiveTimeouts,
+      ...(matchTeams && { teams: matchTeams }),
+    });
+
+    if (includeEventLogs) {
+      matchLogs[matchKey] = result.events;
+    }
+
+    // Determine winner (uses stable IDs, independent of seat order); team
+    // matches are won by the team with the best shared score.
+    const rankedIds = matchTeams ? Object.keys(matchTeams) : entrantIds;
+    const placements = rankByScore(rankedIds, result.teamScores ?? result.scores);
+
+    matches.push({
+      matchId: result.matchId,
+      matchKey,
+      seed: matchSeed,
+      agentIds: entrantIds,
+      scores: result.scores,
+      timeoutsPerAgent: result.timeoutsPerAgent,
+      ...(result.forfeitedBy ? { forfeitedBy: result.forfeitedBy } : {}),
+      winner: winnerFromPlacements(placements),
+      ...(rankedIds.length > 2 && { placements }),
+      ...(matchTeams && { teams: matchTeams, teamScores: result.teamScores }),
+      turns: result.turns,
+      reason: result.reason,
+    });
+  };
+
+  const competitorIds = teams ? Object.keys(teams) : agentIds;
+  const everyone = rosters.map((_, t) => t);
   for (let round = 0; round < rounds; round++) {
-    for (let i = 0; i < agentFactories.length; i++) {
-      for (let j = i + 1; j < agentFactories.length; j++) {
-        // Stable competitor IDs (index-based, independent of seat order)
-        const agentAId = `${agentFactories[i].key}-${i}`;
-        const agentBId = `${agentFactories[j].key}-${j}`;
-        const matchKey = `RR:${agentAId}-vs-${agentBId}:round${round + 1}`;
-        const matchSeed = deriveMatchSeed(seed, matchKey);
-
-        let preflightError: unknown;
-        if (llmAgents.length > 0 && !preflightOk) {
-          try {
-            await preflightValidateLlmAgents(llmAgents);
-            preflightOk = true;
-          } catch (err: unknown) {
-            preflightError = err;
-          }
-        }
-
-        if (preflightError) {
-          const matchId = createMatchIdFromSeed(matchSeed);
-          const safeMessage = preflightError instanceof Error ? preflightError.message : String(preflightError);
-          const safeDetails =
-            preflightError instanceof LlmPreflightError ? preflightError.details : undefined;
-          const setupFailedEvent: MatchSetupFailedEvent = {
-            type: "MatchSetupFailed",
-            seq: 0,
-            matchId,
-            message: safeMessage,
-            ...(safeDetails ? { details: safeDetails } : {}),
-          };
-          const matchEndedEvent: MatchEndedEvent = {
-            type: "MatchEnded",
-            seq: 1,
-            matchId,
-            reason: "setupFailed",
-            scores: {},
-            turns: 0,
-          };
-          const failureEvents = [setupFailedEvent, matchEndedEvent];
-
-          if (includeEventLogs) {
-            matchLogs[matchKey] = failureEvents;
-          }
-
-          const scores = { [agentAId]: 0, [agentBId]: 0 };
-          const timeoutsPerAgent = { [agentAId]: 0, [agentBId]: 0 };
-
-          matches.push({
-            matchId,
-            matchKey,
-            seed: matchSeed,
-            agentIds: [agentAId, agentBId],
-            scores,
-            timeoutsPerAgent,
-            winner: null,
-            turns: 0,
-            reason: "setupFailed",
-            error: safeMessage,
-          });
-
-          matchSpecs.push({
-            matchKey,
-            seed: matchSeed,
-            scenarioName,
-            agentIds: [agentAId, agentBId],
-            maxTurns,
-          });
-          continue;
-        }
-
-        const scenario = scenarioFactory();
-
-        // Fresh agent instances per match (agents can be stateful)
-        const agentA = agentFactories[i].factory(agentAId);
-        const agentB = agentFactories[j].factory(agentBId);
+    if (format === "freeForAll") {
+      // Rotate the seat order one place per round, so over `n` rounds every
+      // agent sits in every seat exactly once.
+      const offset = round % everyone.length;
+      const seats = [...everyone.slice(offset), ...everyone.slice(0, offset)];
+      await playScheduledMatch(`FFA:round${round + 1}`, everyone, seats);
+      continue;
+    }
 
+    // Round-robin: for every unordered pair (i, j) with i < j, play `rounds` matches
+    for (let i = 0; i < rosters.length; i++) {
+      for (let j = i + 1; j < rosters.length; j++) {
+        const matchKey = `RR:${competitorIds[i]}-vs-${competitorIds[j]}:round${round + 1}`;
         // Deterministic seat-order swap to avoid first-move bias:
         // incorporates round and pair indices so order alternates across rounds
         const swap = (round + i + j) % 2 === 1;
-        const orderedAgents = swap ? [agentB, agentA] : [agentA, agentB];
-
-        const result = await runMatch(scenario, orderedAgents, {
-          seed: matchSeed,
-          maxTurns,
-          modeProfile,
-          divisionConfig,
-          maxTurnTimeMs,
-          maxConsecutiveTimeouts,
-        });
-
-        if (includeEventLogs) {
-          matchLogs[matchKey] = result.events;
-        }
-
-        // Determine winner (uses stable IDs, independent of seat order)
-        const scoreA = result.scores[agentAId] ?? 0;
-        const scoreB = result.scores[agentBId] ?? 0;
-        let winner: AgentId | null = null;
-        if (scoreA > scoreB) {
-          winner = agentAId;
-        } else if (scoreB > scoreA) {
-          winner = agentBId;
-        }
-
-        const lastEvent = result.events[result.events.length - 1];
-        const reason = lastEvent.type === "MatchEnded" ? lastEvent.reason : "unknown";
-
-        matches.push({
-          matchId: result.matchId,
-          matchKey,
-          seed: matchSeed,
-          agentIds: [agentAId, agentBId],
-          scores: result.scores,
-          timeoutsPerAgent: result.timeoutsPerAgent,
-          ...(result.forfeitedBy ? { forfeitedBy: result.forfeitedBy } : {}),
-          winner,
-          turns: result.turns,
-          reason,
-        });
-
-        matchSpecs.push({
-          matchKey,
-          seed: matchSeed,
-          scenarioName,
-          agentIds: [agentAId, agentBId],
-          maxTurns,
-        });
+        await playScheduledMatch(matchKey, [i, j], swap ? [j, i] : [i, j]);
       }
     }
   }
 
-  const standings = computeStandings(agentIds, matches);
+  const standings = teams
+    ? computeTeamStandings(teams, matches, placementPoints)
+    : computeStandings(agentIds, matches, placementPoints);
 
   const tournamentResult: TournamentResult = {
     config,
     tournament: {
       tournamentSeed: seed,
       scenarioName,
+      ...(format === "freeForAll" && { format }),
       agents: agentIds,
+      ...(teams && { teams }),
       matches: matchSpecs,
       ...(modeProfile !== undefined && { modeProfile }),
       ...(harnessVersion !== undefined && { harnessVersion }),
@@ -1,11 +1,61 @@
-import type { AgentId } from "../contract/types.js";
+import type { AgentId, TeamAssignment } from "../contract/types.js";
 import type { MatchSummary, StandingsRow } from "./types.js";
 
 const POINTS_WIN = 3;
 const POINTS_DRAW = 1;
 const POINTS_LOSS = 0;
 
-export function computeStandings(agentIds: AgentId[], matches: MatchSummary[]): StandingsRow[] {
+/**
+ * 1-based finishing place of each agent by score, highest first. Tied agents
+ * share the better place and the next place is skipped ("1224").
+ */
+export function rankByScore(
+  agentIds: AgentId[],
+  scores: Record<AgentId, number>,
+): Record<AgentId, number> {
+  const score = (id: AgentId): number => scores[id] ?? 0;
+  return Object.fromEntries(
+    agentIds.map((id) => [id, 1 + agentIds.filter((other) => score(other) > score(id)).length]),
+  );
+}
+
+/** The sole first-placed agent, or null when first place is shared. */
+export function winnerFromPlacements(placements: Record<AgentId, number>): AgentId | null {
+  const first = Object.keys(placements).filter((id) => placements[id] === 1);
+  return first.length === 1 ? first[0] : null;
+}
+
+/**
+ * Standings points for finishing `place` in a field of `fieldSize`, with
+ * `tiedWith` agents (including this one) sharing that place. Tied agents
+ * split the points of the places they jointly occupy. Without a table, each
+ * place is worth one point per agent finishing below it.
+ */
+export function placementPoints(
+  place: number,
+  tiedWith: number,
+  fieldSize: number,
+  table?: number[],
+): number {
+  const pointsAt = (p: number): number => (table ? (table[p - 1] ?? 0) : fieldSize - p);
+  let total = 0;
+  for (let p = place; p < place + tiedWith; p++) {
+    total += pointsAt(p);
+  }
+  return total / tiedWith;
+}
+
+/**
+ * Head-to-head matches score win/draw/loss; matches with more than two agents
+ * score by finishing place (see `placementPoints`). For those, `scoreAgainst`
+ * is the best opponent score, so `scoreDiff` is the margin over the runner-up
+ * (or behind the winner).
+ */
+export function computeStandings(
+  agentIds: AgentId[],
+  matches: MatchSummary[],
+  placementTable?: number[],
+): StandingsRow[] {
   const map = new Map<AgentId, StandingsRow>();
 
   for (const id of agentIds) {
@@ -23,6 +73,10 @@ export function computeStandings(agentIds: AgentId[], matches: MatchSummary[]):
   }
 
   for (const match of matches) {
+    if (match.agentIds.length > 2) {
+      addFreeForAllMatch(map, match, placementTable);
+      continue;
+    }
     const [idA, idB] = match.agentIds;
     const rowA = map.get(idA);
     const rowB = map.get(idB);
@@ -76,3 +130,60 @@ export function computeStandings(agentIds: AgentId[], matches: MatchSummary[]):
     return a.agentId.localeCompare(b.agentId);
   });
 }
+
+function addFreeForAllMatch(
+  rows: Map<AgentId, StandingsRow>,
+  match: MatchSummary,
+  placementTable?: number[],
+): void {
+  const { agentIds, scores } = match;
+  if (agentIds.some((id) => !rows.has(id))) {
+    return;
+  }
+  const placements = match.placements ?? rankByScore(agentIds, scores);
+  for (const id of agentIds) {
+    const row = rows.get(id)!;
+    const place = placements[id];
+    const tiedWith = agentIds.filter((other) => placements[other] === place).length;
+    const opponentScores = agentIds
+      .filter((other) => other !== id)
+      .map((other) => scores[other] ?? 0);
+
+    row.matches += 1;
+    row.scoreFor += scores[id] ?? 0;
+    row.scoreAgainst += Math.max(...opponentScores);
+    row.points += placementPoints(place, tiedWith, agentIds.length, placementTable);
+    if (place === 1 && tiedWith === 1) {
+      row.wins += 1;
+    } else if (place === 1) {
+      row.draws += 1;
+    } else {
+      row.losses += 1;
+    }
+    const counts = (row.placementCounts ??= []);
+    while (counts.length < agentIds.length) {
+      counts.push(0);
+    }
+    counts[place - 1] += 1;
+  }
+}
+
+/**
+ * Standings for a team tournament: each team is one competitor, scored by its
+ * shared team score, and its row lists its members.
+ */
+export function computeTeamStandings(
+  teams: TeamAssignment,
+  matches: MatchSummary[],
+  placementTable?: number[],
+): StandingsRow[] {
+  const teamMatches = matches.map((match) => ({
+    ...match,
+    agentIds: Object.keys(match.teams ?? {}),
+    scores: match.teamScores ?? {},
+  }));
+  return computeStandings(Object.keys(teams), teamMatches, placementTable).map((row) => ({
+    ...row,
+    members: teams[row.agentId],
+  }));
+}
@@ -1,13 +1,43 @@
-import type { AgentId, MatchEvent, MatchId, Seed, JsonValue } from "../contract/types.js";
+import type {
+  AgentId,
+  MatchEvent,
+  MatchId,
+  Seed,
+  JsonValue,
+  TeamAssignment,
+  TeamId,
+} from "../contract/types.js";
+import type { LlmProvider } from "../agents/llm/types.js";
 
 export type MatchKey = string;
 
-/** Configuration for a round-robin tournament. */
+/**
+ * `roundRobin` plays every pair of agents head-to-head; `freeForAll` seats
+ * every agent in each match, rotating seat order from round to round.
+ */
+export type TournamentFormat = "roundRobin" | "freeForAll";
+
+/** Configuration for a tournament (round-robin unless `format` says otherwise). */
 export interface TournamentConfig {
   seed: Seed;
   maxTurns: number;
   rounds: number;
+  /** Defaults to `roundRobin`. */
+  format?: TournamentFormat;
+  /**
+   * Standings points by finishing place (index 0 = 1st) for matches with more
+   * than two agents. Defaults to one point per agent finished ahead of.
+   */
+  placementPoints?: number[];
+  /**
+   * Play as teams of this many agents: consecutive `agentKeys` form teams
+   * `team-0`, `team-1`, ... The format then schedules teams instead of
+   * agents, and standings rank teams by their shared score.
+   */
+  teamSize?: number;
   scenarioKey: string;
+  /** Heist scenario file to play instead of the built-in default map. */
+  scenarioPath?: string;
   agentKeys: string[];
   modeProfile?: JsonValue;
   divisionConfig?: JsonValue;
@@ -30,7 +60,7 @@ export interface MatchManifestAgent {
   id: AgentId;
   kind: "llm";
   purpose: "competitive" | "test";
-  provider: "ollama" | "openrouter";
+  provider: LlmProvider;
   model: string;
   version: string | null;
   contentHash: string | null;
@@ -72,7 +102,9 @@ export interface MatchManifest {
 export interface TournamentManifest {
   tournamentSeed: Seed;
   scenarioName: string;
+  format?: TournamentFormat;
   agents: AgentId[];
+  teams?: TeamAssignment;
   matches: MatchSpec[];
   modeProfile?: JsonValue;
   harnessVersion?: string;
@@ -105,7 +137,16 @@ export interface MatchSummary {
   scores: Record<AgentId, number>;
   timeoutsPerAgent: Record<AgentId, number>;
   forfeitedBy?: AgentId;
-  winner: AgentId | null;
+  /** The winning agent, or the winning team in team matches. */
+  winner: AgentId | TeamId | null;
+  /**
+   * Matches with more than two agents (or teams): 1-based finishing place per
+   * agent (or team). Tied entrants share the better place.
+   */
+  placements?: Record<AgentId | TeamId, number>;
+  /** Team matches only. */
+  teams?: TeamAssignment;
+  teamScores?: Record<TeamId, number>;
   turns: number;
   reason: string;
   error?: string;
@@ -115,7 +156,10 @@ export interface MatchSummary {
 
 /** A row in the tournament standings table. */
 export interface StandingsRow {
-  agentId: AgentId;
+  /** The agent, or the team in team tournaments. */
+  agentId: AgentId | TeamId;
+  /** Team tournaments only: the team's agents. */
+  members?: AgentId[];
   matches: number;
   wins: number;
   losses: number;
@@ -124,6 +168,8 @@ export interface StandingsRow {
   scoreFor: number;
   scoreAgainst: number;
   scoreDiff: number;
+  /** Free-for-all matches only: times finished 1st, 2nd, ... */
+  placementCounts?: number[];
 }
 
 /** Complete result of a tournament run. */
@@ -132,7 +178,9 @@ export interface TournamentResult {
   tournament: {
     tournamentSeed: Seed;
     scenarioName: string;
+    format?: TournamentFormat;
     agents: AgentId[];
+    teams?: TeamAssignment;
     matches: MatchSpec[];
     modeProfile?: JsonValue;
     harnessVersion?: string;
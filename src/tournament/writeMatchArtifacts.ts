@@ -18,6 +18,7 @@ import {
   type MatchManifestProvenanceConfig,
 } from "./provenance.js";
 import type { MatchManifest, MatchSummary } from "./types.js";
+import { rankByScore, winnerFromPlacements } from "./standings.js";
 import { computeFailureModes } from "../lib/matches/failureModes.js";
 
 function ensureSingleTrailingNewline(value: string): string {
@@ -49,6 +50,8 @@ function buildBroadcastManifestFiles(
 export interface MatchArtifactsCoreOptions {
   matchDir: string;
   events: MatchEvent[];
+  /** `match.jsonl` already holds `events` (streamed while the match ran); don't rewrite it. */
+  logWritten?: boolean;
   manifest: MatchManifest;
   summary: MatchSummary;
   scenarioHints?: ScenarioHints;
@@ -83,25 +86,6 @@ function resolveModeProfileId(modeKey: string | undefined): string {
   return DEFAULT_MODE_PROFILE_ID;
 }
 
-function determineWinner(scores: Record<AgentId, number>, agentIds: AgentId[]): AgentId | null {
-  let winner: AgentId | null = null;
-  let bestScore = Number.NEGATIVE_INFINITY;
-  let hasTie = false;
-
-  for (const agentId of agentIds) {
-    const score = scores[agentId] ?? 0;
-    if (score > bestScore) {
-      bestScore = score;
-      winner = agentId;
-      hasTie = false;
-    } else if (score === bestScore) {
-      hasTie = true;
-    }
-  }
-
-  return hasTie ? null : winner;
-}
-
 export async function writeMatchArtifactsCore(
   options: MatchArtifactsCoreOptions,
 ): Promise<MatchArtifactsCoreResult> {
@@ -114,7 +98,9 @@ export async function writeMatchArtifactsCore(
   );
 
   const matchLogPath = join(options.matchDir, "match.jsonl");
-  writeFileSync(matchLogPath, toStableJsonl(options.events), "utf-8");
+  if (!options.logWritten) {
+    writeFileSync(matchLogPath, toStableJsonl(options.events), "utf-8");
+  }
 
   const logHash = await hashFile(matchLogPath);
   const manifestHash = hashManifestCore(options.manifest as unknown as Record<string, unknown>);
@@ -220,6 +206,7 @@ export interface MatchArtifactsConfig {
   matchId: string;
   scenarioName: string;
   scenarioKey: string;
+  scenarioPath?: string;
   agentKeys: string[];
   seed: number;
   maxTurns: number;
@@ -227,6 +214,8 @@ export interface MatchArtifactsConfig {
   scenarioHints?: ScenarioHints;
   modeKey?: string;
   events: MatchEvent[];
+  /** See `MatchArtifactsCoreOptions.logWritten`. */
+  logWritten?: boolean;
   scores: Record<AgentId, number>;
   timeoutsPerAgent: Record<AgentId, number>;
   forfeitedBy?: AgentId;
@@ -239,6 +228,7 @@ export async function writeMatchArtifacts(config: MatchArtifactsConfig): Promise
   const provenanceConfig: MatchManifestProvenanceConfig = {
     scenarioKey: config.scenarioKey,
     scenarioName: config.scenarioName,
+    ...(config.scenarioPath ? { scenarioPath: config.scenarioPath } : {}),
     agentKeys: config.agentKeys,
   };
   const provenance = await buildMatchManifestProvenanceFromConfig(provenanceConfig);
@@ -271,6 +261,7 @@ export async function writeMatchArtifacts(config: MatchArtifactsConfig): Promise
     },
   };
 
+  const placements = rankByScore(agentIds, config.scores);
   const summary: MatchSummary = {
     matchId: config.matchId,
     matchKey: config.matchId,
@@ -279,7 +270,8 @@ export async function writeMatchArtifacts(config: MatchArtifactsConfig): Promise
     scores: config.scores,
     timeoutsPerAgent: config.timeoutsPerAgent,
     ...(config.forfeitedBy ? { forfeitedBy: config.forfeitedBy } : {}),
-    winner: determineWinner(config.scores, agentIds),
+    winner: winnerFromPlacements(placements),
+    ...(agentIds.length > 2 && { placements }),
     turns: config.turns,
     reason: config.reason,
   };
@@ -287,6 +279,7 @@ export async function writeMatchArtifacts(config: MatchArtifactsConfig): Promise
   await writeMatchArtifactsCore({
     matchDir: config.matchDir,
     events: config.events,
+    ...(config.logWritten ? { logWritten: true } : {}),
     manifest,
     summary,
     ...(config.scenarioHints ? { scenarioHints: config.scenarioHints } : {}),
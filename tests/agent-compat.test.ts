@@ -4,6 +4,8 @@ import { createBaselineAgent } from "../src/agents/baselineAgent.js";
 import { createNoopAgent } from "../src/agents/noopAgent.js";
 import { createRandomBidderAgent } from "../src/agents/resourceRivals/randomBidder.js";
 import { createConservativeAgent } from "../src/agents/resourceRivals/conservativeAgent.js";
+import { createValueBidderAgent } from "../src/agents/resourceRivals/valueBidder.js";
+import { createHeistPlannerAgent } from "../src/agents/heist/plannerAgent.js";
 import { runMatch } from "../src/engine/runMatch.js";
 import { getScenarioFactory } from "../src/tournament/runTournament.js";
 import { parseArgs, resolveAgentDefaults } from "../src/cli/run-match.js";
@@ -47,6 +49,8 @@ describe("agents handle unexpected observations", () => {
       createNoopAgent,
       createRandomBidderAgent,
       createConservativeAgent,
+      createValueBidderAgent,
+      createHeistPlannerAgent,
     ];
 
     agentFactories.forEach((factory, index) => {
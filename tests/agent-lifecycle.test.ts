@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { createBaselineAgent } from "../src/agents/baselineAgent.js";
+import { createRandomAgent } from "../src/agents/randomAgent.js";
+import type { Agent, AgentMatchOutcome } from "../src/contract/interfaces.js";
+import type { MatchEvent } from "../src/contract/types.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import { runMatchWithGateway } from "../src/engine/runMatchWithGateway.js";
+import type { AgentAdapter, GatewayMatchEndMessage } from "../src/gateway/types.js";
+import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
+import type {
+  NumberGuessAction,
+  NumberGuessObservation,
+} from "../src/scenarios/numberGuess/index.js";
+
+type NumberGuessAgent = Agent<NumberGuessObservation, NumberGuessAction>;
+
+function withHooks(agent: NumberGuessAgent, calls: string[], outcomes: AgentMatchOutcome[]) {
+  return Object.assign(agent, {
+    onMatchEnd(outcome: AgentMatchOutcome) {
+      calls.push(`end:${agent.id}`);
+      outcomes.push(outcome);
+    },
+    dispose() {
+      calls.push(`dispose:${agent.id}`);
+    },
+  });
+}
+
+describe("agent lifecycle hooks", () => {
+  it("tells each agent the outcome with its own events, then disposes it", async () => {
+    const calls: string[] = [];
+    const outcomes: AgentMatchOutcome[] = [];
+    const result = await runMatch(
+      createNumberGuessScenario(),
+      [
+        withHooks(createRandomAgent("random-0"), calls, outcomes),
+        withHooks(createBaselineAgent("baseline-1"), calls, outcomes),
+      ],
+      { seed: 42, maxTurns: 5 },
+    );
+
+    expect(calls).toEqual([
+      "end:random-0",
+      "end:baseline-1",
+      "dispose:random-0",
+      "dispose:baseline-1",
+    ]);
+    const [outcome] = outcomes;
+    expect(outcome).toMatchObject({
+      matchId: result.matchId,
+      agentId: "random-0",
+      reason: result.reason,
+      scores: result.scores,
+      turns: result.turns,
+      details: { _private: { secretNumber: expect.any(Number) } },
+    });
+    expect(outcome.events.length).toBeGreaterThan(0);
+    expect(
+      outcome.events.every((event) => "agentId" in event && event.agentId === "random-0"),
+    ).toBe(true);
+    expect(outcome.events.map((event) => event.seq)).toEqual(
+      result.events
+        .filter((event) => "agentId" in event && event.agentId === "random-0")
+        .map((event) => event.seq),
+    );
+  });
+
+  it("hands each agent its own events when the match streams without retaining them", async () => {
+    const outcomes: AgentMatchOutcome[] = [];
+    const streamed: MatchEvent[] = [];
+    const result = await runMatch(
+      createNumberGuessScenario(),
+      [withHooks(createRandomAgent("random-0"), [], outcomes)],
+      {
+        seed: 42,
+        maxTurns: 5,
+        eventSink: (event) => {
+          streamed.push(event);
+        },
+        retainEvents: false,
+      },
+    );
+
+    expect(result.events).toEqual([]);
+    expect(outcomes).toHaveLength(1);
+    expect(outcomes[0]).toMatchObject({ agentId: "random-0", reason: result.reason });
+    expect(outcomes[0].events.length).toBeGreaterThan(0);
+    expect(outcomes[0].events).toEqual(
+      streamed.filter((event) => "agentId" in event && event.agentId === "random-0"),
+    );
+  });
+
+  it("stops waiting on an onMatchEnd that never settles after one turn's time", async () => {
+    const disposed: string[] = [];
+    const hanging: NumberGuessAgent = Object.assign(createRandomAgent("random-0"), {
+      onMatchEnd: () => new Promise<void>(() => {}),
+      dispose() {
+        disposed.push("random-0");
+      },
+    });
+
+    const result = await runMatch(createNumberGuessScenario(), [hanging], {
+      seed: 42,
+      maxTurns: 3,
+      maxTurnTimeMs: 50,
+    });
+
+    expect(result.reason).toBeDefined();
+    expect(disposed).toEqual(["random-0"]);
+  });
+
+  it("ignores a failing onMatchEnd and disposes agents when the match throws", async () => {
+    const disposed: string[] = [];
+    const failing: NumberGuessAgent = Object.assign(createRandomAgent("random-0"), {
+      onMatchEnd() {
+        throw new Error("listener failed");
+      },
+      dispose() {
+        disposed.push("random-0");
+      },
+    });
+    const result = await runMatch(createNumberGuessScenario(), [failing], {
+      seed: 7,
+      maxTurns: 3,
+    });
+    expect(result.events.at(-1)?.type).toBe("MatchEnded");
+    expect(disposed).toEqual(["random-0"]);
+
+    const brokenScenario = {
+      ...createNumberGuessScenario(),
+      init() {
+        throw new Error("scenario init failed");
+      },
+    };
+    await expect(runMatch(brokenScenario, [failing], { seed: 7, maxTurns: 3 })).rejects.toThrow(
+      "scenario init failed",
+    );
+    expect(disposed).toEqual(["random-0", "random-0"]);
+  });
+
+  it("sends gateway adapters a matchEnded message", async () => {
+    const messages: GatewayMatchEndMessage[] = [];
+    const adapter: AgentAdapter = {
+      requestAction() {
+        return Promise.reject(new Error("not used in local mode"));
+      },
+      onMatchEnd(_matchId, message) {
+        messages.push(message);
+      },
+    };
+    const result = await runMatchWithGateway(
+      createNumberGuessScenario(),
+      [createBaselineAgent("baseline-0")],
+      { seed: 11, maxTurns: 4 },
+      {
+        mode: "local",
+        config: { defaultDeadlineMs: 1000, maxResponseBytes: 1024 },
+        adapters: new Map([["baseline-0", adapter]]),
+      },
+    );
+
+    expect(messages).toEqual([
+      {
+        protocolVersion: "0.1.0",
+        type: "matchEnded",
+        matchId: result.matchId,
+        agentId: "baseline-0",
+        gameId: "NumberGuess",
+        reason: result.reason,
+        scores: result.scores,
+        turns: result.turns,
+        details: result.details,
+      },
+    ]);
+  });
+});
@@ -35,4 +35,13 @@ describe("scripted agent scenario guards", () => {
   it("throws when random has no scenarioKey (internal misuse)", () => {
     expect(() => getAgentFactory("random", { slotIndex: 0 })).toThrow("requires scenarioKey");
   });
+
+  it("allows heistPlanner only for heist", () => {
+    expect(() =>
+      getAgentFactory("heistPlanner", { scenarioKey: "heist", slotIndex: 0 }),
+    ).not.toThrow();
+    expect(() =>
+      getAgentFactory("heistPlanner", { scenarioKey: "resourceRivals", slotIndex: 0 }),
+    ).toThrow('Agent "heistPlanner" is Heist-only');
+  });
 });
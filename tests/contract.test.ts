@@ -3,6 +3,7 @@ import { runMatch } from "../src/engine/runMatch.js";
 import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
 import { createRandomAgent } from "../src/agents/randomAgent.js";
 import { createBaselineAgent } from "../src/agents/baselineAgent.js";
+import type { Agent, Scenario } from "../src/contract/interfaces.js";
 import type { JsonValue, MatchEvent } from "../src/contract/types.js";
 
 function makeAgents() {
@@ -158,4 +159,126 @@ describe("Contract v0 — Match Runner", () => {
       }
     });
   });
+
+  describe("simultaneous turns", () => {
+    interface CounterState {
+      counter: number;
+      turns: number;
+    }
+    type CounterAction = { add: number };
+
+    function makeCounterScenario(
+      withBatch: boolean,
+    ): Scenario<CounterState, { counter: number }, CounterAction> {
+      return {
+        name: "Counter",
+        turnStructure: "simultaneous",
+        init: () => ({ counter: 0, turns: 0 }),
+        observe: (state) => ({ counter: state.counter }),
+        adjudicate: (state, _agentId, action) => ({
+          valid: true,
+          state: { ...state, counter: state.counter + action.add },
+          feedback: { counter: state.counter + action.add },
+        }),
+        ...(withBatch
+          ? {
+              adjudicateBatch: (
+                state: CounterState,
+                actions: { agentId: string; action: CounterAction }[],
+              ) => {
+                const total = actions.reduce((sum, entry) => sum + entry.action.add, 0);
+                return {
+                  state: { counter: state.counter + total, turns: state.turns + 1 },
+                  results: actions.map(({ agentId }) => ({
+                    agentId,
+                    valid: true,
+                    feedback: { total },
+                  })),
+                };
+              },
+            }
+          : {}),
+        isTerminal: (state) => state.counter >= 6,
+        score: (state) => ({ a: state.counter, b: state.counter }),
+        summarize: (state) => ({ counter: state.counter }),
+        getDefaultAction: () => ({ add: 0 }),
+        getScenarioHints: () => ({ noopActions: [], actionSpaceSize: 1 }),
+      };
+    }
+
+    // Each agent waits for the other to be asked before answering, which only
+    // completes when the engine calls both agents concurrently.
+    function makeRendezvousAgents(): Agent<{ counter: number }, CounterAction>[] {
+      const arrived = new Set<string>();
+      const waiters: Array<() => void> = [];
+      const makeAgent = (id: string): Agent<{ counter: number }, CounterAction> => ({
+        id,
+        init: () => {},
+        act: () =>
+          new Promise<CounterAction>((resolve) => {
+            arrived.add(id);
+            waiters.push(() => resolve({ add: 1 }));
+            if (arrived.size === 2) {
+              arrived.clear();
+              waiters.splice(0).forEach((release) => release());
+            }
+          }),
+      });
+      return [makeAgent("a"), makeAgent("b")];
+    }
+
+    it("observes once, acts concurrently, then adjudicates the batch", async () => {
+      const result = await runMatch(makeCounterScenario(true), makeRendezvousAgents(), {
+        seed: 1,
+        maxTurns: 5,
+        maxTurnTimeMs: 1000,
+      });
+
+      expect(result.events[0]).toMatchObject({
+        type: "MatchStarted",
+        turnStructure: "simultaneous",
+      });
+      expect(result.timeoutsPerAgent).toEqual({ a: 0, b: 0 });
+      expect(result.turns).toBe(3);
+
+      const turnOne = result.events
+        .filter((event) => "turn" in event && event.turn === 1)
+        .map((event) => `${event.type}:${"agentId" in event ? event.agentId : ""}`);
+      expect(turnOne).toEqual([
+        "TurnStarted:",
+        "ObservationEmitted:a",
+        "ObservationEmitted:b",
+        "ActionSubmitted:a",
+        "ActionSubmitted:b",
+        "ActionAdjudicated:a",
+        "ActionAdjudicated:b",
+        "StateUpdated:",
+      ]);
+
+      const observations = result.events.filter(
+        (event) => event.type === "ObservationEmitted" && event.turn === 2,
+      );
+      expect(observations.map((event) => "observation" in event && event.observation)).toEqual([
+        { counter: 2 },
+        { counter: 2 },
+      ]);
+    });
+
+    it("falls back to seat-order adjudicate without adjudicateBatch", async () => {
+      const result = await runMatch(makeCounterScenario(false), makeRendezvousAgents(), {
+        seed: 1,
+        maxTurns: 1,
+        maxTurnTimeMs: 1000,
+      });
+      const feedback = result.events
+        .filter((event) => event.type === "ActionAdjudicated")
+        .map((event) => "feedback" in event && event.feedback);
+      expect(feedback).toEqual([{ counter: 1 }, { counter: 2 }]);
+    });
+
+    it("omits turnStructure from MatchStarted for sequential scenarios", async () => {
+      const result = await runMatch(makeScenario(), makeAgents(), { seed: 42, maxTurns: 2 });
+      expect(result.events[0]).not.toHaveProperty("turnStructure");
+    });
+  });
 });
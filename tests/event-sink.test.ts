@@ -0,0 +1,113 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createBaselineAgent } from "../src/agents/baselineAgent.js";
+import { createRandomAgent } from "../src/agents/randomAgent.js";
+import type { MatchEvent } from "../src/contract/types.js";
+import { toStableJsonl } from "../src/core/json.js";
+import { openMatchLogWriter } from "../src/core/matchLog.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import { runMatchWithArtifacts } from "../src/tournament/runMatchWithArtifacts.js";
+import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
+
+const makeAgents = () => [createRandomAgent("random-0"), createBaselineAgent("baseline-1")];
+
+describe("match event sink", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tempDirs) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  const makeTempDir = (): string => {
+    const dir = mkdtempSync(join(tmpdir(), "hm-event-sink-"));
+    tempDirs.push(dir);
+    return dir;
+  };
+
+  it("delivers every event in order without retaining them", async () => {
+    const config = { seed: 21, maxTurns: 5 };
+    const buffered = await runMatch(createNumberGuessScenario(), makeAgents(), config);
+
+    const streamed: MatchEvent[] = [];
+    const result = await runMatch(createNumberGuessScenario(), makeAgents(), {
+      ...config,
+      eventSink: async (event) => {
+        await Promise.resolve();
+        streamed.push(event);
+      },
+      retainEvents: false,
+    });
+
+    expect(result.events).toEqual([]);
+    expect(result.scores).toEqual(buffered.scores);
+    expect(toStableJsonl(streamed)).toBe(toStableJsonl(buffered.events));
+  });
+
+  it("fails the match when the sink fails", async () => {
+    await expect(
+      runMatch(createNumberGuessScenario(), makeAgents(), {
+        seed: 1,
+        maxTurns: 3,
+        eventSink: (event) => {
+          if (event.type === "TurnStarted") {
+            throw new Error("disk full");
+          }
+        },
+      }),
+    ).rejects.toThrow("disk full");
+  });
+
+  it("appends to match.jsonl while the match is still running", async () => {
+    const logPath = join(makeTempDir(), "match.jsonl");
+    const writer = await openMatchLogWriter(logPath);
+    const linesSeenOnTurn: number[] = [];
+    const random = createRandomAgent("random-0");
+    const watcher: typeof random = {
+      ...random,
+      act(observation, ctx) {
+        linesSeenOnTurn.push(readFileSync(logPath, "utf-8").split("\n").length - 1);
+        return random.act(observation, ctx);
+      },
+    };
+
+    try {
+      await runMatch(createNumberGuessScenario(), [watcher], {
+        seed: 5,
+        maxTurns: 3,
+        eventSink: writer.sink,
+        retainEvents: false,
+      });
+    } finally {
+      await writer.close();
+    }
+
+    expect(linesSeenOnTurn.length).toBeGreaterThan(1);
+    expect(linesSeenOnTurn[1]).toBeGreaterThan(linesSeenOnTurn[0]);
+  });
+
+  it("writes the same match.jsonl as an in-memory run", async () => {
+    const outDir = join(makeTempDir(), "match");
+    const { result } = await runMatchWithArtifacts({
+      scenarioKey: "numberGuess",
+      agentKeys: ["random", "baseline"],
+      seed: 9,
+      maxTurns: 4,
+      outDir,
+    });
+    const inMemory = await runMatchWithArtifacts({
+      scenarioKey: "numberGuess",
+      agentKeys: ["random", "baseline"],
+      seed: 9,
+      maxTurns: 4,
+    });
+
+    const written = readFileSync(join(outDir, "match.jsonl"), "utf-8");
+    expect(written).toBe(toStableJsonl(inMemory.result.events));
+    expect(result.events).toEqual(inMemory.result.events);
+  });
+});
@@ -152,7 +152,7 @@ describe("GameBriefing — Heist", () => {
       expect(rules!.gameId).toBe("heist");
       expect(rules!.name).toBe("Heist");
       expect(rules!.version).toBe("1.0.0");
-      expect(rules!.actions.length).toBe(5);
+      expect(rules!.actions.length).toBe(7);
     }
   });
 
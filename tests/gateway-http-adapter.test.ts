@@ -1,7 +1,7 @@
 import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
 import type { AddressInfo } from "node:net";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
-import { createHttpAdapter } from "../src/gateway/httpAdapter.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHttpAdapter, DEFAULT_MATCH_END_DEADLINE_MS } from "../src/gateway/httpAdapter.js";
 
 const baseRequest = {
   protocolVersion: "0.1.0" as const,
@@ -27,6 +27,7 @@ function createTestServer(
         close: () =>
           new Promise((closeResolve) => {
             server.close(() => closeResolve());
+            server.closeAllConnections();
           }),
       });
     });
@@ -100,6 +101,30 @@ describe("createHttpAdapter", () => {
     expect(result.transcript.fallbackApplied).toBe(true);
   });
 
+  it("abandons the request when the match is cancelled", async () => {
+    const { url, close } = await createTestServer((_req, res) => {
+      setTimeout(() => {
+        res.statusCode = 200;
+        res.end("{}");
+      }, 200);
+    });
+    closeServer = close;
+
+    const adapter = createHttpAdapter(url, { defaultDeadlineMs: 1000, maxResponseBytes: 1024 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    const result = await adapter.requestAction(
+      baseRequest,
+      { move: "fallback" },
+      controller.signal,
+    );
+
+    expect(result.transcript.status).toBe("error");
+    expect(result.transcript.errorMessage).toBe("Match cancelled");
+    expect(result.transcript.responseTimeMs).toBeLessThan(200);
+  });
+
   it("retries non-2xx responses and falls back after retry", async () => {
     let attempts = 0;
     const { url, close } = await createTestServer((_req, res) => {
@@ -142,4 +167,71 @@ describe("createHttpAdapter", () => {
     expect(result.transcript.status).toBe("invalid_response");
     expect(result.transcript.fallbackApplied).toBe(true);
   });
+
+  it("posts the matchEnded message and ignores an unreachable agent", async () => {
+    const bodies: unknown[] = [];
+    const { url, close } = await createTestServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => {
+        body += chunk;
+      });
+      req.on("end", () => {
+        bodies.push(JSON.parse(body));
+        res.statusCode = 204;
+        res.end();
+      });
+    });
+    closeServer = close;
+
+    const message = {
+      protocolVersion: "0.1.0" as const,
+      type: "matchEnded" as const,
+      matchId: baseRequest.matchId,
+      agentId: baseRequest.agentId,
+      gameId: baseRequest.gameId,
+      reason: "completed",
+      scores: { "agent-1": 1 },
+      turns: 3,
+    };
+    const config = { defaultDeadlineMs: 1000, maxResponseBytes: 1024 };
+    await createHttpAdapter(url, config).onMatchEnd?.(message.matchId, message);
+    expect(bodies).toEqual([message]);
+
+    await expect(
+      createHttpAdapter("http://127.0.0.1:9", config).onMatchEnd?.(message.matchId, message),
+    ).resolves.toBeUndefined();
+  });
+
+  it("gives up on a silent agent after the default deadline when none is configured", async () => {
+    let received!: () => void;
+    const requested = new Promise<void>((resolve) => {
+      received = resolve;
+    });
+    const { url, close } = await createTestServer(() => {
+      received();
+    });
+    closeServer = close;
+
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    try {
+      const delivered = createHttpAdapter(url, {
+        defaultDeadlineMs: 0,
+        maxResponseBytes: 1024,
+      }).onMatchEnd?.("match-1", {
+        protocolVersion: "0.1.0",
+        type: "matchEnded",
+        matchId: "match-1",
+        agentId: "agent-1",
+        gameId: "test-game",
+        reason: "completed",
+        scores: { "agent-1": 1 },
+        turns: 3,
+      });
+      await requested;
+      await vi.advanceTimersByTimeAsync(DEFAULT_MATCH_END_DEADLINE_MS);
+      await expect(delivered).resolves.toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 });
@@ -77,5 +77,31 @@ describe("Heist action triangulation", () => {
       terminalObservation,
     );
     expect(useItemAction).toEqual({ type: "use_terminal", terminalId: "terminal-1" });
+
+    const doorObservation: HeistObservation = {
+      ...baseObservation,
+      currentRoomId: "room-2",
+      adjacentRooms: [
+        { roomId: "room-3", doorId: "door-2", locked: true, passable: false, alarmed: true },
+      ],
+    };
+
+    const toolAction = parseResponse(
+      "{\"type\":\"use_item\",\"item\":\"tool-1\",\"target\":\"door-2\"}",
+      doorObservation,
+    );
+    expect(toolAction).toEqual({ type: "use_item", itemId: "tool-1", targetId: "door-2" });
+
+    const toolCallAction = parseResponse(
+      "{\"name\":\"use_item\",\"input\":{\"type\":\"use_item\",\"itemId\":\"tool-1\",\"targetId\":\"door-2\"}}",
+      doorObservation,
+    );
+    expect(toolCallAction).toEqual({ type: "use_item", itemId: "tool-1", targetId: "door-2" });
+
+    const forceAction = parseResponse(
+      "{\"type\":\"force_door\",\"target\":\"door-2\"}",
+      doorObservation,
+    );
+    expect(forceAction).toEqual({ type: "force_door", doorId: "door-2" });
   });
 });
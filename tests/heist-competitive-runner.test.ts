@@ -34,8 +34,21 @@ function createInvalidMoveAgent(id: AgentId): Agent<HeistObservation, HeistActio
   };
 }
 
+function createScriptedAgent(
+  id: AgentId,
+  script: HeistAction[],
+): Agent<HeistObservation, HeistAction> {
+  return {
+    id,
+    init(_config: AgentConfig) {},
+    act(_observation: HeistObservation, ctx: AgentContext): HeistAction {
+      return script[ctx.turn - 1] ?? { type: "wait" };
+    },
+  };
+}
+
 describe("Heist competitive runner", () => {
-  it("combines two solo attempts into a single match stream", async () => {
+  it("runs both agents in one shared world with a single match stream", async () => {
     const agentA = createWaitAgent("heist-a");
     const agentB = createWaitAgent("heist-b");
 
@@ -55,6 +68,7 @@ describe("Heist competitive runner", () => {
     if (ended.type === "MatchEnded") {
       expect(ended.scores).toHaveProperty(agentA.id);
       expect(ended.scores).toHaveProperty(agentB.id);
+      expect(ended.turns).toBe(5);
     }
 
     const matchStartedCount = result.events.filter((event) => event.type === "MatchStarted").length;
@@ -62,22 +76,29 @@ describe("Heist competitive runner", () => {
     expect(matchStartedCount).toBe(1);
     expect(matchEndedCount).toBe(1);
 
+    // One TurnStarted per shared turn, with both agents acting inside it.
+    const turnStarts = result.events.filter((event) => event.type === "TurnStarted");
+    expect(turnStarts).toHaveLength(5);
+    const turnOneActors = result.events
+      .filter((event) => event.type === "ActionSubmitted" && event.turn === 1)
+      .map((event) => (event.type === "ActionSubmitted" ? event.agentId : null));
+    expect(turnOneActors).toEqual([agentA.id, agentB.id]);
+
+    const summaries = result.events.filter((event) => event.type === "StateUpdated");
+    const lastSummary = summaries[summaries.length - 1];
+    if (lastSummary?.type === "StateUpdated") {
+      expect((lastSummary.summary as { turn: number }).turn).toBe(5);
+    }
+
     result.events.forEach((event, index) => {
       expect(event.seq).toBe(index);
       expect(event.matchId).toBe(result.matchId);
     });
 
-    const scoreA = result.scores[agentA.id];
-    const scoreB = result.scores[agentB.id];
-    const winner = scoreA === scoreB ? null : scoreA > scoreB ? agentA.id : agentB.id;
-    expect(winner).toBeNull();
-
-    if (ended.type === "MatchEnded" && ended.details && typeof ended.details === "object") {
-      expect((ended.details as { winner?: string | null }).winner).toBeNull();
-    }
+    expect(result.scores[agentA.id]).toBe(result.scores[agentB.id]);
   });
 
-  it("produces deterministic winner comparisons from solo scores", async () => {
+  it("shares alert consequences between rivals", async () => {
     const agentA = createWaitAgent("heist-a");
     const agentB = createInvalidMoveAgent("heist-b");
 
@@ -88,15 +109,106 @@ describe("Heist competitive runner", () => {
 
     const scoreA = result.scores[agentA.id];
     const scoreB = result.scores[agentB.id];
-    const winner = scoreA === scoreB ? null : scoreA > scoreB ? agentA.id : agentB.id;
+    expect(scoreA).toBeGreaterThan(scoreB);
+    // B's blunders raise the shared alert level, which also costs A points.
+    expect(scoreA).toBeLessThan(0);
+  });
+
+  it("awards a same-turn contested item to the first agent to act", async () => {
+    const grab: HeistAction[] = [{ type: "pickup", itemId: "keycard-1" }];
+    const agentA = createScriptedAgent("heist-a", grab);
+    const agentB = createScriptedAgent("heist-b", grab);
 
-    expect(winner).toBe(agentA.id);
+    const result = await runMatch(createHeistScenario(), [agentA, agentB], {
+      seed: 404,
+      maxTurns: 2,
+    });
+
+    const adjudications = result.events.filter(
+      (event) => event.type === "ActionAdjudicated" && event.turn === 1,
+    );
+    expect(adjudications).toHaveLength(2);
+    const [first, second] = adjudications;
+    if (first.type !== "ActionAdjudicated" || second.type !== "ActionAdjudicated") {
+      throw new Error("Expected adjudication events");
+    }
+    expect(first.agentId).toBe(agentA.id);
+    expect(first.valid).toBe(true);
+    expect((first.feedback as { result?: string }).result).toBe("item_pickup");
+    expect(second.agentId).toBe(agentB.id);
+    expect(second.valid).toBe(true);
+    expect(second.feedback).toMatchObject({ result: "item_contested", takenBy: agentA.id });
+
+    const invalid = result.events.filter((event) => event.type === "InvalidAction");
+    expect(invalid).toHaveLength(0);
+  });
+
+  it("keeps an agent whose action errored on the shared turn for later contention", async () => {
+    const grab: HeistAction = { type: "pickup", itemId: "keycard-1" };
+    // The first seat errors on turn 1, so its action is skipped, then grabs on turn 2.
+    const erroring: Agent<HeistObservation, HeistAction> = {
+      id: "heist-a",
+      init(_config: AgentConfig) {},
+      act(_observation: HeistObservation, ctx: AgentContext): HeistAction {
+        if (ctx.turn === 1) {
+          throw new Error("model unavailable");
+        }
+        return grab;
+      },
+    };
+    const agentB = createScriptedAgent("heist-b", [{ type: "wait" }, grab]);
+
+    const result = await runMatch(createHeistScenario(), [erroring, agentB], {
+      seed: 404,
+      maxTurns: 2,
+    });
+
+    expect(
+      result.events.filter((event) => event.type === "AgentError" && event.turn === 1),
+    ).toHaveLength(1);
+    const turnTwo = result.events.filter(
+      (event) => event.type === "ActionAdjudicated" && event.turn === 2,
+    );
+    expect(turnTwo.map((event) => event.type === "ActionAdjudicated" && event.feedback)).toEqual([
+      expect.objectContaining({ result: "item_pickup" }),
+      expect.objectContaining({ result: "item_contested", takenBy: erroring.id }),
+    ]);
+    expect(result.events.filter((event) => event.type === "InvalidAction")).toHaveLength(0);
+
+    const summaries = result.events.filter((event) => event.type === "StateUpdated");
+    expect(
+      summaries.map(
+        (event) => event.type === "StateUpdated" && (event.summary as { turn: number }).turn,
+      ),
+    ).toEqual([1, 2]);
+  });
+
+  it("lets the first agent to extract with the objective end the race", async () => {
+    const winningRoute: HeistAction[] = [
+      { type: "pickup", itemId: "keycard-1" },
+      { type: "move", toRoomId: "room-2" },
+      { type: "use_terminal", terminalId: "terminal-1" },
+      { type: "use_terminal", terminalId: "terminal-1" },
+      { type: "move", toRoomId: "room-3" },
+      { type: "pickup", itemId: "loot-1" },
+      { type: "move", toRoomId: "room-4" },
+      { type: "extract" },
+    ];
+    const agentA = createScriptedAgent("heist-a", winningRoute);
+    const agentB = createWaitAgent("heist-b");
+
+    const result = await runMatch(createHeistScenario(), [agentA, agentB], {
+      seed: 505,
+      maxTurns: 20,
+    });
 
     const ended = result.events[result.events.length - 1];
     expect(ended.type).toBe("MatchEnded");
-    if (ended.type === "MatchEnded" && ended.details && typeof ended.details === "object") {
-      expect((ended.details as { winner?: string | null }).winner).toBe(agentA.id);
+    if (ended.type === "MatchEnded") {
+      expect(ended.reason).toBe("completed");
+      expect(ended.turns).toBe(winningRoute.length);
     }
+    expect(result.scores[agentA.id]).toBeGreaterThan(result.scores[agentB.id]);
   });
 });
 
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { generateHeistDebugView } from "../src/games/heist/debugView.js";
+import { generateHeistScenario } from "../src/games/heist/generator.js";
+import { generatePreview } from "../src/games/heist/preview.js";
+import type { HeistHazard, HeistScenarioParams } from "../src/games/heist/types.js";
+import { validateHeistScenarioParams } from "../src/games/heist/types.js";
+import { validateHeistScenario } from "../src/games/heist/validator.js";
+import { createHeistScenario } from "../src/scenarios/heist/index.js";
+
+const hazardScenario = (hazards: Record<string, HeistHazard>): HeistScenarioParams => {
+  const rooms: HeistScenarioParams["map"]["rooms"] = [
+    { id: "spawn", type: "spawn", position: { x: 0, y: 2 } },
+    { id: "hall-a", type: "hallway", position: { x: 1, y: 2 } },
+    { id: "hall-b", type: "hallway", position: { x: 0, y: 1 } },
+    { id: "inner", type: "utility", position: { x: 1, y: 1 } },
+    { id: "vault", type: "vault", position: { x: 1, y: 0 } },
+    { id: "extraction", type: "extraction", position: { x: 2, y: 0 } },
+  ];
+  return {
+    map: {
+      rooms: rooms.map((room) => (hazards[room.id] ? { ...room, hazard: hazards[room.id] } : room)),
+      doors: [
+        { id: "door-1", roomA: "spawn", roomB: "hall-a" },
+        { id: "door-2", roomA: "hall-a", roomB: "inner" },
+        { id: "door-3", roomA: "spawn", roomB: "hall-b" },
+        { id: "door-4", roomA: "hall-b", roomB: "inner" },
+        { id: "door-5", roomA: "inner", roomB: "vault" },
+        { id: "door-6", roomA: "vault", roomB: "extraction" },
+      ],
+    },
+    entities: [],
+    items: [],
+    rules: {
+      noiseTable: { move: 1 },
+      alertThresholds: [0, 2, 4],
+      noiseDecayRate: 0,
+      maxAlertLevel: 3,
+      captureOnMaxAlert: false,
+    },
+    scoring: {
+      objectiveSecured: 100,
+      extractionBonus: 50,
+      turnsRemainingMultiplier: 1,
+      lootMultiplier: 0.5,
+      alertPenaltyPerLevel: 10,
+      invalidActionPenalty: 5,
+    },
+    winCondition: {
+      requiredObjectives: [],
+      extractionRoomId: "extraction",
+      maxTurns: 6,
+      maxAlertLevel: 3,
+    },
+  };
+};
+
+describe("Heist hazards", () => {
+  it("validates when a hazard-free route remains and flags maps without one", () => {
+    const oneHazard = hazardScenario({ "hall-a": { type: "laser_grid", damage: 10 } });
+    expect(validateHeistScenarioParams(oneHazard).ok).toBe(true);
+    expect(validateHeistScenario(oneHazard).ok).toBe(true);
+
+    const blocked = validateHeistScenario(
+      hazardScenario({
+        "hall-a": { type: "laser_grid", damage: 10 },
+        "hall-b": { type: "pressure_plate", noise: 2 },
+      }),
+    );
+    expect(blocked.ok).toBe(false);
+    expect(blocked.errors).toEqual([
+      expect.objectContaining({
+        code: "HEIST_HAZARD_NO_SAFE_PATH",
+        details: expect.objectContaining({ unreachableRooms: ["vault", "extraction"] }),
+      }),
+    ]);
+  });
+
+  it("rejects unknown hazard types and negative effects", () => {
+    const params = hazardScenario({ "hall-a": { type: "laser_grid", damage: -1 } });
+    expect(validateHeistScenarioParams(params).ok).toBe(false);
+    const unknown = hazardScenario({
+      "hall-a": { type: "trapdoor" as HeistHazard["type"] },
+    });
+    expect(validateHeistScenarioParams(unknown).ok).toBe(false);
+  });
+
+  it("shows hazards on adjacent rooms and sets them off on entry", () => {
+    const params = hazardScenario({
+      "hall-a": { type: "pressure_plate", noise: 3, damage: 10 },
+    });
+    const scenario = createHeistScenario(params);
+    const state = scenario.init(1, ["alice"]);
+
+    const observation = scenario.observe(state, "alice");
+    expect(observation.adjacentRooms.find((room) => room.roomId === "hall-a")?.hazard).toEqual({
+      type: "pressure_plate",
+      noise: 3,
+      damage: 10,
+    });
+    expect(observation.adjacentRooms.find((room) => room.roomId === "hall-b")).not.toHaveProperty(
+      "hazard",
+    );
+
+    const result = scenario.adjudicate(state, "alice", { type: "move", toRoomId: "hall-a" });
+    expect(result.valid).toBe(true);
+    expect(result.state.noise).toBe(4);
+    expect(result.state.alertLevel).toBe(2);
+    expect(result.state.agents.alice.score).toBe(-10);
+    expect(result.state).not.toHaveProperty("pinnedTurns");
+    expect(result.feedback).toMatchObject({
+      result: "moved",
+      detections: [
+        {
+          code: "hazard_triggered",
+          hazardType: "pressure_plate",
+          roomId: "hall-a",
+          noise: 3,
+          damage: 10,
+          waitTurns: 0,
+          alertLevel: 2,
+        },
+      ],
+    });
+
+    const safe = scenario.adjudicate(state, "alice", { type: "move", toRoomId: "hall-b" });
+    expect(safe.state.noise).toBe(1);
+    expect(safe.feedback).not.toHaveProperty("detections");
+  });
+
+  it("pins an agent in place for the hazard's wait turns", () => {
+    const scenario = createHeistScenario(
+      hazardScenario({ "hall-a": { type: "motion_sensor", waitTurns: 2 } }),
+    );
+    let state = scenario.init(1, ["alice"]);
+    state = scenario.adjudicate(state, "alice", { type: "move", toRoomId: "hall-a" }).state;
+    expect(state.pinnedTurns).toEqual({ alice: 2 });
+
+    const first = scenario.adjudicate(state, "alice", { type: "move", toRoomId: "inner" });
+    expect(first.valid).toBe(true);
+    expect(first.feedback).toMatchObject({ result: "pinned", turnsLeft: 1 });
+    expect(first.state.agents.alice.roomId).toBe("hall-a");
+    expect(first.state.turn).toBe(2);
+
+    const second = scenario.adjudicate(first.state, "alice", { type: "move", toRoomId: "inner" });
+    expect(second.feedback).toMatchObject({ result: "pinned", turnsLeft: 0 });
+    expect(second.state.agents.alice.roomId).toBe("hall-a");
+
+    const freed = scenario.adjudicate(second.state, "alice", { type: "move", toRoomId: "inner" });
+    expect(freed.feedback).toMatchObject({ result: "moved" });
+    expect(freed.state.agents.alice.roomId).toBe("inner");
+  });
+
+  it("places more hazards at higher difficulty without breaking validation", () => {
+    const counts = (["easy", "normal", "hard"] as const).map((difficultyPreset) => {
+      const params = generateHeistScenario(
+        { preset: "prison_escape", hazardsEnabled: true, difficultyPreset },
+        2,
+      );
+      expect(validateHeistScenario(params).ok).toBe(true);
+      return params.map.rooms.filter((room) => room.hazard).length;
+    });
+    expect(counts).toEqual([1, 2, 3]);
+
+    const plain = generateHeistScenario({ preset: "prison_escape" }, 2);
+    expect(plain.map.rooms.some((room) => room.hazard)).toBe(false);
+  });
+
+  it("renders hazards in the preview and debug view", () => {
+    const params = hazardScenario({ "hall-a": { type: "laser_grid", damage: 10 } });
+
+    const preview = generatePreview(params);
+    expect(preview).toContain("[S]---{.}");
+    expect(preview).toContain("HAZARDS: hall-a laser_grid (score -10)");
+    expect(generatePreview(hazardScenario({}))).not.toContain("HAZARDS:");
+
+    const svg = generateHeistDebugView(params);
+    expect(svg).toContain('data-hazard="laser_grid"');
+    expect(svg).toContain(">Hazard</text>");
+  });
+});
@@ -6,7 +6,11 @@ import {
   createMomentDetectorState,
   runHeistStatefulDetectors,
 } from "../src/components/heist/hud/selectors.js";
-import { HEIST_ERROR_CODES, HEIST_RESULT_CODES } from "../src/scenarios/heist/feedbackCodes.js";
+import {
+  HEIST_DETECTION_CODES,
+  HEIST_ERROR_CODES,
+  HEIST_RESULT_CODES,
+} from "../src/scenarios/heist/feedbackCodes.js";
 import type { HeistMomentCandidate } from "../src/components/heist/moments/momentTypes.js";
 
 const createBaseState = (overrides?: Partial<HeistSceneState>): HeistSceneState => ({
@@ -88,6 +92,89 @@ describe("heist moment mapping", () => {
     expect(candidate?.id).toBe("terminal_hacked");
     expect(candidate?.register).toBe("progress");
   });
+
+  it("maps a tripped door alarm to alarm_tripped and a breach to door_breached", () => {
+    const state = createBaseState();
+    const tripped = adjudicationToMomentCandidate(
+      createAdjudicatedEvent({
+        valid: true,
+        feedback: { result: HEIST_RESULT_CODES.door_forced, doorId: "door-1", alarmTripped: true },
+      }),
+      state,
+    );
+    expect(tripped?.id).toBe("alarm_tripped");
+    expect(tripped?.register).toBe("failure");
+
+    const quiet = adjudicationToMomentCandidate(
+      createAdjudicatedEvent({
+        valid: true,
+        feedback: {
+          result: HEIST_RESULT_CODES.door_unlocked,
+          doorId: "door-1",
+          alarmTripped: false,
+        },
+      }),
+      state,
+    );
+    expect(quiet?.id).toBe("door_breached");
+    expect(quiet?.register).toBe("progress");
+  });
+
+  it("maps guard detections to guard_detection ahead of the action result", () => {
+    const state = createBaseState();
+    const event = createAdjudicatedEvent({
+      valid: true,
+      feedback: {
+        result: HEIST_RESULT_CODES.moved,
+        detections: [
+          {
+            code: HEIST_DETECTION_CODES.guard_detected,
+            guardId: "guard-1",
+            guardRoomId: "room-b",
+            distance: 0,
+            alertLevel: 2,
+          },
+        ],
+      },
+    });
+    const candidate = adjudicationToMomentCandidate(event, state);
+    expect(candidate?.id).toBe("guard_detection");
+    expect(candidate?.context.alertLevelAfter).toBe(2);
+    expect(candidate?.context.detectionEvent).toBeDefined();
+  });
+
+  it("maps camera sightings to camera_spotted and shutdowns to camera_disabled", () => {
+    const state = createBaseState();
+    const spotted = adjudicationToMomentCandidate(
+      createAdjudicatedEvent({
+        valid: true,
+        feedback: {
+          result: HEIST_RESULT_CODES.moved,
+          detections: [
+            {
+              code: HEIST_DETECTION_CODES.camera_detected,
+              cameraId: "camera-1",
+              cameraRoomId: "room-b",
+              alertLevel: 1,
+            },
+          ],
+        },
+      }),
+      state,
+    );
+    expect(spotted?.id).toBe("camera_spotted");
+    expect(spotted?.register).toBe("tension");
+
+    const disabled = adjudicationToMomentCandidate(
+      createAdjudicatedEvent({
+        valid: true,
+        feedback: { result: HEIST_RESULT_CODES.camera_disabled, cameraId: "camera-1" },
+      }),
+      state,
+    );
+    expect(disabled?.id).toBe("camera_disabled");
+    expect(disabled?.context.cameraLabel).toBe("camera-1");
+  });
 });
 
 describe("heist moment detectors", () => {
@@ -201,8 +288,6 @@ describe("heist moment detectors", () => {
     expect(seventh.some((candidate) => candidate.id === "stalled_objective")).toBe(true);
   });
 
-
-
   it("fires fm17_stall once when no-progress same-room same-action streak reaches 6", () => {
     const detectorState = createMomentDetectorState();
     let previousState: HeistSceneState | undefined;
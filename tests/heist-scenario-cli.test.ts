@@ -1,12 +1,16 @@
-import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, expect, it } from "vitest";
 import { stableStringify } from "../src/core/json.js";
 import { runScenarioCli } from "../src/cli/scenario.js";
+import { HEIST_PRESETS } from "../src/games/heist/generator.js";
 
 const createTempDir = (): string => mkdtempSync(join(tmpdir(), "hashmatch-heist-scenario-"));
 
+/** Keeps each solve to a couple of seconds; par on these maps is found well within it. */
+const FAST_SOLVE = ["--max-states", "5000"];
+
 describe("heist scenario CLI", () => {
   it("generates, validates, previews, and describes scenarios", () => {
     const baseDir = createTempDir();
@@ -19,6 +23,7 @@ describe("heist scenario CLI", () => {
       "3",
       "--preset",
       "warehouse_breakin",
+      ...FAST_SOLVE,
       "--out",
       outDir,
     ]);
@@ -53,6 +58,7 @@ describe("heist scenario CLI", () => {
       "3",
       "--preset",
       "warehouse_breakin",
+      ...FAST_SOLVE,
       "--out",
       outDir,
       "--validate",
@@ -91,6 +97,7 @@ describe("heist scenario CLI", () => {
       "3",
       "--preset",
       "warehouse_breakin",
+      ...FAST_SOLVE,
       "--out",
       outDirA,
     ]);
@@ -102,6 +109,7 @@ describe("heist scenario CLI", () => {
       "3",
       "--preset",
       "warehouse_breakin",
+      ...FAST_SOLVE,
       "--out",
       outDirB,
     ]);
@@ -115,4 +123,86 @@ describe("heist scenario CLI", () => {
 
     rmSync(baseDir, { recursive: true, force: true });
   });
+
+  it("solves a scenario file in place and reports par in the layout report", () => {
+    const baseDir = createTempDir();
+    const outDir = join(baseDir, "scenario");
+    const result = runScenarioCli([
+      "gen",
+      "--game",
+      "heist",
+      "--seed",
+      "3",
+      "--preset",
+      "warehouse_breakin",
+      ...FAST_SOLVE,
+      "--out",
+      outDir,
+    ]);
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain(
+      "Par: 14 turns, optimal score 244 in 14 turns (search capped after 5000 states).",
+    );
+
+    const scenarioPath = join(outDir, "scenario.json");
+    const { par, ...unsolved } = JSON.parse(readFileSync(scenarioPath, "utf-8")) as {
+      par?: unknown;
+    };
+    expect(par).toEqual({
+      parTurns: 14,
+      optimalScore: 244,
+      optimalTurns: 14,
+      exhaustive: false,
+      statesExplored: 5000,
+    });
+    writeFileSync(scenarioPath, `${stableStringify(unsolved)}\n`, "utf-8");
+
+    const report = runScenarioCli(["layout-report", "--path", scenarioPath, ...FAST_SOLVE]);
+    expect(report.code).toBe(0);
+    expect(report.stdout).toContain(
+      "Par: 14 turns (search capped; best found)\nOptimal score: 244 in 14 turns (search capped; best found)\n",
+    );
+
+    const solve = runScenarioCli(["solve", "--path", scenarioPath, ...FAST_SOLVE]);
+    expect(solve.code).toBe(0);
+    expect(JSON.parse(readFileSync(scenarioPath, "utf-8"))).toHaveProperty("par", par);
+
+    rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it("refuses to write a scenario whose par cannot be reached", () => {
+    const baseDir = createTempDir();
+    const configPath = join(baseDir, "config.json");
+    writeFileSync(
+      configPath,
+      `${JSON.stringify({ ...HEIST_PRESETS.warehouse_breakin, maxTurns: 2 })}\n`,
+      "utf-8",
+    );
+    const outDir = join(baseDir, "scenario");
+    const result = runScenarioCli([
+      "gen",
+      "--game",
+      "heist",
+      "--seed",
+      "3",
+      "--config",
+      configPath,
+      "--out",
+      outDir,
+    ]);
+
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain(
+      "Par is unreachable for heist:custom-3: no line holds every objective and extracts within 2 turns.",
+    );
+    expect(existsSync(join(outDir, "scenario.json"))).toBe(false);
+
+    rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it("rejects a --max-states that is not a positive whole number", () => {
+    const result = runScenarioCli(["solve", "--path", "scenario.json", "--max-states", "0"]);
+    expect(result.code).toBe(1);
+    expect(result.stderr).toBe("Invalid --max-states.\n");
+  });
 });
@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  listHeistScenarioPresets,
+  loadHeistScenarioFile,
+  resolveHeistPresetPath,
+  resolveHeistScenarioPath,
+} from "../src/games/heist/scenarioFile.js";
+import { runVerifyMatchCli } from "../src/cli/verify-match.js";
+import { hashFile } from "../src/core/hash.js";
+import { getScenarioFactory } from "../src/tournament/runTournament.js";
+import { runMatchWithArtifacts } from "../src/tournament/runMatchWithArtifacts.js";
+
+const PRESET_ID = "museum_night_seed24";
+
+describe("Heist scenario files", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    for (const dir of tempDirs) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  const makeTempDir = (): string => {
+    const dir = mkdtempSync(join(tmpdir(), "hm-heist-file-"));
+    tempDirs.push(dir);
+    return dir;
+  };
+
+  it("resolves preset ids and lists shipped presets", () => {
+    expect(listHeistScenarioPresets()).toContain(PRESET_ID);
+    const path = resolveHeistScenarioPath(PRESET_ID);
+    expect(path).toBe(join(process.cwd(), "scenarios", "heist", `${PRESET_ID}.scenario.json`));
+    expect(() => resolveHeistScenarioPath("no_such_preset")).toThrow(/no_such_preset/);
+  });
+
+  it("resolves only presets and files under scenarios/heist for untrusted callers", () => {
+    const presetPath = resolveHeistScenarioPath(PRESET_ID);
+    expect(resolveHeistPresetPath(PRESET_ID)).toBe(presetPath);
+    expect(resolveHeistPresetPath(`scenarios/heist/${PRESET_ID}.scenario.json`)).toBe(presetPath);
+
+    const dir = makeTempDir();
+    const outside = join(dir, "outside.scenario.json");
+    writeFileSync(outside, readFileSync(presetPath, "utf-8"), "utf-8");
+    expect(() => resolveHeistPresetPath(outside)).toThrow(/not a Heist preset/);
+    expect(() => resolveHeistPresetPath("../../package.json")).toThrow(/not a Heist preset/);
+    expect(() => resolveHeistPresetPath("package.json")).toThrow(/not a Heist preset/);
+  });
+
+  it("rejects files that fail validation", () => {
+    const dir = makeTempDir();
+    const path = join(dir, "broken.scenario.json");
+    const preset = JSON.parse(readFileSync(resolveHeistScenarioPath(PRESET_ID), "utf-8")) as {
+      params: { winCondition: { extractionRoomId: string } };
+    };
+    preset.params.winCondition.extractionRoomId = "room-missing";
+    writeFileSync(path, JSON.stringify(preset), "utf-8");
+
+    expect(() => loadHeistScenarioFile(path)).toThrow(/failed validation/);
+    expect(() => getScenarioFactory("heist", path)).toThrow(/failed validation/);
+  });
+
+  it("plays the file's map instead of the default one", () => {
+    const path = resolveHeistScenarioPath(PRESET_ID);
+    const { params } = loadHeistScenarioFile(path);
+    const scenario = getScenarioFactory("heist", path)();
+    const state = scenario.init(1, ["a", "b"]) as { params: { map: { rooms: unknown[] } } };
+
+    expect(state.params.map.rooms).toHaveLength(params.map.rooms.length);
+    expect(() => getScenarioFactory("numberGuess", path)).toThrow(
+      /does not support scenario files/,
+    );
+  });
+
+  it("hashes the scenario file into match_manifest.json", async () => {
+    const outDir = join(makeTempDir(), "match");
+    const path = resolveHeistScenarioPath(PRESET_ID);
+
+    await runMatchWithArtifacts({
+      scenarioKey: "heist",
+      scenarioPath: path,
+      agentKeys: ["noop", "noop"],
+      seed: 7,
+      maxTurns: 3,
+      outDir,
+    });
+
+    const manifest = JSON.parse(readFileSync(join(outDir, "match_manifest.json"), "utf-8")) as {
+      scenario: { contentHash: string; version: string };
+    };
+    expect(manifest.scenario.contentHash).toBe(await hashFile(path));
+    expect(manifest.scenario.version).toBe("0.1.0");
+  });
+
+  it("re-simulates only with the scenario file named in the manifest", async () => {
+    const outDir = join(makeTempDir(), "match");
+    const path = resolveHeistScenarioPath(PRESET_ID);
+    await runMatchWithArtifacts({
+      scenarioKey: "heist",
+      scenarioPath: path,
+      agentKeys: ["noop", "noop"],
+      seed: 7,
+      maxTurns: 3,
+      outDir,
+    });
+    const errors: string[] = [];
+    vi.spyOn(process.stdout, "write").mockReturnValue(true);
+    vi.spyOn(console, "error").mockImplementation((message: string) => errors.push(message));
+
+    const verify = (scenarioFile: string) =>
+      runVerifyMatchCli(["--path", outDir, "--resimulate", "--scenario-file", scenarioFile]);
+    expect(await verify(path)).toBe(0);
+    const other = resolveHeistScenarioPath("prison_escape_seed2");
+    expect(await verify(other)).toBe(2);
+    expect(errors.join("\n")).toContain("does not match the match manifest");
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
+import type { HeistScenarioParams } from "../src/games/heist/types.js";
 import type { HeistAction, HeistState } from "../src/scenarios/heist/index.js";
-import { createHeistScenario } from "../src/scenarios/heist/index.js";
+import { createHeistScenario, DEFAULT_HEIST_PARAMS } from "../src/scenarios/heist/index.js";
 
 const agentIds = ["alice", "bob"];
 
@@ -85,4 +86,422 @@ describe("Heist scenario", () => {
     expect(allowed.valid).toBe(true);
     expect(allowed.state.agents.alice.roomId).toBe("room-3");
   });
+
+  it("advances the shared turn once per round of agent actions", () => {
+    const scenario = createHeistScenario();
+    let state = scenario.init(42, agentIds);
+
+    state = scenario.adjudicate(state, "alice", { type: "wait" }).state;
+    expect(state.turn).toBe(1);
+    state = scenario.adjudicate(state, "bob", { type: "wait" }).state;
+    expect(state.turn).toBe(1);
+    state = scenario.adjudicate(state, "alice", { type: "move", toRoomId: "room-2" }).state;
+    expect(state.turn).toBe(2);
+  });
+
+  it("shows rivals in the same room and lets them download cracked intel", () => {
+    const scenario = createHeistScenario();
+    let state = scenario.init(42, agentIds);
+
+    expect(scenario.observe(state, "alice").visibleAgents).toEqual(["bob"]);
+
+    state = scenario.adjudicate(state, "alice", { type: "move", toRoomId: "room-2" }).state;
+    state = scenario.adjudicate(state, "bob", { type: "wait" }).state;
+    expect(scenario.observe(state, "alice").visibleAgents).toEqual([]);
+
+    state = scenario.adjudicate(state, "alice", {
+      type: "use_terminal",
+      terminalId: "terminal-1",
+    }).state;
+    state = scenario.adjudicate(state, "bob", { type: "move", toRoomId: "room-2" }).state;
+    state = scenario.adjudicate(state, "alice", {
+      type: "use_terminal",
+      terminalId: "terminal-1",
+    }).state;
+    expect(state.agents.alice.inventory).toContain("intel-1");
+
+    const download = scenario.adjudicate(state, "bob", {
+      type: "use_terminal",
+      terminalId: "terminal-1",
+    });
+    expect(download.valid).toBe(true);
+    expect(download.feedback).toMatchObject({
+      result: "intel_downloaded",
+      grantedItems: ["intel-1"],
+    });
+    expect(download.state.agents.bob.inventory).toContain("intel-1");
+    expect(download.state.itemClaims["intel-1"]?.agentId).toBe("alice");
+  });
+});
+
+describe("Heist guards", () => {
+  const guardedParams: HeistScenarioParams = {
+    ...DEFAULT_HEIST_PARAMS,
+    entities: [
+      ...DEFAULT_HEIST_PARAMS.entities,
+      {
+        id: "guard-1",
+        type: "guard",
+        patrolRoute: ["room-4", "room-3", "room-2"],
+        detectionRange: 0,
+      },
+    ],
+  };
+
+  it("patrols deterministically and is visible only nearby", () => {
+    const scenario = createHeistScenario(guardedParams);
+    let state = scenario.init(42, ["alice"]);
+
+    const guardIds = (s: HeistState) =>
+      scenario
+        .observe(s, "alice")
+        .visibleEntities.filter((entity) => entity.type === "guard")
+        .map((entity) => ("roomId" in entity ? entity.roomId : null));
+
+    // Turn 0: guard in room-4, three doors from spawn.
+    expect(guardIds(state)).toEqual([]);
+
+    state = scenario.adjudicate(state, "alice", { type: "wait" }).state;
+    // Turn 1: guard in room-3, still out of sight.
+    expect(guardIds(state)).toEqual([]);
+
+    state = scenario.adjudicate(state, "alice", { type: "wait" }).state;
+    // Turn 2: guard in room-2, adjacent to spawn.
+    expect(guardIds(state)).toEqual(["room-2"]);
+
+    const summary = scenario.summarize(state) as {
+      guards: Record<string, { roomId: string; patrolIndex: number }>;
+    };
+    expect(summary.guards["guard-1"]).toMatchObject({ roomId: "room-2", patrolIndex: 2 });
+  });
+
+  it("raises alert once when a guard spots an agent in range", () => {
+    const scenario = createHeistScenario(guardedParams);
+    let state = scenario.init(42, ["alice"]);
+
+    state = scenario.adjudicate(state, "alice", { type: "move", toRoomId: "room-2" }).state;
+    expect(state.alertLevel).toBe(0);
+
+    // Turn 2: the guard walks into room-2 where alice is waiting.
+    const spotted = scenario.adjudicate(state, "alice", { type: "wait" });
+    expect(spotted.state.alertLevel).toBe(1);
+    expect(spotted.feedback).toMatchObject({
+      detections: [{ code: "guard_detected", guardId: "guard-1", guardRoomId: "room-2" }],
+    });
+    expect(spotted.state.guardSightings["guard-1"]).toEqual(["alice"]);
+
+    // Turn 3: the guard moves on to room-4 and loses contact.
+    const clear = scenario.adjudicate(spotted.state, "alice", { type: "wait" });
+    expect(clear.state.alertLevel).toBe(1);
+    expect(clear.feedback).not.toHaveProperty("detections");
+    expect(clear.state.guardSightings["guard-1"]).toEqual([]);
+  });
+
+  // room-5 | room-1 (spawn) - room-2 - room-3
+  //                                       |
+  //                                     room-4
+  const sightParams = (guardRooms: string[]): HeistScenarioParams => ({
+    ...DEFAULT_HEIST_PARAMS,
+    map: {
+      rooms: [
+        { id: "room-1", type: "spawn", position: { x: 0, y: 0 } },
+        { id: "room-2", type: "hallway", position: { x: 1, y: 0 } },
+        { id: "room-3", type: "vault", position: { x: 2, y: 0 } },
+        { id: "room-4", type: "extraction", position: { x: 2, y: 1 } },
+        { id: "room-5", type: "utility", position: { x: -1, y: 0 } },
+      ],
+      doors: [
+        { id: "door-1", roomA: "room-1", roomB: "room-2" },
+        { id: "door-2", roomA: "room-2", roomB: "room-3" },
+        { id: "door-3", roomA: "room-3", roomB: "room-4" },
+        { id: "door-4", roomA: "room-1", roomB: "room-5", locked: true },
+      ],
+    },
+    entities: guardRooms.map((roomId, index) => ({
+      id: `guard-${index + 1}`,
+      type: "guard" as const,
+      patrolRoute: [roomId],
+      detectionRange: 3,
+    })),
+    rules: { ...DEFAULT_HEIST_PARAMS.rules, guardDetectionRange: undefined },
+  });
+
+  it("sees straight on through open doors but not around corners or through locked doors", () => {
+    const inLine = createHeistScenario(sightParams(["room-3"]));
+    const spotted = inLine.adjudicate(inLine.init(42, ["alice"]), "alice", { type: "wait" });
+    expect(spotted.feedback).toMatchObject({
+      detections: [{ code: "guard_detected", guardId: "guard-1", distance: 2 }],
+    });
+
+    const hidden = createHeistScenario(sightParams(["room-4", "room-5"]));
+    const unseen = hidden.adjudicate(hidden.init(42, ["alice"]), "alice", { type: "wait" });
+    expect(unseen.feedback).not.toHaveProperty("detections");
+    expect(unseen.state.alertLevel).toBe(0);
+  });
+
+  it("raises alert by one level however many guards spot the agent at once", () => {
+    const scenario = createHeistScenario(sightParams(["room-1", "room-2", "room-3"]));
+    const result = scenario.adjudicate(scenario.init(42, ["alice"]), "alice", { type: "wait" });
+
+    expect(result.state.alertLevel).toBe(1);
+    expect((result.feedback as { detections: unknown[] }).detections).toHaveLength(3);
+    expect(result.feedback).toMatchObject({
+      detections: [{ alertLevel: 1 }, { alertLevel: 1 }, { alertLevel: 1 }],
+    });
+  });
+});
+
+describe("Heist noise", () => {
+  it("adds action noise and decays it each turn", () => {
+    const scenario = createHeistScenario();
+    let state = scenario.init(42, ["alice"]);
+
+    state = scenario.adjudicate(state, "alice", { type: "move", toRoomId: "room-2" }).state;
+    expect(state.noise).toBe(1);
+
+    state = scenario.adjudicate(state, "alice", { type: "wait" }).state;
+    expect(state.noise).toBe(0);
+    expect(state.alertLevel).toBe(0);
+  });
+
+  it("raises the alert level when noise crosses a threshold and keeps it raised", () => {
+    const scenario = createHeistScenario({
+      ...DEFAULT_HEIST_PARAMS,
+      rules: { ...DEFAULT_HEIST_PARAMS.rules, noiseTable: { move: 3, wait: 0 } },
+    });
+    let state = scenario.init(42, ["alice"]);
+
+    state = scenario.adjudicate(state, "alice", { type: "move", toRoomId: "room-2" }).state;
+    expect(state.noise).toBe(3);
+    expect(state.alertLevel).toBe(1);
+
+    state = scenario.adjudicate(state, "alice", { type: "wait" }).state;
+    expect(state.noise).toBe(2);
+    expect(state.alertLevel).toBe(1);
+  });
+
+  it("ends the match in capture at max alert when captureOnMaxAlert is set", () => {
+    const scenario = createHeistScenario({
+      ...DEFAULT_HEIST_PARAMS,
+      rules: {
+        ...DEFAULT_HEIST_PARAMS.rules,
+        noiseTable: { move: 10, wait: 0 },
+        captureOnMaxAlert: true,
+      },
+    });
+    let state = scenario.init(42, ["alice"]);
+    expect(scenario.isTerminal(state)).toBe(false);
+
+    state = scenario.adjudicate(state, "alice", { type: "move", toRoomId: "room-2" }).state;
+    expect(state.alertLevel).toBe(3);
+    expect(scenario.isTerminal(state)).toBe(true);
+    expect(scenario.summarize(state)).toMatchObject({ outcome: "captured", noise: 10 });
+  });
+});
+
+describe("Heist doors and tools", () => {
+  const toolParams: HeistScenarioParams = {
+    ...DEFAULT_HEIST_PARAMS,
+    map: {
+      ...DEFAULT_HEIST_PARAMS.map,
+      doors: DEFAULT_HEIST_PARAMS.map.doors.map((door) =>
+        door.id === "door-2" ? { ...door, alarmed: true, noiseOnForce: 2 } : door,
+      ),
+    },
+    items: [
+      ...DEFAULT_HEIST_PARAMS.items,
+      { id: "tool-1", type: "tool", roomId: "room-2", toolType: "lockpick", uses: 1 },
+      { id: "tool-2", type: "tool", roomId: "room-2", toolType: "emp" },
+    ],
+  };
+
+  function atLockedDoor(scenario: ReturnType<typeof createHeistScenario>, pickups: string[]) {
+    let state = scenario.init(42, ["alice", "bob"]);
+    state = applyActions(state, [
+      { agentId: "alice", action: { type: "move", toRoomId: "room-2" } },
+      ...pickups.map((itemId) => ({
+        agentId: "alice",
+        action: { type: "pickup", itemId } as const,
+      })),
+    ]);
+    return state;
+  }
+
+  it("forces a locked door open for everyone at its noise cost and trips its alarm", () => {
+    const scenario = createHeistScenario(toolParams);
+    const state = atLockedDoor(scenario, []);
+
+    const result = scenario.adjudicate(state, "alice", { type: "force_door", doorId: "door-2" });
+    expect(result.valid).toBe(true);
+    expect(result.feedback).toMatchObject({ result: "door_forced", alarmTripped: true });
+    expect(result.state.openedDoors["door-2"]).toBe(true);
+    expect(result.state.doorAlarms["door-2"]).toBe("tripped");
+    expect(result.state.noise).toBe(2);
+    expect(result.state.alertLevel).toBe(1);
+
+    const bobView = scenario.observe(
+      applyActions(result.state, [
+        { agentId: "bob", action: { type: "move", toRoomId: "room-2" } },
+      ]),
+      "bob",
+    );
+    expect(bobView.adjacentRooms.find((room) => room.doorId === "door-2")).toMatchObject({
+      locked: false,
+      passable: true,
+    });
+    expect(bobView.adjacentRooms.find((room) => room.doorId === "door-2")).not.toHaveProperty(
+      "alarmed",
+    );
+
+    const again = scenario.adjudicate(result.state, "alice", {
+      type: "force_door",
+      doorId: "door-2",
+    });
+    expect(again.valid).toBe(false);
+    expect(again.feedback).toMatchObject({ error: "door_not_locked" });
+  });
+
+  it("disarms an alarm with an emp and then picks the lock quietly, spending the lockpick", () => {
+    const scenario = createHeistScenario(toolParams);
+    let state = atLockedDoor(scenario, ["tool-1", "tool-2"]);
+    expect(scenario.observe(state, "alice").inventory).toContainEqual({
+      itemId: "tool-1",
+      type: "tool",
+      usesLeft: 1,
+    });
+
+    const disarmed = scenario.adjudicate(state, "alice", {
+      type: "use_item",
+      itemId: "tool-2",
+      targetId: "door-2",
+    });
+    expect(disarmed.feedback).toMatchObject({ result: "alarm_disarmed" });
+    expect(disarmed.state.agents.alice.inventory).toContain("tool-2");
+    state = disarmed.state;
+
+    const picked = scenario.adjudicate(state, "alice", {
+      type: "use_item",
+      itemId: "tool-1",
+      targetId: "door-2",
+    });
+    expect(picked.valid).toBe(true);
+    expect(picked.feedback).toMatchObject({
+      result: "door_unlocked",
+      alarmTripped: false,
+      usesLeft: 0,
+    });
+    expect(picked.state.alertLevel).toBe(0);
+    expect(picked.state.agents.alice.inventory).not.toContain("tool-1");
+
+    const moved = scenario.adjudicate(picked.state, "alice", { type: "move", toRoomId: "room-3" });
+    expect(moved.valid).toBe(true);
+  });
+
+  it("rejects tools the agent is not carrying and doors out of reach", () => {
+    const scenario = createHeistScenario(toolParams);
+    const state = atLockedDoor(scenario, ["tool-2"]);
+
+    const missing = scenario.adjudicate(state, "alice", {
+      type: "use_item",
+      itemId: "tool-1",
+      targetId: "door-2",
+    });
+    expect(missing.feedback).toMatchObject({ error: "item_not_in_inventory" });
+
+    const notTool = scenario.adjudicate(state, "alice", {
+      type: "use_item",
+      itemId: "tool-2",
+      targetId: "door-3",
+    });
+    expect(notTool.feedback).toMatchObject({ error: "door_not_adjacent" });
+  });
+});
+
+describe("Heist cameras", () => {
+  const cameraParams: HeistScenarioParams = {
+    ...DEFAULT_HEIST_PARAMS,
+    entities: [
+      ...DEFAULT_HEIST_PARAMS.entities.map((entity) =>
+        entity.id === "terminal-1" ? { ...entity, successDisables: ["camera-1"] } : entity,
+      ),
+      { id: "camera-1", type: "camera", roomId: "room-2", range: 0 },
+    ],
+    items: [
+      ...DEFAULT_HEIST_PARAMS.items,
+      { id: "tool-1", type: "tool", roomId: "room-1", toolType: "emp", uses: 1 },
+    ],
+  };
+
+  it("adds noise once when an agent walks into view", () => {
+    const scenario = createHeistScenario(cameraParams);
+    const state = scenario.init(42, ["alice"]);
+
+    const spotted = scenario.adjudicate(state, "alice", { type: "move", toRoomId: "room-2" });
+    expect(spotted.state.noise).toBe(3);
+    expect(spotted.state.alertLevel).toBe(1);
+    expect(spotted.feedback).toMatchObject({
+      detections: [{ code: "camera_detected", cameraId: "camera-1", cameraRoomId: "room-2" }],
+    });
+
+    const still = scenario.adjudicate(spotted.state, "alice", { type: "wait" });
+    expect(still.state.noise).toBe(2);
+    expect(still.feedback).not.toHaveProperty("detections");
+
+    const summary = scenario.summarize(still.state) as {
+      cameras: Record<string, { disabled: boolean; coverage: string[]; detecting: string[] }>;
+    };
+    expect(summary.cameras["camera-1"]).toEqual(
+      expect.objectContaining({ disabled: false, coverage: ["room-2"], detecting: ["alice"] }),
+    );
+  });
+
+  it("is switched off by hacking its linked terminal", () => {
+    const scenario = createHeistScenario(cameraParams);
+    let state = scenario.init(42, ["alice"]);
+    state = applyActions(state, [
+      { agentId: "alice", action: { type: "move", toRoomId: "room-2" } },
+      { agentId: "alice", action: { type: "use_terminal", terminalId: "terminal-1" } },
+    ]);
+
+    const hacked = scenario.adjudicate(state, "alice", {
+      type: "use_terminal",
+      terminalId: "terminal-1",
+    });
+    expect(hacked.feedback).toMatchObject({
+      result: "hack_complete",
+      disabledCameras: ["camera-1"],
+    });
+    expect(hacked.state.cameraDisabled["camera-1"]).toBe(true);
+    expect(hacked.state.cameraSightings["camera-1"]).toEqual([]);
+    expect(scenario.observe(hacked.state, "alice").visibleEntities).toContainEqual(
+      expect.objectContaining({ id: "camera-1", disabled: true }),
+    );
+  });
+
+  it("is switched off by an emp in the same room", () => {
+    const scenario = createHeistScenario(cameraParams);
+    let state = scenario.init(42, ["alice"]);
+    state = applyActions(state, [
+      { agentId: "alice", action: { type: "pickup", itemId: "tool-1" } },
+    ]);
+
+    const away = scenario.adjudicate(state, "alice", {
+      type: "use_item",
+      itemId: "tool-1",
+      targetId: "camera-1",
+    });
+    expect(away.feedback).toMatchObject({ error: "camera_not_in_room" });
+
+    state = applyActions(state, [
+      { agentId: "alice", action: { type: "move", toRoomId: "room-2" } },
+    ]);
+    const jammed = scenario.adjudicate(state, "alice", {
+      type: "use_item",
+      itemId: "tool-1",
+      targetId: "camera-1",
+    });
+    expect(jammed.valid).toBe(true);
+    expect(jammed.feedback).toMatchObject({ result: "camera_disabled", usesLeft: 0 });
+    expect(jammed.state.cameraDisabled["camera-1"]).toBe(true);
+  });
 });
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { solveHeistScenario } from "../src/games/heist/solver.js";
+import { createHeistScenario, DEFAULT_HEIST_PARAMS } from "../src/scenarios/heist/index.js";
+
+describe("heist solver", () => {
+  it("finds par on the default map and a plan that achieves it", () => {
+    const solution = solveHeistScenario(DEFAULT_HEIST_PARAMS, { maxStates: 20_000 });
+
+    expect(solution.parTurns).toBe(7);
+    expect(solution.optimalScore).toBe(213);
+    expect(solution.parPlan).toHaveLength(7);
+
+    const scenario = createHeistScenario(DEFAULT_HEIST_PARAMS);
+    let state = scenario.init(0, ["solver"]);
+    for (const action of solution.parPlan) {
+      const result = scenario.adjudicate(state, "solver", action);
+      expect(result.valid).toBe(true);
+      state = result.state;
+    }
+    expect(scenario.isTerminal(state)).toBe(true);
+    expect(state.agents.solver).toMatchObject({ extracted: true });
+    expect(state.agents.solver.inventory).toContain("loot-1");
+    expect(scenario.score(state).solver).toBe(213);
+  });
+
+  it("reports no par when the objectives cannot be secured in time", () => {
+    const params = {
+      ...DEFAULT_HEIST_PARAMS,
+      winCondition: { ...DEFAULT_HEIST_PARAMS.winCondition, maxTurns: 4 },
+    };
+    const solution = solveHeistScenario(params);
+
+    expect(solution.parTurns).toBeNull();
+    expect(solution.parPlan).toEqual([]);
+    expect(solution.exhaustive).toBe(true);
+    expect(solution.optimalTurns).toBeLessThanOrEqual(4);
+  });
+
+  it("marks capped searches as not exhaustive", () => {
+    const solution = solveHeistScenario(DEFAULT_HEIST_PARAMS, { maxStates: 50 });
+
+    expect(solution.exhaustive).toBe(false);
+    expect(solution.statesExplored).toBe(50);
+  });
+});
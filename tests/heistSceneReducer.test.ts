@@ -49,4 +49,20 @@ describe("heist scene reducer", () => {
     expect(Object.keys(state.map.rooms).length).toBeGreaterThan(0);
     expect(state.unknownEvents?.some((entry) => entry.type === "HeistMysteryEvent")).toBe(true);
   });
+
+  it("reports capture when the match ends on max alert", () => {
+    const text = readFileSync(FIXTURE_PATH, "utf-8");
+    const parsed = parseJsonl(text);
+    const events = parsed.events.map((event) => event.raw as unknown as MatchEvent);
+    const withCapture = events.map((event) =>
+      event.type === "MatchEnded"
+        ? { ...event, details: { ...(event.details as object), outcome: "captured" } }
+        : event,
+    ) as MatchEvent[];
+
+    const state = foldEvents(withCapture);
+
+    expect(state.status).toBe("ended");
+    expect(state.terminationReason).toBe("capture");
+  });
 });
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { createHeistPlannerAgent } from "../src/agents/heist/plannerAgent.js";
+import { createRandomBidderAgent } from "../src/agents/resourceRivals/randomBidder.js";
+import { createValueBidderAgent } from "../src/agents/resourceRivals/valueBidder.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import { createHeistScenario } from "../src/scenarios/heist/index.js";
+import { createResourceRivalsScenario } from "../src/scenarios/resourceRivals/index.js";
+import { runTournament } from "../src/tournament/runTournament.js";
+
+describe("heistPlanner", () => {
+  it("plans through the default map and extracts with the loot", async () => {
+    const result = await runMatch(createHeistScenario(), [createHeistPlannerAgent("planner")], {
+      seed: 1,
+      maxTurns: 20,
+    });
+
+    const actions = result.events.flatMap((event) =>
+      event.type === "ActionSubmitted" ? [event.action] : [],
+    );
+    expect(actions).toEqual([
+      { type: "pickup", itemId: "keycard-1" },
+      { type: "move", toRoomId: "room-2" },
+      { type: "use_terminal", terminalId: "terminal-1" },
+      { type: "use_terminal", terminalId: "terminal-1" },
+      { type: "move", toRoomId: "room-3" },
+      { type: "pickup", itemId: "loot-1" },
+      { type: "move", toRoomId: "room-4" },
+      { type: "extract" },
+    ]);
+    expect(result.reason).toBe("completed");
+    expect(result.scores.planner).toBeGreaterThan(0);
+  });
+
+  it("does not chase items a rival already took", async () => {
+    const result = await runMatch(
+      createHeistScenario(),
+      [createHeistPlannerAgent("first"), createHeistPlannerAgent("second")],
+      { seed: 1, maxTurns: 20 },
+    );
+    const invalid = result.events.filter(
+      (event) => event.type === "ActionAdjudicated" && !event.valid,
+    );
+    expect(invalid).toEqual([]);
+  });
+});
+
+describe("valueBidder", () => {
+  it("outscores the random bidder", async () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const result = await runMatch(
+        createResourceRivalsScenario(),
+        [createValueBidderAgent("value"), createRandomBidderAgent("random")],
+        { seed, maxTurns: 30 },
+      );
+      expect(result.scores.value).toBeGreaterThan(result.scores.random);
+    }
+  });
+
+  it("is registered for tournaments", async () => {
+    const result = await runTournament({
+      seed: 7,
+      maxTurns: 30,
+      rounds: 1,
+      scenarioKey: "resourceRivals",
+      agentKeys: ["valueBidder", "conservative"],
+    });
+    expect(result.matchSummaries).toHaveLength(1);
+    expect(result.standings.map((row) => row.agentId).sort()).toEqual([
+      "conservative-1",
+      "valueBidder-0",
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { getScenarioAdapter } from "../src/agents/llm/adapters.js";
+import { resolveLlmBudgetConfig } from "../src/agents/llm/budget.js";
+import {
+  LLM_CASSETTE_FILENAME,
+  openLlmCassette,
+  type LlmCassetteFile,
+  type LlmCassetteMode,
+} from "../src/agents/llm/cassette.js";
+import { createLlmAgent } from "../src/agents/llm/createLlmAgent.js";
+import * as preflight from "../src/agents/llm/preflight.js";
+import { toStableJsonl } from "../src/core/json.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
+import { runMatchWithArtifacts } from "../src/tournament/runMatchWithArtifacts.js";
+
+const ai = vi.hoisted(() => ({ generateObject: vi.fn(), generateText: vi.fn() }));
+
+vi.mock("ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("ai")>()),
+  generateObject: ai.generateObject,
+  generateText: ai.generateText,
+}));
+
+function answerWithGuesses(): void {
+  let guess = 40;
+  ai.generateObject.mockImplementation(async () => {
+    guess += 7;
+    return {
+      object: { guess },
+      usage: { inputTokens: 30, outputTokens: 5, totalTokens: 35 },
+      finishReason: "stop",
+      response: { body: { choices: [{ message: { content: `{"guess":${guess}}` } }] } },
+    };
+  });
+}
+
+function failLiveCalls(): void {
+  ai.generateObject.mockRejectedValue(new Error("network disabled"));
+  ai.generateText.mockRejectedValue(new Error("network disabled"));
+}
+
+async function playWithCassette(
+  path: string,
+  mode: LlmCassetteMode,
+  model = "test",
+): Promise<string> {
+  const cassette = openLlmCassette(path, mode);
+  const agent = createLlmAgent(
+    "llm-0",
+    { provider: "ollama", model, budget: resolveLlmBudgetConfig(), cassette },
+    getScenarioAdapter("numberGuess"),
+  );
+  const result = await runMatch(createNumberGuessScenario(), [agent], { seed: 3, maxTurns: 3 });
+  cassette.flush();
+  return toStableJsonl(result.events);
+}
+
+describe("LLM call cassette", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "hm-cassette-"));
+    vi.spyOn(preflight, "preflightValidateLlmAgents").mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+    ai.generateObject.mockReset();
+    ai.generateText.mockReset();
+  });
+
+  it("replays a recorded match byte for byte without calling the provider", async () => {
+    answerWithGuesses();
+    const recordDir = join(tempDir, "record");
+    await runMatchWithArtifacts({
+      scenarioKey: "numberGuess",
+      agentKeys: ["llm:ollama:test-model"],
+      seed: 11,
+      maxTurns: 4,
+      matchId: "m_cassette",
+      outDir: recordDir,
+      llmCassette: { mode: "record" },
+    });
+    expect(ai.generateObject).toHaveBeenCalledTimes(4);
+
+    const cassettePath = join(recordDir, LLM_CASSETTE_FILENAME);
+    const recorded = JSON.parse(readFileSync(cassettePath, "utf-8")) as LlmCassetteFile;
+    const entries = Object.values(recorded.entries).flat();
+    expect(entries).toHaveLength(4);
+    expect(entries[0].result).toMatchObject({
+      finishReason: "stop",
+      usage: { totalTokens: 35 },
+    });
+
+    ai.generateObject.mockClear();
+    failLiveCalls();
+    const replayDir = join(tempDir, "replay");
+    await runMatchWithArtifacts({
+      scenarioKey: "numberGuess",
+      agentKeys: ["llm:ollama:test-model"],
+      seed: 11,
+      maxTurns: 4,
+      matchId: "m_cassette",
+      outDir: replayDir,
+      llmCassette: { mode: "replay", path: cassettePath },
+    });
+    expect(ai.generateObject).not.toHaveBeenCalled();
+    expect(readFileSync(join(replayDir, "match.jsonl"), "utf-8")).toBe(
+      readFileSync(join(recordDir, "match.jsonl"), "utf-8"),
+    );
+  });
+
+  it("starts recording from an empty file and writes it only on flush", () => {
+    const path = join(tempDir, LLM_CASSETTE_FILENAME);
+    const readEntries = () =>
+      Object.values((JSON.parse(readFileSync(path, "utf-8")) as LlmCassetteFile).entries).flat();
+    const request = {
+      kind: "text" as const,
+      provider: "ollama",
+      model: "test",
+      system: "system",
+      prompt: "prompt",
+    };
+    writeFileSync(
+      path,
+      JSON.stringify({ schemaVersion: "1", entries: { stale: [{ error: "old", latencyMs: 1 }] } }),
+    );
+
+    const cassette = openLlmCassette(path, "record");
+    expect(readEntries()).toEqual([]);
+    cassette.put(request, { result: "first", latencyMs: 2 });
+    expect(readEntries()).toEqual([]);
+    cassette.flush();
+    expect(readEntries()).toEqual([{ result: "first", latencyMs: 2 }]);
+
+    // A resumed run continues from what was flushed.
+    const resumed = openLlmCassette(path, "record", { resume: true });
+    resumed.put(request, { result: "second", latencyMs: 3 });
+    resumed.flush();
+    expect(readEntries().map((entry) => entry.result)).toEqual(["first", "second"]);
+  });
+
+  it("replays recorded failures as the same fallback actions", async () => {
+    failLiveCalls();
+    const path = join(tempDir, LLM_CASSETTE_FILENAME);
+    const recorded = await playWithCassette(path, "record");
+    expect(recorded).toContain("llm-request-failed");
+
+    ai.generateObject.mockClear();
+    ai.generateText.mockClear();
+    expect(await playWithCassette(path, "replay")).toBe(recorded);
+    expect(ai.generateObject).not.toHaveBeenCalled();
+    expect(ai.generateText).not.toHaveBeenCalled();
+  });
+
+  it("fails the turn when a replayed request was never recorded", async () => {
+    answerWithGuesses();
+    const path = join(tempDir, LLM_CASSETTE_FILENAME);
+    await playWithCassette(path, "record");
+
+    ai.generateObject.mockClear();
+    const events = (await playWithCassette(path, "replay", "other-model"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as Record<string, unknown>);
+    expect(ai.generateObject).not.toHaveBeenCalled();
+    const errors = events.filter((event) => event.type === "AgentError");
+    expect(errors.length).toBeGreaterThan(0);
+    expect(String(errors[0].message)).toContain("No recorded LLM response");
+
+    expect(() => openLlmCassette(join(tempDir, "missing.json"), "replay")).toThrow(
+      "LLM cassette not found",
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getScenarioAdapter } from "../src/agents/llm/adapters.js";
+import { resolveLlmBudgetConfig } from "../src/agents/llm/budget.js";
+import * as llmClient from "../src/agents/llm/client.js";
+import { createLlmAgent } from "../src/agents/llm/createLlmAgent.js";
+import {
+  composeLlmPrompt,
+  estimateTokens,
+  LLM_REPLY_RESERVE_TOKENS,
+  resolveLlmMemoryConfig,
+  type LlmMemoryConfig,
+  type LlmMemoryTurn,
+} from "../src/agents/llm/memory.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
+import { getAgentProvenanceDescriptor } from "../src/tournament/runTournament.js";
+
+const history: LlmMemoryTurn[] = [1, 2, 3].map((turn) => ({
+  turn,
+  observation: `observation ${turn}`,
+  action: `{"guess":${turn}}`,
+  ...(turn < 3 ? { feedback: `outcome ${turn}` } : {}),
+}));
+
+function mockStructuredPrompts(): string[] {
+  const prompts: string[] = [];
+  vi.spyOn(llmClient, "generateStructured").mockImplementation(async (_config, params) => {
+    prompts.push(params.prompt);
+    return {
+      object: { guess: 50 } as never,
+      usage: undefined,
+      finishReason: "stop",
+      responseBody: { mock: true },
+    };
+  });
+  return prompts;
+}
+
+async function playNumberGuess(memory?: LlmMemoryConfig): Promise<string[]> {
+  const prompts = mockStructuredPrompts();
+  const agent = createLlmAgent(
+    "llm-0",
+    {
+      provider: "ollama",
+      model: "test",
+      budget: { ...resolveLlmBudgetConfig(), maxTokensPerTurn: 4096 },
+      ...(memory ? { memory } : {}),
+    },
+    getScenarioAdapter("numberGuess"),
+  );
+  await runMatch(createNumberGuessScenario(), [agent], { seed: 1, maxTurns: 3 });
+  return prompts;
+}
+
+describe("LLM conversation memory", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("composes transcript, window and action log prompts", () => {
+    expect(composeLlmPrompt({ strategy: "none", windowTurns: 3 }, history, "now", 1000)).toBe(
+      "now",
+    );
+
+    const transcript = composeLlmPrompt(
+      { strategy: "transcript", windowTurns: 3 },
+      history,
+      "now",
+      1000,
+    );
+    expect(transcript).toContain(
+      'Turn 1 observation:\nobservation 1\nYour action: {"guess":1}\nOutcome: outcome 1',
+    );
+    expect(transcript).toContain('Your action: {"guess":3}\n\nCurrent turn:');
+    expect(transcript.endsWith("Current turn:\nnow")).toBe(true);
+
+    const window = composeLlmPrompt({ strategy: "window", windowTurns: 2 }, history, "now", 1000);
+    expect(window).not.toContain("observation 1");
+    expect(window).toContain("observation 2");
+    expect(window).toContain("observation 3");
+
+    const actionLog = composeLlmPrompt(
+      { strategy: "actionLog", windowTurns: 3 },
+      history,
+      "now",
+      1000,
+    );
+    expect(actionLog).toContain(
+      '- Turn 1: {"guess":1} -> outcome 1\n- Turn 2: {"guess":2} -> outcome 2\n- Turn 3: {"guess":3}\n',
+    );
+    expect(actionLog).not.toContain("observation 1");
+  });
+
+  it("reads how the previous action turned out from the next observation", () => {
+    expect(
+      getScenarioAdapter("numberGuess").describeOutcome?.(
+        { lastGuess: 40, feedback: "higher" },
+        {},
+      ),
+    ).toBe("Guess 40 was wrong; the number is higher.");
+    expect(
+      getScenarioAdapter("resourceRivals").describeOutcome?.(
+        { lastResult: { objectiveValue: 12, myBid: 5, opponentBid: 9, winner: "rival" } },
+        {},
+      ),
+    ).toBe("Bid 5 against 9 for an objective worth 12: lost.");
+    expect(
+      getScenarioAdapter("heist").describeOutcome?.(
+        { currentRoomId: "hall", inventory: [{ itemId: "keycard", type: "keycard" }] },
+        { currentRoomId: "lobby", inventory: [] },
+      ),
+    ).toBe("Moved from lobby to hall. Picked up keycard.");
+    expect(
+      getScenarioAdapter("heist").describeOutcome?.(
+        { currentRoomId: "lobby", inventory: [] },
+        { currentRoomId: "lobby", inventory: [] },
+      ),
+    ).toBe("Still in lobby.");
+  });
+
+  it("drops the oldest turns to stay within the token limit", () => {
+    const config: LlmMemoryConfig = { strategy: "transcript", windowTurns: 3 };
+    const trimmed = composeLlmPrompt(config, history, "now", 40);
+    expect(trimmed).not.toContain("observation 1");
+    expect(trimmed).toContain("observation 3");
+    expect(composeLlmPrompt(config, history, "now", 5)).toBe("now");
+  });
+
+  it("stays stateless by default", async () => {
+    const prompts = await playNumberGuess();
+    expect(prompts).toHaveLength(3);
+    expect(prompts.some((prompt) => prompt.includes("Earlier turns"))).toBe(false);
+  });
+
+  it("sends earlier observations and actions with transcript memory", async () => {
+    const prompts = await playNumberGuess({ strategy: "transcript", windowTurns: 3 });
+    expect(prompts[0]).not.toContain("Earlier turns");
+    expect(prompts[2]).toContain("Turn 1 observation:");
+    expect(prompts[2]).toContain("Turn 2 observation:");
+    expect(prompts[2]).toContain('Your action: {"guess":50}');
+    expect(prompts[2]).toMatch(/Outcome: Guess 50 was wrong; the number is (higher|lower)\./);
+  });
+
+  it("keeps prompt and reply within the per-turn token cap", async () => {
+    const calls: { system: string; prompt: string; maxOutputTokens: number }[] = [];
+    vi.spyOn(llmClient, "generateStructured").mockImplementation(async (config, params) => {
+      calls.push({
+        system: params.system,
+        prompt: params.prompt,
+        maxOutputTokens: config.maxOutputTokens ?? Infinity,
+      });
+      return {
+        object: { guess: 50 } as never,
+        usage: undefined,
+        finishReason: "stop",
+        responseBody: { mock: true },
+      };
+    });
+    const maxTokensPerTurn = 400;
+    const agent = createLlmAgent(
+      "llm-0",
+      {
+        provider: "ollama",
+        model: "test",
+        budget: { ...resolveLlmBudgetConfig(), maxTokensPerTurn },
+        memory: { strategy: "transcript", windowTurns: 3 },
+      },
+      getScenarioAdapter("numberGuess"),
+    );
+    await runMatch(createNumberGuessScenario(), [agent], { seed: 1, maxTurns: 12 });
+
+    expect(calls).toHaveLength(12);
+    expect(calls.at(-1)?.prompt).toContain("Earlier turns");
+    expect(calls.at(-1)?.prompt).not.toContain("Turn 1 observation:");
+    // The first observation carries the game briefing and overruns the cap by
+    // itself; every prompt that adds memory must leave the reply its room.
+    const withMemory = calls.filter((call) => call.prompt.includes("Earlier turns"));
+    expect(withMemory).toHaveLength(10);
+    for (const call of calls) {
+      expect(call.maxOutputTokens).toBeGreaterThanOrEqual(LLM_REPLY_RESERVE_TOKENS);
+    }
+    for (const call of withMemory) {
+      expect(
+        estimateTokens(call.system) + estimateTokens(call.prompt) + call.maxOutputTokens,
+      ).toBeLessThanOrEqual(maxTokensPerTurn);
+    }
+  });
+
+  it("resolves the policy from config and records it in provenance", () => {
+    expect(resolveLlmMemoryConfig()).toEqual({ strategy: "none", windowTurns: 3 });
+    expect(
+      resolveLlmMemoryConfig(
+        { memoryStrategy: "window" },
+        { memoryStrategy: "transcript", memoryWindowTurns: 5 },
+      ),
+    ).toEqual({ strategy: "window", windowTurns: 5 });
+    expect(resolveLlmMemoryConfig({ memoryStrategy: "everything" })).toEqual({
+      strategy: "none",
+      windowTurns: 3,
+    });
+
+    const descriptor = getAgentProvenanceDescriptor("llm:openrouter:some-model", {
+      modeProfile: { memoryStrategy: "window", memoryWindowTurns: 4 },
+    });
+    expect(descriptor?.metadata?.memory).toEqual({ strategy: "window", windowTurns: 4 });
+    expect(getAgentProvenanceDescriptor("llm:ollama:qwen2.5:3b")?.metadata?.memory).toEqual({
+      strategy: "none",
+    });
+  });
+});
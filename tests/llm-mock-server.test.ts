@@ -0,0 +1,115 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startMockLlmServer, type MockLlmServer } from "../src/agents/llm/mockServer.js";
+import { LlmPreflightError, preflightValidateLlmAgents } from "../src/agents/llm/preflight.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
+import { getAgentFactory, getAgentProvenanceDescriptor } from "../src/tournament/runTournament.js";
+
+async function playMock(script: string) {
+  const agent = getAgentFactory(`llm:mock:${script}`, { scenarioKey: "numberGuess" })("mock-0");
+  const result = await runMatch(createNumberGuessScenario(), [agent as never], {
+    seed: 5,
+    maxTurns: 2,
+  });
+  const raw = result.events.filter((event) => event.type === "AgentRawOutput");
+  const actions = result.events.flatMap((event) =>
+    event.type === "ActionSubmitted" ? [event.action] : [],
+  );
+  return { raw, actions };
+}
+
+function chat(server: MockLlmServer, model: string): Promise<Response> {
+  return fetch(`${server.baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model, messages: [{ role: "user", content: "hello" }] }),
+  });
+}
+
+describe("mock LLM provider", () => {
+  let server: MockLlmServer;
+  const originalEndpoint = process.env.MOCK_LLM_ENDPOINT;
+
+  beforeAll(async () => {
+    server = await startMockLlmServer({
+      port: 0,
+      slowDelayMs: 20,
+      scripts: { scripted: [{ content: '{"guess":7}' }, { status: 503 }] },
+    });
+    process.env.MOCK_LLM_ENDPOINT = server.url;
+  });
+
+  afterAll(async () => {
+    await server.close();
+    if (originalEndpoint === undefined) {
+      delete process.env.MOCK_LLM_ENDPOINT;
+    } else {
+      process.env.MOCK_LLM_ENDPOINT = originalEndpoint;
+    }
+  });
+
+  it("lists its scripts as models and passes preflight for known ones", async () => {
+    const response = await fetch(`${server.baseUrl}/models`);
+    const listing = (await response.json()) as { data: Array<{ id: string }> };
+    expect(listing.data.map((model) => model.id)).toEqual(
+      expect.arrayContaining(["valid", "fenced", "truncated", "error", "scripted"]),
+    );
+
+    await expect(
+      preflightValidateLlmAgents([
+        { kind: "llm", provider: "mock", model: "valid", purpose: "test" },
+      ]),
+    ).resolves.toBeUndefined();
+    await expect(
+      preflightValidateLlmAgents([
+        { kind: "llm", provider: "mock", model: "nonsense", purpose: "test" },
+      ]),
+    ).rejects.toThrow(LlmPreflightError);
+  });
+
+  it("drives agents through the structured, tolerant-decode and fallback paths", async () => {
+    const valid = await playMock("valid");
+    expect(valid.raw.map((event) => event.adjudicationPath)).toEqual(["structured", "structured"]);
+    expect(valid.actions[0]).toEqual({ guess: expect.any(Number) });
+    expect((await playMock("valid")).actions).toEqual(valid.actions);
+
+    const fenced = await playMock("fenced");
+    expect(fenced.raw[0].adjudicationPath).toBe("text+tolerant_decode");
+    expect(fenced.actions[0]).toEqual({ guess: expect.any(Number) });
+
+    const truncated = await playMock("truncated");
+    expect(truncated.raw[0]).toMatchObject({ truncated: true, adjudicationPath: "fallback" });
+
+    const wrongSchema = await playMock("wrong-schema");
+    expect(wrongSchema.raw[0].adjudicationPath).toBe("fallback");
+
+    expect((await playMock("slow")).raw[0].adjudicationPath).toBe("structured");
+  });
+
+  it("serves custom scripts in order and answers errors like a provider", async () => {
+    const first = (await (await chat(server, "scripted")).json()) as {
+      choices: Array<{ message: { content: string }; finish_reason: string }>;
+      usage: { total_tokens: number };
+    };
+    expect(first.choices[0]).toMatchObject({
+      message: { content: '{"guess":7}' },
+      finish_reason: "stop",
+    });
+    expect(first.usage.total_tokens).toBeGreaterThan(0);
+    expect((await chat(server, "scripted")).status).toBe(503);
+    expect((await chat(server, "scripted")).status).toBe(200);
+
+    const failed = await chat(server, "error");
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toMatchObject({ error: { type: "server_error" } });
+    expect((await chat(server, "nonsense")).status).toBe(404);
+  });
+
+  it("records mock agents as deterministic in provenance", () => {
+    expect(getAgentProvenanceDescriptor("llm:mock:valid")?.metadata).toMatchObject({
+      llmProvider: "mock",
+      model: "valid",
+      nondeterministic: false,
+    });
+  });
+});
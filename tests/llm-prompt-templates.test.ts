@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { getScenarioAdapter, resolveScenarioPrompt } from "../src/agents/llm/adapters.js";
+import { parseLlmAgentKey } from "../src/agents/llm/keys.js";
+import * as preflight from "../src/agents/llm/preflight.js";
+import { PROMPT_TEMPLATES_DIR_ENV, renderPromptTemplate } from "../src/agents/llm/prompts.js";
+import { sha256Hex } from "../src/core/hash.js";
+import { getAgentProvenanceDescriptor } from "../src/tournament/runTournament.js";
+import { runMatchWithArtifacts } from "../src/tournament/runMatchWithArtifacts.js";
+import type { MatchManifest } from "../src/tournament/types.js";
+
+const ai = vi.hoisted(() => ({ generateObject: vi.fn(), generateText: vi.fn() }));
+
+vi.mock("ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("ai")>()),
+  generateObject: ai.generateObject,
+  generateText: ai.generateText,
+}));
+
+describe("LLM prompt templates", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "hm-prompts-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    ai.generateObject.mockReset();
+  });
+
+  function writeTemplate(scenario: string, name: string, text: string): void {
+    mkdirSync(join(tempDir, scenario), { recursive: true });
+    writeFileSync(join(tempDir, scenario, `${name}.txt`), `${text}\n`);
+  }
+
+  it("parses @prompt= from agent keys", () => {
+    expect(parseLlmAgentKey("llm:ollama:qwen2.5:3b@prompt=heist-v3")).toEqual({
+      kind: "llm",
+      provider: "ollama",
+      model: "qwen2.5:3b",
+      purpose: "competitive",
+      promptTemplate: "heist-v3",
+    });
+    expect(parseLlmAgentKey("llm:ollama:qwen2.5:3b:test@prompt=heist-v3")).toMatchObject({
+      model: "qwen2.5:3b",
+      purpose: "test",
+      promptTemplate: "heist-v3",
+    });
+    expect(parseLlmAgentKey("llm:ollama:qwen2.5:3b")).not.toHaveProperty("promptTemplate");
+    expect(() => parseLlmAgentKey("llm:ollama:qwen2.5:3b@prompt=")).toThrow("Name a prompt");
+  });
+
+  it("renders the built-in templates with every variable filled", () => {
+    const heist = resolveScenarioPrompt("heist");
+    expect(heist.name).toBe("heist-v1");
+    expect(heist.text).toContain("You are playing the Heist scenario.");
+    expect(heist.text).toContain('- Wait/do nothing: {"type":"wait"}');
+    expect(heist.text).not.toContain("{{");
+    expect(heist.text.endsWith("\n")).toBe(false);
+    expect(heist.sha256).toBe(sha256Hex(Buffer.from(heist.text, "utf-8")));
+    expect(getScenarioAdapter("heist").systemPrompt).toBe(heist.text);
+
+    // The built-in templates do not depend on the working directory.
+    vi.spyOn(process, "cwd").mockReturnValue(tempDir);
+    expect(resolveScenarioPrompt("heist").sha256).toBe(heist.sha256);
+    vi.restoreAllMocks();
+
+    expect(() => resolveScenarioPrompt("heist", "heist-v999")).toThrow(
+      'Unknown prompt template "heist-v999" for scenario "heist". Available: heist-v1',
+    );
+    expect(() => resolveScenarioPrompt("heist", "../numberGuess/numberGuess-v1")).toThrow(
+      "Invalid prompt template name",
+    );
+    expect(() =>
+      renderPromptTemplate("{{ scenarioName }} {{goal}} {{map}}", { scenarioName: "Heist" }),
+    ).toThrow("Unknown prompt variable(s): goal, map. Available: scenarioName");
+  });
+
+  it("selects templates per agent key and records their hash in the manifest", async () => {
+    vi.stubEnv(PROMPT_TEMPLATES_DIR_ENV, tempDir);
+    vi.spyOn(preflight, "preflightValidateLlmAgents").mockResolvedValue(undefined);
+    writeTemplate("numberGuess", "numberGuess-v1", "Play {{scenarioName}}. Reply with JSON.");
+    writeTemplate("numberGuess", "numberGuess-v2", "Play {{scenarioName}}. Guess low first.");
+    ai.generateObject.mockResolvedValue({
+      object: { guess: 10 },
+      usage: { inputTokens: 10, outputTokens: 3, totalTokens: 13 },
+      finishReason: "stop",
+    });
+
+    const outDir = join(tempDir, "match");
+    await runMatchWithArtifacts({
+      scenarioKey: "numberGuess",
+      agentKeys: ["llm:ollama:test-model", "llm:ollama:test-model@prompt=numberGuess-v2"],
+      seed: 5,
+      maxTurns: 1,
+      matchId: "m_prompts",
+      outDir,
+    });
+
+    const systems = ai.generateObject.mock.calls.map(
+      ([call]) => (call as { system: string }).system,
+    );
+    expect(new Set(systems)).toEqual(
+      new Set(["Play NumberGuess. Reply with JSON.", "Play NumberGuess. Guess low first."]),
+    );
+
+    const manifest = JSON.parse(
+      readFileSync(join(outDir, "match_manifest.json"), "utf-8"),
+    ) as MatchManifest;
+    expect(manifest.agents.map((agent) => agent.metadata)).toEqual([
+      expect.objectContaining({
+        promptTemplate: "numberGuess-v1",
+        promptSha256: sha256Hex(Buffer.from("Play NumberGuess. Reply with JSON.", "utf-8")),
+      }),
+      expect.objectContaining({
+        promptTemplate: "numberGuess-v2",
+        promptSha256: sha256Hex(Buffer.from("Play NumberGuess. Guess low first.", "utf-8")),
+      }),
+    ]);
+
+    expect(
+      getAgentProvenanceDescriptor("llm:ollama:test-model@prompt=numberGuess-v2")?.metadata,
+    ).not.toHaveProperty("promptSha256");
+  });
+});
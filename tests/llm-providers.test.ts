@@ -0,0 +1,284 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { generatePlainText } from "../src/agents/llm/client.js";
+import { startMockLlmServer, type MockLlmServer } from "../src/agents/llm/mockServer.js";
+import { preflightValidateLlmAgents } from "../src/agents/llm/preflight.js";
+import {
+  getLlmProvider,
+  listLlmProviderIds,
+  loadLlmProvidersFile,
+  type LlmProviderConfigEntry,
+} from "../src/agents/llm/providers.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
+import { getAgentFactory, getAgentProvenanceDescriptor } from "../src/tournament/runTournament.js";
+
+interface SeenRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage["headers"];
+  body: Record<string, unknown> | undefined;
+}
+
+/** A stand-in for an Anthropic Messages endpoint that answers with fenced JSON. */
+async function startMessagesServer(seen: SeenRequest[]): Promise<Server> {
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf-8");
+      seen.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body: raw ? (JSON.parse(raw) as Record<string, unknown>) : undefined,
+      });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      if (req.url === "/v1/models") {
+        res.end(JSON.stringify({ data: [{ id: "claude-test", type: "model" }] }));
+        return;
+      }
+      res.end(
+        JSON.stringify({
+          content: [{ type: "text", text: '```json\n{"guess": 42}\n```' }],
+          stop_reason: "end_turn",
+          usage: { input_tokens: 40, output_tokens: 8 },
+        }),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  return server;
+}
+
+/** A stand-in for an OpenAI-compatible endpoint that answers every request with a chat completion. */
+async function startChatServer(seen: SeenRequest[]): Promise<Server> {
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf-8");
+      seen.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body: raw ? (JSON.parse(raw) as Record<string, unknown>) : undefined,
+      });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id: "chatcmpl-test",
+          object: "chat.completion",
+          created: 0,
+          model: "test-model",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: '{"guess": 42}' },
+              finish_reason: "stop",
+            },
+          ],
+          usage: { prompt_tokens: 40, completion_tokens: 8, total_tokens: 48 },
+        }),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  return server;
+}
+
+async function playOneTurn(key: string) {
+  const agent = getAgentFactory(key, { scenarioKey: "numberGuess" })("agent-0");
+  const result = await runMatch(createNumberGuessScenario(), [agent as never], {
+    seed: 2,
+    maxTurns: 1,
+  });
+  const raw = result.events.find((event) => event.type === "AgentRawOutput");
+  const submitted = result.events.find((event) => event.type === "ActionSubmitted");
+  return {
+    path: raw?.type === "AgentRawOutput" ? raw.adjudicationPath : undefined,
+    action: submitted?.type === "ActionSubmitted" ? submitted.action : undefined,
+  };
+}
+
+describe("LLM provider registry", () => {
+  let tempDir: string;
+  let mock: MockLlmServer;
+  let messagesServer: Server;
+  const seen: SeenRequest[] = [];
+
+  beforeAll(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "hm-providers-"));
+    mock = await startMockLlmServer({ port: 0 });
+    messagesServer = await startMessagesServer(seen);
+    const messagesUrl = `http://127.0.0.1:${(messagesServer.address() as AddressInfo).port}/v1`;
+    process.env.TEST_MESSAGES_KEY = "sk-test";
+
+    const providers: LlmProviderConfigEntry[] = [
+      { id: "local-vllm", baseUrl: mock.baseUrl, nondeterministic: false },
+      {
+        id: "messages",
+        api: "anthropic-messages",
+        baseUrl: messagesUrl,
+        apiKeyEnv: "TEST_MESSAGES_KEY",
+        temperature: 0,
+      },
+    ];
+    const path = join(tempDir, "providers.json");
+    writeFileSync(path, JSON.stringify({ schemaVersion: "1", providers }), "utf-8");
+    expect(loadLlmProvidersFile(path)).toEqual(["local-vllm", "messages"]);
+  });
+
+  afterAll(async () => {
+    await mock.close();
+    await new Promise<void>((resolve) => messagesServer.close(() => resolve()));
+    rmSync(tempDir, { recursive: true, force: true });
+    delete process.env.TEST_MESSAGES_KEY;
+  });
+
+  it("ships the built-in providers and names them for unknown keys", () => {
+    expect(listLlmProviderIds()).toEqual(
+      expect.arrayContaining(["ollama", "openrouter", "mock", "llamacpp", "anthropic"]),
+    );
+    expect(getLlmProvider("anthropic")).toMatchObject({
+      api: "anthropic-messages",
+      structuredOutput: false,
+    });
+    expect(() => getAgentFactory("llm:nowhere:model", { scenarioKey: "numberGuess" })).toThrow(
+      /Unknown LLM provider "nowhere".*llamacpp, anthropic/,
+    );
+  });
+
+  it("runs agents against an OpenAI-compatible provider from a config file", async () => {
+    await expect(
+      preflightValidateLlmAgents([
+        { kind: "llm", provider: "local-vllm", model: "valid", purpose: "test" },
+      ]),
+    ).resolves.toBeUndefined();
+
+    const turn = await playOneTurn("llm:local-vllm:valid");
+    expect(turn.path).toBe("structured");
+    expect(turn.action).toEqual({ guess: expect.any(Number) });
+    expect(getAgentProvenanceDescriptor("llm:local-vllm:valid")?.metadata).toMatchObject({
+      llmProvider: "local-vllm",
+      model: "valid",
+      nondeterministic: false,
+      memory: { strategy: "none" },
+    });
+  });
+
+  it("sends the built-in OpenAI-style providers to Chat Completions", async () => {
+    const chatSeen: SeenRequest[] = [];
+    const chatServer = await startChatServer(chatSeen);
+    const chatUrl = `http://127.0.0.1:${(chatServer.address() as AddressInfo).port}`;
+    const saved = {
+      OLLAMA_ENDPOINT: process.env.OLLAMA_ENDPOINT,
+      OPENROUTER_BASE_URL: process.env.OPENROUTER_BASE_URL,
+      OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
+    };
+    process.env.OLLAMA_ENDPOINT = chatUrl;
+    process.env.OPENROUTER_BASE_URL = `${chatUrl}/v1`;
+    process.env.OPENROUTER_API_KEY = "sk-or-test";
+    try {
+      for (const key of ["llm:ollama:test-model", "llm:openrouter:test-model"]) {
+        chatSeen.length = 0;
+        const turn = await playOneTurn(key);
+        expect(turn).toEqual({ path: "structured", action: { guess: 42 } });
+        expect(chatSeen.map((request) => `${request.method} ${request.url}`)).toEqual([
+          "POST /v1/chat/completions",
+        ]);
+        expect(chatSeen[0].body).toMatchObject({ model: "test-model" });
+      }
+    } finally {
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+      await new Promise<void>((resolve) => chatServer.close(() => resolve()));
+    }
+  });
+
+  it("cancels requests in flight when their abort signal fires", async () => {
+    // Accepts every request and never answers it.
+    const server = createServer(() => {});
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    const controller = new AbortController();
+    const params = { system: "Reply with JSON.", prompt: "{}" };
+    const base = { model: "test-model", baseUrl, apiKey: "test", abortSignal: controller.signal };
+    try {
+      const calls = [
+        generatePlainText({ ...base, provider: "mock" }, params),
+        generatePlainText({ ...base, provider: "claude", api: "anthropic-messages" }, params),
+      ];
+      setTimeout(() => controller.abort(), 20);
+      for (const call of calls) {
+        await expect(call).rejects.toThrow(/abort/i);
+      }
+    } finally {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it("speaks the Anthropic messages format without structured output", async () => {
+    await expect(
+      preflightValidateLlmAgents([
+        { kind: "llm", provider: "messages", model: "claude-test", purpose: "test" },
+      ]),
+    ).resolves.toBeUndefined();
+    await expect(
+      preflightValidateLlmAgents([
+        { kind: "llm", provider: "messages", model: "claude-missing", purpose: "test" },
+      ]),
+    ).rejects.toMatchObject({
+      details: ['messages model "claude-missing" not found in /models listing.'],
+    });
+
+    seen.length = 0;
+    const turn = await playOneTurn("llm:messages:claude-test");
+    expect(turn.path).toBe("text+tolerant_decode");
+    expect(turn.action).toEqual({ guess: 42 });
+
+    expect(seen.map((request) => `${request.method} ${request.url}`)).toEqual([
+      "POST /v1/messages",
+    ]);
+    expect(seen[0].headers).toMatchObject({
+      "x-api-key": "sk-test",
+      "anthropic-version": "2023-06-01",
+    });
+    expect(seen[0].body).toMatchObject({
+      model: "claude-test",
+      temperature: 0,
+      messages: [{ role: "user", content: expect.any(String) }],
+      max_tokens: expect.any(Number),
+    });
+  });
+
+  it("rejects invalid provider files before registering anything", () => {
+    const path = join(tempDir, "bad.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        schemaVersion: "1",
+        providers: [
+          { id: "fine", baseUrl: "http://127.0.0.1:9/v1" },
+          { id: "ollama", baseUrl: "http://127.0.0.1:9/v1" },
+          { id: "odd", api: "grpc", baseUrl: "localhost" },
+        ],
+      }),
+      "utf-8",
+    );
+    expect(() => loadLlmProvidersFile(path)).toThrow(
+      /already registered[\s\S]*providers\[2\]\.api[\s\S]*providers\[2\]\.baseUrl/,
+    );
+    expect(getLlmProvider("fine")).toBeUndefined();
+  });
+});
@@ -0,0 +1,122 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createBaselineAgent } from "../src/agents/baselineAgent.js";
+import { createRandomAgent } from "../src/agents/randomAgent.js";
+import type { MatchCheckpoint } from "../src/contract/interfaces.js";
+import { toStableJsonl } from "../src/core/json.js";
+import * as runMatchModule from "../src/engine/runMatch.js";
+import {
+  MATCH_CHECKPOINT_FILENAME,
+  resumeMatchWithArtifacts,
+  runMatchWithArtifacts,
+} from "../src/tournament/runMatchWithArtifacts.js";
+import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
+
+const { runMatch } = runMatchModule;
+const makeAgents = () => [createRandomAgent("random-0"), createBaselineAgent("baseline-1")];
+
+describe("match checkpoints", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    for (const dir of tempDirs) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  const makeTempDir = (): string => {
+    const dir = mkdtempSync(join(tmpdir(), "hm-checkpoint-"));
+    tempDirs.push(dir);
+    return dir;
+  };
+
+  it("resumes from a checkpoint into the same event log", async () => {
+    const config = { seed: 77, maxTurns: 8 };
+    const checkpoints: MatchCheckpoint[] = [];
+    const full = await runMatch(createNumberGuessScenario(), makeAgents(), {
+      ...config,
+      onCheckpoint: (checkpoint) => {
+        checkpoints.push(JSON.parse(JSON.stringify(checkpoint)) as MatchCheckpoint);
+      },
+    });
+    const checkpoint = checkpoints.find((entry) => entry.turn === 3);
+    expect(checkpoint).toBeDefined();
+    expect(checkpoint!.agents["random-0"].rngDraws).toBeGreaterThan(0);
+    expect(checkpoint!.agents["baseline-1"].snapshot).toBeDefined();
+
+    const resumed = await runMatch(createNumberGuessScenario(), makeAgents(), {
+      ...config,
+      resumeFrom: checkpoint,
+    });
+
+    expect(resumed.events[0].seq).toBe(checkpoint!.seq);
+    const stitched = [
+      ...full.events.filter((event) => event.seq < checkpoint!.seq),
+      ...resumed.events,
+    ];
+    expect(toStableJsonl(stitched)).toBe(toStableJsonl(full.events));
+    expect(resumed.scores).toEqual(full.scores);
+  });
+
+  it("refuses a checkpoint from a different match", async () => {
+    const checkpoints: MatchCheckpoint[] = [];
+    await runMatch(createNumberGuessScenario(), makeAgents(), {
+      seed: 5,
+      maxTurns: 4,
+      onCheckpoint: (checkpoint) => {
+        checkpoints.push(checkpoint);
+      },
+    });
+
+    await expect(
+      runMatch(createNumberGuessScenario(), makeAgents(), {
+        seed: 6,
+        maxTurns: 4,
+        resumeFrom: checkpoints[0],
+      }),
+    ).rejects.toThrow(/Cannot resume from checkpoint/);
+  });
+
+  it("resumes a crashed --outDir run from checkpoint.json", async () => {
+    const options = {
+      scenarioKey: "numberGuess",
+      agentKeys: ["random", "baseline"],
+      seed: 31,
+      maxTurns: 8,
+    };
+    const cleanDir = join(makeTempDir(), "clean");
+    await runMatchWithArtifacts({ ...options, outDir: cleanDir });
+    expect(existsSync(join(cleanDir, MATCH_CHECKPOINT_FILENAME))).toBe(false);
+
+    // Kill the log mid-way through turn 4, after turn 3's checkpoint.
+    const realRunMatch = runMatchModule.runMatch;
+    vi.spyOn(runMatchModule, "runMatch").mockImplementationOnce((scenario, agents, config) =>
+      realRunMatch(scenario, agents, {
+        ...config,
+        eventSink: async (event) => {
+          if (event.type === "ActionSubmitted" && event.turn === 4) {
+            throw new Error("process died");
+          }
+          await config.eventSink!(event);
+        },
+      }),
+    );
+    const crashedDir = join(makeTempDir(), "crashed");
+    await expect(runMatchWithArtifacts({ ...options, outDir: crashedDir })).rejects.toThrow(
+      "process died",
+    );
+    expect(existsSync(join(crashedDir, MATCH_CHECKPOINT_FILENAME))).toBe(true);
+
+    const outcome = await resumeMatchWithArtifacts(crashedDir);
+
+    const read = (dir: string) => readFileSync(join(dir, "match.jsonl"), "utf-8");
+    expect(read(crashedDir)).toBe(read(cleanDir));
+    expect(outcome.result.events.length).toBeGreaterThan(0);
+    expect(existsSync(join(crashedDir, MATCH_CHECKPOINT_FILENAME))).toBe(false);
+    expect(existsSync(join(crashedDir, "match_summary.json"))).toBe(true);
+  });
+});
@@ -0,0 +1,189 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { POST as cancelRoute } from "../src/app/api/matches/[matchId]/cancel/route.js";
+import { POST as pauseRoute } from "../src/app/api/matches/[matchId]/pause/route.js";
+import { POST as resumeRoute } from "../src/app/api/matches/[matchId]/resume/route.js";
+import { createBaselineAgent } from "../src/agents/baselineAgent.js";
+import { createRandomAgent } from "../src/agents/randomAgent.js";
+import type { Agent } from "../src/contract/interfaces.js";
+import type { MatchEvent } from "../src/contract/types.js";
+import {
+  MATCH_CONTROL_FILENAME,
+  watchMatchControlFile,
+  type MatchControlCommand,
+} from "../src/core/matchControlFile.js";
+import { createMatchControl } from "../src/engine/matchControl.js";
+import { resimulateMatch } from "../src/engine/resimulate.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
+import type {
+  NumberGuessAction,
+  NumberGuessObservation,
+} from "../src/scenarios/numberGuess/index.js";
+import type { MatchLifecycleStatusRecord } from "../src/server/matchLifecycle.js";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100 && !predicate(); attempt++) {
+    await tick();
+  }
+  expect(predicate()).toBe(true);
+}
+
+describe("match control", () => {
+  it("cancels mid-turn and logs MatchEnded with reason cancelled", async () => {
+    const control = createMatchControl();
+    let seenSignal: AbortSignal | undefined;
+    // Cancels on turn 3, then never answers.
+    const stalling: Agent<NumberGuessObservation, NumberGuessAction> = {
+      id: "stalling-1",
+      init: () => {},
+      act: (_observation, ctx) => {
+        seenSignal = ctx.signal;
+        if (ctx.turn < 3) {
+          return { guess: 1 };
+        }
+        control.cancel();
+        return new Promise<NumberGuessAction>(() => {});
+      },
+    };
+
+    const result = await runMatch(
+      createNumberGuessScenario(),
+      [createRandomAgent("random-0"), stalling],
+      { seed: 3, maxTurns: 10, signal: control.signal, turnGate: control.waitForTurn },
+    );
+
+    expect(seenSignal?.aborted).toBe(true);
+    const ended = result.events[result.events.length - 1];
+    expect(ended).toMatchObject({ type: "MatchEnded", reason: "cancelled", turns: 3 });
+    expect(
+      result.events.some(
+        (event) =>
+          event.type === "ActionSubmitted" && event.agentId === "stalling-1" && event.turn === 3,
+      ),
+    ).toBe(false);
+    expect(resimulateMatch(createNumberGuessScenario(), result.events).ok).toBe(true);
+  });
+
+  it("holds a paused match between turns and steps one turn at a time", async () => {
+    const control = createMatchControl();
+    const events: MatchEvent[] = [];
+    const turnsStarted = () => events.filter((event) => event.type === "TurnStarted").length;
+
+    control.pause();
+    const run = runMatch(
+      createNumberGuessScenario(),
+      [createRandomAgent("random-0"), createBaselineAgent("baseline-1")],
+      {
+        seed: 11,
+        maxTurns: 20,
+        eventSink: (event) => {
+          events.push(event);
+        },
+        signal: control.signal,
+        turnGate: control.waitForTurn,
+      },
+    );
+
+    await tick();
+    expect(control.state).toBe("paused");
+    expect(turnsStarted()).toBe(0);
+
+    control.step();
+    await waitFor(() => events.some((event) => event.type === "StateUpdated"));
+    await tick();
+    expect(turnsStarted()).toBe(1);
+
+    control.resume();
+    const result = await run;
+    expect(result.events.at(-1)).toMatchObject({ type: "MatchEnded" });
+    expect(result.events.at(-1)).not.toMatchObject({ reason: "cancelled" });
+  });
+
+  it("wakes a paused match on cancel", async () => {
+    const control = createMatchControl();
+    control.pause();
+    const run = runMatch(
+      createNumberGuessScenario(),
+      [createRandomAgent("random-0"), createBaselineAgent("baseline-1")],
+      { seed: 11, maxTurns: 20, signal: control.signal, turnGate: control.waitForTurn },
+    );
+    await tick();
+    control.cancel();
+
+    const result = await run;
+    expect(result.turns).toBe(0);
+    expect(result.events.at(-1)).toMatchObject({ type: "MatchEnded", reason: "cancelled" });
+  });
+});
+
+describe("match control routes", () => {
+  let dataDir = "";
+  const matchId = "match-20240102-030405-006-control";
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), "match-control-"));
+    process.env.HASHMATCH_DATA_DIR = dataDir;
+    process.env.HASHMATCH_OPERATOR_MODE = "true";
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.HASHMATCH_DATA_DIR;
+    delete process.env.HASHMATCH_OPERATOR_MODE;
+  });
+
+  const writeStatus = (status: MatchLifecycleStatusRecord["status"]): string => {
+    const matchDir = join(dataDir, "matches", matchId);
+    mkdirSync(matchDir, { recursive: true });
+    const record: MatchLifecycleStatusRecord = {
+      matchId,
+      status,
+      scenario: "numberGuess",
+      agents: ["random", "baseline"],
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      verified: null,
+      totalTurns: 5,
+      currentTurn: null,
+    };
+    writeFileSync(join(matchDir, "match_status.json"), JSON.stringify(record), "utf-8");
+    return matchDir;
+  };
+
+  const post = (route: typeof pauseRoute) =>
+    route(new Request(`http://localhost/api/matches/${matchId}`, { method: "POST" }), {
+      params: Promise.resolve({ matchId }),
+    });
+
+  it("queues commands for the runner and marks the match paused", async () => {
+    const matchDir = writeStatus("running");
+
+    const paused = await post(pauseRoute);
+    expect(paused.status).toBe(200);
+    expect(((await paused.json()) as MatchLifecycleStatusRecord).paused).toBe(true);
+    const resumed = await post(resumeRoute);
+    expect(((await resumed.json()) as MatchLifecycleStatusRecord).paused).toBe(false);
+    expect((await post(cancelRoute)).status).toBe(200);
+
+    const controlPath = join(matchDir, MATCH_CONTROL_FILENAME);
+    expect(existsSync(controlPath)).toBe(true);
+    const received: MatchControlCommand[] = [];
+    const stop = watchMatchControlFile(controlPath, (command) => received.push(command));
+    stop();
+    expect(received).toEqual(["pause", "resume", "cancel"]);
+    expect(readFileSync(controlPath, "utf-8").trim().split("\n")).toHaveLength(3);
+  });
+
+  it("rejects commands for finished matches and outside operator mode", async () => {
+    writeStatus("finished");
+    expect((await post(cancelRoute)).status).toBe(409);
+
+    process.env.HASHMATCH_OPERATOR_MODE = "false";
+    expect((await post(pauseRoute)).status).toBe(404);
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createBaselineAgent } from "../src/agents/baselineAgent.js";
+import { getScenarioAdapter } from "../src/agents/llm/adapters.js";
+import { resolveLlmBudgetConfig } from "../src/agents/llm/budget.js";
+import * as llmClient from "../src/agents/llm/client.js";
+import { createLlmAgent } from "../src/agents/llm/createLlmAgent.js";
+import { createRandomAgent } from "../src/agents/randomAgent.js";
+import { toStableJsonl } from "../src/core/json.js";
+import { verifyStateChain } from "../src/core/stateChain.js";
+import { defaultMatchMiddleware, type MatchMiddleware } from "../src/engine/middleware.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import { runMatchWithGateway } from "../src/engine/runMatchWithGateway.js";
+import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
+
+describe("match middleware", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("keeps LLM forensics and budget events identical through the local gateway", async () => {
+    vi.spyOn(llmClient, "generateStructured").mockResolvedValue({
+      object: { type: "guess", value: 5 },
+      usage: {
+        inputTokens: 5,
+        inputTokenDetails: { noCacheTokens: 5, cacheReadTokens: 0, cacheWriteTokens: 0 },
+        outputTokens: 5,
+        outputTokenDetails: { textTokens: 5, reasoningTokens: 0 },
+        totalTokens: 10,
+      },
+      finishReason: "stop",
+      responseBody: { mock: true },
+    });
+    const makeAgents = () => [
+      createLlmAgent(
+        "llm-0",
+        { provider: "ollama", model: "test", budget: resolveLlmBudgetConfig() },
+        getScenarioAdapter("numberGuess"),
+      ),
+      createBaselineAgent("baseline-1"),
+    ];
+    const config = { seed: 11, maxTurns: 3 };
+
+    const plain = await runMatch(createNumberGuessScenario(), makeAgents(), config);
+    const viaGateway = await runMatchWithGateway(
+      createNumberGuessScenario(),
+      makeAgents(),
+      config,
+      {
+        mode: "local",
+        config: { defaultDeadlineMs: 1000, maxResponseBytes: 1024 * 1024 },
+      },
+    );
+
+    const types = plain.events.map((event) => event.type);
+    expect(types).toContain("AgentBudget");
+    const rawOutput = plain.events.find((event) => event.type === "AgentRawOutput");
+    expect(rawOutput).toMatchObject({ provider: "ollama", model: "test" });
+    // latencyMs is wall-clock time, the only field allowed to differ between
+    // runs; the state chain commits to it, so each log's chain is checked alone.
+    expect(verifyStateChain(plain.events)?.ok).toBe(true);
+    expect(verifyStateChain(viaGateway.events)?.ok).toBe(true);
+    const withoutLatency = (events: typeof plain.events) =>
+      events.map((event) =>
+        "latencyMs" in event
+          ? { ...event, latencyMs: 0 }
+          : event.type === "StateUpdated"
+            ? { ...event, chainHash: "" }
+            : event,
+      );
+    expect(toStableJsonl(withoutLatency(viaGateway.events))).toBe(
+      toStableJsonl(withoutLatency(plain.events)),
+    );
+  });
+
+  it("runs custom layers at every hook", async () => {
+    const calls: string[] = [];
+    const tagging: MatchMiddleware<unknown, unknown, unknown> = {
+      onMatchStart: (ctx) => calls.push(`start:${ctx.agentIds.length}`),
+      beforeObserve: (observation) => ({ ...(observation as object), tagged: true }),
+      aroundAct: async (observation, ctx, next) => {
+        calls.push(`act:${ctx.turn}:${ctx.agentId}`);
+        const outcome = await next(observation);
+        return ctx.agentId === "random-0" ? { kind: "error", message: "vetoed" } : outcome;
+      },
+      afterAdjudicate: (submission, _result, ctx) =>
+        ctx.emit({ type: "AuditNote", agentId: submission.agentId, turn: ctx.turn }),
+      onMatchEnd: (result) => {
+        calls.push(`end:${result.turns}`);
+      },
+    };
+
+    const result = await runMatch(
+      createNumberGuessScenario(),
+      [createRandomAgent("random-0"), createBaselineAgent("baseline-1")],
+      { seed: 3, maxTurns: 1 },
+      { middleware: [...defaultMatchMiddleware(), tagging] },
+    );
+
+    expect(calls).toEqual(["start:2", "act:1:random-0", "act:1:baseline-1", "end:1"]);
+    const observations = result.events.filter((event) => event.type === "ObservationEmitted");
+    expect(observations).toHaveLength(2);
+    for (const event of observations) {
+      expect(event.observation).toMatchObject({ tagged: true });
+    }
+    expect(result.events).toContainEqual(
+      expect.objectContaining({ type: "AgentError", agentId: "random-0", message: "vetoed" }),
+    );
+    const notes = result.events.filter((event) => (event.type as string) === "AuditNote");
+    expect(notes).toEqual([expect.objectContaining({ agentId: "baseline-1", turn: 1 })]);
+  });
+});
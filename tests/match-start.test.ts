@@ -66,6 +66,7 @@ afterEach(() => {
   delete process.env.HASHMATCH_DATA_DIR;
   delete process.env.HASHMATCH_OPERATOR_MODE;
   vi.useRealTimers();
+  vi.restoreAllMocks();
 });
 
 describe("POST /api/matches/start", () => {
@@ -136,4 +137,43 @@ describe("POST /api/matches/start", () => {
     expect(terminalStatus.finishedAt).toBeDefined();
     expect(terminalStatus.verified).not.toBeNull();
   });
+
+  it("rejects scenario files for non-heist scenarios and unknown presets", async () => {
+    const postWith = (body: Record<string, unknown>) =>
+      POST(
+        new Request("http://localhost/api/matches/start", {
+          method: "POST",
+          body: JSON.stringify({ agents: ["noop", "noop"], seed: 1, ...body }),
+        }),
+      );
+
+    const wrongScenario = await postWith({ scenario, scenarioFile: "museum_night_seed24" });
+    expect(wrongScenario.status).toBe(400);
+
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    const unknownPreset = await postWith({ scenario: "heist", scenarioFile: "no_such_preset" });
+    expect(unknownPreset.status).toBe(400);
+    expect(await unknownPreset.json()).toEqual({ error: "Invalid scenario file" });
+    expect(String(logged.mock.calls[0])).toContain("no_such_preset");
+  });
+
+  it("refuses scenario files outside scenarios/heist without echoing their contents", async () => {
+    const outside = join(tempDir, "leak.scenario.json");
+    writeFileSync(outside, "secret-token-not-json", "utf-8");
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    for (const scenarioFile of [outside, "../../package.json", "../../../etc/passwd"]) {
+      const response = await POST(
+        new Request("http://localhost/api/matches/start", {
+          method: "POST",
+          body: JSON.stringify({ scenario: "heist", scenarioFile, agents: ["noop", "noop"] }),
+        }),
+      );
+      expect(response.status).toBe(400);
+      const body = await response.text();
+      expect(JSON.parse(body)).toEqual({ error: "Invalid scenario file" });
+      expect(body).not.toContain("secret-token");
+    }
+    expect(logged).toHaveBeenCalledTimes(3);
+  });
 });
@@ -259,6 +259,12 @@ describe("stripPrivateFields", () => {
     expect(stripped).toBe(true);
     expect(result).toEqual({ a: { b: { c: {}, d: 1 } } });
   });
+  it("strips team-shared _team fields", () => {
+    const input = { room: "vault", _team: { crew: [{ agentId: "b" }] } };
+    const { result, stripped } = stripPrivateFields(input);
+    expect(stripped).toBe(true);
+    expect(result).toEqual({ room: "vault" });
+  });
 });
 
 describe("_private field-level redaction", () => {
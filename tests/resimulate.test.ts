@@ -0,0 +1,179 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createConservativeAgent } from "../src/agents/resourceRivals/conservativeAgent.js";
+import { createRandomBidderAgent } from "../src/agents/resourceRivals/randomBidder.js";
+import { createBaselineAgent } from "../src/agents/baselineAgent.js";
+import { createRandomAgent } from "../src/agents/randomAgent.js";
+import { runVerifyMatchCli } from "../src/cli/verify-match.js";
+import type { Agent } from "../src/contract/interfaces.js";
+import type { MatchEvent } from "../src/contract/types.js";
+import { hashFile } from "../src/core/hash.js";
+import { stableStringify, toStableJsonl } from "../src/core/json.js";
+import { resimulateMatch } from "../src/engine/resimulate.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import {
+  createNumberGuessScenario,
+  type NumberGuessAction,
+  type NumberGuessObservation,
+} from "../src/scenarios/numberGuess/index.js";
+import { createResourceRivalsScenario } from "../src/scenarios/resourceRivals/index.js";
+import { runMatchWithArtifacts } from "../src/tournament/runMatchWithArtifacts.js";
+
+const makeAgents = () => [createRandomAgent("random-0"), createBaselineAgent("baseline-1")];
+
+async function recordNumberGuess(): Promise<MatchEvent[]> {
+  const result = await runMatch(createNumberGuessScenario(), makeAgents(), {
+    seed: 42,
+    maxTurns: 20,
+  });
+  return JSON.parse(JSON.stringify(result.events)) as MatchEvent[];
+}
+
+/** Records a match that slow-0 forfeits after 3 timeouts in a row. */
+async function recordForfeit(): Promise<MatchEvent[]> {
+  const slow: Agent<NumberGuessObservation, NumberGuessAction> = {
+    id: "slow-0",
+    init() {},
+    act: () => new Promise<NumberGuessAction>(() => {}),
+  };
+  vi.useFakeTimers();
+  try {
+    const matchPromise = runMatch(
+      createNumberGuessScenario(),
+      [slow, createBaselineAgent("baseline-1")],
+      { seed: 22, maxTurns: 10, maxTurnTimeMs: 5, maxConsecutiveTimeouts: 3 },
+    );
+    await vi.runAllTimersAsync();
+    const result = await matchPromise;
+    return JSON.parse(JSON.stringify(result.events)) as MatchEvent[];
+  } finally {
+    vi.useRealTimers();
+  }
+}
+
+describe("resimulateMatch", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    for (const dir of tempDirs) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  it("accepts an untouched sequential log", async () => {
+    const events = await recordNumberGuess();
+    const report = resimulateMatch(createNumberGuessScenario(), events);
+    expect(report).toEqual({ ok: true, eventsChecked: events.length });
+  });
+
+  it("accepts an untouched simultaneous log", async () => {
+    const agents = [createRandomBidderAgent("alice"), createConservativeAgent("bob")];
+    const result = await runMatch(createResourceRivalsScenario(), agents, {
+      seed: 9,
+      maxTurns: 10,
+    });
+    expect(result.events[0]).toMatchObject({ turnStructure: "simultaneous" });
+    const report = resimulateMatch(createResourceRivalsScenario(), result.events);
+    expect(report.ok).toBe(true);
+  });
+
+  it("reports the first divergent seq when feedback is rewritten", async () => {
+    const events = await recordNumberGuess();
+    const target = events.find((event) => event.type === "ActionAdjudicated")!;
+    if (target.type === "ActionAdjudicated") {
+      target.feedback = "correct";
+    }
+
+    const report = resimulateMatch(createNumberGuessScenario(), events);
+    expect(report.ok).toBe(false);
+    expect(report.divergence).toMatchObject({
+      seq: target.seq,
+      eventType: "ActionAdjudicated",
+      field: "feedback",
+      recorded: "correct",
+    });
+  });
+
+  it("re-derives a forfeit from the timeouts in a row", async () => {
+    const events = await recordForfeit();
+    const ended = events.at(-1)!;
+    expect(ended).toMatchObject({ type: "MatchEnded", reason: "agentForfeited" });
+
+    expect(resimulateMatch(createNumberGuessScenario(), events).ok).toBe(true);
+    const report = resimulateMatch(createNumberGuessScenario(), events, {
+      maxConsecutiveTimeouts: 4,
+    });
+    expect(report.divergence).toMatchObject({
+      seq: ended.seq,
+      eventType: "MatchEnded",
+      field: "reason",
+      recorded: "agentForfeited",
+    });
+  });
+
+  it("requires the default action after a timeout", async () => {
+    const events = await recordForfeit();
+    const timeout = events.find(
+      (event) => event.type === "AgentError" && event.errorType === "timeout",
+    )!;
+    const fallback = events.find(
+      (event) =>
+        event.type === "ActionSubmitted" && event.seq > timeout.seq && event.agentId === "slow-0",
+    )!;
+    if (fallback.type === "ActionSubmitted") {
+      fallback.action = { type: "guess", value: 50 };
+    }
+
+    const report = resimulateMatch(createNumberGuessScenario(), events);
+    expect(report.divergence).toMatchObject({
+      seq: fallback.seq,
+      eventType: "ActionSubmitted",
+      field: "action",
+      recorded: { type: "guess", value: 50 },
+      recomputed: { type: "guess", value: -1 },
+    });
+  });
+
+  it("catches impossible scores in a re-hashed match directory", async () => {
+    const outDir = mkdtempSync(join(tmpdir(), "hm-resimulate-"));
+    tempDirs.push(outDir);
+    await runMatchWithArtifacts({
+      scenarioKey: "numberGuess",
+      agentKeys: ["random", "baseline"],
+      seed: 42,
+      maxTurns: 20,
+      outDir,
+    });
+
+    const logPath = join(outDir, "match.jsonl");
+    const events = readFileSync(logPath, "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as MatchEvent);
+    const ended = events[events.length - 1];
+    if (ended.type === "MatchEnded") {
+      ended.scores = { "random-0": 100, "baseline-1": 0 };
+    }
+    writeFileSync(logPath, toStableJsonl(events), "utf-8");
+    const summaryPath = join(outDir, "match_summary.json");
+    const summary = JSON.parse(readFileSync(summaryPath, "utf-8")) as {
+      hashes: { logHash: string };
+    };
+    summary.hashes.logHash = await hashFile(logPath);
+    writeFileSync(summaryPath, `${stableStringify(summary)}\n`, "utf-8");
+
+    const output: string[] = [];
+    vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+      output.push(String(chunk));
+      return true;
+    });
+
+    expect(await runVerifyMatchCli(["--path", outDir])).toBe(0);
+    expect(await runVerifyMatchCli(["--path", outDir, "--resimulate"])).toBe(1);
+    expect(output.join("")).toContain(`FAIL at seq ${ended.seq} (MatchEnded.scores)`);
+  });
+});
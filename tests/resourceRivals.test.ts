@@ -104,6 +104,19 @@ describe("ResourceRivals scenario", () => {
     expect(afterBob.state.resources.bob).toBe(DEFAULT_STARTING_RESOURCES - 10);
   });
 
+  it("resolves a simultaneous batch of bids in one step", () => {
+    const state = scenario.init(42, ["alice", "bob"]);
+    const batch = scenario.adjudicateBatch!(state, [
+      { agentId: "alice", action: { bid: 10 } },
+      { agentId: "bob", action: { bid: 999 } },
+    ]);
+    expect(batch.results.map((entry) => entry.valid)).toEqual([true, false]);
+    expect(batch.state.currentObjective).toBe(1);
+    expect(batch.state.pendingBids).toEqual({});
+    expect(batch.state.bidHistory[0].bids).toEqual({ alice: 10, bob: 0 });
+    expect(batch.state.bidHistory[0].winner).toBe("alice");
+  });
+
   it("rejects invalid bid (over budget)", () => {
     const state = scenario.init(42, ["alice", "bob"]);
     const result = scenario.adjudicate(state, "alice", { bid: 999 });
@@ -174,6 +187,7 @@ describe("ResourceRivals full match", () => {
     // Match should end
     const matchEnded = result.events.find((e) => e.type === "MatchEnded");
     expect(matchEnded).toBeDefined();
+    expect(result.events[0]).toMatchObject({ turnStructure: "simultaneous" });
   });
 
   it("produces deterministic results from same seed", async () => {
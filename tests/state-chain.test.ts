@@ -0,0 +1,127 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createBaselineAgent } from "../src/agents/baselineAgent.js";
+import { createRandomAgent } from "../src/agents/randomAgent.js";
+import type { MatchEvent, StateUpdatedEvent } from "../src/contract/types.js";
+import { hashFile } from "../src/core/hash.js";
+import { stableStringify, toStableJsonl } from "../src/core/json.js";
+import { hashState, verifyStateChain } from "../src/core/stateChain.js";
+import { verifyMatchDirectory } from "../src/core/verifyMatchDirectory.js";
+import { resimulateMatch } from "../src/engine/resimulate.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
+import { runMatchWithArtifacts } from "../src/tournament/runMatchWithArtifacts.js";
+
+async function recordEvents(): Promise<MatchEvent[]> {
+  const result = await runMatch(
+    createNumberGuessScenario(),
+    [createRandomAgent("random-0"), createBaselineAgent("baseline-1")],
+    { seed: 42, maxTurns: 20 },
+  );
+  return JSON.parse(JSON.stringify(result.events)) as MatchEvent[];
+}
+
+const stateUpdates = (events: MatchEvent[]): StateUpdatedEvent[] =>
+  events.filter((event): event is StateUpdatedEvent => event.type === "StateUpdated");
+
+describe("state hash chain", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tempDirs) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  it("links every turn and verifies a partially streamed prefix", async () => {
+    const events = await recordEvents();
+    const updates = stateUpdates(events);
+    expect(updates.length).toBeGreaterThan(2);
+    for (const update of updates) {
+      expect(update.stateHash).toMatch(/^sha256:[0-9a-f]{64}$/);
+      expect(update.chainHash).toMatch(/^sha256:[0-9a-f]{64}$/);
+    }
+    expect(new Set(updates.map((update) => update.chainHash)).size).toBe(updates.length);
+
+    expect(verifyStateChain(events)).toEqual({ ok: true, turnsChecked: updates.length });
+    const prefix = events.filter((event) => event.seq <= updates[1].seq);
+    expect(verifyStateChain(prefix)).toEqual({ ok: true, turnsChecked: 2 });
+  });
+
+  it("pinpoints the turn whose hash was altered", async () => {
+    const events = await recordEvents();
+    const target = stateUpdates(events)[1];
+    target.stateHash = hashState({ forged: true });
+
+    const report = verifyStateChain(events);
+    expect(report?.ok).toBe(false);
+    expect(report?.brokenAt).toMatchObject({ seq: target.seq, turn: target.turn });
+  });
+
+  it("breaks the link of a turn whose adjudication was edited", async () => {
+    const events = await recordEvents();
+    const index = events.findIndex((event) => event.type === "ActionAdjudicated");
+    const adjudicated = events[index];
+    if (adjudicated.type !== "ActionAdjudicated") {
+      throw new Error("expected an ActionAdjudicated event");
+    }
+    adjudicated.feedback = { forged: true };
+    const target = events.slice(index).find((event) => event.type === "StateUpdated")!;
+
+    const report = verifyStateChain(events);
+    expect(report?.ok).toBe(false);
+    expect(report?.brokenAt).toMatchObject({ seq: target.seq, turn: adjudicated.turn });
+  });
+
+  it("re-simulation checks each stateHash against the replayed state", async () => {
+    const events = await recordEvents();
+    const target = stateUpdates(events)[0];
+    const forged = hashState({ forged: true });
+    target.stateHash = forged;
+
+    const report = resimulateMatch(createNumberGuessScenario(), events);
+    expect(report.divergence).toMatchObject({
+      seq: target.seq,
+      eventType: "StateUpdated",
+      field: "stateHash",
+      recorded: forged,
+    });
+  });
+
+  it("fails verify-match when a re-hashed log breaks the chain", async () => {
+    const outDir = mkdtempSync(join(tmpdir(), "hm-state-chain-"));
+    tempDirs.push(outDir);
+    await runMatchWithArtifacts({
+      scenarioKey: "numberGuess",
+      agentKeys: ["random", "baseline"],
+      seed: 42,
+      maxTurns: 20,
+      outDir,
+    });
+    expect((await verifyMatchDirectory(outDir)).stateChain?.ok).toBe(true);
+
+    const logPath = join(outDir, "match.jsonl");
+    const events = readFileSync(logPath, "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as MatchEvent);
+    const target = stateUpdates(events)[2];
+    target.stateHash = hashState({ forged: true });
+    writeFileSync(logPath, toStableJsonl(events), "utf-8");
+    const summaryPath = join(outDir, "match_summary.json");
+    const summary = JSON.parse(readFileSync(summaryPath, "utf-8")) as {
+      hashes: { logHash: string };
+    };
+    summary.hashes.logHash = await hashFile(logPath);
+    writeFileSync(summaryPath, `${stableStringify(summary)}\n`, "utf-8");
+
+    const report = await verifyMatchDirectory(outDir);
+    expect(report.logHash?.ok).toBe(true);
+    expect(report.status).toBe("fail");
+    expect(report.exitCode).toBe(1);
+    expect(report.stateChain?.brokenAt?.turn).toBe(target.turn);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { createBaselineAgent } from "../src/agents/baselineAgent.js";
+import { createRandomAgent } from "../src/agents/randomAgent.js";
+import type { Agent, AgentConfig } from "../src/contract/interfaces.js";
+import type { MatchEvent, ObservationEmittedEvent } from "../src/contract/types.js";
+import { resimulateMatch } from "../src/engine/resimulate.js";
+import { runMatch } from "../src/engine/runMatch.js";
+import { redactEvent } from "../src/lib/redaction/redactEvent.js";
+import { createHeistScenario } from "../src/scenarios/heist/index.js";
+import type { HeistAction, HeistObservation } from "../src/scenarios/heist/index.js";
+import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
+
+const teams = {
+  red: ["random-0", "baseline-2"],
+  blue: ["baseline-1", "random-3"],
+};
+
+const makeAgents = () => [
+  createRandomAgent("random-0"),
+  createBaselineAgent("baseline-1"),
+  createBaselineAgent("baseline-2"),
+  createRandomAgent("random-3"),
+];
+
+describe("team matches", () => {
+  it("records the teams and sums each team's scores", async () => {
+    const result = await runMatch(createNumberGuessScenario(), makeAgents(), {
+      seed: 42,
+      maxTurns: 10,
+      teams,
+    });
+
+    expect(result.events[0]).toMatchObject({ type: "MatchStarted", teams });
+    const expected = {
+      red: result.scores["random-0"] + result.scores["baseline-2"],
+      blue: result.scores["baseline-1"] + result.scores["random-3"],
+    };
+    expect(result.teams).toEqual(teams);
+    expect(result.teamScores).toEqual(expected);
+    expect(result.events.at(-1)).toMatchObject({ type: "MatchEnded", teamScores: expected });
+    expect(resimulateMatch(createNumberGuessScenario(), result.events).ok).toBe(true);
+  });
+
+  it("uses the scenario's scoreTeams and tells each agent its team", async () => {
+    const configs: Record<string, AgentConfig | undefined> = {};
+    const agents = makeAgents().map((agent) => ({
+      ...agent,
+      init(config: AgentConfig) {
+        configs[agent.id] = config;
+        agent.init(config);
+      },
+    }));
+    const scenario = {
+      ...createNumberGuessScenario(),
+      scoreTeams: () => ({ red: 7, blue: 3 }),
+    };
+
+    const result = await runMatch(scenario, agents, { seed: 3, maxTurns: 5, teams });
+
+    expect(result.teamScores).toEqual({ red: 7, blue: 3 });
+    expect(configs["baseline-2"]?.team).toEqual({ id: "red", members: teams.red });
+    expect(configs["baseline-1"]?.team).toEqual({ id: "blue", members: teams.blue });
+  });
+
+  it("rejects teams that do not cover every agent exactly once", async () => {
+    await expect(
+      runMatch(createNumberGuessScenario(), makeAgents(), {
+        seed: 1,
+        maxTurns: 5,
+        teams: { red: ["random-0", "baseline-1"], blue: ["baseline-1", "ghost"] },
+      }),
+    ).rejects.toThrow(
+      'Invalid teams: agent "baseline-1" is on both "red" and "blue"; ' +
+        'team "blue" lists unknown agent "ghost"; ' +
+        'agent "baseline-2" is on no team; agent "random-3" is on no team',
+    );
+    await expect(
+      runMatch(createNumberGuessScenario(), makeAgents().slice(0, 2), {
+        seed: 1,
+        maxTurns: 5,
+        teams: { all: ["random-0", "baseline-1"] },
+      }),
+    ).rejects.toThrow("at least two teams are required");
+  });
+
+  it("shows Heist crews each other and hides them from other viewers", async () => {
+    const agents = ["a", "b", "c", "d"].map(
+      (id): Agent<HeistObservation, HeistAction> => ({
+        id,
+        init() {},
+        act: () => ({ type: "wait" }),
+      }),
+    );
+    const crews = { crew1: ["a", "c"], crew2: ["b", "d"] };
+    const result = await runMatch(createHeistScenario(), agents, {
+      seed: 5,
+      maxTurns: 4,
+      teams: crews,
+    });
+
+    const observation = result.events.find(
+      (event): event is ObservationEmittedEvent =>
+        event.type === "ObservationEmitted" && event.agentId === "a",
+    )!;
+    expect(observation.observation).toMatchObject({
+      _team: {
+        teamId: "crew1",
+        crew: [{ agentId: "c", roomId: expect.any(String), inventory: [], extracted: false }],
+      },
+    });
+
+    const teamView = (event: MatchEvent, viewerTeam?: string[]) =>
+      (redactEvent(event, null, "live", viewerTeam) as ObservationEmittedEvent).observation;
+    expect(teamView(observation, crews.crew1)).toHaveProperty("_team");
+    expect(teamView(observation, crews.crew2)).not.toHaveProperty("_team");
+    expect(teamView(observation)).not.toHaveProperty("_team");
+  });
+});
@@ -5,6 +5,9 @@ import { join } from "node:path";
 import type { Agent, AgentContext } from "../src/contract/interfaces.js";
 import type { AgentId, JsonValue } from "../src/contract/types.js";
 import { runMatch } from "../src/engine/runMatch.js";
+import { runMatchWithGateway } from "../src/engine/runMatchWithGateway.js";
+import { resolveTimeControl } from "../src/engine/turnTimeout.js";
+import type { AgentAdapter } from "../src/gateway/types.js";
 import { createNumberGuessScenario } from "../src/scenarios/numberGuess/index.js";
 import type {
   NumberGuessAction,
@@ -258,3 +261,115 @@ describe("maxTurnTimeMs enforcement", () => {
     rmSync(tournamentDir, { recursive: true, force: true });
   });
 });
+
+function createSlowAgent(
+  id: AgentId,
+  delayMs: number,
+  seen: number[],
+): Agent<NumberGuessObservation, NumberGuessAction> {
+  return {
+    id,
+    init(): void {},
+    act(_observation, ctx): Promise<NumberGuessAction> {
+      seen.push(ctx.timeRemainingMs ?? -1);
+      return new Promise((resolve) =>
+        setTimeout(() => resolve({ type: "guess", value: 1 }), delayMs),
+      );
+    },
+  };
+}
+
+describe("clock time control", () => {
+  it("is chosen by the mode profile", () => {
+    expect(resolveTimeControl({ seed: 1, maxTurns: 1, maxTurnTimeMs: 500 })).toEqual({
+      mode: "fixed",
+      maxTurnTimeMs: 500,
+    });
+    expect(
+      resolveTimeControl({
+        seed: 1,
+        maxTurns: 1,
+        timeControl: "fixed",
+        modeProfile: { timeControl: "clock", clockBankMs: 60000, clockIncrementMs: 1000 },
+      }),
+    ).toEqual({ mode: "clock", bankMs: 60000, incrementMs: 1000 });
+  });
+
+  it("drains the bank with increments and forfeits on flag-fall", async () => {
+    vi.useFakeTimers();
+    const seen: number[] = [];
+    const matchPromise = runMatch(
+      createNumberGuessScenario(),
+      [createSlowAgent("slow-0", 40, seen), createConstantAgent("fast-1", 2)],
+      {
+        seed: 22,
+        maxTurns: 10,
+        modeProfile: { timeControl: "clock", clockBankMs: 100, clockIncrementMs: 10 },
+      },
+    );
+    await vi.runAllTimersAsync();
+    const result = await matchPromise;
+    vi.useRealTimers();
+
+    expect(result.events[0]).toMatchObject({
+      type: "MatchStarted",
+      timeControl: { mode: "clock", bankMs: 100, incrementMs: 10 },
+    });
+    expect(seen).toEqual([100, 70, 40, 10]);
+    const banks = result.events.flatMap((event) =>
+      event.type === "ActionSubmitted" && event.agentId === "slow-0" ? [event.timeRemainingMs] : [],
+    );
+    expect(banks).toEqual([70, 40, 10, 0]);
+    expect(
+      result.events.some(
+        (event) =>
+          event.type === "AgentError" &&
+          event.agentId === "slow-0" &&
+          event.errorType === "timeout",
+      ),
+    ).toBe(true);
+    expect(result.forfeitedBy).toBe("slow-0");
+    expect(result.events.at(-1)).toMatchObject({ type: "MatchEnded", reason: "agentForfeited" });
+  });
+
+  it("sends the remaining bank as the gateway deadline", async () => {
+    vi.useFakeTimers();
+    const deadlines: number[] = [];
+    const adapter: AgentAdapter = {
+      async requestAction(request) {
+        deadlines.push(request.deadlineMs);
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        const now = new Date().toISOString();
+        return {
+          action: { type: "guess", value: 1 },
+          transcript: {
+            matchId: request.matchId,
+            turn: request.turn,
+            agentId: request.agentId,
+            timestamp: now,
+            observationSentAt: now,
+            observationBytes: 0,
+            responseTimeMs: 30,
+            status: "ok",
+            fallbackApplied: false,
+          },
+        };
+      },
+    };
+    const matchPromise = runMatchWithGateway(
+      createNumberGuessScenario(),
+      [createConstantAgent("solo-0", 1)],
+      { seed: 33, maxTurns: 3, timeControl: "clock", clockBankMs: 1000, clockIncrementMs: 5 },
+      {
+        mode: "http",
+        config: { defaultDeadlineMs: 1000, maxResponseBytes: 1024 },
+        adapters: new Map([["solo-0", adapter]]),
+      },
+    );
+    await vi.runAllTimersAsync();
+    await matchPromise;
+    vi.useRealTimers();
+
+    expect(deadlines).toEqual([1000, 975, 950]);
+  });
+});
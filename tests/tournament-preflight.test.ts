@@ -54,6 +54,7 @@ describe("tournament preflight failures", () => {
         turns: 1,
         maxTurnTimeMs: 30000,
         timeoutsPerAgent,
+        reason: "completed",
       };
     });
 
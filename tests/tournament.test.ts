@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { runTournament } from "../src/tournament/runTournament.js";
+import { computeStandings } from "../src/tournament/standings.js";
 import type { TournamentConfig } from "../src/tournament/types.js";
 
 function makeConfig(overrides: Partial<TournamentConfig> = {}): TournamentConfig {
@@ -159,4 +160,126 @@ describe("Tournament Harness v0.1", () => {
       expect(JSON.stringify(r1.matchLogs)).toBe(JSON.stringify(r2.matchLogs));
     });
   });
+
+  describe("free-for-all", () => {
+    const ffaConfig = (overrides: Partial<TournamentConfig> = {}) =>
+      makeConfig({
+        format: "freeForAll",
+        rounds: 3,
+        agentKeys: ["random", "baseline", "random"],
+        includeEventLogs: true,
+        ...overrides,
+      });
+
+    it("seats every agent each round and rotates seat order", async () => {
+      const result = await runTournament(ffaConfig());
+
+      expect(result.tournament.format).toBe("freeForAll");
+      expect(result.matchSummaries.map((m) => m.matchKey)).toEqual([
+        "FFA:round1",
+        "FFA:round2",
+        "FFA:round3",
+      ]);
+      const seatOrders = result.matchSummaries.map((m) => {
+        const started = result.matchLogs![m.matchKey][0];
+        return started.type === "MatchStarted" ? started.agentIds : [];
+      });
+      expect(seatOrders).toEqual([
+        ["random-0", "baseline-1", "random-2"],
+        ["baseline-1", "random-2", "random-0"],
+        ["random-2", "random-0", "baseline-1"],
+      ]);
+    });
+
+    it("ranks each match and awards placement points", async () => {
+      const result = await runTournament(ffaConfig({ placementPoints: [5, 2, 0] }));
+
+      for (const m of result.matchSummaries) {
+        expect(m.agentIds).toHaveLength(3);
+        const places = m.agentIds.map((id) => m.placements![id]);
+        for (const [index, id] of m.agentIds.entries()) {
+          const beatenBy = m.agentIds.filter((other) => m.scores[other] > m.scores[id]).length;
+          expect(places[index]).toBe(beatenBy + 1);
+        }
+        const firsts = m.agentIds.filter((id) => m.placements![id] === 1);
+        expect(m.winner).toBe(firsts.length === 1 ? firsts[0] : null);
+      }
+
+      const totalPoints = result.standings.reduce((sum, row) => sum + row.points, 0);
+      expect(totalPoints).toBeCloseTo(7 * result.matchSummaries.length);
+      for (const row of result.standings) {
+        expect(row.matches).toBe(3);
+        expect(row.placementCounts).toHaveLength(3);
+        expect(row.placementCounts!.reduce((sum, count) => sum + count, 0)).toBe(3);
+      }
+    });
+
+    it("splits the points of shared places", () => {
+      const rows = computeStandings(
+        ["a", "b", "c", "d"],
+        [
+          {
+            matchId: "m",
+            matchKey: "FFA:round1",
+            seed: 1,
+            agentIds: ["a", "b", "c", "d"],
+            scores: { a: 10, b: 5, c: 5, d: 0 },
+            timeoutsPerAgent: { a: 0, b: 0, c: 0, d: 0 },
+            winner: "a",
+            turns: 1,
+            reason: "completed",
+          },
+        ],
+      );
+      const byId = Object.fromEntries(rows.map((row) => [row.agentId, row]));
+      expect(byId.a).toMatchObject({ points: 3, wins: 1, scoreAgainst: 5, scoreDiff: 5 });
+      expect(byId.b).toMatchObject({ points: 1.5, losses: 1, placementCounts: [0, 1, 0, 0] });
+      expect(byId.c.points).toBe(1.5);
+      expect(byId.d).toMatchObject({ points: 0, scoreDiff: -10, placementCounts: [0, 0, 0, 1] });
+    });
+  });
+
+  describe("teams", () => {
+    it("pairs teams, interleaves their seats and ranks them by team score", async () => {
+      const result = await runTournament(
+        makeConfig({
+          teamSize: 2,
+          rounds: 2,
+          agentKeys: ["random", "baseline", "random", "baseline"],
+          includeEventLogs: true,
+        }),
+      );
+
+      const teams = { "team-0": ["random-0", "baseline-1"], "team-1": ["random-2", "baseline-3"] };
+      expect(result.tournament.teams).toEqual(teams);
+      expect(result.matchSummaries.map((m) => m.matchKey)).toEqual([
+        "RR:team-0-vs-team-1:round1",
+        "RR:team-0-vs-team-1:round2",
+      ]);
+      const seatOrders = result.matchSummaries.map((m) => {
+        const started = result.matchLogs![m.matchKey][0];
+        return started.type === "MatchStarted" ? started.agentIds : [];
+      });
+      expect(seatOrders).toEqual([
+        ["random-2", "random-0", "baseline-3", "baseline-1"],
+        ["random-0", "random-2", "baseline-1", "baseline-3"],
+      ]);
+      for (const m of result.matchSummaries) {
+        expect(m.teams).toEqual(teams);
+        expect(m.teamScores!["team-0"]).toBe(m.scores["random-0"] + m.scores["baseline-1"]);
+        const [a, b] = [m.teamScores!["team-0"], m.teamScores!["team-1"]];
+        expect(m.winner).toBe(a > b ? "team-0" : b > a ? "team-1" : null);
+      }
+      expect(result.standings.map((row) => row.agentId).sort()).toEqual(["team-0", "team-1"]);
+      expect(result.standings.find((row) => row.agentId === "team-1")?.members).toEqual(
+        teams["team-1"],
+      );
+    });
+
+    it("rejects a team size that does not split the agents", async () => {
+      await expect(
+        runTournament(makeConfig({ teamSize: 2, agentKeys: ["random", "baseline", "random"] })),
+      ).rejects.toThrow("Team size 2 must be a positive integer");
+    });
+  });
 });